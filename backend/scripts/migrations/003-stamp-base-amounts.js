@@ -0,0 +1,82 @@
+/* Give every existing transaction its currency and base amount.
+ *
+ * Rows written before multi-currency support carry neither. The aggregations
+ * fall back to `amount` for such rows, which is exactly right for a user whose
+ * accounts are all in their base currency — and that was every user, since
+ * nothing could convert before. Stamping them anyway means the fallback only
+ * ever covers rows written straight to the model, and a later change of base
+ * currency has something to recompute.
+ *
+ * Accounts come first. The account form never offered a currency, so the
+ * model's USD default is on accounts whose owners have always seen them in
+ * their own currency. Each such account takes its owner's currency, which is
+ * what every figure already treated it as; stamping them as USD would
+ * instead convert a lifetime of dinars at the dollar rate.
+ *
+ * Idempotent: both selectors match nothing on a re-run, and the stamp itself
+ * is a pure function of the row, its accounts and the rate table. Rows whose
+ * account currency has no rate are left unstamped and reported; add the rate
+ * and run this again.
+ */
+const { reconvertTransactions } = require('../../src/services/fx');
+
+const UNSTAMPED = { baseAmount: { $exists: false } };
+
+async function up({ db, dryRun }) {
+    const accounts = db.collection('accounts');
+    const transactions = db.collection('transactions');
+
+    const owners = await db.collection('users')
+        .find({ 'settings.currency': { $nin: [null, 'USD'] } })
+        .project({ 'settings.currency': 1 })
+        .toArray();
+
+    const realigned = [];
+    for (const owner of owners) {
+        const mislabelled = await accounts
+            .find({ user: owner._id, currency: 'USD' })
+            .project({ _id: 1 })
+            .toArray();
+        if (mislabelled.length === 0) continue;
+
+        realigned.push(...mislabelled.map((account) => account._id));
+        if (!dryRun) {
+            await accounts.updateMany(
+                { _id: { $in: mislabelled.map((account) => account._id) } },
+                { $set: { currency: owner.settings.currency } }
+            );
+        }
+    }
+    console.log(`  USD accounts given their owner's currency: ${realigned.length}`);
+
+    const pending = await transactions.countDocuments(UNSTAMPED);
+    console.log(`  transactions without a base amount: ${pending}`);
+
+    if (dryRun) {
+        console.log('  [dry run] no writes performed');
+        return null;
+    }
+
+    const { updated, skipped } = await reconvertTransactions(UNSTAMPED);
+    console.log(`  stamped: ${updated}, skipped for want of a rate: ${skipped}`);
+    return { realigned, updated, skipped };
+}
+
+/**
+ * Drop the stamps — the aggregations fall back to `amount` without them —
+ * and put the realigned accounts back to USD.
+ */
+async function down({ db, meta }) {
+    const result = await db.collection('transactions').updateMany(
+        {},
+        { $unset: { currency: '', fxRate: '', baseAmount: '', transferAmount: '' } }
+    );
+    console.log(`  unstamped: ${result.modifiedCount}`);
+
+    if (meta.realigned && meta.realigned.length > 0) {
+        await db.collection('accounts').updateMany({ _id: { $in: meta.realigned } }, { $set: { currency: 'USD' } });
+        console.log(`  accounts back to USD: ${meta.realigned.length}`);
+    }
+}
+
+module.exports = { name: '003-stamp-base-amounts', up, down };
@@ -0,0 +1,59 @@
+/* Rebuild net worth history from the transactions already on record.
+ *
+ * The daily job only snapshots from the day it first runs, so without this
+ * the net worth chart starts empty for every existing user. Each user's days
+ * run from their first account or transaction to today, a year per pass so a
+ * long history is never all in memory at once.
+ *
+ * Idempotent: a day that already has a snapshot — from the job, or from an
+ * earlier run of this — is left as it is, so re-running only fills gaps.
+ * The rebuilt days use today's data: a transaction edited since shows at its
+ * new amount, which is the same figure the job would have recorded had it
+ * been running.
+ */
+const { buildSnapshots, saveSnapshots, firstActivity, startOfDay } = require('../../src/services/netWorth');
+
+const YEAR_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function up({ db, dryRun }) {
+    const startedAt = new Date();
+    const today = startOfDay(startedAt);
+    const users = await db.collection('accounts').distinct('user');
+    console.log(`  users with accounts: ${users.length}`);
+
+    let days = 0;
+    for (const userId of users) {
+        const first = await firstActivity(userId);
+        if (!first) continue;
+
+        for (let from = first; from <= today; from = new Date(from.getTime() + YEAR_DAYS * DAY_MS)) {
+            const to = new Date(Math.min(from.getTime() + (YEAR_DAYS - 1) * DAY_MS, today.getTime()));
+            if (dryRun) {
+                days += Math.round((to - from) / DAY_MS) + 1;
+                continue;
+            }
+            days += await saveSnapshots(await buildSnapshots(userId, from, to), { overwrite: false });
+        }
+    }
+
+    if (dryRun) {
+        console.log(`  [dry run] would rebuild up to ${days} day(s); no writes performed`);
+        return null;
+    }
+
+    console.log(`  days rebuilt or already on record: ${days}`);
+    return { through: today, startedAt };
+}
+
+/** Drop what this wrote: snapshots created since it ran, for days before it ran. */
+async function down({ db, meta }) {
+    if (!meta.through) return;
+    const result = await db.collection('networthsnapshots').deleteMany({
+        date: { $lt: new Date(meta.through) },
+        createdAt: { $gte: new Date(meta.startedAt) }
+    });
+    console.log(`  snapshots removed: ${result.deletedCount}`);
+}
+
+module.exports = { name: '004-backfill-net-worth', up, down };
@@ -0,0 +1,41 @@
+/* Give every existing transfer a status for its arriving leg.
+ *
+ * Until now one status covered both sides of a transfer, so reconciling the
+ * account it left also reconciled it in the account it arrived in. Each side
+ * now has its own: `status` for the leaving leg, `transferStatus` for the
+ * arriving one. Existing transfers start with the arriving leg where the
+ * shared status left it, which is what both accounts were already showing;
+ * reconciled ones stay locked, as they were.
+ *
+ * Idempotent: the selector only matches transfers without the new field.
+ */
+const UNSPLIT = { type: 'transfer', transferStatus: { $exists: false } };
+
+async function up({ db, dryRun }) {
+    const transactions = db.collection('transactions');
+
+    const pending = await transactions.countDocuments(UNSPLIT);
+    console.log(`  transfers without an arriving-leg status: ${pending}`);
+
+    if (dryRun) {
+        console.log('  [dry run] no writes performed');
+        return null;
+    }
+
+    const result = await transactions.updateMany(UNSPLIT, [
+        { $set: { transferStatus: { $ifNull: ['$status', 'pending'] } } }
+    ]);
+    console.log(`  stamped: ${result.modifiedCount}`);
+    return { updated: result.modifiedCount };
+}
+
+/** Drop the field; the leaving leg's status is the shared one again. */
+async function down({ db }) {
+    const result = await db.collection('transactions').updateMany(
+        { transferStatus: { $exists: true } },
+        { $unset: { transferStatus: '' } }
+    );
+    console.log(`  unstamped: ${result.modifiedCount}`);
+}
+
+module.exports = { name: '005-split-transfer-status', up, down };
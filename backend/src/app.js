@@ -35,6 +35,17 @@ const goalsRoutes = require('./routes/goals');
 const recurringRoutes = require('./routes/recurring');
 const notificationRoutes = require('./routes/notifications');
 const accountRoutes = require('./routes/accounts');
+const importRoutes = require('./routes/imports');
+const tagRoutes = require('./routes/tags');
+const ruleRoutes = require('./routes/rules');
+const attachmentRoutes = require('./routes/attachments');
+const trashRoutes = require('./routes/trash');
+const duplicateRoutes = require('./routes/duplicates');
+const payeeRoutes = require('./routes/payees');
+const refundRoutes = require('./routes/refunds');
+const investmentRoutes = require('./routes/investments');
+const netWorthRoutes = require('./routes/netWorth');
+const fxRateRoutes = require('./routes/fxRates');
 const { errorHandler } = require('./middlewares/error');
 
 const app = express();
@@ -162,6 +173,19 @@ app.use(cors({
 
 
 // Body parsing middleware
+// Statement and exchange-rate imports carry the whole file as text, so they
+// get a larger limit.
+// Mounted first: body-parser skips a request whose body is already parsed, so
+// the global 10kb limit below never sees these.
+app.use('/api/v1/imports', express.json({ limit: '2mb' }));
+app.use('/api/v1/fx-rates/import', express.json({ limit: '2mb' }));
+app.use('/api/v1/investments/prices/import', express.json({ limit: '2mb' }));
+// Attachments arrive base64-encoded: 5 MB of file is about 6.7 MB of JSON.
+app.use('/api/v1/attachments', express.json({ limit: '8mb' }));
+// Bulk, trash and reconciliation actions take up to 500 ids, about 14 KB.
+app.use('/api/v1/transactions/bulk', express.json({ limit: '32kb' }));
+app.use('/api/v1/trash', express.json({ limit: '32kb' }));
+app.use('/api/v1/accounts/:id/reconciliation/cleared', express.json({ limit: '32kb' }));
 app.use(express.json({ limit: '10kb' })); // Limit JSON body size
 app.use(express.urlencoded({ extended: true, limit: '10kb' }));
 
@@ -195,17 +219,28 @@ app.use('/api/v1/auth/signup', credentialLimiter);
 
 app.use('/api/v1/auth', authLimiter, authRoutes);
 app.use('/api/v1/users', userRoutes);
+app.use('/api/v1/fx-rates', fxRateRoutes);
 
 // Business routes. Subscription enforcement lives in each router via
 // middlewares/checkSubscription, not here.
 app.use('/api/v1/transactions', transactionRoutes);
 app.use('/api/v1/budgets', budgetRoutes);
 app.use('/api/v1/categories', categoryRoutes);
+app.use('/api/v1/tags', tagRoutes);
+app.use('/api/v1/payees', payeeRoutes);
+app.use('/api/v1/rules', ruleRoutes);
+app.use('/api/v1/attachments', attachmentRoutes);
+app.use('/api/v1/trash', trashRoutes);
+app.use('/api/v1/duplicates', duplicateRoutes);
+app.use('/api/v1/refunds', refundRoutes);
+app.use('/api/v1/investments', investmentRoutes);
+app.use('/api/v1/net-worth', netWorthRoutes);
 app.use('/api/v1/export', exportRoutes);
 app.use('/api/v1/goals', goalsRoutes);
 app.use('/api/v1/recurring', recurringRoutes);
 app.use('/api/v1/notifications', notificationRoutes);
 app.use('/api/v1/accounts', accountRoutes);
+app.use('/api/v1/imports', importRoutes);
 app.use('/api/v1/metrics', metricsRoutes);
 
 // Enhanced error logging before error handler
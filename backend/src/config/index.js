@@ -1,5 +1,6 @@
 /* Centralized configuration from environment variables */
 const crypto = require('crypto');
+const path = require('path');
 const dotenv = require('dotenv');
 dotenv.config();
 
@@ -63,5 +64,9 @@ module.exports = {
     accessTokenExpiresIn: process.env.ACCESS_TOKEN_EXPIRES_IN || '15m',
     refreshTokenExpiresIn: process.env.REFRESH_TOKEN_EXPIRES_IN || '7d',
     frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5174',
+    // Where transaction attachments live: 'local' (a directory on this host)
+    // or 'gridfs' (the app's own MongoDB, for hosts without a persistent disk).
+    attachmentStorage: process.env.ATTACHMENT_STORAGE || 'local',
+    attachmentDir: process.env.ATTACHMENT_DIR || path.join(__dirname, '../../uploads/attachments'),
     nodeEnv
 };
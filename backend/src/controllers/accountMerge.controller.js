@@ -0,0 +1,17 @@
+/* Account merge controller: merging one account into another, and closing one.
+ * Both live in services/accountMerge. */
+const asyncHandler = require('../utils/asyncHandler');
+const { success } = require('../utils/response');
+const accountMerge = require('../services/accountMerge');
+
+const mergeAccount = asyncHandler(async (req, res) => {
+    const result = await accountMerge.mergeAccounts(req.user._id, req.params.id, req.body.into);
+    return success(res, result, 'Accounts merged successfully');
+});
+
+const closeAccount = asyncHandler(async (req, res) => {
+    const result = await accountMerge.closeAccount(req.user._id, req.params.id, req.body);
+    return success(res, result, 'Account closed successfully');
+});
+
+module.exports = { mergeAccount, closeAccount };
@@ -2,9 +2,11 @@
 const Account = require('../models/account.model');
 const Transaction = require('../models/transaction.model');
 const User = require('../models/user.model');
+const CategorizationRule = require('../models/categorizationRule.model');
 const asyncHandler = require('../utils/asyncHandler');
 const { success, successList, created, error } = require('../utils/response');
-const { TransactionQueries } = require('../utils/dbOptimization');
+const { PIVOT, baseCurrencyOf, createConverter } = require('../services/fx');
+const { withBalances } = require('../services/accountBalances');
 
 const DEFAULT_ACCOUNT_NAME = 'Main Account';
 
@@ -57,16 +59,9 @@ async function resolveDefaultAccount(userId, currency) {
     }
 }
 
-/** Merge each account with its derived balance. */
-async function withBalances(userId, accounts) {
-    const rows = await Transaction.aggregate(TransactionQueries.getAccountBalances(userId));
-    const netByAccount = new Map(rows.map((row) => [String(row._id), row.net]));
-
-    return accounts.map((account) => {
-        const plain = account.toObject ? account.toObject() : account;
-        const net = netByAccount.get(String(plain._id)) || 0;
-        return { ...plain, balance: plain.openingBalance + net };
-    });
+/** Refuse a currency nothing can convert, before an account is opened in it. */
+async function assertConvertible(currency) {
+    if (currency) await createConverter()(currency, PIVOT, new Date());
 }
 
 const listAccounts = asyncHandler(async (req, res) => {
@@ -91,19 +86,42 @@ const createAccount = asyncHandler(async (req, res) => {
     const existing = await Account.findOne({ user: req.user._id, name: req.body.name });
     if (existing) return error(res, 'An account with that name already exists', 400);
 
+    await assertConvertible(req.body.currency);
+
     // The first account a user creates becomes their default.
     const count = await Account.countDocuments({ user: req.user._id });
 
     const account = await Account.create({
         ...req.body,
+        // A loan starts owing what was borrowed, unless told it is part paid.
+        ...(req.body.type === 'loan' && !req.body.openingBalance && { openingBalance: -req.body.principal }),
+        // Like the default account, in the user's own currency unless told otherwise.
+        currency: req.body.currency || await baseCurrencyOf(req.user._id),
         user: req.user._id,
         isDefault: count === 0
     });
 
-    return created(res, { ...account.toObject(), balance: account.openingBalance }, 'Account created successfully');
+    const [withBalance] = await withBalances(req.user._id, [account]);
+    return created(res, withBalance, 'Account created successfully');
 });
 
 const updateAccount = asyncHandler(async (req, res) => {
+    if (req.body.currency) {
+        const current = await Account.findOne({ _id: req.params.id, user: req.user._id }).select('currency').lean();
+        if (!current) return error(res, 'Account not found', 404);
+
+        // Its transactions are amounts in the old currency; relabelling them
+        // would change what every one of them is worth.
+        if (req.body.currency !== current.currency) {
+            const inUse = await Transaction.exists({
+                user: req.user._id,
+                $or: [{ account: req.params.id }, { transferTo: req.params.id }]
+            });
+            if (inUse) return error(res, 'An account with transactions cannot change currency.', 400);
+            await assertConvertible(req.body.currency);
+        }
+    }
+
     const account = await Account.findOneAndUpdate(
         { _id: req.params.id, user: req.user._id },
         req.body,
@@ -139,6 +157,12 @@ const deleteAccount = asyncHandler(async (req, res) => {
     }
 
     await Account.deleteOne({ _id: account._id });
+    // A rule still naming the account would fail every transaction it matched
+    // with "Account not found"; the rule keeps its other actions.
+    await CategorizationRule.updateMany(
+        { user: req.user._id, 'actions.account': account._id },
+        { $unset: { 'actions.account': '' } }
+    );
     return success(res, null, 'Account deleted successfully');
 });
 
@@ -0,0 +1,96 @@
+/* Attachments controller: receipts and documents on transactions.
+ *
+ * Every lookup is by (id, user), so one user can never read, list or delete
+ * another's files, even with a valid attachment id in hand.
+ */
+const Attachment = require('../models/attachment.model');
+const asyncHandler = require('../utils/asyncHandler');
+const { success, successList, created, error } = require('../utils/response');
+const { saveAttachment, removeAttachments } = require('../services/attachments');
+const { getStorage } = require('../services/attachmentStorage');
+const logger = require('../utils/logger');
+
+// What clients see. storageKey is an implementation detail and the thumbnail
+// has its own endpoint.
+const FIELDS = '_id transaction filename contentType size hasThumbnail createdAt';
+
+const present = (attachment) => ({
+    _id: attachment._id,
+    transaction: attachment.transaction,
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    hasThumbnail: attachment.hasThumbnail,
+    createdAt: attachment.createdAt
+});
+
+/** Quoted for Content-Disposition, with a UTF-8 form for non-ASCII names. */
+const dispositionFor = (filename) => {
+    const ascii = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+    return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+};
+
+const listAttachments = asyncHandler(async (req, res) => {
+    const attachments = await Attachment.find({ user: req.user._id, transaction: req.query.transaction })
+        .select(FIELDS)
+        .sort({ createdAt: 1 })
+        .lean();
+    return successList(res, attachments, 'Attachments retrieved successfully');
+});
+
+const uploadAttachment = asyncHandler(async (req, res) => {
+    const { transaction, ...file } = req.body;
+    const attachment = await saveAttachment(req.user._id, transaction, file);
+    return created(res, present(attachment), 'Attachment uploaded');
+});
+
+const downloadAttachment = asyncHandler(async (req, res) => {
+    const attachment = await Attachment.findOne({ _id: req.params.id, user: req.user._id }).lean();
+    if (!attachment) return error(res, 'Attachment not found', 404);
+
+    let stream;
+    try {
+        stream = await getStorage().open(attachment.storageKey);
+    } catch (err) {
+        logger.error('Attachment file missing', { attachmentId: attachment._id, error: err.message });
+        return error(res, 'Attachment file not found', 404);
+    }
+
+    res.set({
+        'Content-Type': attachment.contentType,
+        'Content-Length': attachment.size,
+        'Content-Disposition': dispositionFor(attachment.filename),
+        'Cache-Control': 'private, no-store'
+    });
+    stream.on('error', (err) => {
+        logger.error('Attachment stream failed', { attachmentId: attachment._id, error: err.message });
+        res.destroy(err);
+    });
+    stream.pipe(res);
+});
+
+const getThumbnail = asyncHandler(async (req, res) => {
+    const attachment = await Attachment.findOne({ _id: req.params.id, user: req.user._id })
+        .select('+thumbnail')
+        .lean();
+    if (!attachment || !attachment.thumbnail) return error(res, 'Thumbnail not found', 404);
+
+    res.set({ 'Content-Type': 'image/jpeg', 'Cache-Control': 'private, max-age=86400' });
+    return res.send(Buffer.from(attachment.thumbnail.buffer || attachment.thumbnail));
+});
+
+const deleteAttachment = asyncHandler(async (req, res) => {
+    const exists = await Attachment.exists({ _id: req.params.id, user: req.user._id });
+    if (!exists) return error(res, 'Attachment not found', 404);
+
+    await removeAttachments(req.user._id, { _id: req.params.id });
+    return success(res, null, 'Attachment deleted');
+});
+
+module.exports = {
+    listAttachments,
+    uploadAttachment,
+    downloadAttachment,
+    getThumbnail,
+    deleteAttachment
+};
@@ -7,6 +7,7 @@ const logger = require('../utils/logger');
 const enhancedLogger = require('../utils/enhancedLogger');
 const asyncHandler = require('../utils/asyncHandler');
 const { success, created, error, successMessage } = require('../utils/response');
+const { applyTemplate } = require('../services/categoryTemplates');
 
 const normalizeEmail = (email) => (email || '').trim().toLowerCase();
 const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -35,7 +36,7 @@ const getRefreshCookieOptions = () => ({
 });
 
 const signup = asyncHandler(async (req, res) => {
-    const { name, email, password } = req.body;
+    const { name, email, password, country, categoryTemplate } = req.body;
     const normalizedEmail = normalizeEmail(email);
     const exists = await User.findOne({
         email: new RegExp(`^${escapeRegex(normalizedEmail)}$`, 'i')
@@ -50,9 +51,23 @@ const signup = asyncHandler(async (req, res) => {
         password: hashed,
         isActive: true,
         activatedAt: now,
-        expiresAt: addDays(TRIAL_DAYS)
+        expiresAt: addDays(TRIAL_DAYS),
+        ...(country && { settings: { country } })
     });
 
+    // Starter categories are a convenience: the account stands without them.
+    if (categoryTemplate) {
+        try {
+            await applyTemplate(user._id, categoryTemplate, user.settings.country);
+        } catch (templateError) {
+            logger.warn('Failed to apply category template at signup', {
+                userId: user._id,
+                template: categoryTemplate,
+                error: templateError.message
+            });
+        }
+    }
+
     // Generate tokens and set cookies (auto-login after signup)
     const access = signAccess({ sub: user._id, role: user.role });
     const refresh = signRefresh({ sub: user._id });
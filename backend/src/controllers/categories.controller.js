@@ -2,6 +2,9 @@
 const Category = require('../models/category.model');
 const asyncHandler = require('../utils/asyncHandler');
 const { success, successList, created, error } = require('../utils/response');
+const { assertParent } = require('../services/categoryTree');
+const categoryMerge = require('../services/categoryMerge');
+const categoryTemplates = require('../services/categoryTemplates');
 
 const listCategories = asyncHandler(async (req, res) => {
     const categories = await Category.find({ user: req.user._id });
@@ -11,20 +14,51 @@ const listCategories = asyncHandler(async (req, res) => {
 const createCategory = asyncHandler(async (req, res) => {
     const existing = await Category.findOne({ user: req.user._id, name: req.body.name });
     if (existing) return error(res, 'Category already exists', 400);
+    await assertParent(req.user._id, null, req.body.parent);
     const category = await Category.create({ ...req.body, user: req.user._id });
     return created(res, category, 'Category created successfully');
 });
 
 const updateCategory = asyncHandler(async (req, res) => {
+    if (req.body.parent !== undefined) await assertParent(req.user._id, req.params.id, req.body.parent);
     const category = await Category.findOneAndUpdate({ _id: req.params.id, user: req.user._id }, req.body, { new: true });
     if (!category) return error(res, 'Category not found', 404);
     return success(res, category, 'Category updated successfully');
 });
 
+const getCategoryUsage = asyncHandler(async (req, res) => {
+    const usage = await categoryMerge.categoryUsage(req.user._id, req.params.id);
+    return success(res, usage, 'Category usage retrieved successfully');
+});
+
+// Anything still using the category needs ?reassignTo=<id> or ?uncategorize=true.
 const deleteCategory = asyncHandler(async (req, res) => {
-    const category = await Category.findOneAndDelete({ _id: req.params.id, user: req.user._id });
-    if (!category) return error(res, 'Category not found', 404);
-    return success(res, null, 'Category deleted successfully');
+    const result = await categoryMerge.deleteCategory(req.user._id, req.params.id, req.query);
+    return success(res, result, 'Category deleted successfully');
+});
+
+const mergeCategory = asyncHandler(async (req, res) => {
+    const result = await categoryMerge.mergeCategories(req.user._id, req.params.id, req.body.into);
+    return success(res, result, 'Categories merged successfully');
+});
+
+const listTemplates = asyncHandler(async (req, res) => {
+    return success(res, categoryTemplates.listTemplates(req.query.country), 'Category templates retrieved successfully');
+});
+
+// Named for the user's country setting; safe to apply again.
+const applyTemplate = asyncHandler(async (req, res) => {
+    const result = await categoryTemplates.applyTemplate(req.user._id, req.body.template, req.user.settings?.country);
+    return success(res, result, 'Category template applied successfully');
 });
 
-module.exports = { listCategories, createCategory, updateCategory, deleteCategory };
+module.exports = {
+    listCategories,
+    createCategory,
+    updateCategory,
+    getCategoryUsage,
+    deleteCategory,
+    mergeCategory,
+    listTemplates,
+    applyTemplate
+};
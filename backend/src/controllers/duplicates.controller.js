@@ -0,0 +1,58 @@
+/* Duplicates controller: the review queue of transactions that look entered
+ * twice. Finding and resolving them is services/duplicates. */
+const DuplicateCandidate = require('../models/duplicateCandidate.model');
+const asyncHandler = require('../utils/asyncHandler');
+const { success, successList } = require('../utils/response');
+const duplicates = require('../services/duplicates');
+
+// Enough of each transaction to tell the two apart side by side.
+const TRANSACTION_FIELDS = 'date amount type description account transferTo category splits tags source status createdAt';
+
+const listDuplicates = asyncHandler(async (req, res) => {
+    const candidates = await DuplicateCandidate.find({ user: req.user._id, status: 'pending' })
+        .sort({ similarity: -1, createdAt: -1 })
+        .populate({
+            path: 'transactions',
+            select: TRANSACTION_FIELDS,
+            populate: [
+                { path: 'account', select: 'name' },
+                { path: 'transferTo', select: 'name' },
+                { path: 'category', select: 'name color' }
+            ]
+        })
+        .lean();
+
+    // A row deleted since the last scan populates as nothing; the next scan
+    // drops the candidate, and until then it is not worth showing.
+    const items = candidates.filter((candidate) => candidate.transactions.length === 2
+        && candidate.transactions.every(Boolean));
+    return successList(res, items, 'Duplicates retrieved successfully');
+});
+
+const scanDuplicates = asyncHandler(async (req, res) => {
+    const result = await duplicates.scanForDuplicates(req.user._id);
+    return success(res, result, `${result.found} new possible duplicate(s) found`);
+});
+
+const mergeDuplicate = asyncHandler(async (req, res) => {
+    const result = await duplicates.mergeDuplicate(req.user._id, req.params.id, req.body.keep);
+    return success(res, result, 'Transactions merged; the duplicate was moved to trash');
+});
+
+const keepBoth = asyncHandler(async (req, res) => {
+    await duplicates.keepBoth(req.user._id, req.params.id);
+    return success(res, null, 'Kept both transactions');
+});
+
+const ignoreDuplicate = asyncHandler(async (req, res) => {
+    await duplicates.ignoreForever(req.user._id, req.params.id);
+    return success(res, null, 'Similar transactions will no longer be flagged');
+});
+
+module.exports = {
+    listDuplicates,
+    scanDuplicates,
+    mergeDuplicate,
+    keepBoth,
+    ignoreDuplicate
+};
@@ -5,6 +5,8 @@ const { randomUUID } = require('crypto');
 const createCsvWriter = require('csv-writer').createObjectCsvWriter;
 const User = require('../models/user.model');
 const logger = require('../utils/logger');
+const { parseTagFilter } = require('../utils/tags');
+const { searchClauses } = require('../services/transactionSearch');
 
 async function exportUsers(req, res, next) {
     try {
@@ -72,15 +74,37 @@ async function exportTransactions(req, res, next) {
         // Whitelist, so an unknown value cannot become a query injection point.
         // 'transfer' belongs here: a user filtering to transfers and hitting
         // Export would otherwise silently get their whole history instead.
-        if (['income', 'expense', 'transfer'].includes(req.query.type)) {
+        // 'trade' likewise.
+        if (['income', 'expense', 'transfer', 'trade'].includes(req.query.type)) {
             query.type = req.query.type;
         }
         if (req.query.account) {
             query.$or = [{ account: req.query.account }, { transferTo: req.query.account }];
         }
+        // Same semantics as GET /transactions: every listed tag must be present.
+        const tags = parseTagFilter(req.query.tags);
+        if (tags.length > 0) query.tags = { $all: tags };
+        // Search and amount range, so "Export" after a search downloads what
+        // the user is looking at. No Joi on this route, hence the checks.
+        const and = [];
+        if (/^[0-9a-fA-F]{24}$/.test(req.query.category || '')) {
+            and.push({ $or: [{ category: req.query.category }, { 'splits.category': req.query.category }] });
+        }
+        if (typeof req.query.q === 'string' && req.query.q.trim()) {
+            and.push({ $or: await searchClauses(req.user._id, req.query.q.trim().slice(0, 100)) });
+        }
+        if (and.length > 0) query.$and = and;
+        const minAmount = parseFloat(req.query.minAmount);
+        const maxAmount = parseFloat(req.query.maxAmount);
+        if (!Number.isNaN(minAmount) || !Number.isNaN(maxAmount)) {
+            query.amount = {};
+            if (!Number.isNaN(minAmount)) query.amount.$gte = minAmount;
+            if (!Number.isNaN(maxAmount)) query.amount.$lte = maxAmount;
+        }
 
         const transactions = await Transaction.find(query)
             .populate('category', 'name')
+            .populate('splits.category', 'name')
             .populate('account', 'name')
             .populate('transferTo', 'name')
             .sort({ date: -1 });
@@ -100,17 +124,31 @@ async function exportTransactions(req, res, next) {
             // NOTE: adding Account/Transfer To changes the CSV shape. Anything
             // parsing this by column position rather than header will need
             // updating.
-            const csvData = transactions.map(transaction => ({
-                id: transaction._id,
-                type: transaction.type,
-                amount: transaction.amount,
-                description: transaction.description,
-                category: transaction.category?.name || 'Uncategorized',
-                account: transaction.account?.name || '',
-                transferTo: transaction.transferTo?.name || '',
-                date: transaction.date.toISOString().split('T')[0],
-                createdAt: transaction.createdAt.toISOString().split('T')[0]
-            }));
+            //
+            // A split transaction becomes one line per part, sharing the ID, so
+            // summing Amount by Category in a spreadsheet matches the reports.
+            const csvData = transactions.flatMap(transaction => {
+                const row = {
+                    id: transaction._id,
+                    type: transaction.type,
+                    amount: transaction.amount,
+                    description: transaction.description,
+                    category: transaction.category?.name || 'Uncategorized',
+                    account: transaction.account?.name || '',
+                    transferTo: transaction.transferTo?.name || '',
+                    date: transaction.date.toISOString().split('T')[0],
+                    tags: (transaction.tags || []).join(', '),
+                    createdAt: transaction.createdAt.toISOString().split('T')[0]
+                };
+                if (!transaction.splits || transaction.splits.length === 0) return [row];
+
+                return transaction.splits.map(split => ({
+                    ...row,
+                    amount: split.amount,
+                    description: split.note || transaction.description,
+                    category: split.category?.name || 'Uncategorized'
+                }));
+            });
 
             const csvWriter = createCsvWriter({
                 path: filepath,
@@ -123,6 +161,7 @@ async function exportTransactions(req, res, next) {
                     { id: 'account', title: 'Account' },
                     { id: 'transferTo', title: 'Transfer To' },
                     { id: 'date', title: 'Date' },
+                    { id: 'tags', title: 'Tags' },
                     { id: 'createdAt', title: 'Created At' }
                 ]
             });
@@ -0,0 +1,80 @@
+/* Exchange rates controller: the local rate table every conversion reads.
+ *
+ * Anyone signed in can read it — the app needs to know which currencies it
+ * can convert — but only administrators change it. Every change recomputes
+ * the stored base amounts it affects before responding, so totals never
+ * mix old and new rates.
+ */
+const FxRate = require('../models/fxRate.model');
+const asyncHandler = require('../utils/asyncHandler');
+const { success, successList, created, error } = require('../utils/response');
+const logger = require('../utils/logger');
+const fx = require('../services/fx');
+
+const HISTORY_LIMIT = 200;
+
+/** Each currency with its latest rate and how many days are on record. */
+const listCurrencies = asyncHandler(async (req, res) => {
+    const rows = await FxRate.aggregate([
+        { $sort: { currency: 1, date: -1 } },
+        {
+            $group: {
+                _id: '$currency',
+                rate: { $first: '$rate' },
+                date: { $first: '$date' },
+                count: { $sum: 1 }
+            }
+        },
+        { $sort: { _id: 1 } }
+    ]);
+
+    const currencies = rows.map((row) => ({ currency: row._id, rate: row.rate, date: row.date, count: row.count }));
+    return successList(res, currencies, 'Currencies retrieved successfully', { pivot: fx.PIVOT });
+});
+
+/** Rate history, newest first, optionally for one currency. */
+const listRates = asyncHandler(async (req, res) => {
+    const filter = req.query.currency ? { currency: req.query.currency } : {};
+    const rates = await FxRate.find(filter).sort({ date: -1, currency: 1 }).limit(HISTORY_LIMIT).lean();
+    return successList(res, rates, 'Exchange rates retrieved successfully', { pivot: fx.PIVOT });
+});
+
+/** Add a rate, or replace the one already on record for that day. */
+const saveRate = asyncHandler(async (req, res) => {
+    const { currency, date, rate } = req.body;
+    await fx.saveRates([{ currency, date, rate }]);
+    const reconverted = await fx.reconvertCurrencies([currency]);
+
+    // The rate now in force on that day is the one just saved.
+    const saved = await FxRate.findOne({ currency, date: { $lte: new Date(date) } }).sort({ date: -1 }).lean();
+    logger.info('Exchange rate saved', { adminId: req.user.id, currency, date, rate, reconverted: reconverted.updated });
+    return created(res, { rate: saved, reconverted }, 'Exchange rate saved');
+});
+
+const deleteRate = asyncHandler(async (req, res) => {
+    const rate = await FxRate.findByIdAndDelete(req.params.id).lean();
+    if (!rate) return error(res, 'Exchange rate not found', 404);
+
+    const reconverted = await fx.reconvertCurrencies([rate.currency]);
+    logger.info('Exchange rate deleted', { adminId: req.user.id, currency: rate.currency, date: rate.date });
+    return success(res, { reconverted }, 'Exchange rate deleted');
+});
+
+/**
+ * Import rates from CSV. Readable rows are saved even when others are not;
+ * the unreadable ones come back with their line numbers.
+ */
+const importRates = asyncHandler(async (req, res) => {
+    const { rows, errors } = fx.parseRatesCsv(req.body.content);
+    if (rows.length === 0) {
+        return error(res, errors.length > 0 ? errors[0].message : 'The file has no rates in it', 400);
+    }
+
+    const imported = await fx.saveRates(rows);
+    const reconverted = await fx.reconvertCurrencies(rows.map((row) => row.currency));
+
+    logger.info('Exchange rates imported', { adminId: req.user.id, imported, errors: errors.length, reconverted: reconverted.updated });
+    return success(res, { imported, errors, reconverted }, `${imported} exchange rate(s) imported`);
+});
+
+module.exports = { listCurrencies, listRates, saveRate, deleteRate, importRates };
@@ -58,7 +58,8 @@ const addContribution = asyncHandler(async (req, res) => {
         type: 'expense',
         description: description || `Contribution to ${goal.name}`,
         date: new Date(),
-        source: 'goal'
+        source: 'goal',
+        goalId: goal._id
     });
 
     return success(res, goal, 'Contribution added successfully');
@@ -0,0 +1,143 @@
+/* Imports controller: bank statement upload, preview, commit and undo.
+ *
+ * Two steps on purpose. Preview parses the file and flags likely duplicates
+ * without writing anything, so the user can fix a wrong column mapping or
+ * untick rows before a single transaction exists. Commit then receives only
+ * the rows the user kept.
+ */
+const Transaction = require('../models/transaction.model');
+const Category = require('../models/category.model');
+const ImportBatch = require('../models/importBatch.model');
+const asyncHandler = require('../utils/asyncHandler');
+const { success, successList, created, error } = require('../utils/response');
+const transactionWriter = require('../services/transactionWriter');
+const { payeeResolver } = require('../services/payees');
+const { parseStatement, toImportRow, duplicateKey } = require('../services/statementParser');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Duplicate keys of the user's existing transactions over the rows' date span.
+ * One range query instead of one lookup per row.
+ */
+async function existingKeys(userId, rows) {
+    if (rows.length === 0) return new Set();
+
+    const times = rows.map((row) => row.date.getTime());
+    const existing = await Transaction.find({
+        user: userId,
+        date: { $gte: new Date(Math.min(...times)), $lt: new Date(Math.max(...times) + DAY_MS) }
+    }).select('date amount description').lean();
+
+    return new Set(existing.map(duplicateKey));
+}
+
+const previewImport = asyncHandler(async (req, res) => {
+    const { format, content, mapping } = req.body;
+    const parsed = parseStatement(format, content, mapping);
+    const rows = parsed.rows.map(toImportRow);
+
+    const [categories, seen] = await Promise.all([
+        Category.find({ user: req.user._id }).select('name').lean(),
+        existingKeys(req.user._id, rows)
+    ]);
+    const categoryByName = new Map(categories.map((c) => [c.name.toLowerCase(), c._id]));
+
+    const preview = rows.map((row) => ({
+        ...row,
+        // Matched by name only. An unknown name imports uncategorized rather
+        // than inventing categories the user never asked for.
+        category: categoryByName.get(row.categoryName.toLowerCase()) || null,
+        duplicate: seen.has(duplicateKey(row))
+    }));
+
+    return success(res, {
+        format,
+        columns: parsed.columns,
+        mapping: parsed.mapping,
+        rows: preview,
+        errors: parsed.errors,
+        duplicates: preview.filter((row) => row.duplicate).length
+    }, 'Statement parsed');
+});
+
+const commitImport = asyncHandler(async (req, res) => {
+    const { format, filename, account, rows } = req.body;
+
+    // Checked once up front so a foreign account fails the whole import with
+    // a 404 instead of failing every row individually.
+    await transactionWriter.assertOwnsAccounts(req.user._id, [account]);
+
+    const requested = [...new Set(rows.map((row) => row.category).filter(Boolean).map(String))];
+    const owned = new Set(
+        (await Category.find({ _id: { $in: requested }, user: req.user._id }).select('_id').lean())
+            .map((c) => String(c._id))
+    );
+
+    // Loaded and compiled once for the whole statement. An import only links
+    // to payees the user has: bank descriptions would otherwise add one per
+    // unfamiliar line. The payees page links the rest on request.
+    const payees = await payeeResolver(req.user._id, { create: false });
+
+    const batch = await ImportBatch.create({ user: req.user._id, filename, format, account });
+    const failed = [];
+    let imported = 0;
+
+    for (const row of rows) {
+        try {
+            // Through the writer, never Transaction.create: each row gets the
+            // default-account fallback and its budget check like any other.
+            await transactionWriter.createTransaction({
+                user: req.user._id,
+                amount: row.amount,
+                type: row.type,
+                category: row.category && owned.has(String(row.category)) ? row.category : undefined,
+                account,
+                date: row.date,
+                description: row.description,
+                source: 'import',
+                importId: batch._id
+            }, { payees });
+            imported += 1;
+        } catch (err) {
+            // One bad row must not strand the rest of the statement.
+            failed.push({ line: row.line, message: err.message });
+        }
+    }
+
+    batch.imported = imported;
+    batch.failed = failed.length;
+    await batch.save();
+
+    return created(res, { batch, imported, failed }, 'Statement imported');
+});
+
+const listImports = asyncHandler(async (req, res) => {
+    const batches = await ImportBatch.find({ user: req.user._id })
+        .populate('account', 'name')
+        .sort({ createdAt: -1 })
+        .limit(20)
+        .lean();
+    return successList(res, batches, 'Imports retrieved successfully');
+});
+
+/**
+ * Delete every transaction an import created.
+ *
+ * The batch itself is kept, marked undone, so the history still shows that
+ * the file was imported and reversed.
+ */
+const undoImport = asyncHandler(async (req, res) => {
+    const batch = await ImportBatch.findOne({ _id: req.params.id, user: req.user._id });
+    if (!batch) return error(res, 'Import not found', 404);
+
+    const deleted = await transactionWriter.deleteTransactions(req.user._id, { importId: batch._id });
+
+    batch.status = 'undone';
+    batch.undoneAt = new Date();
+    await batch.save();
+
+    return success(res, { deleted }, 'Imported transactions removed');
+});
+
+module.exports = { previewImport, commitImport, listImports, undoImport };
@@ -0,0 +1,54 @@
+/* Investments controller: holdings, trades and the prices that value them.
+ * The replay and valuation live in services/holdings, the rest in
+ * services/investments. */
+const asyncHandler = require('../utils/asyncHandler');
+const { success, successList, created, error } = require('../utils/response');
+const investments = require('../services/investments');
+
+const getPortfolio = asyncHandler(async (req, res) => {
+    const portfolio = await investments.portfolio(req.user._id);
+    return success(res, portfolio, 'Portfolio retrieved successfully');
+});
+
+const getHoldings = asyncHandler(async (req, res) => {
+    const holdings = await investments.accountHoldings(req.user._id, req.params.id);
+    return success(res, holdings, 'Holdings retrieved successfully');
+});
+
+const recordTrade = asyncHandler(async (req, res) => {
+    const transaction = await investments.recordTrade(req.user._id, req.params.id, req.body);
+    return created(res, transaction, 'Trade recorded');
+});
+
+const listPrices = asyncHandler(async (req, res) => {
+    const prices = await investments.listPrices(req.user._id, req.query.symbol);
+    return successList(res, prices, 'Prices retrieved successfully');
+});
+
+/** Add a price, or replace the one already on record for that day. */
+const savePrice = asyncHandler(async (req, res) => {
+    await investments.savePrices(req.user._id, [req.body]);
+    return created(res, null, 'Price saved');
+});
+
+const deletePrice = asyncHandler(async (req, res) => {
+    const deleted = await investments.deletePrice(req.user._id, req.params.id);
+    if (!deleted) return error(res, 'Price not found', 404);
+    return success(res, null, 'Price deleted');
+});
+
+/**
+ * Import prices from CSV. Readable rows are saved even when others are not;
+ * the unreadable ones come back with their line numbers.
+ */
+const importPrices = asyncHandler(async (req, res) => {
+    const { rows, errors } = investments.parsePricesCsv(req.body.content);
+    if (rows.length === 0) {
+        return error(res, errors.length > 0 ? errors[0].message : 'The file has no prices in it', 400);
+    }
+
+    const imported = await investments.savePrices(req.user._id, rows);
+    return success(res, { imported, errors }, `${imported} price(s) imported`);
+});
+
+module.exports = { getPortfolio, getHoldings, recordTrade, listPrices, savePrice, deletePrice, importPrices };
@@ -0,0 +1,17 @@
+/* Loans controller: a loan account's schedule and payments.
+ * The arithmetic lives in services/amortization, the posting in services/loans. */
+const asyncHandler = require('../utils/asyncHandler');
+const { success, created } = require('../utils/response');
+const loans = require('../services/loans');
+
+const getSchedule = asyncHandler(async (req, res) => {
+    const schedule = await loans.getSchedule(req.user._id, req.params.id);
+    return success(res, schedule, 'Amortization schedule retrieved successfully');
+});
+
+const recordPayment = asyncHandler(async (req, res) => {
+    const result = await loans.recordLoanPayment(req.user._id, req.params.id, req.body);
+    return created(res, result, 'Loan payment recorded');
+});
+
+module.exports = { getSchedule, recordPayment };
@@ -0,0 +1,12 @@
+/* Net worth controller: the history the daily snapshots keep.
+ * Building and reading them lives in services/netWorth. */
+const asyncHandler = require('../utils/asyncHandler');
+const { success } = require('../utils/response');
+const netWorth = require('../services/netWorth');
+
+const getHistory = asyncHandler(async (req, res) => {
+    const history = await netWorth.history(req.user._id, req.query);
+    return success(res, history, 'Net worth retrieved successfully');
+});
+
+module.exports = { getHistory };
@@ -0,0 +1,158 @@
+/* Payees controller: the merchants transactions are linked to. Matching and
+ * re-linking are services/payees. */
+const Payee = require('../models/payee.model');
+const Transaction = require('../models/transaction.model');
+const asyncHandler = require('../utils/asyncHandler');
+const { success, successList, created, error } = require('../utils/response');
+const { payeeKey, linkPayees, payeeScope } = require('../services/payees');
+const { TransactionQueries } = require('../utils/dbOptimization');
+
+/** Aliases without blanks, repeats, or the payee's own name. */
+const cleanAliases = (aliases, name) => {
+    const seen = new Set([payeeKey(name)]);
+    return aliases.map((alias) => alias.trim()).filter((alias) => {
+        const key = payeeKey(alias);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+/** Every payee with how many transactions it has and what was spent there. */
+const listPayees = asyncHandler(async (req, res) => {
+    const [payees, usage, unlinked] = await Promise.all([
+        Payee.find({ user: req.user._id }).sort({ name: 1 }).lean(),
+        Transaction.aggregate([
+            { $match: { user: req.user._id, payee: { $exists: true } } },
+            {
+                $group: {
+                    _id: '$payee',
+                    count: { $sum: 1 },
+                    // Net of refunds and in the base currency, like every other
+                    // spending figure.
+                    spent: {
+                        $sum: {
+                            $switch: {
+                                branches: [
+                                    { case: { $eq: ['$type', 'expense'] }, then: TransactionQueries.baseAmount },
+                                    {
+                                        case: { $ifNull: ['$refundOf', false] },
+                                        then: { $multiply: [TransactionQueries.baseAmount, -1] }
+                                    }
+                                ],
+                                default: 0
+                            }
+                        }
+                    },
+                    lastDate: { $max: '$date' }
+                }
+            }
+        ]),
+        Transaction.countDocuments({
+            user: req.user._id,
+            type: { $nin: ['transfer', 'trade'] },
+            payee: { $exists: false },
+            description: { $nin: [null, ''] }
+        })
+    ]);
+    const byPayee = new Map(usage.map((u) => [String(u._id), u]));
+
+    const items = payees.map((payee) => {
+        const { count = 0, spent = 0, lastDate = null } = byPayee.get(String(payee._id)) || {};
+        return { ...payee, count, spent, lastDate };
+    });
+    return successList(res, items, 'Payees retrieved successfully', { unlinked });
+});
+
+const createPayee = asyncHandler(async (req, res) => {
+    const name = req.body.name.trim();
+    if (await Payee.exists({ user: req.user._id, key: payeeKey(name) })) {
+        return error(res, 'Payee already exists', 400);
+    }
+
+    const payee = await Payee.create({
+        user: req.user._id,
+        name,
+        key: payeeKey(name),
+        aliases: cleanAliases(req.body.aliases || [], name)
+    });
+    const linked = await linkPayees(req.user._id, payeeScope(payee, [payee.name, ...payee.aliases]));
+    return created(res, { payee, linked }, 'Payee created successfully');
+});
+
+/**
+ * Rename a payee or change its aliases. Every transaction its old or new
+ * patterns could match is linked again, so the list reflects the edit at once.
+ */
+const updatePayee = asyncHandler(async (req, res) => {
+    const payee = await Payee.findOne({ _id: req.params.id, user: req.user._id });
+    if (!payee) return error(res, 'Payee not found', 404);
+
+    const oldPatterns = [payee.name, ...payee.aliases];
+    const name = req.body.name !== undefined ? req.body.name.trim() : payee.name;
+    if (payeeKey(name) !== payee.key
+        && await Payee.exists({ user: req.user._id, key: payeeKey(name), _id: { $ne: payee._id } })) {
+        return error(res, 'Payee already exists', 400);
+    }
+
+    payee.name = name;
+    payee.key = payeeKey(name);
+    payee.aliases = cleanAliases(req.body.aliases !== undefined ? req.body.aliases : payee.aliases, name);
+    await payee.save();
+
+    const linked = await linkPayees(req.user._id, payeeScope(payee, [...oldPatterns, payee.name, ...payee.aliases]));
+    return success(res, { payee, linked }, 'Payee updated successfully');
+});
+
+/**
+ * Fold one payee into another: its transactions move over and its name and
+ * aliases become aliases of the target, so future descriptions follow.
+ */
+const mergePayee = asyncHandler(async (req, res) => {
+    if (String(req.params.id) === String(req.body.into)) {
+        return error(res, 'A payee cannot be merged into itself', 400);
+    }
+    const [source, target] = await Promise.all([
+        Payee.findOne({ _id: req.params.id, user: req.user._id }),
+        Payee.findOne({ _id: req.body.into, user: req.user._id })
+    ]);
+    if (!source || !target) return error(res, 'Payee not found', 404);
+
+    target.aliases = cleanAliases([...target.aliases, source.name, ...source.aliases], target.name);
+    await target.save();
+    const moved = await Transaction.updateMany(
+        { user: req.user._id, payee: source._id },
+        { $set: { payee: target._id } }
+    );
+    await source.deleteOne();
+
+    return success(res, { payee: target, moved: moved.modifiedCount }, `Merged into ${target.name}`);
+});
+
+/**
+ * Delete a payee. Its transactions are matched again against the remaining
+ * payees, without creating new ones; otherwise the next match would simply
+ * bring the deleted payee back.
+ */
+const deletePayee = asyncHandler(async (req, res) => {
+    const payee = await Payee.findOneAndDelete({ _id: req.params.id, user: req.user._id });
+    if (!payee) return error(res, 'Payee not found', 404);
+
+    await linkPayees(req.user._id, { payee: payee._id }, { create: false });
+    return success(res, null, 'Payee deleted successfully');
+});
+
+/** Link the transactions that have no payee yet, e.g. ones from before payees. */
+const linkUnlinked = asyncHandler(async (req, res) => {
+    const linked = await linkPayees(req.user._id, { payee: { $exists: false } });
+    return success(res, { linked }, `${linked} transaction(s) linked to a payee`);
+});
+
+module.exports = {
+    listPayees,
+    createPayee,
+    updatePayee,
+    mergePayee,
+    deletePayee,
+    linkUnlinked
+};
@@ -0,0 +1,39 @@
+/* Reconciliation controller: checking an account against a bank statement.
+ * The rules live in services/reconciliation. */
+const asyncHandler = require('../utils/asyncHandler');
+const { success } = require('../utils/response');
+const reconciliation = require('../services/reconciliation');
+
+const getReconciliation = asyncHandler(async (req, res) => {
+    const view = await reconciliation.reconciliationView(req.user._id, req.params.id);
+    return success(res, view, 'Reconciliation retrieved successfully');
+});
+
+const startReconciliation = asyncHandler(async (req, res) => {
+    const view = await reconciliation.startReconciliation(req.user._id, req.params.id, req.body);
+    return success(res, view, 'Reconciliation started');
+});
+
+const markCleared = asyncHandler(async (req, res) => {
+    const { ids, cleared } = req.body;
+    const view = await reconciliation.markCleared(req.user._id, req.params.id, ids, cleared);
+    return success(res, view, cleared ? 'Marked as cleared' : 'Marked as not cleared');
+});
+
+const finishReconciliation = asyncHandler(async (req, res) => {
+    const result = await reconciliation.finishReconciliation(req.user._id, req.params.id);
+    return success(res, result, `Reconciled ${result.reconciled} transaction(s)`);
+});
+
+const cancelReconciliation = asyncHandler(async (req, res) => {
+    await reconciliation.cancelReconciliation(req.user._id, req.params.id);
+    return success(res, null, 'Reconciliation cancelled');
+});
+
+module.exports = {
+    getReconciliation,
+    startReconciliation,
+    markCleared,
+    finishReconciliation,
+    cancelReconciliation
+};
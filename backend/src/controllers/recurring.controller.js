@@ -4,7 +4,7 @@
  * done by jobs/postRecurring.js, so nothing here creates a Transaction.
  */
 const RecurringTransaction = require('../models/recurringTransaction.model');
-const Transaction = require('../models/transaction.model');
+const transactionWriter = require('../services/transactionWriter');
 const asyncHandler = require('../utils/asyncHandler');
 const { success, successList, created, error } = require('../utils/response');
 const { firstDueOnOrAfter } = require('../jobs/recurrence');
@@ -70,9 +70,9 @@ const undoGenerated = asyncHandler(async (req, res) => {
     const rule = await RecurringTransaction.findOne({ _id: req.params.id, user: req.user._id });
     if (!rule) return error(res, 'Recurring transaction not found', 404);
 
-    const result = await Transaction.deleteMany({ user: req.user._id, recurringId: rule._id });
+    const deleted = await transactionWriter.deleteTransactions(req.user._id, { recurringId: rule._id });
 
-    return success(res, { deleted: result.deletedCount }, 'Generated transactions removed');
+    return success(res, { deleted }, 'Generated transactions removed');
 });
 
 module.exports = { listRecurring, createRecurring, updateRecurring, deleteRecurring, undoGenerated };
@@ -0,0 +1,24 @@
+/* Refunds controller: reimbursable expenses still owed, and the expenses an
+ * income row can be linked to. Linking itself is a transaction edit
+ * (refundOf), so it goes through transactionWriter like any other. */
+const asyncHandler = require('../utils/asyncHandler');
+const { successList } = require('../utils/response');
+const refunds = require('../services/refunds');
+const { convertAmount } = require('../services/fx');
+
+const listReimbursables = asyncHandler(async (req, res) => {
+    const items = await refunds.outstandingReimbursables(req.user._id);
+    // Each expense's outstanding is in its own currency; the total is in the
+    // base currency, at each expense's rate.
+    const outstanding = items.reduce((sum, trx) => sum + convertAmount(trx.outstanding, trx.fxRate ?? 1), 0);
+    return successList(res, items, 'Reimbursables retrieved successfully', {
+        outstanding: Math.round(outstanding * 100) / 100
+    });
+});
+
+const listCandidates = asyncHandler(async (req, res) => {
+    const items = await refunds.refundCandidates(req.user._id, { search: req.query.q });
+    return successList(res, items, 'Refund candidates retrieved successfully');
+});
+
+module.exports = { listReimbursables, listCandidates };
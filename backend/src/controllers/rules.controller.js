@@ -0,0 +1,136 @@
+/* Categorization rules controller.
+ *
+ * Rules are applied by the transaction writer (see
+ * services/categorizationRules); this controller manages them and exposes the
+ * dry-run preview and the retroactive apply.
+ */
+const CategorizationRule = require('../models/categorizationRule.model');
+const Category = require('../models/category.model');
+const asyncHandler = require('../utils/asyncHandler');
+const { success, successList, created, error } = require('../utils/response');
+const { assertOwnsAccounts } = require('../services/transactionWriter');
+const { previewRule: preview, applyRuleToHistory } = require('../services/categorizationRules');
+const { registerTags } = require('./tags.controller');
+const { normalizeTags } = require('../utils/tags');
+
+/**
+ * A rule may only point at the requester's own category and account, or it
+ * would file their transactions under someone else's.
+ *
+ * @returns {Promise<string|null>} an error message, or null when all is well
+ */
+async function checkReferences(userId, actions = {}) {
+    if (actions.category) {
+        const owned = await Category.exists({ _id: actions.category, user: userId });
+        if (!owned) return 'Category not found';
+    }
+    try {
+        await assertOwnsAccounts(userId, [actions.account]);
+    } catch (err) {
+        return err.message;
+    }
+    return null;
+}
+
+const listRules = asyncHandler(async (req, res) => {
+    const rules = await CategorizationRule.find({ user: req.user._id }).sort({ priority: 1, createdAt: 1 });
+    return successList(res, rules, 'Rules retrieved successfully');
+});
+
+const createRule = asyncHandler(async (req, res) => {
+    const { actions } = req.body;
+    const problem = await checkReferences(req.user._id, actions);
+    if (problem) return error(res, problem, 404);
+
+    // New rules go to the bottom: an existing rule keeps deciding what it
+    // decided before until the user moves the new one above it.
+    let { priority } = req.body;
+    if (priority === undefined) {
+        const last = await CategorizationRule.findOne({ user: req.user._id }).sort({ priority: -1 }).lean();
+        priority = last ? last.priority + 1 : 0;
+    }
+
+    const rule = await CategorizationRule.create({
+        ...req.body,
+        actions: { ...actions, tags: actions.tags ? normalizeTags(actions.tags) : undefined },
+        priority,
+        user: req.user._id
+    });
+    await registerTags(req.user._id, rule.actions.tags);
+
+    return created(res, rule, 'Rule created successfully');
+});
+
+const updateRule = asyncHandler(async (req, res) => {
+    const rule = await CategorizationRule.findOne({ _id: req.params.id, user: req.user._id });
+    if (!rule) return error(res, 'Rule not found', 404);
+
+    if (req.body.actions) {
+        const problem = await checkReferences(req.user._id, req.body.actions);
+        if (problem) return error(res, problem, 404);
+        req.body.actions.tags = req.body.actions.tags ? normalizeTags(req.body.actions.tags) : undefined;
+    }
+
+    // Whole sub-documents: a rule edited from "contains" to "equals" must not
+    // keep a stale amount bound from its previous version.
+    rule.set(req.body);
+    await rule.save();
+    await registerTags(req.user._id, rule.actions.tags);
+
+    return success(res, rule, 'Rule updated successfully');
+});
+
+const deleteRule = asyncHandler(async (req, res) => {
+    const rule = await CategorizationRule.findOneAndDelete({ _id: req.params.id, user: req.user._id });
+    if (!rule) return error(res, 'Rule not found', 404);
+    return success(res, null, 'Rule deleted successfully');
+});
+
+/**
+ * Set the evaluation order. The body lists every rule id, highest priority
+ * first; a partial list is rejected rather than guessed at.
+ */
+const reorderRules = asyncHandler(async (req, res) => {
+    const { ids } = req.body;
+    const rules = await CategorizationRule.find({ user: req.user._id }).select('_id').lean();
+
+    const owned = new Set(rules.map((r) => String(r._id)));
+    if (ids.length !== owned.size || !ids.every((id) => owned.has(String(id)))) {
+        return error(res, 'The order must list each of your rules exactly once', 400);
+    }
+
+    await CategorizationRule.bulkWrite(ids.map((id, index) => ({
+        updateOne: { filter: { _id: id, user: req.user._id }, update: { $set: { priority: index } } }
+    })));
+
+    const reordered = await CategorizationRule.find({ user: req.user._id }).sort({ priority: 1 });
+    return successList(res, reordered, 'Rules reordered successfully');
+});
+
+/** Dry run of an unsaved rule against the user's history. Writes nothing. */
+const previewRule = asyncHandler(async (req, res) => {
+    const { overwrite, ...rule } = req.body;
+    const result = await preview(req.user._id, rule, { overwrite });
+    return success(res, result, 'Rule preview generated');
+});
+
+/** Apply a saved rule to existing transactions. */
+const applyRule = asyncHandler(async (req, res) => {
+    const rule = await CategorizationRule.findOne({ _id: req.params.id, user: req.user._id }).lean();
+    if (!rule) return error(res, 'Rule not found', 404);
+
+    const result = await applyRuleToHistory(req.user._id, rule, { overwrite: req.body.overwrite });
+    await registerTags(req.user._id, rule.actions.tags);
+
+    return success(res, result, `Rule applied to ${result.updated} transaction(s)`);
+});
+
+module.exports = {
+    listRules,
+    createRule,
+    updateRule,
+    deleteRule,
+    reorderRules,
+    previewRule,
+    applyRule
+};
@@ -4,6 +4,7 @@ const asyncHandler = require('../utils/asyncHandler');
 const { success, error } = require('../utils/response');
 const logger = require('../utils/logger');
 const { purgeUserData } = require('../services/userCleanup');
+const { PIVOT, baseCurrencyOf, createConverter, reconvertTransactions } = require('../services/fx');
 
 // Get user profile and settings
 const getProfile = async (req, res, next) => {
@@ -118,6 +119,12 @@ const updateUserSettings = asyncHandler(async (req, res) => {
         return error(res, 'No valid settings provided', 400);
     }
 
+    // Totals are kept in the base currency, so a new one needs a rate to
+    // convert into before it can be accepted.
+    const previousCurrency = await baseCurrencyOf(userId);
+    const currencyChanged = req.body.currency !== undefined && req.body.currency !== previousCurrency;
+    if (currencyChanged) await createConverter()(req.body.currency, PIVOT, new Date());
+
     const user = await User.findByIdAndUpdate(
         userId,
         { $set: update },
@@ -128,6 +135,9 @@ const updateUserSettings = asyncHandler(async (req, res) => {
         return error(res, 'User not found', 404);
     }
 
+    // Every stored conversion was into the old currency.
+    if (currencyChanged) await reconvertTransactions({ user: user._id });
+
     logger.info('Settings updated', { userId, fields: Object.keys(update) });
     return success(res, user.settings, 'Settings updated successfully');
 });
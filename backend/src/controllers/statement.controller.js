@@ -0,0 +1,21 @@
+/* Statement controller: an account's statement for a period, as JSON or CSV.
+ * The balances are worked out in services/statement. */
+const asyncHandler = require('../utils/asyncHandler');
+const { success } = require('../utils/response');
+const { accountStatement, statementCsv } = require('../services/statement');
+
+const getStatement = asyncHandler(async (req, res) => {
+    const statement = await accountStatement(req.user._id, req.params.id, req.query);
+
+    if (req.query.format === 'csv') {
+        const day = (date) => date.toISOString().slice(0, 10);
+        const name = statement.account.name.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'account';
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="statement_${name}_${day(statement.start)}_${day(statement.end)}.csv"`);
+        return res.send(statementCsv(statement));
+    }
+
+    return success(res, statement, 'Statement retrieved successfully');
+});
+
+module.exports = { getStatement };
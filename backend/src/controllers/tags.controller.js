@@ -0,0 +1,115 @@
+/* Tags controller: the per-user tag registry */
+const Tag = require('../models/tag.model');
+const Transaction = require('../models/transaction.model');
+const asyncHandler = require('../utils/asyncHandler');
+const { success, successList, created, error } = require('../utils/response');
+const { normalizeTag, normalizeTags } = require('../utils/tags');
+const { recordUpdated } = require('../services/transactionHistory');
+
+/**
+ * Make sure every tag on a transaction exists in the registry.
+ *
+ * Tags are free-form: typing a new one on a transaction is how most of them
+ * get created, so the writer calls this rather than requiring a separate
+ * "create tag" step first. Upserts, so it is safe to call with tags that
+ * already exist and under concurrent writes.
+ */
+async function registerTags(userId, tags) {
+    const names = normalizeTags(tags);
+    if (names.length === 0) return;
+
+    await Tag.bulkWrite(names.map((name) => ({
+        updateOne: {
+            filter: { user: userId, name },
+            update: { $setOnInsert: { user: userId, name } },
+            upsert: true
+        }
+    })), { ordered: false });
+}
+
+/**
+ * Rewrite one tag on every transaction carrying it, recording the change in
+ * each one's history.
+ *
+ * @param {Object} update the updateMany update that performs the rewrite
+ * @param {Function} rewrite the same rewrite on a tag list, for the history
+ */
+async function rewriteTag(userId, name, update, options, rewrite) {
+    const affected = await Transaction.find({ user: userId, tags: name }).select('tags').lean();
+    await Transaction.updateMany({ user: userId, tags: name }, update, options);
+    await recordUpdated(userId, affected.map((trx) => ({
+        transaction: trx._id,
+        before: { tags: trx.tags },
+        after: { tags: rewrite(trx.tags) }
+    })));
+}
+
+/** Every tag with how many transactions carry it, for the picker and reports. */
+const listTags = asyncHandler(async (req, res) => {
+    const [tags, usage] = await Promise.all([
+        Tag.find({ user: req.user._id }).sort({ name: 1 }).lean(),
+        Transaction.aggregate([
+            { $match: { user: req.user._id, tags: { $exists: true, $ne: [] } } },
+            { $unwind: '$tags' },
+            { $group: { _id: '$tags', count: { $sum: 1 } } }
+        ])
+    ]);
+    const counts = new Map(usage.map((u) => [u._id, u.count]));
+
+    const items = tags.map((tag) => ({ ...tag, count: counts.get(tag.name) || 0 }));
+    return successList(res, items, 'Tags retrieved successfully');
+});
+
+const createTag = asyncHandler(async (req, res) => {
+    const name = normalizeTag(req.body.name);
+    const existing = await Tag.findOne({ user: req.user._id, name });
+    if (existing) return error(res, 'Tag already exists', 400);
+
+    const tag = await Tag.create({ user: req.user._id, name, color: req.body.color });
+    return created(res, tag, 'Tag created successfully');
+});
+
+/**
+ * Rename or recolour a tag. A rename is applied to every transaction carrying
+ * the old name, so filters and reports keep matching.
+ */
+const updateTag = asyncHandler(async (req, res) => {
+    const tag = await Tag.findOne({ _id: req.params.id, user: req.user._id });
+    if (!tag) return error(res, 'Tag not found', 404);
+
+    const oldName = tag.name;
+    const newName = req.body.name !== undefined ? normalizeTag(req.body.name) : oldName;
+
+    if (newName !== oldName) {
+        const clash = await Tag.findOne({ user: req.user._id, name: newName });
+        if (clash) return error(res, 'Tag already exists', 400);
+    }
+
+    tag.name = newName;
+    if (req.body.color !== undefined) tag.color = req.body.color;
+    await tag.save();
+
+    if (newName !== oldName) {
+        await rewriteTag(
+            req.user._id,
+            oldName,
+            { $set: { 'tags.$[old]': newName } },
+            { arrayFilters: [{ old: oldName }] },
+            (tags) => tags.map((t) => (t === oldName ? newName : t))
+        );
+    }
+
+    return success(res, tag, 'Tag updated successfully');
+});
+
+/** Delete a tag and remove it from every transaction that carries it. */
+const deleteTag = asyncHandler(async (req, res) => {
+    const tag = await Tag.findOneAndDelete({ _id: req.params.id, user: req.user._id });
+    if (!tag) return error(res, 'Tag not found', 404);
+
+    await rewriteTag(req.user._id, tag.name, { $pull: { tags: tag.name } }, {},
+        (tags) => tags.filter((t) => t !== tag.name));
+    return success(res, null, 'Tag deleted successfully');
+});
+
+module.exports = { registerTags, listTags, createTag, updateTag, deleteTag };
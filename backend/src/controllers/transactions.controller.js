@@ -4,28 +4,77 @@ const asyncHandler = require('../utils/asyncHandler');
 const { success, successList, created, error } = require('../utils/response');
 const { TransactionQueries, QueryMonitor } = require('../utils/dbOptimization');
 const transactionWriter = require('../services/transactionWriter');
+const { searchClauses } = require('../services/transactionSearch');
+const { encodeCursor, decodeCursor } = require('../utils/cursor');
+const Attachment = require('../models/attachment.model');
+const TransactionHistory = require('../models/transactionHistory.model');
 
 const listTransactions = asyncHandler(async (req, res) => {
-    const { start, end, type, account, limit = 50, page = 1 } = req.query;
-    const skip = (page - 1) * limit;
+    const {
+        start, end, type, category, account, tags, q, minAmount, maxAmount,
+        cursor, limit = 50, page = 1
+    } = req.query;
 
-    const queryConfig = TransactionQueries.getUserTransactions(req.user._id, {
+    let after;
+    if (cursor) {
+        after = decodeCursor(cursor);
+        if (!after) return error(res, 'Invalid cursor', 400);
+    }
+    // `page` is kept for older clients; a cursor takes precedence.
+    const skip = after ? 0 : (page - 1) * limit;
+
+    const filters = {
         start,
         end,
         type,
+        category,
         account,
+        tags,
+        minAmount,
+        maxAmount,
+        search: q ? await searchClauses(req.user._id, q) : undefined
+    };
+    const queryConfig = TransactionQueries.getUserTransactions(req.user._id, {
+        ...filters,
+        after,
         limit: parseInt(limit),
         skip
     });
+    // The total ignores the cursor: it counts every match, not what is left.
+    const countFilter = TransactionQueries.getUserTransactions(req.user._id, filters).filter;
     
-    const items = await QueryMonitor.executeWithTiming(
-        'listTransactions',
-        Transaction.find(queryConfig.filter, null, queryConfig.options)
-            .populate(queryConfig.populate),
-        req.requestId
-    );
+    // One row more than asked for says whether another page exists without a
+    // second query.
+    const pageSize = queryConfig.options.limit;
+    const [rows, total] = await Promise.all([
+        QueryMonitor.executeWithTiming(
+            'listTransactions',
+            Transaction.find(queryConfig.filter, null, { ...queryConfig.options, limit: pageSize + 1 })
+                .populate(queryConfig.populate),
+            req.requestId
+        ),
+        Transaction.countDocuments(countFilter)
+    ]);
+
+    const hasMore = rows.length > pageSize;
+    const items = hasMore ? rows.slice(0, pageSize) : rows;
+
+    // Enough about each row's attachments to draw thumbnails; one query for
+    // the whole page.
+    const attachments = await Attachment.find({
+        user: req.user._id,
+        transaction: { $in: items.map((item) => item._id) }
+    }).select('transaction filename contentType size hasThumbnail').sort({ createdAt: 1 }).lean();
+    for (const item of items) {
+        item.attachments = attachments.filter((a) => String(a.transaction) === String(item._id));
+    }
     
-    return successList(res, items, 'Transactions retrieved successfully');
+    return successList(res, items, 'Transactions retrieved successfully', {
+        total,
+        hasMore,
+        nextCursor: hasMore ? encodeCursor(items[items.length - 1]) : null,
+        limit: pageSize
+    });
 });
 
 const getTransaction = asyncHandler(async (req, res) => {
@@ -33,8 +82,10 @@ const getTransaction = asyncHandler(async (req, res) => {
         'getTransaction',
         Transaction.findOne({ _id: req.params.id, user: req.user._id })
             .populate('category')
+            .populate('splits.category')
             .populate('account', 'name type currency')
             .populate('transferTo', 'name type currency')
+            .populate('payee', 'name')
             .lean(),
         req.requestId
     );
@@ -58,9 +109,46 @@ const updateTransaction = asyncHandler(async (req, res) => {
 });
 
 const deleteTransaction = asyncHandler(async (req, res) => {
-    const trx = await Transaction.findOneAndDelete({ _id: req.params.id, user: req.user._id });
-    if (!trx) return error(res, 'Transaction not found', 404);
-    return success(res, null, 'Transaction deleted successfully');
+    const deleted = await transactionWriter.deleteTransaction(req.user._id, req.params.id);
+    if (!deleted) return error(res, 'Transaction not found', 404);
+    return success(res, null, 'Transaction moved to trash');
+});
+
+/**
+ * Every recorded change to a transaction, newest first. Still answers after
+ * the transaction is deleted — the delete entry is often what is wanted.
+ */
+const getTransactionHistory = asyncHandler(async (req, res) => {
+    const entries = await TransactionHistory.find({ user: req.user._id, transaction: req.params.id })
+        .sort({ createdAt: -1, _id: -1 })
+        .lean();
+
+    // Rows from before history was recorded have none; that is not a 404.
+    if (entries.length === 0 && !await Transaction.exists({ _id: req.params.id, user: req.user._id })) {
+        return error(res, 'Transaction not found', 404);
+    }
+    return successList(res, entries, 'Transaction history retrieved successfully');
+});
+
+/** Update or delete a set of transactions in one request, all or nothing. */
+const bulkTransactions = asyncHandler(async (req, res) => {
+    const { ids, action, changes } = req.body;
+
+    if (action === 'delete') {
+        const result = await transactionWriter.bulkDeleteTransactions(req.user._id, ids);
+        return success(res, result, `${result.deleted} transaction(s) moved to trash`);
+    }
+
+    const result = await transactionWriter.bulkUpdateTransactions(req.user._id, ids, changes);
+    return success(res, result, `${result.updated} transaction(s) updated`);
 });
 
-module.exports = { listTransactions, getTransaction, createTransaction, updateTransaction, deleteTransaction };
+module.exports = {
+    listTransactions,
+    getTransaction,
+    createTransaction,
+    updateTransaction,
+    deleteTransaction,
+    getTransactionHistory,
+    bulkTransactions
+};
@@ -0,0 +1,39 @@
+/* Trash controller: deleted transactions, kept for services/trash's retention
+ * period, and restoring or purging them. */
+const TrashedTransaction = require('../models/trashedTransaction.model');
+const asyncHandler = require('../utils/asyncHandler');
+const { success, successList } = require('../utils/response');
+const transactionWriter = require('../services/transactionWriter');
+const { TRASH_RETENTION_DAYS, purgeTrash: purge } = require('../services/trash');
+
+// The trash is a recovery tool, not an archive; newest first, capped.
+const LIST_LIMIT = 500;
+
+/** Each entry is the transaction as deleted, plus when it was and when it goes. */
+const listTrash = asyncHandler(async (req, res) => {
+    const entries = await TrashedTransaction.find({ user: req.user._id })
+        .sort({ deletedAt: -1 })
+        .limit(LIST_LIMIT)
+        .lean();
+
+    const items = entries.map((entry) => ({
+        ...entry.transaction,
+        deletedAt: entry.deletedAt,
+        purgeAt: entry.purgeAt
+    }));
+    return successList(res, items, 'Trash retrieved successfully', { retentionDays: TRASH_RETENTION_DAYS });
+});
+
+const restoreTrash = asyncHandler(async (req, res) => {
+    const { restored } = await transactionWriter.restoreTransactions(req.user._id, req.body.ids);
+    return success(res, { restored }, `${restored} transaction(s) restored`);
+});
+
+/** Delete for good: the listed ids, or the whole trash when none are given. */
+const purgeTrash = asyncHandler(async (req, res) => {
+    const filter = req.body.ids ? { _id: { $in: req.body.ids } } : {};
+    const purged = await purge(req.user._id, filter);
+    return success(res, { purged }, `${purged} transaction(s) permanently deleted`);
+});
+
+module.exports = { listTrash, restoreTrash, purgeTrash };
@@ -0,0 +1,54 @@
+/* Reminds users of a card payment coming due.
+ *
+ * Idempotent through the dedupeKey, like goalReminders: each statement gets
+ * at most one 7-day and one 2-day reminder, keyed on the card and the due
+ * date. A statement already paid off, or one that closed in credit, gets none.
+ */
+const Account = require('../models/account.model');
+const { cardStatement } = require('../services/creditCard');
+const { dispatch } = require('../services/notifications');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Narrowest first, for the same reason as in goalReminders.
+const WINDOWS = [2, 7];
+
+async function cardDueReminders(now = new Date()) {
+    let sent = 0;
+
+    const cards = await Account.find({
+        type: 'card',
+        isArchived: false,
+        statementDay: { $ne: null },
+        dueDay: { $ne: null }
+    }).populate('user', 'settings');
+
+    for (const card of cards) {
+        if (!card.user) continue;
+
+        const statement = await cardStatement(card.user._id, card, now);
+        if (!statement || statement.remaining === 0) continue;
+
+        const daysLeft = Math.ceil((statement.dueDate.getTime() - now.getTime()) / DAY_MS);
+        if (daysLeft < 0) continue;
+        const window = WINDOWS.find((w) => daysLeft <= w);
+        if (!window) continue;
+
+        const due = statement.dueDate.toISOString().slice(0, 10);
+        const notification = await dispatch(card.user, {
+            type: 'system',
+            title: daysLeft === 0
+                ? `${card.name} payment is due today`
+                : `${card.name} payment is due in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`,
+            body: `${statement.remaining.toFixed(2)} ${card.currency} of the ${statement.statementBalance.toFixed(2)} statement is still to pay by ${due}.`,
+            meta: { href: '/accounts', accountId: card._id, dueDate: due, remaining: statement.remaining },
+            dedupeKey: `card:due:${card._id}:${due}:${window}d`
+        });
+
+        if (notification) sent += 1;
+    }
+
+    return { sent, cardsChecked: cards.length };
+}
+
+module.exports = cardDueReminders;
@@ -0,0 +1,34 @@
+/* Permanently removes transactions that have been in the trash for longer
+ * than services/trash allows.
+ *
+ * Idempotent: an entry is gone once purged, so a second run finds nothing.
+ */
+const TrashedTransaction = require('../models/trashedTransaction.model');
+const { purgeTrash } = require('../services/trash');
+const logger = require('../utils/logger');
+
+async function emptyTrash(now = new Date()) {
+    const expired = await TrashedTransaction.find({ purgeAt: { $lte: now } }).select('user').lean();
+
+    const byUser = new Map();
+    for (const entry of expired) {
+        const ids = byUser.get(String(entry.user)) || [];
+        ids.push(entry._id);
+        byUser.set(String(entry.user), ids);
+    }
+
+    let purged = 0;
+    for (const [userId, ids] of byUser) {
+        try {
+            purged += await purgeTrash(userId, { _id: { $in: ids } });
+        } catch (err) {
+            // One user's failure must not stop the rest; their entries are
+            // still expired, so the next run retries them.
+            logger.error('Failed to empty trash', { userId, error: err.message });
+        }
+    }
+
+    return { purged };
+}
+
+module.exports = emptyTrash;
@@ -0,0 +1,33 @@
+/* Looks for transactions entered twice, for every user who has written any
+ * recently.
+ *
+ * Idempotent: services/duplicates never files the same pair twice, and its
+ * notification is keyed by what the scan found. Users are picked by recent
+ * writes rather than all at once; a gap longer than RECENT_DAYS is caught up
+ * by the user's next transaction or a manual scan from the queue.
+ */
+const Transaction = require('../models/transaction.model');
+const { scanForDuplicates } = require('../services/duplicates');
+const logger = require('../utils/logger');
+
+const RECENT_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function findDuplicates(now = new Date()) {
+    const since = new Date(now.getTime() - RECENT_DAYS * DAY_MS);
+    const users = await Transaction.distinct('user', { updatedAt: { $gte: since } });
+
+    let found = 0;
+    for (const userId of users) {
+        try {
+            found += (await scanForDuplicates(userId, now)).found;
+        } catch (err) {
+            // One user's failure must not stop the rest.
+            logger.error('Duplicate scan failed', { userId, error: err.message });
+        }
+    }
+
+    return { found, usersScanned: users.length };
+}
+
+module.exports = findDuplicates;
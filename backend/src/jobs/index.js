@@ -3,6 +3,10 @@ const scheduler = require('./scheduler');
 const postRecurring = require('./postRecurring');
 const goalReminders = require('./goalReminders');
 const monthlyReport = require('./monthlyReport');
+const emptyTrash = require('./emptyTrash');
+const findDuplicates = require('./findDuplicates');
+const cardDueReminders = require('./cardDueReminders');
+const netWorthSnapshots = require('./netWorthSnapshots');
 
 const FIFTEEN_MINUTES = 15 * 60 * 1000;
 const SIX_HOURS = 6 * 60 * 60 * 1000;
@@ -17,6 +21,18 @@ function registerJobs() {
     // than waiting a full day.
     scheduler.register('goalReminders', goalReminders, SIX_HOURS);
     scheduler.register('monthlyReport', monthlyReport, SIX_HOURS);
+
+    // Expiry is measured in days, so a few hours late is no different.
+    scheduler.register('emptyTrash', emptyTrash, SIX_HOURS);
+
+    // A duplicate waits for the user's review anyway; a few hours is no delay.
+    scheduler.register('findDuplicates', findDuplicates, SIX_HOURS);
+
+    // Reminders are days ahead of the due date and deduped by key.
+    scheduler.register('cardDueReminders', cardDueReminders, SIX_HOURS);
+
+    // One snapshot per day, refreshed on each run until the day is over.
+    scheduler.register('netWorthSnapshots', netWorthSnapshots, SIX_HOURS);
 }
 
 module.exports = { registerJobs, scheduler };
@@ -8,6 +8,7 @@
 const User = require('../models/user.model');
 const Transaction = require('../models/transaction.model');
 const { dispatch } = require('../services/notifications');
+const { TransactionQueries } = require('../utils/dbOptimization');
 
 const previousMonthKey = (now) => {
     const d = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
@@ -25,17 +26,28 @@ async function monthlyReport(now = new Date()) {
     const month = previousMonthKey(now);
     const { start, end } = monthBounds(month);
 
-    // One aggregation for everybody, rather than a query per user.
+    // One aggregation for everybody, rather than a query per user. A linked
+    // refund is grouped on its own: it is taken off spending, not added to
+    // income. Amounts are in each user's base currency.
     const totals = await Transaction.aggregate([
         { $match: { date: { $gte: start, $lt: end }, type: { $in: ['income', 'expense'] } } },
-        { $group: { _id: { user: '$user', type: '$type' }, total: { $sum: '$amount' } } }
+        {
+            $group: {
+                _id: {
+                    user: '$user',
+                    type: { $cond: [{ $ifNull: ['$refundOf', false] }, 'refund', '$type'] }
+                },
+                total: { $sum: TransactionQueries.baseAmount }
+            }
+        }
     ]);
 
     const byUser = new Map();
     for (const row of totals) {
         const key = String(row._id.user);
         const entry = byUser.get(key) || { income: 0, expense: 0 };
-        entry[row._id.type] = row.total;
+        if (row._id.type === 'refund') entry.expense -= row.total;
+        else entry[row._id.type] += row.total;
         byUser.set(key, entry);
     }
 
@@ -47,11 +59,13 @@ async function monthlyReport(now = new Date()) {
     for (const user of users) {
         const { income, expense } = byUser.get(String(user._id));
         const net = income - expense;
+        const currency = (user.settings && user.settings.currency) || 'USD';
+        const money = (n) => `${n.toFixed(2)} ${currency}`;
 
         const notification = await dispatch(user, {
             type: 'report',
             title: `Your ${month} summary`,
-            body: `Income ${income.toFixed(2)}, spending ${expense.toFixed(2)}, ${net >= 0 ? 'saved' : 'overspent by'} ${Math.abs(net).toFixed(2)}.`,
+            body: `Income ${money(income)}, spending ${money(expense)}, ${net >= 0 ? 'saved' : 'overspent by'} ${money(Math.abs(net))}.`,
             meta: { href: '/reports', month, income, expense, net },
             dedupeKey: `report:monthly:${month}`
         });
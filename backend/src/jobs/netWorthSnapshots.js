@@ -0,0 +1,28 @@
+/* Takes each user's net worth snapshot for the day.
+ *
+ * Idempotent by date: a snapshot is keyed by user and day, so every run
+ * replaces today's with fresher balances, and the last run of the day leaves
+ * its closing figure. A user whose snapshots stopped (the server was down)
+ * has the missed days filled in, up to services/netWorth MAX_CATCH_UP_DAYS.
+ */
+const Account = require('../models/account.model');
+const { snapshotUser } = require('../services/netWorth');
+const logger = require('../utils/logger');
+
+async function netWorthSnapshots(now = new Date()) {
+    const users = await Account.distinct('user');
+
+    let written = 0;
+    for (const userId of users) {
+        try {
+            written += await snapshotUser(userId, now);
+        } catch (err) {
+            // One user's failure must not stop the rest.
+            logger.error('Net worth snapshot failed', { userId, error: err.message });
+        }
+    }
+
+    return { written, users: users.length };
+}
+
+module.exports = netWorthSnapshots;
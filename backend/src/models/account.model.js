@@ -14,7 +14,7 @@ const accountSchema = new mongoose.Schema({
     name: { type: String, required: true, trim: true },
     type: {
         type: String,
-        enum: ['cash', 'bank', 'card', 'savings'],
+        enum: ['cash', 'bank', 'card', 'savings', 'loan', 'investment'],
         default: 'bank'
     },
     // Money already in the account before the first recorded transaction.
@@ -23,7 +23,26 @@ const accountSchema = new mongoose.Schema({
     isArchived: { type: Boolean, default: false },
     // The account transactions fall back to when none is specified. Exactly one
     // per user, enforced by the partial unique index below.
-    isDefault: { type: Boolean, default: false }
+    isDefault: { type: Boolean, default: false },
+    // Set when a reconciliation completes: the statement it balanced against.
+    lastReconciledAt: { type: Date },
+    lastReconciledBalance: { type: Number },
+    // Cards only. The statement closes on statementDay and is due on the next
+    // dueDay after that; a day past the end of a short month means its last
+    // day. See services/creditCard.
+    creditLimit: { type: Number, min: 0 },
+    statementDay: { type: Number, min: 1, max: 31 },
+    dueDay: { type: Number, min: 1, max: 31 },
+    // Loans only. What was borrowed, at what annual rate (percent), over how
+    // many monthly payments falling on paymentDay, starting the month after
+    // startDate. The balance starts at minus the principal; each payment is a
+    // transfer of its principal into the loan plus an interest expense. See
+    // services/loans.
+    principal: { type: Number, min: 0 },
+    interestRate: { type: Number, min: 0, max: 100 },
+    termMonths: { type: Number, min: 1, max: 600 },
+    paymentDay: { type: Number, min: 1, max: 31 },
+    startDate: { type: Date }
 }, { timestamps: true });
 
 accountSchema.index({ user: 1, isArchived: 1 }); // Active account list
@@ -0,0 +1,25 @@
+/* Attachment model: a receipt or document kept next to a transaction.
+ *
+ * Only metadata lives here; the file itself is in whichever store
+ * services/attachmentStorage is configured for, under storageKey. The
+ * thumbnail is small enough (see services/attachments) to keep inline, which
+ * saves a storage round trip for every row of the transaction list.
+ */
+const mongoose = require('mongoose');
+
+const attachmentSchema = new mongoose.Schema({
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    transaction: { type: mongoose.Schema.Types.ObjectId, ref: 'Transaction', required: true },
+    filename: { type: String, required: true },
+    // Detected from the file's own bytes, never taken from the client.
+    contentType: { type: String, enum: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'], required: true },
+    size: { type: Number, required: true },
+    storageKey: { type: String, required: true },
+    // JPEG produced by the browser at upload time. Images only.
+    thumbnail: { type: Buffer, select: false },
+    hasThumbnail: { type: Boolean, default: false }
+}, { timestamps: true });
+
+attachmentSchema.index({ user: 1, transaction: 1 }); // A transaction's attachments
+
+module.exports = mongoose.model('Attachment', attachmentSchema);
@@ -0,0 +1,35 @@
+/* Categorization rule model: "description contains UBER → Transport, Card".
+ *
+ * Rules are evaluated by services/categorizationRules whenever a transaction is
+ * created, whatever created it. Lower priority numbers run first; for each
+ * field the first matching rule that sets it wins, and tags from every
+ * matching rule accumulate.
+ */
+const mongoose = require('mongoose');
+
+const RULE_OPERATORS = ['contains', 'startsWith', 'endsWith', 'equals'];
+
+const ruleSchema = new mongoose.Schema({
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    name: { type: String, required: true },
+    priority: { type: Number, default: 0 },
+    isActive: { type: Boolean, default: true },
+    conditions: {
+        // Case-insensitive, always on the description. Plain string operators
+        // only: a user-supplied regex would run against every new transaction.
+        operator: { type: String, enum: RULE_OPERATORS, default: 'contains' },
+        value: { type: String, required: true },
+        type: { type: String, enum: ['income', 'expense'] },
+        minAmount: { type: Number },
+        maxAmount: { type: Number }
+    },
+    actions: {
+        category: { type: mongoose.Schema.Types.ObjectId, ref: 'Category' },
+        account: { type: mongoose.Schema.Types.ObjectId, ref: 'Account' },
+        tags: { type: [String], default: undefined }
+    }
+}, { timestamps: true });
+
+ruleSchema.index({ user: 1, priority: 1 }); // Evaluation order
+
+module.exports = mongoose.model('CategorizationRule', ruleSchema);
@@ -4,9 +4,12 @@ const mongoose = require('mongoose');
 const categorySchema = new mongoose.Schema({
     user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
     name: { type: String, required: true },
-    description: { type: String }
+    description: { type: String },
+    // Optional. Spending here also counts toward the parent (services/categoryTree).
+    parent: { type: mongoose.Schema.Types.ObjectId, ref: 'Category', default: null }
 }, { timestamps: true });
 
 categorySchema.index({ user: 1, name: 1 }, { unique: true });
+categorySchema.index({ user: 1, parent: 1 }); // A category's children
 
 module.exports = mongoose.model('Category', categorySchema);
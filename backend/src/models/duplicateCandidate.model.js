@@ -0,0 +1,35 @@
+/* DuplicateCandidate model: two transactions that look like the same money
+ * entered twice, found by services/duplicates and waiting for the user.
+ *
+ * A candidate is never deleted once the user has answered it. Its pairKey
+ * stays behind, so the next scan recognises the pair and does not ask again:
+ *
+ *   merged   one of the two went to the trash
+ *   kept     both are real; this pair is not asked about again
+ *   ignored  both are real and so is anything like them (same account, type,
+ *            amount and description), e.g. two coffees on the same morning
+ *
+ * Unanswered candidates whose transactions have gone are dropped by the scan.
+ */
+const mongoose = require('mongoose');
+
+const duplicateCandidateSchema = new mongoose.Schema({
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    // Always the two ids in ascending order, so either way round is one pair.
+    transactions: {
+        type: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Transaction' }],
+        required: true
+    },
+    pairKey: { type: String, required: true },
+    // What "ignore forever" suppresses; see duplicateSignature().
+    signature: { type: String, required: true },
+    // How alike the two descriptions are, 0 to 1. Orders the queue.
+    similarity: { type: Number, default: 0 },
+    status: { type: String, enum: ['pending', 'merged', 'kept', 'ignored'], default: 'pending' },
+    resolvedAt: { type: Date }
+}, { timestamps: true });
+
+duplicateCandidateSchema.index({ user: 1, pairKey: 1 }, { unique: true }); // One candidate per pair
+duplicateCandidateSchema.index({ user: 1, status: 1, createdAt: -1 }); // The review queue
+
+module.exports = mongoose.model('DuplicateCandidate', duplicateCandidateSchema);
@@ -0,0 +1,32 @@
+/* FxRate model: one day's exchange rate for one currency.
+ *
+ * Every rate is quoted against a single pivot currency (services/fx PIVOT,
+ * USD): `rate` is what one unit of `currency` is worth in it. Any pair is then
+ * the ratio of two rows, so the table needs one row per currency per day
+ * rather than one per pair.
+ *
+ * The table is maintained by administrators, by hand or from CSV. Nothing
+ * fetches rates from outside: a transaction's base amount must be
+ * reproducible from data we hold.
+ */
+const mongoose = require('mongoose');
+
+const fxRateSchema = new mongoose.Schema({
+    currency: { type: String, required: true, uppercase: true, trim: true, minlength: 3, maxlength: 3 },
+    // Midnight UTC. A rate applies from this day until the next one.
+    date: { type: Date, required: true },
+    rate: { type: Number, required: true, min: 0 }
+}, { timestamps: true });
+
+fxRateSchema.pre('validate', function preValidate(next) {
+    if (this.date) {
+        const day = new Date(this.date);
+        day.setUTCHours(0, 0, 0, 0);
+        this.date = day;
+    }
+    next();
+});
+
+fxRateSchema.index({ currency: 1, date: -1 }, { unique: true }); // Latest rate on or before a day
+
+module.exports = mongoose.model('FxRate', fxRateSchema);
@@ -0,0 +1,24 @@
+/* Import batch model: one uploaded bank statement.
+ *
+ * Every transaction created from the file carries this batch's id as
+ * importId, which is what makes a bad import reversible in one call — the same
+ * trick recurringId plays for a misconfigured recurring rule.
+ */
+const mongoose = require('mongoose');
+
+const importBatchSchema = new mongoose.Schema({
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    filename: { type: String },
+    format: { type: String, enum: ['csv', 'ofx', 'qif'], required: true },
+    // The account every row was posted to. Unset means the user's default.
+    account: { type: mongoose.Schema.Types.ObjectId, ref: 'Account' },
+    imported: { type: Number, default: 0 },
+    // Rows the writer rejected (bad account, validation). Counted, not fatal.
+    failed: { type: Number, default: 0 },
+    status: { type: String, enum: ['completed', 'undone'], default: 'completed' },
+    undoneAt: { type: Date }
+}, { timestamps: true });
+
+importBatchSchema.index({ user: 1, createdAt: -1 }); // Recent imports list
+
+module.exports = mongoose.model('ImportBatch', importBatchSchema);
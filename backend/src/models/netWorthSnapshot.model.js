@@ -0,0 +1,35 @@
+/* NetWorthSnapshot model: a user's account balances at the end of one day.
+ *
+ * Balances are derived, so yesterday's cannot be read back once today's
+ * transactions land; the daily job (jobs/netWorthSnapshots) writes one of
+ * these per user per day instead, and migration 004 rebuilt the days before
+ * it existed. One per user and day: a re-run replaces the day's snapshot.
+ *
+ * Totals are in `currency`, the user's base currency when it was taken. An
+ * account whose currency had no rate has a null baseBalance and is left out
+ * of them.
+ */
+const mongoose = require('mongoose');
+
+const accountBalanceSchema = new mongoose.Schema({
+    account: { type: mongoose.Schema.Types.ObjectId, ref: 'Account', required: true },
+    // In the account's own currency.
+    balance: { type: Number, required: true },
+    baseBalance: { type: Number, default: null }
+}, { _id: false });
+
+const netWorthSnapshotSchema = new mongoose.Schema({
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    // Midnight UTC of the day the balances close.
+    date: { type: Date, required: true },
+    currency: { type: String, required: true },
+    // Accounts in credit, and the debt on those in the red, as positive sums.
+    assets: { type: Number, required: true },
+    liabilities: { type: Number, required: true },
+    netWorth: { type: Number, required: true },
+    accounts: { type: [accountBalanceSchema], default: [] }
+}, { timestamps: true });
+
+netWorthSnapshotSchema.index({ user: 1, date: -1 }, { unique: true }); // One per day; latest first
+
+module.exports = mongoose.model('NetWorthSnapshot', netWorthSnapshotSchema);
@@ -12,6 +12,10 @@
  *
  * Dispatch upserts on it, so a repeat trigger is a no-op while a genuinely new
  * event — next month, a different category — yields a new key naturally.
+ *
+ * An "over budget" alert whose scope drops back under its limit is resolved:
+ * meta.resolved is set and `:resolved:<timestamp>` is appended to its key, so
+ * going over again is a new event.
  */
 const mongoose = require('mongoose');
 
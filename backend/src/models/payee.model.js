@@ -0,0 +1,24 @@
+/* Payee model: the merchant or person on the other side of a transaction.
+ *
+ * Bank descriptions name the same merchant many ways ("AMZN Mktp US*2K4",
+ * "Amazon.com"), so a payee carries alias patterns and services/payees links
+ * each transaction to the payee its description matches. A description that
+ * matches none gets a payee of its own, named from the description with the
+ * card-terminal noise taken out; merging two payees is how the user teaches
+ * us that they are one.
+ */
+const mongoose = require('mongoose');
+
+const payeeSchema = new mongoose.Schema({
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    name: { type: String, required: true },
+    // Lowercased name: what makes "Amazon" and "amazon" one payee.
+    key: { type: String, required: true },
+    // Matched case-insensitively anywhere in a description; '*' stands for any
+    // run of characters. The name itself always counts as one.
+    aliases: { type: [String], default: [] }
+}, { timestamps: true });
+
+payeeSchema.index({ user: 1, key: 1 }, { unique: true });
+
+module.exports = mongoose.model('Payee', payeeSchema);
@@ -0,0 +1,31 @@
+/* Price model: what one unit of a security was worth on a day.
+ *
+ * Entered by the user, by hand or from CSV, and kept per user: there are no
+ * live quotes, and one user's prices are no business of another's. A holding
+ * is valued at the latest price on or before the day asked about; a trade
+ * records its own price as one, so a holding is never without.
+ *
+ * Prices are in the currency of the account that holds the security.
+ */
+const mongoose = require('mongoose');
+
+const priceSchema = new mongoose.Schema({
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    symbol: { type: String, required: true, uppercase: true, trim: true },
+    // Midnight UTC, like FxRate.
+    date: { type: Date, required: true },
+    price: { type: Number, required: true, min: 0 }
+}, { timestamps: true });
+
+priceSchema.pre('validate', function preValidate(next) {
+    if (this.date) {
+        const day = new Date(this.date);
+        day.setUTCHours(0, 0, 0, 0);
+        this.date = day;
+    }
+    next();
+});
+
+priceSchema.index({ user: 1, symbol: 1, date: -1 }, { unique: true }); // Latest price on or before a day
+
+module.exports = mongoose.model('Price', priceSchema);
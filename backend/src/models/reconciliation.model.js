@@ -0,0 +1,29 @@
+/* Reconciliation model: one pass of checking an account against a bank
+ * statement.
+ *
+ * A session is opened with the statement's date and ending balance, the user
+ * ticks off the transactions the statement shows, and it completes once the
+ * ticked rows bring the account to exactly that balance. Completed sessions
+ * are kept as the account's reconciliation log.
+ */
+const mongoose = require('mongoose');
+
+const reconciliationSchema = new mongoose.Schema({
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    account: { type: mongoose.Schema.Types.ObjectId, ref: 'Account', required: true },
+    statementDate: { type: Date, required: true },
+    statementBalance: { type: Number, required: true },
+    status: { type: String, enum: ['open', 'completed'], default: 'open' },
+    completedAt: { type: Date },
+    // How many transactions the completed session locked.
+    reconciledCount: { type: Number, default: 0 }
+}, { timestamps: true });
+
+reconciliationSchema.index({ user: 1, account: 1, createdAt: -1 }); // An account's log
+// At most one open session per account.
+reconciliationSchema.index(
+    { account: 1 },
+    { unique: true, partialFilterExpression: { status: 'open' } }
+);
+
+module.exports = mongoose.model('Reconciliation', reconciliationSchema);
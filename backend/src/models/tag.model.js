@@ -0,0 +1,19 @@
+/* Tag model: the per-user registry of transaction labels.
+ *
+ * Transactions store tag names, not ids, so filtering is a plain array match
+ * and an export needs no join. This collection exists for everything else the
+ * UI needs: suggestions in the tag picker, a colour, and a single place to
+ * rename or delete a tag across every transaction at once.
+ */
+const mongoose = require('mongoose');
+
+const tagSchema = new mongoose.Schema({
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    // Always normalised (see utils/tags) — the same form transactions store.
+    name: { type: String, required: true },
+    color: { type: String }
+}, { timestamps: true });
+
+tagSchema.index({ user: 1, name: 1 }, { unique: true });
+
+module.exports = mongoose.model('Tag', tagSchema);
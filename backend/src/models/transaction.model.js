@@ -1,14 +1,49 @@
 /* Transaction model: income or expense record */
 const mongoose = require('mongoose');
+const { normalizeTags } = require('../utils/tags');
+
+// One slice of a split transaction — e.g. the household part of a supermarket
+// receipt. Slices carry no date, account or type of their own; those always
+// come from the parent row.
+const splitSchema = new mongoose.Schema({
+    category: { type: mongoose.Schema.Types.ObjectId, ref: 'Category' },
+    amount: { type: Number, required: true },
+    note: { type: String }
+}, { _id: false });
+
+// What a 'trade' row bought or sold. The row's amount is the cash that moved:
+// quantity × price plus fees on a buy, less fees on a sell.
+const tradeSchema = new mongoose.Schema({
+    side: { type: String, enum: ['buy', 'sell'], required: true },
+    symbol: { type: String, required: true, uppercase: true, trim: true },
+    quantity: { type: Number, required: true, min: 0 },
+    price: { type: Number, required: true, min: 0 },
+    fees: { type: Number, default: 0, min: 0 }
+}, { _id: false });
 
 const transactionSchema = new mongoose.Schema({
     user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
     amount: { type: Number, required: true },
+    // The currency `amount` is in: always its account's. baseAmount is the
+    // same money in the user's base currency at fxRate, the rate on the
+    // transaction's date (see services/fx), and is what every total, budget
+    // and report adds up. Set by transactionWriter; rows from before
+    // migration 003 have neither and count at face value.
+    currency: { type: String },
+    baseAmount: { type: Number },
+    fxRate: { type: Number },
+    // On a transfer between accounts in different currencies: what arrived,
+    // in the destination's currency. Unset when both sides share one.
+    transferAmount: { type: Number },
     category: { type: mongoose.Schema.Types.ObjectId, ref: 'Category' },
     // 'transfer' moves money between two of the user's own accounts. It is
     // excluded from every income/expense and budget calculation automatically,
     // because those are all written as inclusion filters (type: 'expense').
-    type: { type: String, enum: ['income', 'expense', 'transfer'], required: true },
+    // So is 'trade', a buy or sell inside an investment account: cash becomes
+    // a holding or a holding becomes cash, and nothing is earned or spent.
+    type: { type: String, enum: ['income', 'expense', 'transfer', 'trade'], required: true },
+    // Set exactly when type is 'trade'. See services/investments.
+    trade: { type: tradeSchema, default: undefined },
     // Required as of migration 001, which backfilled every pre-existing row.
     // Enforced here rather than in Joi on purpose: a stale cached SPA that
     // posts without one must not get a 400 it cannot recover from, so the Joi
@@ -18,11 +53,41 @@ const transactionSchema = new mongoose.Schema({
     // Destination account. Required only when type is 'transfer'.
     transferTo: { type: mongoose.Schema.Types.ObjectId, ref: 'Account' },
     date: { type: Date, default: Date.now },
+    // When present, the category breakdown of `amount`. Every category-level
+    // figure (budgets, reports, export) reads these instead of `category`,
+    // which is cleared on a split row so nothing can count it twice.
+    splits: { type: [splitSchema], default: undefined },
     description: { type: String },
+    // The merchant, matched from the description by services/payees. Unset
+    // on transfers.
+    payee: { type: mongoose.Schema.Types.ObjectId, ref: 'Payee' },
+    // On an income row: the expense it refunds or reimburses. A linked refund
+    // is not earnings — every income and spending figure counts it as negative
+    // spending in the expense's category instead (see services/refunds, which
+    // also files it under that category).
+    refundOf: { type: mongoose.Schema.Types.ObjectId, ref: 'Transaction' },
+    // On an expense: someone owes the user this money back. Outstanding until
+    // refunds linked to it cover the amount.
+    reimbursable: { type: Boolean, default: undefined },
+    // Free-form labels that cut across categories ("tax-deductible",
+    // "vacation-2026"). Stored by name, normalised; the Tag collection is the
+    // registry the UI picks from.
+    tags: { type: [String], default: undefined },
     // Provenance. Lets the UI mark automated entries and makes a misconfigured
-    // recurring rule reversible in bulk via recurringId.
-    source: { type: String, enum: ['manual', 'recurring', 'goal'], default: 'manual' },
-    recurringId: { type: mongoose.Schema.Types.ObjectId, ref: 'RecurringTransaction' }
+    // recurring rule — or a bad statement import — reversible in bulk via
+    // recurringId / importId.
+    source: { type: String, enum: ['manual', 'recurring', 'goal', 'import'], default: 'manual' },
+    recurringId: { type: mongoose.Schema.Types.ObjectId, ref: 'RecurringTransaction' },
+    importId: { type: mongoose.Schema.Types.ObjectId, ref: 'ImportBatch' },
+    // Agreement with the bank: 'cleared' once it shows on a statement,
+    // 'reconciled' once a reconciliation that included it has balanced. A
+    // reconciled row's amount, date, type and accounts are locked (see
+    // transactionWriter). Rows from before this field are pending.
+    // On a transfer this is the leg leaving `account`; each side is on a
+    // different bank statement, so the leg arriving in `transferTo` has its
+    // own `transferStatus`. Either one reconciled locks the transfer.
+    status: { type: String, enum: ['pending', 'cleared', 'reconciled'], default: 'pending' },
+    transferStatus: { type: String, enum: ['pending', 'cleared', 'reconciled'] }
 }, { timestamps: true });
 
 /* Transfer invariants.
@@ -53,11 +118,65 @@ function validateTransfer(doc) {
     }
 }
 
+function validateRefund(doc) {
+    if (doc.refundOf && doc.type !== 'income') {
+        throw badRequest('Only income can refund an expense.');
+    }
+    if (doc.reimbursable && doc.type !== 'expense') {
+        throw badRequest('Only an expense can be reimbursable.');
+    }
+    if (doc.refundOf && String(doc.refundOf) === String(doc._id)) {
+        throw badRequest('A transaction cannot refund itself.');
+    }
+}
+
+function validateTrade(doc) {
+    if (doc.type === 'trade' && !doc.trade) {
+        throw badRequest('A trade needs a side, symbol, quantity and price.');
+    }
+    if (doc.type !== 'trade' && doc.trade) {
+        throw badRequest('Only a trade can carry trade details.');
+    }
+}
+
+const toCents = (n) => Math.round(n * 100);
+
+function validateSplits(doc) {
+    if (!doc.splits || doc.splits.length === 0) return;
+
+    if (doc.type === 'transfer') {
+        throw badRequest('A transfer cannot be split across categories.');
+    }
+    if (doc.splits.length < 2) {
+        throw badRequest('A split needs at least two parts.');
+    }
+    if (doc.splits.some((split) => !(split.amount > 0))) {
+        throw badRequest('Every split amount must be positive.');
+    }
+    // Compared in cents: 33.33 + 33.33 + 33.34 is not exactly 100 in floats.
+    const total = doc.splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+    if (total !== toCents(doc.amount)) {
+        throw badRequest('Split amounts must add up to the transaction amount.');
+    }
+}
+
 transactionSchema.pre('validate', function preValidate(next) {
     try {
-        // A transfer is a movement, not a spending category.
-        if (this.type === 'transfer') this.category = undefined;
+        // A transfer or trade is a movement, not a spending category.
+        if (this.type === 'transfer' || this.type === 'trade') this.category = undefined;
+        // Only a transfer has a second leg to agree with a bank.
+        if (this.type !== 'transfer') this.transferStatus = undefined;
+        else if (!this.transferStatus) this.transferStatus = 'pending';
         validateTransfer(this);
+        validateTrade(this);
+        validateSplits(this);
+        validateRefund(this);
+        // Normalised here rather than only in Joi: the recurring job and the
+        // import path write tags without passing through request validation.
+        if (this.tags) this.tags = normalizeTags(this.tags);
+        // The splits are the category breakdown now. An empty array means
+        // "not split" and leaves category alone.
+        if (this.splits && this.splits.length > 0) this.category = undefined;
         next();
     } catch (err) {
         next(err);
@@ -68,9 +187,21 @@ transactionSchema.pre('validate', function preValidate(next) {
 transactionSchema.index({ user: 1, date: -1 }); // User's transactions by date desc
 transactionSchema.index({ user: 1, type: 1, date: -1 }); // User's income/expense by date
 transactionSchema.index({ user: 1, category: 1, date: -1 }); // User's category spending by date
+transactionSchema.index({ user: 1, 'splits.category': 1, date: -1 }); // Category spending inside splits
 transactionSchema.index({ user: 1, date: 1 }); // Date range queries (ascending)
+transactionSchema.index({ user: 1, tags: 1, date: -1 }); // Filter and report by tag
+// Search. Prefixed by user so a $text query only scans the requester's rows.
+transactionSchema.index(
+    { user: 1, description: 'text', 'splits.note': 'text' },
+    { name: 'transaction_search', weights: { description: 3, 'splits.note': 1 } }
+);
 transactionSchema.index({ recurringId: 1 }, { sparse: true }); // Bulk-undo a recurring rule
+transactionSchema.index({ importId: 1 }, { sparse: true }); // Bulk-undo a statement import
 transactionSchema.index({ user: 1, account: 1, date: -1 }); // Per-account statement
 transactionSchema.index({ user: 1, transferTo: 1, date: -1 }, { sparse: true }); // Incoming transfers
+transactionSchema.index({ user: 1, payee: 1, date: -1 }, { sparse: true }); // Per-merchant spending
+transactionSchema.index({ refundOf: 1 }, { sparse: true }); // Refunds of an expense
+transactionSchema.index({ user: 1, reimbursable: 1, date: -1 }, { sparse: true }); // Outstanding reimbursables
+transactionSchema.index({ user: 1, 'trade.symbol': 1, date: 1 }, { sparse: true }); // Positions by symbol
 
 module.exports = mongoose.model('Transaction', transactionSchema);
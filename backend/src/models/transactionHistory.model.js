@@ -0,0 +1,32 @@
+/* TransactionHistory model: one entry per create, update, delete or restore
+ * of a transaction, with the fields that changed.
+ *
+ * Entries outlive the transaction they describe. A deleted row's history is
+ * exactly what someone chasing a wrong balance needs to see.
+ */
+const mongoose = require('mongoose');
+
+const changeSchema = new mongoose.Schema({
+    field: { type: String, required: true },
+    // Plain JSON values (ids as strings, dates as ISO strings); null when the
+    // field was not set on that side.
+    from: { type: mongoose.Schema.Types.Mixed, default: null },
+    to: { type: mongoose.Schema.Types.Mixed, default: null }
+}, { _id: false });
+
+const transactionHistorySchema = new mongoose.Schema({
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    transaction: { type: mongoose.Schema.Types.ObjectId, ref: 'Transaction', required: true },
+    action: { type: String, enum: ['create', 'update', 'delete', 'restore'], required: true },
+    // Who made the change: the user themselves, or the automation acting for
+    // them. ref is the recurring rule, goal or import batch when there is one.
+    actor: {
+        kind: { type: String, enum: ['user', 'recurring', 'goal', 'import'], required: true },
+        ref: { type: mongoose.Schema.Types.ObjectId }
+    },
+    changes: { type: [changeSchema], default: [] }
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+transactionHistorySchema.index({ user: 1, transaction: 1, createdAt: -1 }); // A transaction's history, newest first
+
+module.exports = mongoose.model('TransactionHistory', transactionHistorySchema);
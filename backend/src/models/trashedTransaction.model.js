@@ -0,0 +1,28 @@
+/* TrashedTransaction model: a deleted transaction, kept for 30 days so it can
+ * be restored.
+ *
+ * Trashed rows live in their own collection rather than behind a flag on
+ * Transaction. Balances, budget checks, reports, search and exports all read
+ * Transaction, and every one of them would otherwise need a "not deleted"
+ * clause; a single forgotten clause would count thrown-away money. Here they
+ * cannot see the trash at all.
+ *
+ * The document keeps the transaction's own _id, so restoring puts it back
+ * under the same id and its attachments and history still line up.
+ */
+const mongoose = require('mongoose');
+
+const trashedTransactionSchema = new mongoose.Schema({
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    // The transaction as it was when deleted, every field included.
+    transaction: { type: Object, required: true },
+    deletedAt: { type: Date, default: Date.now },
+    // When jobs/emptyTrash removes it for good. Not a TTL index: purging also
+    // deletes the attachments' files, which MongoDB cannot do on its own.
+    purgeAt: { type: Date, required: true }
+});
+
+trashedTransactionSchema.index({ user: 1, deletedAt: -1 }); // The trash, newest first
+trashedTransactionSchema.index({ purgeAt: 1 }); // Expired entries, for the job
+
+module.exports = mongoose.model('TrashedTransaction', trashedTransactionSchema);
@@ -2,10 +2,14 @@
 const express = require('express');
 const router = express.Router();
 const ctrl = require('../controllers/accounts.controller');
+const reconcile = require('../controllers/reconciliation.controller');
+const loans = require('../controllers/loans.controller');
+const statement = require('../controllers/statement.controller');
+const merge = require('../controllers/accountMerge.controller');
 const auth = require('../middlewares/auth');
 const checkSubscription = require('../middlewares/checkSubscription');
 const { validateBody, validateParams, validateMultiple, sanitizeInput } = require('../middleware/validation');
-const { accountSchemas, paramSchemas } = require('../schemas/validationSchemas');
+const { accountSchemas, reconciliationSchemas, loanSchemas, statementSchemas, paramSchemas } = require('../schemas/validationSchemas');
 
 router.use(auth);
 router.use(checkSubscription);
@@ -20,5 +24,36 @@ router.put('/:id', validateMultiple([
 ]), ctrl.updateAccount);
 router.delete('/:id', validateParams(paramSchemas.id), ctrl.deleteAccount);
 router.post('/:id/default', validateParams(paramSchemas.id), ctrl.setDefaultAccount);
+router.post('/:id/merge', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: accountSchemas.merge, target: 'body' }
+]), merge.mergeAccount);
+router.post('/:id/close', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: accountSchemas.close, target: 'body' }
+]), merge.closeAccount);
+
+router.get('/:id/reconciliation', validateParams(paramSchemas.id), reconcile.getReconciliation);
+router.post('/:id/reconciliation', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: reconciliationSchemas.start, target: 'body' }
+]), reconcile.startReconciliation);
+router.put('/:id/reconciliation/cleared', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: reconciliationSchemas.cleared, target: 'body' }
+]), reconcile.markCleared);
+router.post('/:id/reconciliation/finish', validateParams(paramSchemas.id), reconcile.finishReconciliation);
+router.delete('/:id/reconciliation', validateParams(paramSchemas.id), reconcile.cancelReconciliation);
+
+router.get('/:id/statement', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: statementSchemas.query, target: 'query' }
+]), statement.getStatement);
+
+router.get('/:id/amortization', validateParams(paramSchemas.id), loans.getSchedule);
+router.post('/:id/loan-payments', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: loanSchemas.payment, target: 'body' }
+]), loans.recordPayment);
 
 module.exports = router;
@@ -0,0 +1,23 @@
+/* Attachment routes */
+const express = require('express');
+const router = express.Router();
+const ctrl = require('../controllers/attachments.controller');
+const auth = require('../middlewares/auth');
+const checkSubscription = require('../middlewares/checkSubscription');
+const { validateBody, validateQuery, validateParams } = require('../middleware/validation');
+const { attachmentSchemas, paramSchemas } = require('../schemas/validationSchemas');
+
+router.use(auth);
+router.use(checkSubscription);
+
+// No sanitizeInput anywhere here: its event-handler filter strips "on…="
+// sequences, which occur naturally in base64 and would corrupt the upload.
+// Nothing in these bodies is rendered as HTML; the filename is only ever sent
+// back in a quoted Content-Disposition header.
+router.get('/', validateQuery(attachmentSchemas.list), ctrl.listAttachments);
+router.post('/', validateBody(attachmentSchemas.upload), ctrl.uploadAttachment);
+router.get('/:id/download', validateParams(paramSchemas.id), ctrl.downloadAttachment);
+router.get('/:id/thumbnail', validateParams(paramSchemas.id), ctrl.getThumbnail);
+router.delete('/:id', validateParams(paramSchemas.id), ctrl.deleteAttachment);
+
+module.exports = router;
@@ -4,9 +4,12 @@ const router = express.Router();
 const ctrl = require('../controllers/categories.controller');
 const auth = require('../middlewares/auth');
 const checkSubscription = require('../middlewares/checkSubscription');
-const { validateBody, validateParams, validateMultiple, sanitizeInput } = require('../middleware/validation');
+const { validateBody, validateParams, validateQuery, validateMultiple, sanitizeInput } = require('../middleware/validation');
 const { categorySchemas, paramSchemas } = require('../schemas/validationSchemas');
 
+// The template catalog holds no user data; the signup page shows it too.
+router.get('/templates', sanitizeInput, validateQuery(categorySchemas.templates), ctrl.listTemplates);
+
 router.use(auth);
 router.use(checkSubscription);
 router.use(sanitizeInput);
@@ -17,6 +20,15 @@ router.put('/:id', validateMultiple([
     { schema: paramSchemas.id, target: 'params' },
     { schema: categorySchemas.update, target: 'body' }
 ]), ctrl.updateCategory);
-router.delete('/:id', validateParams(paramSchemas.id), ctrl.deleteCategory);
+router.post('/templates/apply', validateBody(categorySchemas.applyTemplate), ctrl.applyTemplate);
+router.get('/:id/usage', validateParams(paramSchemas.id), ctrl.getCategoryUsage);
+router.delete('/:id', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: categorySchemas.remove, target: 'query' }
+]), ctrl.deleteCategory);
+router.post('/:id/merge', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: categorySchemas.merge, target: 'body' }
+]), ctrl.mergeCategory);
 
 module.exports = router;
@@ -0,0 +1,23 @@
+/* Duplicate review routes */
+const express = require('express');
+const router = express.Router();
+const ctrl = require('../controllers/duplicates.controller');
+const auth = require('../middlewares/auth');
+const checkSubscription = require('../middlewares/checkSubscription');
+const { validateParams, validateMultiple, sanitizeInput } = require('../middleware/validation');
+const { duplicateSchemas, paramSchemas } = require('../schemas/validationSchemas');
+
+router.use(auth);
+router.use(checkSubscription);
+router.use(sanitizeInput);
+
+router.get('/', ctrl.listDuplicates);
+router.post('/scan', ctrl.scanDuplicates);
+router.post('/:id/merge', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: duplicateSchemas.merge, target: 'body' }
+]), ctrl.mergeDuplicate);
+router.post('/:id/keep', validateParams(paramSchemas.id), ctrl.keepBoth);
+router.post('/:id/ignore', validateParams(paramSchemas.id), ctrl.ignoreDuplicate);
+
+module.exports = router;
@@ -0,0 +1,22 @@
+/* Exchange rate routes - reading for everyone signed in, changes admin only */
+const express = require('express');
+const router = express.Router();
+const ctrl = require('../controllers/fxRates.controller');
+const auth = require('../middlewares/auth');
+const admin = require('../middlewares/admin');
+const { validateBody, validateQuery, validateParams, sanitizeInput } = require('../middleware/validation');
+const { fxRateSchemas, paramSchemas } = require('../schemas/validationSchemas');
+
+router.use(auth);
+router.use(sanitizeInput);
+
+router.get('/currencies', ctrl.listCurrencies);
+router.get('/', validateQuery(fxRateSchemas.list), ctrl.listRates);
+
+// Admin-only routes
+router.use(admin);
+router.post('/', validateBody(fxRateSchemas.save), ctrl.saveRate);
+router.post('/import', validateBody(fxRateSchemas.import), ctrl.importRates);
+router.delete('/:id', validateParams(paramSchemas.id), ctrl.deleteRate);
+
+module.exports = router;
@@ -0,0 +1,21 @@
+/* Statement import routes */
+const express = require('express');
+const router = express.Router();
+const ctrl = require('../controllers/imports.controller');
+const auth = require('../middlewares/auth');
+const checkSubscription = require('../middlewares/checkSubscription');
+const { validateBody, validateParams, sanitizeInput } = require('../middleware/validation');
+const { importSchemas, paramSchemas } = require('../schemas/validationSchemas');
+
+router.use(auth);
+router.use(checkSubscription);
+
+router.get('/', ctrl.listImports);
+// No sanitizeInput on preview: it collapses runs of whitespace, which would
+// flatten the uploaded file onto a single line before it is parsed. Nothing is
+// written here, and the rows that do get written pass through it on commit.
+router.post('/preview', validateBody(importSchemas.preview), ctrl.previewImport);
+router.post('/', sanitizeInput, validateBody(importSchemas.commit), ctrl.commitImport);
+router.delete('/:id', validateParams(paramSchemas.id), ctrl.undoImport);
+
+module.exports = router;
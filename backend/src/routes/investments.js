@@ -0,0 +1,26 @@
+/* Investment routes - holdings, trades and prices */
+const express = require('express');
+const router = express.Router();
+const ctrl = require('../controllers/investments.controller');
+const auth = require('../middlewares/auth');
+const checkSubscription = require('../middlewares/checkSubscription');
+const { validateBody, validateQuery, validateParams, validateMultiple, sanitizeInput } = require('../middleware/validation');
+const { investmentSchemas, paramSchemas } = require('../schemas/validationSchemas');
+
+router.use(auth);
+router.use(checkSubscription);
+router.use(sanitizeInput);
+
+router.get('/portfolio', ctrl.getPortfolio);
+router.get('/accounts/:id/holdings', validateParams(paramSchemas.id), ctrl.getHoldings);
+router.post('/accounts/:id/trades', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: investmentSchemas.trade, target: 'body' }
+]), ctrl.recordTrade);
+
+router.get('/prices', validateQuery(investmentSchemas.listPrices), ctrl.listPrices);
+router.post('/prices', validateBody(investmentSchemas.savePrice), ctrl.savePrice);
+router.post('/prices/import', validateBody(investmentSchemas.importPrices), ctrl.importPrices);
+router.delete('/prices/:id', validateParams(paramSchemas.id), ctrl.deletePrice);
+
+module.exports = router;
@@ -0,0 +1,16 @@
+/* Net worth routes */
+const express = require('express');
+const router = express.Router();
+const ctrl = require('../controllers/netWorth.controller');
+const auth = require('../middlewares/auth');
+const checkSubscription = require('../middlewares/checkSubscription');
+const { validateQuery, sanitizeInput } = require('../middleware/validation');
+const { netWorthSchemas } = require('../schemas/validationSchemas');
+
+router.use(auth);
+router.use(checkSubscription);
+router.use(sanitizeInput);
+
+router.get('/', validateQuery(netWorthSchemas.history), ctrl.getHistory);
+
+module.exports = router;
@@ -0,0 +1,27 @@
+/* Payee routes */
+const express = require('express');
+const router = express.Router();
+const ctrl = require('../controllers/payees.controller');
+const auth = require('../middlewares/auth');
+const checkSubscription = require('../middlewares/checkSubscription');
+const { validateBody, validateParams, validateMultiple, sanitizeInput } = require('../middleware/validation');
+const { payeeSchemas, paramSchemas } = require('../schemas/validationSchemas');
+
+router.use(auth);
+router.use(checkSubscription);
+router.use(sanitizeInput);
+
+router.get('/', ctrl.listPayees);
+router.post('/', validateBody(payeeSchemas.create), ctrl.createPayee);
+router.post('/link', ctrl.linkUnlinked);
+router.put('/:id', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: payeeSchemas.update, target: 'body' }
+]), ctrl.updatePayee);
+router.post('/:id/merge', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: payeeSchemas.merge, target: 'body' }
+]), ctrl.mergePayee);
+router.delete('/:id', validateParams(paramSchemas.id), ctrl.deletePayee);
+
+module.exports = router;
@@ -0,0 +1,17 @@
+/* Refund and reimbursement routes */
+const express = require('express');
+const router = express.Router();
+const ctrl = require('../controllers/refunds.controller');
+const auth = require('../middlewares/auth');
+const checkSubscription = require('../middlewares/checkSubscription');
+const { validateQuery, sanitizeInput } = require('../middleware/validation');
+const { refundSchemas } = require('../schemas/validationSchemas');
+
+router.use(auth);
+router.use(checkSubscription);
+router.use(sanitizeInput);
+
+router.get('/reimbursables', ctrl.listReimbursables);
+router.get('/candidates', validateQuery(refundSchemas.candidates), ctrl.listCandidates);
+
+module.exports = router;
@@ -0,0 +1,29 @@
+/* Categorization rule routes */
+const express = require('express');
+const router = express.Router();
+const ctrl = require('../controllers/rules.controller');
+const auth = require('../middlewares/auth');
+const checkSubscription = require('../middlewares/checkSubscription');
+const { validateBody, validateParams, validateMultiple, sanitizeInput } = require('../middleware/validation');
+const { ruleSchemas, paramSchemas } = require('../schemas/validationSchemas');
+
+router.use(auth);
+router.use(checkSubscription);
+router.use(sanitizeInput);
+
+router.get('/', ctrl.listRules);
+router.post('/', validateBody(ruleSchemas.create), ctrl.createRule);
+// Before '/:id' so "preview" and "reorder" are not read as ids.
+router.post('/preview', validateBody(ruleSchemas.preview), ctrl.previewRule);
+router.put('/reorder', validateBody(ruleSchemas.reorder), ctrl.reorderRules);
+router.put('/:id', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: ruleSchemas.update, target: 'body' }
+]), ctrl.updateRule);
+router.delete('/:id', validateParams(paramSchemas.id), ctrl.deleteRule);
+router.post('/:id/apply', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: ruleSchemas.apply, target: 'body' }
+]), ctrl.applyRule);
+
+module.exports = router;
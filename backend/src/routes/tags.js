@@ -0,0 +1,22 @@
+/* Tags routes */
+const express = require('express');
+const router = express.Router();
+const ctrl = require('../controllers/tags.controller');
+const auth = require('../middlewares/auth');
+const checkSubscription = require('../middlewares/checkSubscription');
+const { validateBody, validateParams, validateMultiple, sanitizeInput } = require('../middleware/validation');
+const { tagSchemas, paramSchemas } = require('../schemas/validationSchemas');
+
+router.use(auth);
+router.use(checkSubscription);
+router.use(sanitizeInput);
+
+router.get('/', ctrl.listTags);
+router.post('/', validateBody(tagSchemas.create), ctrl.createTag);
+router.put('/:id', validateMultiple([
+    { schema: paramSchemas.id, target: 'params' },
+    { schema: tagSchemas.update, target: 'body' }
+]), ctrl.updateTag);
+router.delete('/:id', validateParams(paramSchemas.id), ctrl.deleteTag);
+
+module.exports = router;
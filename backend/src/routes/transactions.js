@@ -13,7 +13,9 @@ router.use(sanitizeInput);
 
 router.get('/', validateQuery(transactionSchemas.list), ctrl.listTransactions);
 router.post('/', validateBody(transactionSchemas.create), ctrl.createTransaction);
+router.post('/bulk', validateBody(transactionSchemas.bulk), ctrl.bulkTransactions);
 router.get('/:id', validateParams(paramSchemas.id), ctrl.getTransaction);
+router.get('/:id/history', validateParams(paramSchemas.id), ctrl.getTransactionHistory);
 router.put('/:id', validateMultiple([
     { schema: paramSchemas.id, target: 'params' },
     { schema: transactionSchemas.update, target: 'body' }
@@ -0,0 +1,18 @@
+/* Trash routes */
+const express = require('express');
+const router = express.Router();
+const ctrl = require('../controllers/trash.controller');
+const auth = require('../middlewares/auth');
+const checkSubscription = require('../middlewares/checkSubscription');
+const { validateBody, sanitizeInput } = require('../middleware/validation');
+const { trashSchemas } = require('../schemas/validationSchemas');
+
+router.use(auth);
+router.use(checkSubscription);
+router.use(sanitizeInput);
+
+router.get('/', ctrl.listTrash);
+router.post('/restore', validateBody(trashSchemas.restore), ctrl.restoreTrash);
+router.post('/purge', validateBody(trashSchemas.purge), ctrl.purgeTrash);
+
+module.exports = router;
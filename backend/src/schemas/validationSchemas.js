@@ -5,6 +5,7 @@ const Joi = require('joi');
 const objectIdPattern = /^[0-9a-fA-F]{24}$/;
 const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const passwordPattern = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)[a-zA-Z\d@$!%*?&]{8,}$/; // Min 8 chars, 1 upper, 1 lower, 1 number
+const categoryTemplateIds = ['personal', 'family', 'freelancer']; // services/categoryTemplates
 
 // Reusable schema components
 const commonSchemas = {
@@ -70,7 +71,10 @@ const authSchemas = {
     signup: Joi.object({
         name: commonSchemas.name,
         email: commonSchemas.email,
-        password: commonSchemas.strongPassword
+        password: commonSchemas.strongPassword,
+        // Optional starter categories, named for the country.
+        country: Joi.string().length(2).uppercase().optional(),
+        categoryTemplate: Joi.string().valid(...categoryTemplateIds).optional()
     }).required(),
 
     login: Joi.object({
@@ -104,6 +108,27 @@ const authSchemas = {
 // `account` is accepted but never required, even after the model marks it
 // required. A stale cached SPA that still posts without one must not get a 400
 // it cannot recover from — the controller fills in the user's default instead.
+const tagsSchema = Joi.array().items(
+    Joi.string().trim().min(1).max(30).messages({
+        'string.max': 'Tags must not exceed 30 characters'
+    })
+).max(20).optional().messages({
+    'array.max': 'A transaction can carry at most 20 tags'
+});
+
+const splitsSchema = Joi.array().items(Joi.object({
+    category: commonSchemas.optionalObjectId.allow(null),
+    amount: commonSchemas.amount,
+    note: Joi.string().trim().max(100).optional().allow('')
+})).max(20).optional().messages({
+    'array.max': 'A transaction can be split into at most 20 parts'
+});
+
+// 'reconciled' is never set directly; only a completed reconciliation sets it.
+const transactionStatusSchema = Joi.string().valid('pending', 'cleared').optional().messages({
+    'any.only': 'Status must be pending or cleared'
+});
+
 const transactionSchemas = {
     create: Joi.object({
         amount: commonSchemas.amount,
@@ -111,10 +136,20 @@ const transactionSchemas = {
             'any.only': 'Type must be one of: income, expense, transfer'
         }),
         category: commonSchemas.optionalObjectId,
+        // Sum and minimum count are checked by the model, which every writer
+        // reaches; here only the shape of each part.
+        splits: splitsSchema,
+        tags: tagsSchema,
         account: commonSchemas.optionalObjectId,
         transferTo: commonSchemas.optionalObjectId,
         date: commonSchemas.optionalDate,
-        description: commonSchemas.description
+        description: commonSchemas.description,
+        // Normally matched from the description; null unlinks.
+        payee: commonSchemas.optionalObjectId.allow(null),
+        // On income: the expense it refunds. On an expense: money owed back.
+        refundOf: commonSchemas.optionalObjectId,
+        reimbursable: Joi.boolean().optional(),
+        status: transactionStatusSchema
     }).required(),
 
     update: Joi.object({
@@ -123,14 +158,47 @@ const transactionSchemas = {
             'any.only': 'Type must be one of: income, expense, transfer'
         }),
         category: commonSchemas.optionalObjectId,
+        // An empty array un-splits the transaction.
+        splits: splitsSchema,
+        // Replaces the whole list; an empty array removes every tag.
+        tags: tagsSchema,
         account: commonSchemas.optionalObjectId,
         transferTo: commonSchemas.optionalObjectId,
         date: commonSchemas.optionalDate,
-        description: commonSchemas.description
+        description: commonSchemas.description,
+        // Normally matched from the description; null unlinks.
+        payee: commonSchemas.optionalObjectId.allow(null),
+        // null unlinks a refund from its expense.
+        refundOf: commonSchemas.optionalObjectId.allow(null),
+        reimbursable: Joi.boolean().optional(),
+        // On a reconciled row, anything but 'reconciled' unlocks it.
+        status: transactionStatusSchema
     }).min(1).required().messages({
         'object.min': 'At least one field must be provided for update'
     }),
 
+    // One action over a set of ids. `changes` only applies to an update.
+    bulk: Joi.object({
+        ids: Joi.array().items(commonSchemas.objectId).min(1).max(500).unique().required().messages({
+            'array.min': 'Select at least one transaction',
+            'array.max': 'A bulk action is limited to 500 transactions'
+        }),
+        action: Joi.string().valid('update', 'delete').required(),
+        changes: Joi.when('action', {
+            is: 'update',
+            then: Joi.object({
+                category: commonSchemas.optionalObjectId,
+                account: commonSchemas.optionalObjectId,
+                date: commonSchemas.optionalDate,
+                addTags: tagsSchema,
+                removeTags: tagsSchema
+            }).min(1).required().messages({
+                'object.min': 'Choose something to change'
+            }),
+            otherwise: Joi.forbidden()
+        })
+    }).required(),
+
     list: Joi.object({
         start: Joi.date().iso().optional().messages({
             'date.format': 'Start date must be in ISO format'
@@ -138,18 +206,34 @@ const transactionSchemas = {
         end: Joi.date().iso().optional().messages({
             'date.format': 'End date must be in ISO format'
         }),
-        type: Joi.string().valid('income', 'expense', 'transfer').optional(),
+        type: Joi.string().valid('income', 'expense', 'transfer', 'trade').optional(),
         category: commonSchemas.optionalObjectId,
         account: commonSchemas.optionalObjectId,
+        // Opaque; the meta.nextCursor of the previous page.
+        cursor: Joi.string().max(200).pattern(/^[A-Za-z0-9_-]+$/).optional().messages({
+            'string.pattern.base': 'Invalid cursor'
+        }),
+        q: Joi.string().trim().max(100).optional().allow(''),
+        minAmount: Joi.number().min(0).optional(),
+        maxAmount: Joi.number().min(0).optional(),
+        // Comma-separated, or repeated as ?tags=a&tags=b.
+        tags: Joi.alternatives().try(
+            Joi.string().max(300),
+            Joi.array().items(Joi.string().max(30)).max(20)
+        ).optional(),
         ...commonSchemas.pagination,
         sort: commonSchemas.sortOrder
     }).custom((value, helpers) => {
         if (value.start && value.end && new Date(value.start) > new Date(value.end)) {
             return helpers.error('custom.dateRange');
         }
+        if (value.minAmount !== undefined && value.maxAmount !== undefined && value.minAmount > value.maxAmount) {
+            return helpers.error('custom.amountRange');
+        }
         return value;
     }).messages({
-        'custom.dateRange': 'Start date must be before end date'
+        'custom.dateRange': 'Start date must be before end date',
+        'custom.amountRange': 'Minimum amount must not exceed maximum amount'
     })
 };
 
@@ -160,20 +244,136 @@ const categorySchemas = {
             'string.min': 'Category name must be at least 2 characters long',
             'string.max': 'Category name must not exceed 30 characters'
         }),
-        description: commonSchemas.description
+        description: commonSchemas.description,
+        parent: commonSchemas.optionalObjectId.allow(null)
     }).required(),
 
+    // parent: null makes the category top-level again.
     update: Joi.object({
         name: Joi.string().trim().min(2).max(30).optional().messages({
             'string.min': 'Category name must be at least 2 characters long',
             'string.max': 'Category name must not exceed 30 characters'
         }),
-        description: commonSchemas.description
+        description: commonSchemas.description,
+        parent: commonSchemas.optionalObjectId.allow(null)
+    }).min(1).required().messages({
+        'object.min': 'At least one field must be provided for update'
+    }),
+
+    // Where whatever uses the category goes: another category, or nowhere.
+    remove: Joi.object({
+        reassignTo: commonSchemas.optionalObjectId,
+        uncategorize: Joi.boolean().optional()
+    }).oxor('reassignTo', 'uncategorize'),
+
+    merge: Joi.object({
+        into: commonSchemas.objectId.required()
+    }).required(),
+
+    templates: Joi.object({
+        country: Joi.string().length(2).uppercase().optional()
+    }),
+
+    applyTemplate: Joi.object({
+        template: Joi.string().valid(...categoryTemplateIds).required()
+    }).required()
+};
+
+// Tag schemas
+const tagSchemas = {
+    create: Joi.object({
+        name: Joi.string().trim().min(1).max(30).required().messages({
+            'string.max': 'Tag name must not exceed 30 characters'
+        }),
+        color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).optional().messages({
+            'string.pattern.base': 'Color must be a hex value like #3b82f6'
+        })
+    }).required(),
+
+    update: Joi.object({
+        name: Joi.string().trim().min(1).max(30).optional().messages({
+            'string.max': 'Tag name must not exceed 30 characters'
+        }),
+        color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).optional().messages({
+            'string.pattern.base': 'Color must be a hex value like #3b82f6'
+        })
     }).min(1).required().messages({
         'object.min': 'At least one field must be provided for update'
     })
 };
 
+// Categorization rule schemas
+const RULE_OPERATORS = ['contains', 'startsWith', 'endsWith', 'equals'];
+
+const ruleConditions = Joi.object({
+    operator: Joi.string().valid(...RULE_OPERATORS).optional().default('contains').messages({
+        'any.only': `Operator must be one of: ${RULE_OPERATORS.join(', ')}`
+    }),
+    value: Joi.string().trim().min(1).max(100).required().messages({
+        'any.required': 'Say what the description should match'
+    }),
+    type: Joi.string().valid('income', 'expense').optional(),
+    minAmount: Joi.number().min(0).optional(),
+    maxAmount: Joi.number().min(0).optional()
+}).custom((value, helpers) => {
+    if (value.minAmount !== undefined && value.maxAmount !== undefined && value.minAmount > value.maxAmount) {
+        return helpers.error('custom.amountRange');
+    }
+    return value;
+}).messages({
+    'custom.amountRange': 'Minimum amount must not exceed maximum amount'
+});
+
+// A rule that changes nothing is a mistake, not a no-op worth storing.
+const ruleActions = Joi.object({
+    category: commonSchemas.optionalObjectId,
+    account: commonSchemas.optionalObjectId,
+    tags: Joi.array().items(Joi.string().trim().min(1).max(30)).max(20).optional()
+}).or('category', 'account', 'tags').messages({
+    'object.missing': 'A rule must set a category, an account or tags'
+});
+
+const ruleBody = {
+    name: Joi.string().trim().min(1).max(100).required().messages({
+        'string.max': 'Rule name must not exceed 100 characters'
+    }),
+    isActive: Joi.boolean().optional().default(true),
+    conditions: ruleConditions.required(),
+    actions: ruleActions.required()
+};
+
+const ruleSchemas = {
+    create: Joi.object({
+        ...ruleBody,
+        priority: Joi.number().integer().min(0).optional()
+    }).required(),
+
+    // conditions and actions are replaced whole, never merged.
+    update: Joi.object({
+        name: ruleBody.name.optional(),
+        isActive: Joi.boolean().optional(),
+        conditions: ruleConditions.optional(),
+        actions: ruleActions.optional()
+    }).min(1).required().messages({
+        'object.min': 'At least one field must be provided for update'
+    }),
+
+    preview: Joi.object({
+        ...ruleBody,
+        name: ruleBody.name.optional(),
+        overwrite: Joi.boolean().optional().default(false)
+    }).required(),
+
+    apply: Joi.object({
+        // Replace a category or account that is already set, not just fill gaps.
+        overwrite: Joi.boolean().optional().default(false)
+    }).required(),
+
+    reorder: Joi.object({
+        ids: Joi.array().items(commonSchemas.objectId).max(500).required()
+    }).required()
+};
+
 // Budget schemas
 const budgetSchemas = {
     upsert: Joi.object({
@@ -260,7 +460,28 @@ const goalSchemas = {
 };
 
 // Account schemas
-const ACCOUNT_TYPES = ['cash', 'bank', 'card', 'savings'];
+const ACCOUNT_TYPES = ['cash', 'bank', 'card', 'savings', 'loan', 'investment'];
+
+// Credit card cycle. Null clears a field; the server ignores them on other types.
+const cardFields = {
+    creditLimit: Joi.number().precision(2).min(0).max(999999999.99).allow(null).optional(),
+    statementDay: Joi.number().integer().min(1).max(31).allow(null).optional(),
+    dueDay: Joi.number().integer().min(1).max(31).allow(null).optional()
+};
+
+// Loan terms, required of a new loan. The first payment falls on the first
+// paymentDay after startDate.
+const loanFields = {
+    principal: Joi.number().precision(2).positive().max(999999999.99)
+        .when('type', { is: 'loan', then: Joi.required() }),
+    interestRate: Joi.number().min(0).max(100)
+        .when('type', { is: 'loan', then: Joi.required() }),
+    termMonths: Joi.number().integer().min(1).max(600)
+        .when('type', { is: 'loan', then: Joi.required() }),
+    paymentDay: Joi.number().integer().min(1).max(31)
+        .when('type', { is: 'loan', then: Joi.required() }),
+    startDate: Joi.date().iso().optional()
+};
 
 const accountSchemas = {
     create: Joi.object({
@@ -271,17 +492,72 @@ const accountSchemas = {
             'any.only': `Type must be one of: ${ACCOUNT_TYPES.join(', ')}`
         }),
         openingBalance: Joi.number().precision(2).min(-999999999.99).max(999999999.99).optional().default(0),
-        currency: Joi.string().length(3).optional()
+        currency: Joi.string().length(3).uppercase().optional(),
+        ...cardFields,
+        ...loanFields
     }).required(),
 
     update: Joi.object({
         name: Joi.string().trim().min(1).max(60).optional(),
         type: Joi.string().valid(...ACCOUNT_TYPES).optional(),
         openingBalance: Joi.number().precision(2).min(-999999999.99).max(999999999.99).optional(),
-        currency: Joi.string().length(3).optional(),
-        isArchived: Joi.boolean().optional()
+        currency: Joi.string().length(3).uppercase().optional(),
+        isArchived: Joi.boolean().optional(),
+        ...cardFields,
+        principal: Joi.number().precision(2).positive().max(999999999.99).optional(),
+        interestRate: Joi.number().min(0).max(100).optional(),
+        termMonths: Joi.number().integer().min(1).max(600).optional(),
+        paymentDay: Joi.number().integer().min(1).max(31).optional(),
+        startDate: Joi.date().iso().optional()
     }).min(1).required().messages({
         'object.min': 'At least one field must be provided for update'
+    }),
+
+    // Everything on the account moves to `into`, and the account is deleted.
+    merge: Joi.object({
+        into: commonSchemas.objectId.required()
+    }).required(),
+
+    // `to` receives what is left; it may be omitted when nothing is.
+    close: Joi.object({
+        to: commonSchemas.objectId.optional(),
+        date: Joi.date().iso().optional()
+    }).required()
+};
+
+// Loan schemas
+const loanSchemas = {
+    // The interest part is charged to `from` and the rest transferred into the
+    // loan. Amount defaults to the regular monthly payment.
+    payment: Joi.object({
+        from: commonSchemas.objectId.required(),
+        date: Joi.date().iso().optional(),
+        amount: Joi.number().precision(2).positive().max(999999999.99).optional()
+    }).required()
+};
+
+// Reconciliation schemas
+const reconciliationSchemas = {
+    start: Joi.object({
+        statementDate: Joi.date().iso().max('now').required().messages({
+            'date.max': 'The statement date cannot be in the future'
+        }),
+        statementBalance: Joi.number().precision(2).min(-999999999.99).max(999999999.99).required()
+    }).required(),
+
+    // Tick (cleared: true) or untick rows in the session.
+    cleared: Joi.object({
+        ids: Joi.array().items(commonSchemas.objectId).min(1).max(500).unique().required(),
+        cleared: Joi.boolean().required()
+    }).required()
+};
+
+// Statement schemas
+const statementSchemas = {
+    query: Joi.object({
+        start: commonSchemas.optionalDate,
+        end: commonSchemas.optionalDate,
+        format: Joi.string().valid('json', 'csv').default('json')
     })
 };
 
@@ -342,11 +618,194 @@ const recurringSchemas = {
     })
 };
 
+// Statement import schemas
+const IMPORT_FORMATS = ['csv', 'ofx', 'qif'];
+const IMPORT_DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+const MAX_IMPORT_ROWS = 5000;
+
+const importSchemas = {
+    preview: Joi.object({
+        format: Joi.string().valid(...IMPORT_FORMATS).required().messages({
+            'any.only': `Format must be one of: ${IMPORT_FORMATS.join(', ')}`
+        }),
+        // Matches the route's body limit; the file arrives as text.
+        content: Joi.string().max(2 * 1024 * 1024).required().messages({
+            'string.max': 'Statement file is too large'
+        }),
+        // Header names, only meaningful for CSV. Anything left out is guessed.
+        mapping: Joi.object({
+            date: Joi.string().max(100).allow('', null).optional(),
+            amount: Joi.string().max(100).allow('', null).optional(),
+            description: Joi.string().max(100).allow('', null).optional(),
+            category: Joi.string().max(100).allow('', null).optional(),
+            dateFormat: Joi.string().valid(...IMPORT_DATE_FORMATS).optional()
+        }).optional()
+    }).required(),
+
+    commit: Joi.object({
+        format: Joi.string().valid(...IMPORT_FORMATS).required(),
+        filename: Joi.string().trim().max(255).optional().allow(''),
+        account: commonSchemas.optionalObjectId,
+        rows: Joi.array().items(
+            Joi.object({
+                line: Joi.number().integer().min(0).optional(),
+                date: commonSchemas.date,
+                amount: commonSchemas.amount,
+                type: Joi.string().valid('income', 'expense').required(),
+                description: commonSchemas.description,
+                category: commonSchemas.optionalObjectId.allow(null)
+            })
+        ).min(1).max(MAX_IMPORT_ROWS).required().messages({
+            'array.min': 'Select at least one row to import',
+            'array.max': `An import is limited to ${MAX_IMPORT_ROWS} rows`
+        })
+    }).required()
+};
+
+// Attachment schemas
+const attachmentSchemas = {
+    // Type and size are checked against the decoded bytes in
+    // services/attachments; the string caps here only bound the request.
+    upload: Joi.object({
+        transaction: commonSchemas.objectId,
+        filename: Joi.string().trim().min(1).max(255).required(),
+        data: Joi.string().max(7 * 1024 * 1024).required().messages({
+            'string.max': 'Attachments are limited to 5 MB'
+        }),
+        thumbnail: Joi.string().max(100 * 1024).optional()
+    }).required(),
+
+    list: Joi.object({
+        transaction: commonSchemas.objectId
+    }).required()
+};
+
+// Trash schemas
+const trashIds = Joi.array().items(commonSchemas.objectId).min(1).max(500).unique().messages({
+    'array.min': 'Select at least one transaction',
+    'array.max': 'Limited to 500 transactions at a time'
+});
+
+const trashSchemas = {
+    restore: Joi.object({
+        ids: trashIds.required()
+    }).required(),
+
+    // No ids empties the whole trash.
+    purge: Joi.object({
+        ids: trashIds.optional()
+    }).required()
+};
+
+// Payee schemas
+const payeeAliases = Joi.array().items(Joi.string().trim().min(1).max(100)).max(20).messages({
+    'array.max': 'A payee can have at most 20 aliases'
+});
+
+const payeeSchemas = {
+    create: Joi.object({
+        name: Joi.string().trim().min(1).max(60).required(),
+        aliases: payeeAliases.optional()
+    }).required(),
+
+    update: Joi.object({
+        name: Joi.string().trim().min(1).max(60).optional(),
+        aliases: payeeAliases.optional()
+    }).min(1).required().messages({
+        'object.min': 'At least one field must be provided for update'
+    }),
+
+    merge: Joi.object({
+        into: commonSchemas.objectId
+    }).required()
+};
+
+// Duplicate schemas
+const duplicateSchemas = {
+    merge: Joi.object({
+        keep: commonSchemas.objectId
+    }).required()
+};
+
+// Refund schemas
+const refundSchemas = {
+    candidates: Joi.object({
+        q: Joi.string().trim().max(100).allow('').optional()
+    })
+};
+
+// Exchange rate schemas
+const currencyCode = Joi.string().trim().length(3).uppercase().pattern(/^[A-Z]{3}$/);
+
+const fxRateSchemas = {
+    list: Joi.object({
+        currency: currencyCode.optional()
+    }),
+
+    save: Joi.object({
+        currency: currencyCode.invalid('USD').required().messages({
+            'any.invalid': 'USD is the reference currency; its rate is always 1'
+        }),
+        date: commonSchemas.date,
+        rate: Joi.number().positive().required()
+    }).required(),
+
+    import: Joi.object({
+        // Matches the route's body limit; the file arrives as text.
+        content: Joi.string().max(2 * 1024 * 1024).required().messages({
+            'string.max': 'Rate file is too large'
+        })
+    }).required()
+};
+
+// Net worth schemas
+const netWorthSchemas = {
+    history: Joi.object({
+        start: commonSchemas.optionalDate,
+        end: commonSchemas.optionalDate,
+        interval: Joi.string().valid('day', 'month').default('day')
+    })
+};
+
+// Investment schemas
+const tickerSymbol = Joi.string().trim().uppercase().pattern(/^[A-Z0-9.^-]{1,15}$/).messages({
+    'string.pattern.base': 'Symbol must be a ticker such as AAPL or VWCE.DE'
+});
+
+const investmentSchemas = {
+    trade: Joi.object({
+        side: Joi.string().valid('buy', 'sell').required(),
+        symbol: tickerSymbol.required(),
+        quantity: Joi.number().positive().max(1e12).required(),
+        price: Joi.number().min(0).max(1e12).required(),
+        fees: Joi.number().precision(2).min(0).max(999999999.99).optional(),
+        date: commonSchemas.optionalDate,
+        description: Joi.string().trim().max(200).optional()
+    }).required(),
+
+    listPrices: Joi.object({
+        symbol: tickerSymbol.optional()
+    }),
+
+    savePrice: Joi.object({
+        symbol: tickerSymbol.required(),
+        date: commonSchemas.date,
+        price: Joi.number().min(0).max(1e12).required()
+    }).required(),
+
+    importPrices: Joi.object({
+        // Matches the route's body limit; the file arrives as text.
+        content: Joi.string().max(2 * 1024 * 1024).required().messages({
+            'string.max': 'Price file is too large'
+        })
+    }).required()
+};
+
 // User schemas
 const userSchemas = {
     updateSettings: Joi.object({
         country: Joi.string().length(2).optional(),
-        currency: Joi.string().length(3).optional(),
+        currency: Joi.string().length(3).uppercase().optional(),
         dateFormat: Joi.string().valid('MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD').optional(),
         numberFormat: Joi.string().valid('1,234.56', '1.234,56', '1 234,56').optional(),
         theme: Joi.string().valid('light', 'dark', 'auto').optional(),
@@ -417,11 +876,25 @@ const querySchemas = {
 module.exports = {
     authSchemas,
     transactionSchemas,
+    tagSchemas,
+    ruleSchemas,
     categorySchemas,
     budgetSchemas,
     goalSchemas,
     accountSchemas,
+    reconciliationSchemas,
+    statementSchemas,
+    loanSchemas,
     recurringSchemas,
+    importSchemas,
+    attachmentSchemas,
+    trashSchemas,
+    duplicateSchemas,
+    payeeSchemas,
+    refundSchemas,
+    fxRateSchemas,
+    investmentSchemas,
+    netWorthSchemas,
     userSchemas,
     paramSchemas,
     querySchemas,
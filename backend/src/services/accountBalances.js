@@ -0,0 +1,77 @@
+/* An account's balances, derived from its transactions: never stored, so
+ * they cannot drift from the rows they sum. */
+const Transaction = require('../models/transaction.model');
+const { TransactionQueries } = require('../utils/dbOptimization');
+const { baseCurrencyOf, createConverter, convertAmount } = require('./fx');
+const { cardStatements, availableCredit } = require('./creditCard');
+const { loanSummary } = require('./amortization');
+const { holdingsOf } = require('./holdings');
+
+/**
+ * Merge each account with its derived balances: `balance` counts every
+ * transaction (the working balance), `clearedBalance` only those the bank has
+ * confirmed, and `reconciledBalance` only those locked by a reconciliation.
+ * All three are in the account's currency. `baseBalance` is the working
+ * balance in the user's base currency — each transaction at the rate on its
+ * day, the opening balance at the rate when the account was opened — and is
+ * null when that currency has no rate.
+ *
+ * Cards also get `availableCredit` and their last closed `statement` (see
+ * services/creditCard), and loans a `loan` summary (services/amortization);
+ * each is null on other accounts.
+ *
+ * An investment account's balance is its cash plus the market value of its
+ * holdings (services/holdings), and both parts are given as `cashBalance`
+ * and `marketValue`. The cleared and reconciled balances stay cash only: a
+ * statement confirms cash, not prices. Its base balance converts the market
+ * value at today's rate.
+ */
+async function withBalances(userId, accounts) {
+    const investments = accounts.filter((account) => account.type === 'investment');
+    const [rows, baseCurrency, holdings, statements] = await Promise.all([
+        Transaction.aggregate(TransactionQueries.getAccountBalances(userId)),
+        baseCurrencyOf(userId),
+        holdingsOf(userId, investments),
+        cardStatements(userId, accounts)
+    ]);
+    const totalsByAccount = new Map(rows.map((row) => [String(row._id), row]));
+    const rate = createConverter();
+
+    return Promise.all(accounts.map(async (account) => {
+        const plain = account.toObject ? account.toObject() : account;
+        const totals = totalsByAccount.get(String(plain._id)) || { net: 0, cleared: 0, reconciled: 0, baseNet: 0 };
+
+        const toBase = async (date) => {
+            try {
+                return await rate(plain.currency || baseCurrency, baseCurrency, date);
+            } catch (err) {
+                if (err.status !== 400) throw err;
+                return null;
+            }
+        };
+        const openingRate = await toBase(plain.createdAt || new Date());
+
+        const cash = plain.openingBalance + totals.net;
+        const held = holdings.get(String(plain._id));
+        const marketValue = held ? held.totals.marketValue : 0;
+        const marketRate = held ? await toBase(new Date()) : 1;
+
+        const balance = Math.round((cash + marketValue) * 100) / 100;
+        return {
+            ...plain,
+            balance,
+            ...(held && { cashBalance: cash, marketValue }),
+            clearedBalance: plain.openingBalance + totals.cleared,
+            reconciledBalance: plain.openingBalance + totals.reconciled,
+            baseBalance: openingRate === null || marketRate === null
+                ? null
+                : Math.round((convertAmount(plain.openingBalance, openingRate) + totals.baseNet
+                    + convertAmount(marketValue, marketRate)) * 100) / 100,
+            availableCredit: availableCredit(plain, balance),
+            statement: statements.get(String(plain._id)) || null,
+            loan: loanSummary(plain, balance)
+        };
+    }));
+}
+
+module.exports = { withBalances };
@@ -0,0 +1,187 @@
+/* Retiring an account: merging it into another, or closing it.
+ *
+ * A merge moves everything that names the source account — its transactions,
+ * both legs of its transfers, recurring rules, categorization rules and
+ * imports — onto the target, then deletes the source. Transfers between the
+ * two would become transfers from the merged account to itself, which cannot
+ * exist, so they go to the trash: they moved money within what is now one
+ * account and change nothing in its balance. A reconciled one blocks the
+ * merge, as it blocks any delete.
+ *
+ * Closing keeps the account and its history. What is left in it is moved out
+ * by one last transfer, and it is archived.
+ */
+const Account = require('../models/account.model');
+const Transaction = require('../models/transaction.model');
+const RecurringTransaction = require('../models/recurringTransaction.model');
+const CategorizationRule = require('../models/categorizationRule.model');
+const ImportBatch = require('../models/importBatch.model');
+const Reconciliation = require('../models/reconciliation.model');
+const TrashedTransaction = require('../models/trashedTransaction.model');
+const transactionWriter = require('./transactionWriter');
+const { recordUpdated } = require('./transactionHistory');
+const { withBalances } = require('./accountBalances');
+
+const round2 = (n) => Math.round(n * 100) / 100;
+
+function httpError(message, status) {
+    const err = new Error(message);
+    err.status = status;
+    return err;
+}
+
+async function findAccount(userId, id) {
+    const account = await Account.findOne({ _id: id, user: userId });
+    if (!account) throw httpError('Account not found', 404);
+    return account;
+}
+
+/** Transfers in either direction between two accounts. */
+const between = (a, b) => ({
+    type: 'transfer',
+    $or: [{ account: a, transferTo: b }, { account: b, transferTo: a }]
+});
+
+/**
+ * Move every reference in `field` from one account to another, recording the
+ * change in each transaction's history.
+ *
+ * @returns {Promise<number>} how many transactions moved
+ */
+async function reassign(userId, field, from, to) {
+    const affected = await Transaction.find({ user: userId, [field]: from }).select(field).lean();
+    if (affected.length === 0) return 0;
+
+    await Transaction.updateMany({ user: userId, [field]: from }, { $set: { [field]: to } });
+    await recordUpdated(userId, affected.map((trx) => ({
+        transaction: trx._id,
+        before: { [field]: from },
+        after: { [field]: to }
+    })));
+    return affected.length;
+}
+
+/**
+ * Merge one account into another and delete it.
+ *
+ * Both must be in the same currency, since transactions are amounts in their
+ * account's currency. The source's opening balance is added to the target's,
+ * so the target ends with both balances. Its completed reconciliations are
+ * dropped with it: they checked a statement of an account that no longer
+ * exists, though the rows they locked stay locked.
+ *
+ * @returns {Promise<{ account, moved, recurring, removedTransfers }>} the
+ *   target account with its new balances, and counts of what changed
+ */
+async function mergeAccounts(userId, sourceId, targetId) {
+    const [source, target] = await Promise.all([findAccount(userId, sourceId), findAccount(userId, targetId)]);
+    if (String(source._id) === String(target._id)) throw httpError('An account cannot be merged into itself.', 400);
+    if (target.isArchived) throw httpError('Merge into an active account.', 400);
+    if (source.currency !== target.currency) {
+        throw httpError(`Both accounts must be in the same currency to merge; this one is in ${source.currency}.`, 400);
+    }
+    if (source.type === 'investment' && target.type !== 'investment'
+        && await Transaction.exists({ user: userId, account: source._id, type: 'trade' })) {
+        throw httpError('An account with trades can only be merged into another investment account.', 400);
+    }
+    if (await Reconciliation.exists({ user: userId, account: { $in: [source._id, target._id] }, status: 'open' })) {
+        throw httpError('Finish or cancel the open reconciliation first.', 400);
+    }
+
+    const internal = await Transaction.find({ ...between(source._id, target._id), user: userId }).lean();
+    if (internal.some((trx) => trx.status === 'reconciled' || trx.transferStatus === 'reconciled')) {
+        throw httpError('A transfer between these accounts is reconciled. Unlock it before merging.', 409);
+    }
+    const removedTransfers = await transactionWriter.deleteTransactions(userId, {
+        _id: { $in: internal.map((trx) => trx._id) }
+    });
+
+    const moved = await reassign(userId, 'account', source._id, target._id)
+        + await reassign(userId, 'transferTo', source._id, target._id);
+
+    // Trashed rows too, so they can still be restored. A trashed transfer
+    // between the two could not be: it keeps naming the deleted source, which
+    // restoring refuses, until it is purged.
+    await TrashedTransaction.updateMany(
+        { user: userId, 'transaction.account': source._id, 'transaction.transferTo': { $ne: target._id } },
+        { $set: { 'transaction.account': target._id } }
+    );
+    await TrashedTransaction.updateMany(
+        { user: userId, 'transaction.transferTo': source._id, 'transaction.account': { $ne: target._id } },
+        { $set: { 'transaction.transferTo': target._id } }
+    );
+
+    const recurring = await RecurringTransaction.updateMany({ user: userId, account: source._id }, { $set: { account: target._id } });
+    await CategorizationRule.updateMany({ user: userId, 'actions.account': source._id }, { $set: { 'actions.account': target._id } });
+    await ImportBatch.updateMany({ user: userId, account: source._id }, { $set: { account: target._id } });
+    await Reconciliation.deleteMany({ user: userId, account: source._id });
+
+    target.openingBalance = round2((target.openingBalance || 0) + (source.openingBalance || 0));
+    await Account.deleteOne({ _id: source._id, user: userId });
+    // After the delete: the partial unique index allows one default at a time.
+    if (source.isDefault) target.isDefault = true;
+    await target.save();
+
+    const [account] = await withBalances(userId, [target]);
+    return { account, moved, recurring: recurring.modifiedCount, removedTransfers };
+}
+
+/**
+ * The transfer that brings an account's balance to zero: out to `to` when
+ * there is money left, in from `to` when something is owed. Null when the
+ * balance is already zero.
+ */
+function closingTransfer(accountId, balance, to) {
+    const amount = round2(Math.abs(balance));
+    if (amount === 0) return null;
+    return balance > 0
+        ? { account: accountId, transferTo: to, amount }
+        : { account: to, transferTo: accountId, amount };
+}
+
+/**
+ * Close an account: transfer what is left in it to another account, then
+ * archive it. An account with a balance needs somewhere for it to go, in the
+ * same currency; holdings must be sold first, since only cash can move.
+ *
+ * @param {Object} options { to?, date? }
+ * @returns {Promise<{ account, transaction }>} transaction is null when the
+ *   balance was already zero
+ */
+async function closeAccount(userId, accountId, { to, date } = {}) {
+    const account = await findAccount(userId, accountId);
+    if (account.isArchived) throw httpError('This account is already closed.', 400);
+    if (account.isDefault) throw httpError('Cannot close your default account. Make another account the default first.', 400);
+
+    const [current] = await withBalances(userId, [account]);
+    if (current.marketValue > 0) throw httpError('Sell the holdings in this account before closing it.', 400);
+    const balance = current.cashBalance ?? current.balance;
+
+    let transaction = null;
+    const transfer = closingTransfer(account._id, balance, to);
+    if (transfer) {
+        if (!to) throw httpError('Choose an account for the remaining balance.', 400);
+        const destination = await findAccount(userId, to);
+        if (String(destination._id) === String(account._id)) throw httpError('Choose another account for the remaining balance.', 400);
+        if (destination.isArchived) throw httpError('Choose an active account for the remaining balance.', 400);
+        if (destination.currency !== account.currency) {
+            throw httpError(`Move the remaining balance to an account in ${account.currency}.`, 400);
+        }
+
+        ({ transaction } = await transactionWriter.createTransaction({
+            user: userId,
+            ...transfer,
+            type: 'transfer',
+            date: date ? new Date(date) : new Date(),
+            description: `Closing ${account.name}`
+        }));
+    }
+
+    account.isArchived = true;
+    await account.save();
+
+    const [closed] = await withBalances(userId, [account]);
+    return { account: closed, transaction };
+}
+
+module.exports = { mergeAccounts, closeAccount, closingTransfer };
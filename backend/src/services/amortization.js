@@ -0,0 +1,118 @@
+/* Amortization: how fixed monthly payments split into interest and principal.
+ *
+ * Pure arithmetic over a loan account's terms and its current balance. The
+ * schedule is recomputed from the balance rather than kept: an extra payment
+ * or a missed one simply shortens or lengthens what is left, and nothing
+ * stored can drift from the transactions. Posting payments is services/loans.
+ */
+const { dayOfMonth } = require('./creditCard');
+
+// Far past any real term. A payment that does not cover the interest never
+// pays the loan off, and the schedule has to stop somewhere.
+const MAX_PAYMENTS = 1200;
+
+const round2 = (n) => Math.round(n * 100) / 100;
+
+const monthlyRate = (annualRate) => annualRate / 100 / 12;
+
+// Up to the next cent, ignoring float noise below a hundredth of one. Rounding
+// to nearest could leave a few cents for a payment past the term.
+const ceilCents = (n) => Math.ceil(Math.round(n * 10000) / 100) / 100;
+
+/**
+ * The fixed monthly payment that repays `principal` over `termMonths`. The
+ * last payment is usually a little smaller.
+ */
+function paymentFor(principal, annualRate, termMonths) {
+    const rate = monthlyRate(annualRate);
+    if (rate === 0) return ceilCents(principal / termMonths);
+    return ceilCents((principal * rate) / (1 - Math.pow(1 + rate, -termMonths)));
+}
+
+/** The first payment date strictly after `date`. */
+function paymentDateAfter(date, paymentDay) {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const sameMonth = dayOfMonth(year, month, paymentDay);
+    return sameMonth.getTime() > date.getTime() ? sameMonth : dayOfMonth(year, month + 1, paymentDay);
+}
+
+/**
+ * Split payments of `payment` into interest and principal until `balance` is
+ * repaid. The last payment is whatever is left, so the rows add up exactly.
+ *
+ * @param {Object} loan { balance, interestRate, payment, firstDate, paymentDay }
+ * @returns {Array<{number, date, payment, interest, principal, balance}>}
+ */
+function amortizationSchedule({ balance, interestRate, payment, firstDate, paymentDay }) {
+    const rate = monthlyRate(interestRate);
+    const rows = [];
+    let remaining = round2(balance);
+
+    while (remaining > 0 && rows.length < MAX_PAYMENTS) {
+        const interest = round2(remaining * rate);
+        const principal = Math.min(round2(payment - interest), remaining);
+        if (principal <= 0) break;
+
+        remaining = round2(remaining - principal);
+        rows.push({
+            number: rows.length + 1,
+            date: dayOfMonth(firstDate.getUTCFullYear(), firstDate.getUTCMonth() + rows.length, paymentDay),
+            payment: round2(interest + principal),
+            interest,
+            principal,
+            balance: remaining
+        });
+    }
+
+    return rows;
+}
+
+const sum = (rows, field) => round2(rows.reduce((total, row) => total + row[field], 0));
+
+const isLoan = (account) =>
+    account.type === 'loan' && account.principal > 0 && account.termMonths > 0 && account.paymentDay > 0;
+
+/**
+ * Where a loan stands, from its current balance.
+ *
+ * `totalInterest` is what the loan costs over its original term;
+ * `interestRemaining`, `paymentsLeft` and `payoffDate` are what is left from
+ * here at the regular payment. Amounts are in the loan's currency.
+ * `withSchedule` adds the remaining payments themselves.
+ *
+ * @returns {Object|null} null for an account that is not a loan
+ */
+function loanSummary(account, balance, now = new Date(), { withSchedule = false } = {}) {
+    if (!isLoan(account)) return null;
+
+    const interestRate = account.interestRate || 0;
+    const payment = paymentFor(account.principal, interestRate, account.termMonths);
+    const start = new Date(account.startDate || account.createdAt || now);
+    const firstDate = paymentDateAfter(start, account.paymentDay);
+
+    const original = amortizationSchedule({
+        balance: account.principal, interestRate, payment, firstDate, paymentDay: account.paymentDay
+    });
+
+    const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const nextDate = firstDate.getTime() > today.getTime()
+        ? firstDate
+        : paymentDateAfter(new Date(today.getTime() - 1), account.paymentDay);
+    const remaining = amortizationSchedule({
+        balance: Math.max(-balance, 0), interestRate, payment, firstDate: nextDate, paymentDay: account.paymentDay
+    });
+
+    const summary = {
+        monthlyPayment: payment,
+        remainingBalance: round2(Math.max(-balance, 0)),
+        totalInterest: sum(original, 'interest'),
+        interestRemaining: sum(remaining, 'interest'),
+        paymentsLeft: remaining.length,
+        nextPayment: remaining[0] || null,
+        payoffDate: remaining.length > 0 ? remaining[remaining.length - 1].date : null
+    };
+    return withSchedule ? { ...summary, schedule: remaining } : summary;
+}
+
+module.exports = { monthlyRate, paymentFor, paymentDateAfter, amortizationSchedule, isLoan, loanSummary };
@@ -0,0 +1,89 @@
+/* Where attachment bytes live.
+ *
+ * Everything above this module sees one interface:
+ *
+ *   put(key, buffer, { contentType })  store the bytes under key
+ *   open(key)                          a readable stream of them
+ *   remove(key)                        delete them; a missing key is not an error
+ *
+ * Keys are generated by services/attachments ("<userId>/<attachmentId>"),
+ * never taken from a request, so the local driver can join them onto its
+ * directory without worrying about "../".
+ *
+ * Two drivers, chosen by config.attachmentStorage: a directory on local disk,
+ * and GridFS in the app's own database for hosts whose disk does not survive a
+ * redeploy.
+ */
+const fs = require('fs');
+const path = require('path');
+const { pipeline } = require('stream/promises');
+const { Readable } = require('stream');
+const mongoose = require('mongoose');
+const config = require('../config');
+
+function localStorage(dir) {
+    const fileFor = (key) => path.join(dir, key);
+
+    return {
+        async put(key, buffer) {
+            const file = fileFor(key);
+            await fs.promises.mkdir(path.dirname(file), { recursive: true });
+            await fs.promises.writeFile(file, buffer);
+        },
+
+        async open(key) {
+            // Fail here, not mid-response, when the file has gone missing.
+            await fs.promises.access(fileFor(key));
+            return fs.createReadStream(fileFor(key));
+        },
+
+        async remove(key) {
+            await fs.promises.rm(fileFor(key), { force: true });
+        }
+    };
+}
+
+function gridfsStorage() {
+    // Created on first use: the connection is not open yet when this module loads.
+    let bucket;
+    const getBucket = () => {
+        if (!bucket) {
+            bucket = new mongoose.mongo.GridFSBucket(mongoose.connection.db, { bucketName: 'attachments' });
+        }
+        return bucket;
+    };
+
+    return {
+        async put(key, buffer, { contentType } = {}) {
+            const upload = getBucket().openUploadStream(key, { metadata: { contentType } });
+            await pipeline(Readable.from([buffer]), upload);
+        },
+
+        async open(key) {
+            const [file] = await getBucket().find({ filename: key }).limit(1).toArray();
+            if (!file) throw new Error(`Attachment file ${key} not found`);
+            return getBucket().openDownloadStream(file._id);
+        },
+
+        async remove(key) {
+            const files = await getBucket().find({ filename: key }).toArray();
+            for (const file of files) {
+                await getBucket().delete(file._id);
+            }
+        }
+    };
+}
+
+let storage;
+
+/** The configured driver, created once. */
+function getStorage() {
+    if (!storage) {
+        storage = config.attachmentStorage === 'gridfs'
+            ? gridfsStorage()
+            : localStorage(config.attachmentDir);
+    }
+    return storage;
+}
+
+module.exports = { getStorage, localStorage, gridfsStorage };
@@ -0,0 +1,134 @@
+/* Transaction attachments: validation, storage and clean-up.
+ *
+ * Uploads arrive as base64 inside JSON, the same way statement imports carry
+ * their file, so no multipart parser is needed. The file's type is decided
+ * by its leading bytes: a client-supplied content type or extension is easy
+ * to get wrong and trivial to forge, and what we serve back is labelled with
+ * whatever is recorded here.
+ *
+ * Thumbnails are made by the browser, which already has the decoded image, and
+ * arrive with the upload. Generating them here would need a native image
+ * library for a 200px preview.
+ */
+const Attachment = require('../models/attachment.model');
+const Transaction = require('../models/transaction.model');
+const { getStorage } = require('./attachmentStorage');
+const logger = require('../utils/logger');
+
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const MAX_THUMBNAIL_BYTES = 64 * 1024;
+const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+
+// Leading bytes of each accepted format.
+const SIGNATURES = [
+    { contentType: 'image/jpeg', test: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+    { contentType: 'image/png', test: (b) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+    { contentType: 'image/webp', test: (b) => b.toString('latin1', 0, 4) === 'RIFF' && b.toString('latin1', 8, 12) === 'WEBP' },
+    { contentType: 'application/pdf', test: (b) => b.toString('latin1', 0, 5) === '%PDF-' }
+];
+
+/** @returns {string|null} the detected content type, or null when not accepted */
+const detectContentType = (buffer) => {
+    const match = SIGNATURES.find((signature) => signature.test(buffer));
+    return match ? match.contentType : null;
+};
+
+const httpError = (message, status = 400) => {
+    const err = new Error(message);
+    err.status = status;
+    return err;
+};
+
+/** Accepts raw base64 or a data: URL, which is what FileReader produces. */
+const decodeBase64 = (value) => Buffer.from(String(value).replace(/^data:[^,]*,/, ''), 'base64');
+
+/**
+ * Validate and store one attachment for a transaction the user owns.
+ *
+ * @param {Object} input { filename, data, thumbnail? } — data and thumbnail
+ *   base64 or data: URLs
+ * @throws {Error} .status 404 for a transaction that is not the user's, 400
+ *   for a file that is too large, empty or of a type we do not accept
+ */
+async function saveAttachment(userId, transactionId, { filename, data, thumbnail }) {
+    const owned = await Transaction.exists({ _id: transactionId, user: userId });
+    if (!owned) throw httpError('Transaction not found', 404);
+
+    const count = await Attachment.countDocuments({ user: userId, transaction: transactionId });
+    if (count >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+        throw httpError(`A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments`);
+    }
+
+    const buffer = decodeBase64(data);
+    if (buffer.length === 0) throw httpError('The file is empty');
+    if (buffer.length > MAX_ATTACHMENT_BYTES) throw httpError('Attachments are limited to 5 MB');
+
+    const contentType = detectContentType(buffer);
+    if (!contentType) throw httpError('Only JPEG, PNG, WebP images and PDF files can be attached');
+
+    let thumb;
+    if (thumbnail && contentType.startsWith('image/')) {
+        thumb = decodeBase64(thumbnail);
+        // A bad thumbnail is dropped, not fatal: the file itself is fine.
+        if (thumb.length > MAX_THUMBNAIL_BYTES || detectContentType(thumb) !== 'image/jpeg') thumb = undefined;
+    }
+
+    const attachment = new Attachment({
+        user: userId,
+        transaction: transactionId,
+        filename,
+        contentType,
+        size: buffer.length,
+        thumbnail: thumb,
+        hasThumbnail: Boolean(thumb)
+    });
+    attachment.storageKey = `${userId}/${attachment._id}`;
+
+    // Bytes first: a record pointing at a file that failed to write would
+    // show up in the UI and then 404 on download.
+    await getStorage().put(attachment.storageKey, buffer, { contentType });
+    try {
+        await attachment.save();
+    } catch (err) {
+        await getStorage().remove(attachment.storageKey);
+        throw err;
+    }
+
+    return attachment;
+}
+
+/**
+ * Delete attachments and their files.
+ *
+ * The file is removed before its record, so a failure part way leaves a
+ * record whose file is gone (harmless, retried on the next call) rather than
+ * an orphaned file nothing points at any more.
+ *
+ * @param {Object} filter narrows the user's attachments, e.g. { transaction }
+ * @returns {Promise<number>} how many were removed
+ */
+async function removeAttachments(userId, filter = {}) {
+    const attachments = await Attachment.find({ ...filter, user: userId }).select('storageKey').lean();
+
+    let removed = 0;
+    for (const attachment of attachments) {
+        try {
+            await getStorage().remove(attachment.storageKey);
+        } catch (err) {
+            logger.error('Failed to remove attachment file', {
+                userId, attachmentId: attachment._id, error: err.message
+            });
+            continue;
+        }
+        await Attachment.deleteOne({ _id: attachment._id });
+        removed += 1;
+    }
+    return removed;
+}
+
+module.exports = {
+    MAX_ATTACHMENT_BYTES,
+    detectContentType,
+    saveAttachment,
+    removeAttachments
+};
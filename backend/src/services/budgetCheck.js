@@ -8,9 +8,12 @@
  * for continuity with existing ops dashboards; the returned events are what the
  * notification dispatcher consumes.
  */
+const mongoose = require('mongoose');
 const Budget = require('../models/budget.model');
 const Transaction = require('../models/transaction.model');
 const logger = require('../utils/logger');
+const { TransactionQueries } = require('../utils/dbOptimization');
+const { treeOf, descendantsOf, ancestorsOf } = require('./categoryTree');
 
 // Share of a budget that counts as "approaching". Matches the thresholds this
 // app has always used.
@@ -25,14 +28,42 @@ const monthBounds = (month) => {
     return { start, end };
 };
 
+// Spending nets linked refunds: a returned purchase gives the budget back.
 const sumExpenses = async (match) => {
     const agg = await Transaction.aggregate([
-        { $match: { ...match, type: 'expense' } },
-        { $group: { _id: null, total: { $sum: '$amount' } } }
+        { $match: TransactionQueries.spendingMatch(match) },
+        { $group: { _id: null, total: { $sum: TransactionQueries.spendAmount } } }
     ]);
     return (agg[0] && agg[0].total) || 0;
 };
 
+/**
+ * Spending in a category and everything below it, counting only the matching
+ * parts of split rows.
+ *
+ * @param {ObjectId[]} categoryIds the category and its descendants
+ */
+const sumCategoryExpenses = async (match, categoryIds) => {
+    const agg = await Transaction.aggregate([
+        {
+            $match: TransactionQueries.spendingMatch({
+                ...match, $or: [{ category: { $in: categoryIds } }, { 'splits.category': { $in: categoryIds } }]
+            })
+        },
+        ...TransactionQueries.splitLines(categoryIds),
+        { $group: { _id: null, total: { $sum: TransactionQueries.spendAmount } } }
+    ]);
+    return (agg[0] && agg[0].total) || 0;
+};
+
+/** Distinct categories a transaction touches — one per split, or its own. */
+const categoriesOf = (trx) => {
+    const ids = trx.splits && trx.splits.length > 0
+        ? trx.splits.map((split) => split.category)
+        : [trx.category];
+    return [...new Set(ids.filter(Boolean).map(String))];
+};
+
 /**
  * Evaluate a user's budget for the month a transaction falls in.
  *
@@ -42,15 +73,45 @@ const sumExpenses = async (match) => {
  *   Always an array — an empty one when there is nothing to report.
  */
 async function checkBudgets(userId, trx) {
+    // Only expenses consume a budget. Income and transfers never do, and a
+    // refund can only give some back.
+    if (trx.type !== 'expense') return [];
+    return checkBudgetMonth(userId, monthKey(trx.date), categoriesOf(trx));
+}
+
+/**
+ * Evaluate one month's total budget and the named category budgets.
+ *
+ * Categories roll up: spending on a child counts toward its parent's budget,
+ * so naming a category evaluates the budgets of everything above it too.
+ *
+ * Bulk edits call this directly, once per month they touched, instead of
+ * once per row — forty recategorised rows are one check, not forty.
+ *
+ * @param {string} month YYYY-MM
+ * @param {string[]} categoryIds category budgets to evaluate
+ * @returns {Promise<Array>} as checkBudgets
+ */
+async function checkBudgetMonth(userId, month, categoryIds) {
+    return (await evaluateBudgetMonth(userId, month, categoryIds)).events;
+}
+
+/**
+ * checkBudgetMonth, plus the scopes it found under their limit.
+ *
+ * Edits and deletes can lower what a month has spent, and an "over budget"
+ * alert for a scope that is back under its limit should be resolved. The
+ * scopes in `within` carry the same fields as an event, without a level.
+ *
+ * @returns {Promise<{events: Array, within: Array}>}
+ */
+async function evaluateBudgetMonth(userId, month, categoryIds) {
     const events = [];
+    const within = [];
 
     try {
-        // Only expenses consume a budget. Income and transfers never do.
-        if (trx.type !== 'expense') return events;
-
-        const month = monthKey(trx.date);
         const budget = await Budget.findOne({ user: userId, month }).populate('categoryBudgets.category');
-        if (!budget) return events;
+        if (!budget) return { events, within };
 
         const { start, end } = monthBounds(month);
         const dateRange = { date: { $gte: start, $lt: end } };
@@ -65,15 +126,22 @@ async function checkBudgets(userId, trx) {
                 events.push({ scope: 'total', level: 'warning', month, spent: totalSpent, limit: budget.totalBudget });
                 logger.warn('Budget approaching limit', { userId, month, totalSpent, budgetLimit: budget.totalBudget, percentage: 90 });
             }
+            if (totalSpent < budget.totalBudget) {
+                within.push({ scope: 'total', month, spent: totalSpent, limit: budget.totalBudget });
+            }
         }
 
-        if (trx.category) {
-            const cb = budget.categoryBudgets.find(
-                (entry) => entry.category && String(entry.category._id) === String(trx.category)
-            );
+        const budgeted = budget.categoryBudgets.filter((entry) => entry.category && entry.amount > 0);
+        const tree = budgeted.length > 0 ? await treeOf(userId) : [];
+        const scopes = new Set(categoryIds.flatMap((id) => [String(id), ...ancestorsOf(tree, id)]));
+
+        for (const categoryId of scopes) {
+            const cb = budgeted.find((entry) => String(entry.category._id) === categoryId);
 
-            if (cb && cb.amount > 0) {
-                const categorySpent = await sumExpenses({ user: userId, category: trx.category, ...dateRange });
+            if (cb) {
+                const counted = [cb.category._id, ...descendantsOf(tree, cb.category._id)
+                    .map((id) => new mongoose.Types.ObjectId(id))];
+                const categorySpent = await sumCategoryExpenses({ user: userId, ...dateRange }, counted);
                 const base = {
                     scope: 'category',
                     month,
@@ -90,6 +158,7 @@ async function checkBudgets(userId, trx) {
                     events.push({ ...base, level: 'warning' });
                     logger.warn('Category budget approaching limit', { userId, month, category: cb.category.name, categorySpent, limit: cb.amount, percentage: 90 });
                 }
+                if (categorySpent < cb.amount) within.push(base);
             }
         }
     } catch (err) {
@@ -97,7 +166,7 @@ async function checkBudgets(userId, trx) {
         logger.error('Budget check failed', { userId, error: err.message, stack: err.stack });
     }
 
-    return events;
+    return { events, within };
 }
 
-module.exports = { checkBudgets, WARNING_RATIO };
+module.exports = { checkBudgets, checkBudgetMonth, evaluateBudgetMonth, categoriesOf, monthKey, WARNING_RATIO };
@@ -0,0 +1,229 @@
+/* Auto-categorization rules.
+ *
+ * One evaluator serves three callers: the writer, which fills in fields on a
+ * new transaction; the dry-run preview, which reports what a rule would change
+ * in the user's history; and the retroactive apply, which makes those changes.
+ * Sharing plannedChanges() is what keeps the preview honest — it cannot show a
+ * change the apply would not make.
+ *
+ * Rules never override a value the caller chose. At creation time that means
+ * a category picked in the form, or an import row's mapped category, wins over
+ * any rule; retroactively it means only empty fields are filled unless the
+ * user asks to overwrite.
+ */
+const CategorizationRule = require('../models/categorizationRule.model');
+const Transaction = require('../models/transaction.model');
+const { escapeRegex } = require('./transactionSearch');
+const { normalizeTags } = require('../utils/tags');
+const { recordUpdated } = require('./transactionHistory');
+const { amountsFor } = require('./fx');
+const { refileRefunds } = require('./refunds');
+
+// A preview lists this many example rows; the counts cover every match.
+const PREVIEW_SAMPLE = 50;
+
+const isSet = (value) => value !== undefined && value !== null;
+
+const descriptionPattern = ({ operator, value }) => {
+    const escaped = escapeRegex(value.trim());
+    switch (operator) {
+        case 'startsWith': return `^${escaped}`;
+        case 'endsWith': return `${escaped}$`;
+        case 'equals': return `^${escaped}$`;
+        default: return escaped;
+    }
+};
+
+/** Does this transaction (saved or about to be) satisfy the rule's conditions? */
+function matchesRule(rule, trx) {
+    const { conditions } = rule;
+    // Transfers move money between the user's own accounts, and trades
+    // within one; there is nothing to categorise.
+    if (trx.type === 'transfer' || trx.type === 'trade') return false;
+    // A refund is filed under its expense's category (services/refunds) and
+    // moves only when that expense does.
+    if (trx.refundOf) return false;
+    if (conditions.type && trx.type !== conditions.type) return false;
+    if (isSet(conditions.minAmount) && trx.amount < conditions.minAmount) return false;
+    if (isSet(conditions.maxAmount) && trx.amount > conditions.maxAmount) return false;
+    return new RegExp(descriptionPattern(conditions), 'i').test(trx.description || '');
+}
+
+/**
+ * What the rule would set on this transaction, or null when nothing changes.
+ *
+ * @param {boolean} [overwrite=false] replace a category or account that is
+ *   already set; tags are only ever added
+ * @returns {{ category?, account?, tags? }|null}
+ */
+function plannedChanges(rule, trx, { overwrite = false } = {}) {
+    if (!matchesRule(rule, trx)) return null;
+
+    const { actions } = rule;
+    const changes = {};
+
+    // A split row's categories are its parts; a rule does not collapse them.
+    const isSplit = trx.splits && trx.splits.length > 0;
+    if (actions.category && !isSplit && (overwrite || !trx.category)
+        && String(trx.category) !== String(actions.category)) {
+        changes.category = actions.category;
+    }
+    // A reconciled row's account is locked (transactionWriter.assertUnlocked);
+    // its category and tags are not.
+    if (actions.account && trx.status !== 'reconciled' && (overwrite || !trx.account)
+        && String(trx.account) !== String(actions.account)) {
+        changes.account = actions.account;
+    }
+    const have = new Set(normalizeTags(trx.tags));
+    const added = normalizeTags(actions.tags).filter((tag) => !have.has(tag));
+    if (added.length > 0) changes.tags = added;
+
+    return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/** Active rules in evaluation order. */
+const activeRules = (userId) =>
+    CategorizationRule.find({ user: userId, isActive: true })
+        .sort({ priority: 1, createdAt: 1 })
+        .lean();
+
+/**
+ * Fill in a new transaction's empty fields from the user's rules.
+ *
+ * Called by transactionWriter.createTransaction before anything is resolved or
+ * saved, so a rule-chosen account goes through the same ownership check as one
+ * from the request.
+ *
+ * @returns {Promise<Object>} the input with rule-provided fields merged in
+ */
+async function applyRules(userId, input) {
+    if (input.type === 'transfer' || input.type === 'trade') return input;
+
+    const rules = await activeRules(userId);
+    const result = { ...input };
+    for (const rule of rules) {
+        const changes = plannedChanges(rule, result);
+        if (!changes) continue;
+        if (changes.category) result.category = changes.category;
+        if (changes.account) result.account = changes.account;
+        if (changes.tags) result.tags = [...(result.tags || []), ...changes.tags];
+    }
+    return result;
+}
+
+/**
+ * The history rows a rule could touch, narrowed in the database as far as the
+ * conditions allow. plannedChanges() has the final say.
+ */
+function historyFilter(userId, { conditions }) {
+    const filter = {
+        user: userId,
+        type: conditions.type || { $nin: ['transfer', 'trade'] },
+        description: { $regex: descriptionPattern(conditions), $options: 'i' }
+    };
+    if (isSet(conditions.minAmount) || isSet(conditions.maxAmount)) {
+        filter.amount = {};
+        if (isSet(conditions.minAmount)) filter.amount.$gte = conditions.minAmount;
+        if (isSet(conditions.maxAmount)) filter.amount.$lte = conditions.maxAmount;
+    }
+    return filter;
+}
+
+const historyFor = (userId, rule) =>
+    Transaction.find(historyFilter(userId, rule))
+        .select('date description amount type category account tags splits status refundOf')
+        .sort({ date: -1, _id: -1 })
+        .lean();
+
+/**
+ * Dry run: what the rule would change across existing transactions. Writes
+ * nothing, and works on an unsaved rule so the form can preview before saving.
+ *
+ * @returns {Promise<{ matched: number, changed: number, sample: Array }>}
+ */
+async function previewRule(userId, rule, options = {}) {
+    const rows = await historyFor(userId, rule);
+
+    let changed = 0;
+    const sample = [];
+    for (const row of rows) {
+        const changes = plannedChanges(rule, row, options);
+        if (!changes) continue;
+        changed += 1;
+        if (sample.length < PREVIEW_SAMPLE) {
+            sample.push({
+                _id: row._id,
+                date: row.date,
+                description: row.description,
+                amount: row.amount,
+                type: row.type,
+                category: row.category,
+                account: row.account,
+                changes
+            });
+        }
+    }
+    return { matched: rows.length, changed, sample };
+}
+
+/**
+ * Apply a rule to existing transactions.
+ *
+ * A direct bulk update rather than the writer's updateTransaction: this can
+ * touch years of history, and re-running the budget check per row would send
+ * "budget exceeded" notifications for months long closed. Each moved row's
+ * currency fields are recomputed before anything is written, so a missing
+ * rate fails the whole apply rather than half of it. The refunds of a
+ * recategorised expense are refiled after it, as an edit would.
+ *
+ * @returns {Promise<{ matched: number, updated: number }>}
+ */
+async function applyRuleToHistory(userId, rule, options = {}) {
+    const rows = await historyFor(userId, rule);
+
+    const ops = [];
+    const history = [];
+    for (const row of rows) {
+        const changes = plannedChanges(rule, row, options);
+        if (!changes) continue;
+        history.push({
+            transaction: row._id,
+            before: row,
+            after: { ...row, ...changes, tags: [...(row.tags || []), ...(changes.tags || [])] }
+        });
+
+        const update = {};
+        const set = {};
+        if (changes.category) set.category = changes.category;
+        if (changes.account) {
+            // A row moved into an account in another currency is counted in
+            // that currency from now on, as an edit would restamp it.
+            set.account = changes.account;
+            Object.assign(set, await amountsFor(userId, { ...row, account: changes.account }));
+            delete set.transferAmount;
+        }
+        if (Object.keys(set).length > 0) update.$set = set;
+        if (changes.tags) update.$addToSet = { tags: { $each: changes.tags } };
+        ops.push({ updateOne: { filter: { _id: row._id, user: userId }, update } });
+    }
+
+    if (ops.length > 0) {
+        await Transaction.bulkWrite(ops, { ordered: false });
+        const refiled = [];
+        for (const { before, after } of history) {
+            if (after.type === 'expense' && String(before.category) !== String(after.category)) {
+                refiled.push(...await refileRefunds(userId, after));
+            }
+        }
+        await recordUpdated(userId, [...history, ...refiled]);
+    }
+    return { matched: rows.length, updated: ops.length };
+}
+
+module.exports = {
+    matchesRule,
+    plannedChanges,
+    applyRules,
+    previewRule,
+    applyRuleToHistory
+};
@@ -0,0 +1,241 @@
+/* Deleting a category without leaving anything pointing at it.
+ *
+ * A category is named by transactions (their own category and their split
+ * lines, in the trash too), recurring rules, categorization rules and budget
+ * allocations. Deleting one used to leave those ids dangling, so the rows
+ * showed up as "Uncategorized" in some places and not in others.
+ *
+ * Now every reference is either moved to another category — a merge, or a
+ * delete with a reassignment target — or explicitly cleared. Its
+ * subcategories move to the target on a merge, and up a level otherwise.
+ * The budgets of every month whose spending moved are checked again, as any
+ * other recategorisation is.
+ */
+const Category = require('../models/category.model');
+const Transaction = require('../models/transaction.model');
+const TrashedTransaction = require('../models/trashedTransaction.model');
+const RecurringTransaction = require('../models/recurringTransaction.model');
+const CategorizationRule = require('../models/categorizationRule.model');
+const Budget = require('../models/budget.model');
+const { recordUpdated } = require('./transactionHistory');
+const { treeOf, descendantsOf } = require('./categoryTree');
+const { monthsOf, reevaluateBudgets } = require('./transactionWriter');
+
+const round2 = (n) => Math.round(n * 100) / 100;
+
+function httpError(message, status) {
+    const err = new Error(message);
+    err.status = status;
+    return err;
+}
+
+async function findCategory(userId, id) {
+    const category = await Category.findOne({ _id: id, user: userId });
+    if (!category) throw httpError('Category not found', 404);
+    return category;
+}
+
+const naming = (id) => ({ $or: [{ category: id }, { 'splits.category': id }] });
+
+/**
+ * How many rows name a category, so the user sees what a delete or merge
+ * will touch before confirming it.
+ *
+ * @returns {Promise<{ transactions, recurring, budgets, rules, subcategories }>}
+ */
+async function categoryUsage(userId, id) {
+    const category = await findCategory(userId, id);
+    const [transactions, recurring, budgets, rules, subcategories] = await Promise.all([
+        Transaction.countDocuments({ user: userId, ...naming(category._id) }),
+        RecurringTransaction.countDocuments({ user: userId, category: category._id }),
+        Budget.countDocuments({ user: userId, 'categoryBudgets.category': category._id }),
+        CategorizationRule.countDocuments({ user: userId, 'actions.category': category._id }),
+        Category.countDocuments({ user: userId, parent: category._id })
+    ]);
+    return { transactions, recurring, budgets, rules, subcategories };
+}
+
+/** A split list with one category swapped for another, or cleared. */
+const resplit = (splits, from, to) => splits.map((split) => (String(split.category) === String(from)
+    ? { ...split, category: to || undefined }
+    : split));
+
+/**
+ * Move every transaction from one category to another, or clear it when `to`
+ * is null, recording the change in each one's history.
+ *
+ * @returns {Promise<Array<{transaction, before, after}>>} each row that changed
+ */
+async function moveTransactions(userId, from, to) {
+    const affected = await Transaction.find({ user: userId, ...naming(from) })
+        .select('category splits type date refundOf')
+        .lean();
+    if (affected.length === 0) return [];
+
+    await Transaction.bulkWrite(affected.map((trx) => {
+        const update = {};
+        if (String(trx.category) === String(from)) {
+            if (to) update.$set = { category: to };
+            else update.$unset = { category: '' };
+        }
+        if (trx.splits && trx.splits.length > 0) {
+            update.$set = { ...update.$set, splits: resplit(trx.splits, from, to) };
+        }
+        return { updateOne: { filter: { _id: trx._id, user: userId }, update } };
+    }), { ordered: false });
+
+    const moved = affected.map((trx) => ({
+        transaction: trx._id,
+        before: trx,
+        after: {
+            ...trx,
+            category: String(trx.category) === String(from) ? to : trx.category,
+            splits: trx.splits && resplit(trx.splits, from, to)
+        }
+    }));
+    await recordUpdated(userId, moved);
+    return moved;
+}
+
+/** The same, for transactions in the trash, so a restore brings back a live category. */
+async function moveTrashed(userId, from, to) {
+    const entries = await TrashedTransaction.find({
+        user: userId,
+        $or: [{ 'transaction.category': from }, { 'transaction.splits.category': from }]
+    }).select('transaction.category transaction.splits').lean();
+    if (entries.length === 0) return;
+
+    await TrashedTransaction.bulkWrite(entries.map(({ _id, transaction: trx }) => {
+        const set = {};
+        const unset = {};
+        if (String(trx.category) === String(from)) {
+            if (to) set['transaction.category'] = to;
+            else unset['transaction.category'] = '';
+        }
+        if (trx.splits && trx.splits.length > 0) set['transaction.splits'] = resplit(trx.splits, from, to);
+        return {
+            updateOne: {
+                filter: { _id, user: userId },
+                update: { ...(Object.keys(set).length > 0 && { $set: set }), ...(Object.keys(unset).length > 0 && { $unset: unset }) }
+            }
+        };
+    }), { ordered: false });
+}
+
+/**
+ * Move budget allocations to the target. A month that already budgets the
+ * target gets one allocation of both amounts rather than two. With no
+ * target the allocation is dropped, and that money goes back to the month's
+ * unallocated total.
+ *
+ * @returns {Promise<string[]>} the months changed
+ */
+async function moveBudgets(userId, from, to) {
+    const budgets = await Budget.find({ user: userId, 'categoryBudgets.category': from });
+    for (const budget of budgets) {
+        const moving = budget.categoryBudgets.filter((entry) => String(entry.category) === String(from));
+        const kept = budget.categoryBudgets.filter((entry) => String(entry.category) !== String(from));
+
+        if (to) {
+            const amount = moving.reduce((sum, entry) => sum + (entry.amount || 0), 0);
+            const existing = kept.find((entry) => String(entry.category) === String(to));
+            if (existing) existing.amount = round2(existing.amount + amount);
+            else kept.push({ category: to, amount: round2(amount) });
+        }
+
+        budget.categoryBudgets = kept;
+        await budget.save();
+    }
+    return budgets.map((budget) => budget.month);
+}
+
+/**
+ * Point everything that names `from` at `to` (or at nothing, when `to` is
+ * null), then delete `from`.
+ *
+ * @returns {Promise<{ transactions, recurring, budgets, rules, subcategories }>}
+ *   how many of each were changed
+ */
+async function retire(userId, from, to) {
+    const updateOrClear = (field) => (to ? { $set: { [field]: to._id } } : { $unset: { [field]: '' } });
+    const target = to ? to._id : null;
+
+    const moved = await moveTransactions(userId, from._id, target);
+    // While `from` still has its allocations: its spending is gone, so its
+    // alerts for those months are resolved.
+    await reevaluateBudgets(userId, monthsOf(moved.map(({ before }) => before)));
+
+    await moveTrashed(userId, from._id, target);
+    const recurring = await RecurringTransaction.updateMany({ user: userId, category: from._id }, updateOrClear('category'));
+    const rules = await CategorizationRule.updateMany({ user: userId, 'actions.category': from._id }, updateOrClear('actions.category'));
+    const budgetMonths = await moveBudgets(userId, from._id, target);
+
+    // Merged: its subcategories join the target. A target from inside it
+    // first takes its place, so nothing ends up inside itself. Deleted: they
+    // move up a level.
+    if (to && descendantsOf(await treeOf(userId), from._id).includes(String(to._id))) {
+        await Category.updateOne({ _id: to._id, user: userId }, { parent: from.parent || null });
+    }
+    const subcategories = await Category.updateMany(
+        { user: userId, parent: from._id, ...(to && { _id: { $ne: to._id } }) },
+        { parent: to ? to._id : from.parent || null }
+    );
+
+    await Category.deleteOne({ _id: from._id, user: userId });
+
+    // And the target's, with the spending and the allocations it took over.
+    if (to) {
+        const months = monthsOf(moved.map(({ after }) => after));
+        for (const month of budgetMonths) months.set(month, (months.get(month) || new Set()).add(String(to._id)));
+        await reevaluateBudgets(userId, months);
+    }
+
+    return {
+        transactions: moved.length,
+        recurring: recurring.modifiedCount,
+        budgets: budgetMonths.length,
+        rules: rules.modifiedCount,
+        subcategories: subcategories.modifiedCount
+    };
+}
+
+/**
+ * Fold one category into another: its transactions, rules and budgets move
+ * over and it is deleted.
+ *
+ * @returns {Promise<Object>} the target category, and retire's counts
+ */
+async function mergeCategories(userId, fromId, intoId) {
+    const [from, into] = await Promise.all([findCategory(userId, fromId), findCategory(userId, intoId)]);
+    if (String(from._id) === String(into._id)) throw httpError('A category cannot be merged into itself.', 400);
+
+    const counts = await retire(userId, from, into);
+    return { into: await Category.findById(into._id), ...counts };
+}
+
+/**
+ * Delete a category. Anything still using it must say where it goes:
+ * `reassignTo` another category, or `uncategorize` to clear it. A category
+ * nothing uses is deleted either way.
+ *
+ * @param {Object} options { reassignTo?, uncategorize? }
+ */
+async function deleteCategory(userId, id, { reassignTo, uncategorize } = {}) {
+    if (reassignTo) return mergeCategories(userId, id, reassignTo);
+
+    const category = await findCategory(userId, id);
+    if (!uncategorize) {
+        const usage = await categoryUsage(userId, category._id);
+        const inUse = usage.transactions + usage.recurring + usage.budgets + usage.rules;
+        if (inUse > 0) {
+            throw httpError(
+                'This category is still in use. Choose a category to move it to, or uncategorize what uses it.',
+                409
+            );
+        }
+    }
+
+    return retire(userId, category, null);
+}
+
+module.exports = { categoryUsage, mergeCategories, deleteCategory, resplit };
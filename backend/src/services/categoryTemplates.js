@@ -0,0 +1,211 @@
+/* Starter category sets, offered at signup and on the categories page.
+ *
+ * A template is a small tree of category keys. Names come from the default
+ * (US English) list, with a locale pack per country renaming what is called
+ * something else there — petrol, VAT, superannuation — and adding what only
+ * exists there, like council tax.
+ *
+ * Applying a template is safe to repeat: a category whose name the user
+ * already has (in any letter case) is reused, never duplicated, and the
+ * user's own categories are never moved or renamed.
+ */
+const Category = require('../models/category.model');
+
+const NAMES = {
+    housing: 'Housing',
+    rent: 'Rent',
+    mortgage: 'Mortgage',
+    utilities: 'Utilities',
+    phone: 'Internet & Phone',
+    groceries: 'Groceries',
+    dining: 'Dining Out',
+    transport: 'Transportation',
+    fuel: 'Gas',
+    transit: 'Public Transit',
+    carCare: 'Car Maintenance',
+    health: 'Health',
+    insurance: 'Insurance',
+    shopping: 'Shopping',
+    entertainment: 'Entertainment',
+    subscriptions: 'Subscriptions',
+    vacations: 'Vacations',
+    gifts: 'Gifts',
+    childcare: 'Childcare',
+    education: 'School & Education',
+    kids: 'Kids\' Activities',
+    savings: 'Savings',
+    retirement: 'Retirement',
+    salary: 'Salary',
+    clientIncome: 'Client Income',
+    business: 'Business Expenses',
+    software: 'Software & Tools',
+    equipment: 'Equipment',
+    workspace: 'Workspace',
+    fees: 'Professional Fees',
+    taxes: 'Taxes',
+    incomeTax: 'Estimated Taxes',
+    salesTax: 'Sales Tax'
+};
+
+// [key, children?] trees, parents first.
+const TEMPLATES = {
+    personal: {
+        name: 'Personal basics',
+        description: 'Everyday spending for one person.',
+        tree: [
+            ['housing', ['rent', 'utilities', 'phone']],
+            ['groceries'],
+            ['dining'],
+            ['transport', ['fuel', 'transit']],
+            ['health'],
+            ['shopping'],
+            ['entertainment'],
+            ['subscriptions'],
+            ['savings'],
+            ['salary']
+        ]
+    },
+    family: {
+        name: 'Family',
+        description: 'A household with children: childcare, school and the family car.',
+        tree: [
+            ['housing', ['mortgage', 'utilities', 'phone']],
+            ['groceries'],
+            ['childcare'],
+            ['education'],
+            ['kids'],
+            ['health'],
+            ['insurance'],
+            ['transport', ['fuel', 'carCare']],
+            ['vacations'],
+            ['gifts'],
+            ['savings'],
+            ['salary']
+        ]
+    },
+    freelancer: {
+        name: 'Freelancer',
+        description: 'Client income, business costs and the taxes set aside for them.',
+        tree: [
+            ['clientIncome'],
+            ['business', ['software', 'equipment', 'workspace', 'fees']],
+            ['taxes', ['incomeTax', 'salesTax']],
+            ['retirement'],
+            ['housing', ['rent', 'utilities', 'phone']],
+            ['groceries'],
+            ['health'],
+            ['savings']
+        ]
+    }
+};
+
+// By country code (user.settings.country). `names` renames keys; `extras`
+// adds categories under a parent key, in any template that has that parent.
+const LOCALE_PACKS = {
+    GB: {
+        names: {
+            transport: 'Transport', fuel: 'Petrol', transit: 'Public Transport', vacations: 'Holidays',
+            retirement: 'Pension', incomeTax: 'Self Assessment', salesTax: 'VAT'
+        },
+        extras: [{ key: 'councilTax', name: 'Council Tax', parent: 'housing' }, { key: 'tvLicence', name: 'TV Licence', parent: 'housing' }]
+    },
+    EU: {
+        names: { transport: 'Transport', fuel: 'Fuel', transit: 'Public Transport', vacations: 'Holidays', retirement: 'Pension', salesTax: 'VAT' }
+    },
+    CA: {
+        names: { retirement: 'RRSP & TFSA', incomeTax: 'Tax Instalments', salesTax: 'GST/HST' }
+    },
+    AU: {
+        names: {
+            transport: 'Transport', fuel: 'Petrol', transit: 'Public Transport', vacations: 'Holidays',
+            retirement: 'Superannuation', incomeTax: 'PAYG Instalments', salesTax: 'GST'
+        }
+    },
+    IN: {
+        names: { transport: 'Transport', fuel: 'Petrol', vacations: 'Holidays', retirement: 'PPF & NPS', incomeTax: 'Advance Tax', salesTax: 'GST' },
+        extras: [{ key: 'emi', name: 'Loan EMIs', parent: 'housing' }]
+    },
+    ZA: {
+        names: { transport: 'Transport', fuel: 'Petrol', transit: 'Public Transport', vacations: 'Holidays', incomeTax: 'Provisional Tax', salesTax: 'VAT' }
+    }
+};
+
+const TEMPLATE_IDS = Object.keys(TEMPLATES);
+
+function httpError(message, status) {
+    const err = new Error(message);
+    err.status = status;
+    return err;
+}
+
+/**
+ * A template's categories in one country's words, parents before children.
+ *
+ * @returns {{ id, name, description, categories: { key, name, parent }[] }}
+ *   `parent` is the parent's key, or null at the top level
+ */
+function localizeTemplate(templateId, country) {
+    const template = TEMPLATES[templateId];
+    if (!template) throw httpError('Category template not found', 404);
+    const pack = LOCALE_PACKS[String(country || '').toUpperCase()] || {};
+    const nameOf = (key) => (pack.names && pack.names[key]) || NAMES[key];
+
+    const categories = [];
+    for (const [key, children = []] of template.tree) {
+        categories.push({ key, name: nameOf(key), parent: null });
+        for (const child of children) categories.push({ key: child, name: nameOf(child), parent: key });
+        for (const extra of (pack.extras || []).filter((each) => each.parent === key)) {
+            categories.push({ key: extra.key, name: extra.name, parent: key });
+        }
+    }
+    return { id: templateId, name: template.name, description: template.description, categories };
+}
+
+/** Every template, localized, for the picker. */
+const listTemplates = (country) => TEMPLATE_IDS.map((id) => localizeTemplate(id, country));
+
+/**
+ * Create a template's categories for a user, skipping any name they already
+ * have. A new subcategory goes under the parent of that name, whether the
+ * parent was just created or was already there.
+ *
+ * @returns {Promise<{ created: number, existing: number }>}
+ */
+async function applyTemplate(userId, templateId, country) {
+    const { categories } = localizeTemplate(templateId, country);
+    const owned = await Category.find({ user: userId }).select('name').lean();
+    const byName = new Map(owned.map((category) => [category.name.toLowerCase(), category._id]));
+
+    const idOf = {};
+    let created = 0;
+    for (const row of categories) {
+        const known = byName.get(row.name.toLowerCase());
+        if (known) {
+            idOf[row.key] = known;
+            continue;
+        }
+
+        // Upsert on the unique (user, name) index so two applies racing each
+        // other still make one category.
+        const filter = { user: userId, name: row.name };
+        try {
+            const result = await Category.updateOne(
+                filter,
+                { $setOnInsert: { parent: row.parent ? idOf[row.parent] || null : null } },
+                { upsert: true }
+            );
+            if (result.upsertedId) {
+                created += 1;
+                idOf[row.key] = result.upsertedId;
+                continue;
+            }
+        } catch (err) {
+            if (err.code !== 11000) throw err;
+        }
+        idOf[row.key] = (await Category.findOne(filter).select('_id').lean())._id;
+    }
+
+    return { created, existing: categories.length - created };
+}
+
+module.exports = { TEMPLATE_IDS, localizeTemplate, listTemplates, applyTemplate };
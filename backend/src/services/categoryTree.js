@@ -0,0 +1,87 @@
+/* Category hierarchy.
+ *
+ * A category may name a parent, so "Food" can hold "Restaurants" and
+ * "Groceries" instead of one flat list of "Food - Restaurants". Spending on a
+ * child counts toward every category above it: a budget on "Food" is
+ * consumed by a meal filed under "Restaurants" (see services/budgetCheck).
+ *
+ * A user has tens of categories, not thousands, so the tree is worked out in
+ * memory from the whole list rather than with $graphLookup.
+ */
+const Category = require('../models/category.model');
+
+function httpError(message, status) {
+    const err = new Error(message);
+    err.status = status;
+    return err;
+}
+
+const idOf = (value) => (value ? String(value._id || value) : null);
+
+/**
+ * Every category below `id`, at any depth. A parent that loops back on
+ * itself (which assertParent prevents) ends the walk instead of hanging it.
+ *
+ * @param {Array} categories the user's categories, each with `parent`
+ * @returns {string[]} ids, not including `id` itself
+ */
+function descendantsOf(categories, id) {
+    const children = new Map();
+    for (const category of categories) {
+        const parent = idOf(category.parent);
+        if (!parent) continue;
+        if (!children.has(parent)) children.set(parent, []);
+        children.get(parent).push(String(category._id));
+    }
+
+    const found = new Set();
+    const queue = [String(id)];
+    while (queue.length > 0) {
+        for (const child of children.get(queue.shift()) || []) {
+            if (child === String(id) || found.has(child)) continue;
+            found.add(child);
+            queue.push(child);
+        }
+    }
+    return [...found];
+}
+
+/**
+ * Every category above `id`, nearest first.
+ *
+ * @returns {string[]} ids, not including `id` itself
+ */
+function ancestorsOf(categories, id) {
+    const parentOf = new Map(categories.map((category) => [String(category._id), idOf(category.parent)]));
+    const found = [];
+    let current = parentOf.get(String(id));
+    while (current && current !== String(id) && !found.includes(current)) {
+        found.push(current);
+        current = parentOf.get(current);
+    }
+    return found;
+}
+
+/** The user's categories, with only what the tree needs. */
+const treeOf = (userId) => Category.find({ user: userId }).select('parent name').lean();
+
+/**
+ * Refuse a parent that is not the user's, or that would put a category
+ * inside itself.
+ *
+ * @param {ObjectId|null} id the category being moved; null when creating one
+ * @throws {Error} 404 when the parent is not found, 400 on a cycle
+ */
+async function assertParent(userId, id, parentId) {
+    if (!parentId) return;
+
+    const categories = await treeOf(userId);
+    if (!categories.some((category) => String(category._id) === String(parentId))) {
+        throw httpError('Parent category not found', 404);
+    }
+    if (id && (String(parentId) === String(id) || descendantsOf(categories, id).includes(String(parentId)))) {
+        throw httpError('A category cannot be moved inside itself.', 400);
+    }
+}
+
+module.exports = { descendantsOf, ancestorsOf, treeOf, assertParent };
@@ -0,0 +1,99 @@
+/* Credit card statements.
+ *
+ * A card's balance is an ordinary derived balance: purchases are expenses on
+ * it, so it goes negative as debt builds up. What a card adds is the cycle.
+ * The statement closes on the account's statementDay, and what was owed at
+ * that moment is due on the next dueDay. Paying the card is a transfer into
+ * it, the same as moving money between any two accounts; a transfer that
+ * lands after the statement closed counts as a payment against it.
+ *
+ * All dates are UTC days, like transaction dates.
+ */
+const Transaction = require('../models/transaction.model');
+const { TransactionQueries } = require('../utils/dbOptimization');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n) => Math.round(n * 100) / 100;
+
+/** `day` of a month, or its last day when the month is shorter. */
+function dayOfMonth(year, month, day) {
+    const last = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month, Math.min(day, last)));
+}
+
+/** The most recent closing day on or before `now`, as UTC midnight. */
+function lastClosingDate(statementDay, now = new Date()) {
+    const year = now.getUTCFullYear();
+    const month = now.getUTCMonth();
+    const thisMonth = dayOfMonth(year, month, statementDay);
+    return thisMonth.getTime() <= now.getTime() ? thisMonth : dayOfMonth(year, month - 1, statementDay);
+}
+
+/** The first dueDay strictly after a statement closed. */
+function dueDateAfter(closingDate, dueDay) {
+    const year = closingDate.getUTCFullYear();
+    const month = closingDate.getUTCMonth();
+    const sameMonth = dayOfMonth(year, month, dueDay);
+    return sameMonth.getTime() > closingDate.getTime() ? sameMonth : dayOfMonth(year, month + 1, dueDay);
+}
+
+/**
+ * The last closed statement of a card.
+ *
+ * `statementBalance` is what was owed when it closed — a positive amount, or 0
+ * when the card was in credit. `paid` adds up the transfers into the card
+ * since then, and `remaining` is what is still to pay by `dueDate`. Amounts
+ * are in the card's currency.
+ *
+ * @returns {Promise<Object|null>} null for an account that is not a card or
+ *   has no statement day
+ */
+async function cardStatement(userId, account, now = new Date()) {
+    if (account.type !== 'card' || !account.statementDay) return null;
+
+    const closingDate = lastClosingDate(account.statementDay, now);
+    // A statement closing on the 14th includes everything dated the 14th.
+    const cutoff = new Date(closingDate.getTime() + DAY_MS);
+    const onCard = { $or: [{ account: account._id }, { transferTo: account._id }] };
+
+    const [rows, payments] = await Promise.all([
+        Transaction.aggregate(TransactionQueries.getAccountBalances(userId, { ...onCard, date: { $lt: cutoff } })),
+        Transaction.find({ user: userId, type: 'transfer', transferTo: account._id, date: { $gte: cutoff } })
+            .select('amount transferAmount')
+            .lean()
+    ]);
+
+    const row = rows.find((entry) => String(entry._id) === String(account._id));
+    const balanceAtClose = (account.openingBalance || 0) + (row ? row.net : 0);
+    const statementBalance = round2(Math.max(-balanceAtClose, 0));
+    const paid = round2(payments.reduce((sum, trx) => sum + (trx.transferAmount ?? trx.amount), 0));
+
+    return {
+        closingDate,
+        dueDate: account.dueDay ? dueDateAfter(closingDate, account.dueDay) : null,
+        statementBalance,
+        paid,
+        remaining: round2(Math.max(statementBalance - paid, 0))
+    };
+}
+
+/**
+ * The last closed statement of each card among `accounts`, by account id.
+ * Other accounts are skipped without a query, and have no entry.
+ *
+ * @returns {Promise<Map<string, Object>>}
+ */
+async function cardStatements(userId, accounts, now = new Date()) {
+    const cards = accounts.filter((account) => account.type === 'card' && account.statementDay);
+    const statements = await Promise.all(cards.map((card) => cardStatement(userId, card, now)));
+    return new Map(cards.map((card, index) => [String(card._id), statements[index]]));
+}
+
+/** What can still be spent on a card, or null when it has no limit. */
+function availableCredit(account, balance) {
+    if (account.type !== 'card' || account.creditLimit === undefined || account.creditLimit === null) return null;
+    return round2(account.creditLimit + balance);
+}
+
+module.exports = { dayOfMonth, lastClosingDate, dueDateAfter, cardStatement, cardStatements, availableCredit };
@@ -0,0 +1,314 @@
+/* Finding transactions entered twice, and resolving them.
+ *
+ * Manual entry, recurring posting and statement imports can each record the
+ * same payment, and the import preview only catches an exact match. Here two
+ * transactions are a likely duplicate when they are on the same account (and,
+ * for transfers, to the same account), of the same type, within
+ * DATE_WINDOW_DAYS of each other, within AMOUNT_TOLERANCE of each other's
+ * amount, and their descriptions share most of their words.
+ *
+ * The scan only proposes. Nothing is changed until the user answers a
+ * candidate, and a merge sends the dropped row to the trash, so it can be
+ * restored.
+ */
+const Transaction = require('../models/transaction.model');
+const Attachment = require('../models/attachment.model');
+const DuplicateCandidate = require('../models/duplicateCandidate.model');
+const transactionWriter = require('./transactionWriter');
+const { dispatch } = require('./notifications');
+
+const DATE_WINDOW_DAYS = 3;
+// The larger of one cent and 1% of the larger amount: a card payment that
+// settles a few cents off its authorisation is still the same payment.
+const AMOUNT_TOLERANCE = 0.01;
+// Share of the shorter description's words found in the other.
+const MIN_SIMILARITY = 0.5;
+// How far back a scan looks, by transaction date.
+const SCAN_LOOKBACK_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const toCents = (n) => Math.round(n * 100);
+
+function httpError(message, status) {
+    const err = new Error(message);
+    err.status = status;
+    return err;
+}
+
+/**
+ * The words of a description, without case, punctuation or numbers. Card
+ * terminals append references and dates ("AMAZON MKTPLACE 0923 #4471") that
+ * differ between two copies of the same payment.
+ */
+function descriptionWords(description) {
+    return new Set(
+        String(description || '')
+            .toLowerCase()
+            .replace(/[^a-zÀ-ɏ]+/g, ' ')
+            .split(' ')
+            .filter((word) => word.length > 1)
+    );
+}
+
+/**
+ * How alike two descriptions are, from 0 to 1: the share of the shorter one's
+ * words that also appear in the other, so "Amazon" matches "Amazon Mktplace".
+ * A missing description says nothing either way and counts as a match; the
+ * amount and date still have to agree.
+ */
+function descriptionSimilarity(a, b) {
+    const wordsA = descriptionWords(a);
+    const wordsB = descriptionWords(b);
+    if (wordsA.size === 0 || wordsB.size === 0) return 1;
+
+    let shared = 0;
+    for (const word of wordsA) if (wordsB.has(word)) shared += 1;
+    return shared / Math.min(wordsA.size, wordsB.size);
+}
+
+/**
+ * What "ignore forever" remembers about a transaction: its accounts, type,
+ * amount and description words. Two rows with the same signature are exactly
+ * the kind of pair the user told us is normal.
+ */
+function duplicateSignature(trx) {
+    const words = [...descriptionWords(trx.description)].sort().join(' ');
+    return [trx.account, trx.transferTo || '', trx.type, toCents(trx.amount), words].join('|');
+}
+
+const pairKeyOf = (a, b) => [String(a), String(b)].sort().join(':');
+
+function amountsMatch(a, b) {
+    const centsA = toCents(a);
+    const centsB = toCents(b);
+    const tolerance = Math.max(toCents(AMOUNT_TOLERANCE), Math.round(Math.max(centsA, centsB) * 0.01));
+    return Math.abs(centsA - centsB) <= tolerance;
+}
+
+const sameDay = (a, b) => new Date(a).toISOString().slice(0, 10) === new Date(b).toISOString().slice(0, 10);
+
+/**
+ * Likely duplicate pairs among a user's transactions.
+ *
+ * Sorted by date, each row is only compared with the rows after it inside the
+ * date window, so a scan is a short inner loop per row rather than every pair.
+ *
+ * @param {Object[]} transactions lean rows with date, amount, type, account,
+ *   transferTo, description, recurringId
+ * @param {Set<string>} [ignoredSignatures] signatures the user has ignored
+ * @returns {{ transactions: ObjectId[], pairKey, signature, similarity }[]}
+ */
+function findDuplicatePairs(transactions, ignoredSignatures = new Set()) {
+    const sorted = [...transactions].sort((a, b) => new Date(a.date) - new Date(b.date));
+    const windowMs = DATE_WINDOW_DAYS * DAY_MS;
+    const pairs = [];
+
+    for (let i = 0; i < sorted.length; i += 1) {
+        const a = sorted[i];
+        for (let j = i + 1; j < sorted.length; j += 1) {
+            const b = sorted[j];
+            if (new Date(b.date) - new Date(a.date) > windowMs) break;
+
+            if (a.type !== b.type) continue;
+            if (String(a.account) !== String(b.account)) continue;
+            if (String(a.transferTo || '') !== String(b.transferTo || '')) continue;
+            if (!amountsMatch(a.amount, b.amount)) continue;
+            // A daily rule posts the same thing every day on purpose. Twice on
+            // one day is still worth asking about.
+            if (a.recurringId && String(a.recurringId) === String(b.recurringId) && !sameDay(a.date, b.date)) continue;
+
+            const similarity = descriptionSimilarity(a.description, b.description);
+            if (similarity < MIN_SIMILARITY) continue;
+
+            const signature = duplicateSignature(a);
+            if (ignoredSignatures.has(signature) || ignoredSignatures.has(duplicateSignature(b))) continue;
+
+            pairs.push({
+                transactions: [a._id, b._id].sort((x, y) => String(x).localeCompare(String(y))),
+                pairKey: pairKeyOf(a._id, b._id),
+                signature,
+                similarity: Math.round(similarity * 100) / 100
+            });
+        }
+    }
+
+    return pairs;
+}
+
+/**
+ * Look for new duplicate candidates in a user's recent transactions, and drop
+ * unanswered ones whose transactions no longer exist.
+ *
+ * Idempotent: a pair already on file, answered or not, is never added again.
+ * When new candidates appear, the user gets one 'system' notification that
+ * links to the queue.
+ *
+ * @returns {Promise<{ found: number, pending: number }>}
+ */
+async function scanForDuplicates(userId, now = new Date()) {
+    const since = new Date(now.getTime() - SCAN_LOOKBACK_DAYS * DAY_MS);
+    const [transactions, candidates] = await Promise.all([
+        Transaction.find({ user: userId, date: { $gte: since } })
+            .select('date amount type account transferTo description recurringId')
+            .lean(),
+        DuplicateCandidate.find({ user: userId }).select('transactions pairKey signature status').lean()
+    ]);
+
+    const known = new Set(candidates.map((candidate) => candidate.pairKey));
+    const ignored = new Set(candidates.filter((c) => c.status === 'ignored').map((c) => c.signature));
+
+    // Looked up rather than taken from the scan: a pending pair can be older
+    // than the lookback and still be there.
+    const pendingCandidates = candidates.filter((c) => c.status === 'pending');
+    const existing = new Set((await Transaction.distinct('_id', {
+        _id: { $in: pendingCandidates.flatMap((c) => c.transactions) },
+        user: userId
+    })).map(String));
+    const stale = pendingCandidates.filter((c) => c.transactions.some((id) => !existing.has(String(id))));
+    if (stale.length > 0) {
+        await DuplicateCandidate.deleteMany({ _id: { $in: stale.map((c) => c._id) }, user: userId });
+    }
+
+    const fresh = findDuplicatePairs(transactions, ignored).filter((pair) => !known.has(pair.pairKey));
+    let inserted = [];
+    if (fresh.length > 0) {
+        // Upserts rather than inserts: two overlapping scans (the job and a
+        // manual "scan now") must not fail on, or double, the same pair.
+        const result = await DuplicateCandidate.bulkWrite(fresh.map((pair) => ({
+            updateOne: {
+                filter: { user: userId, pairKey: pair.pairKey },
+                update: { $setOnInsert: { ...pair, user: userId, status: 'pending' } },
+                upsert: true
+            }
+        })), { ordered: false });
+        inserted = Object.values(result.upsertedIds || {});
+    }
+
+    const pending = await DuplicateCandidate.countDocuments({ user: userId, status: 'pending' });
+
+    if (inserted.length > 0) {
+        const found = inserted.length;
+        await dispatch(userId, {
+            type: 'system',
+            title: 'Possible duplicate transactions',
+            body: `${found} pair${found === 1 ? '' : 's'} of transactions look${found === 1 ? 's' : ''} like the same payment entered twice. Review them to merge or keep both.`,
+            meta: { href: '/duplicates', found, pending },
+            // Keyed by the scan's first new candidate, so each scan that finds
+            // something notifies once and a re-run of it does not.
+            dedupeKey: `duplicates:found:${inserted[0]}`
+        });
+    }
+
+    return { found: inserted.length, pending };
+}
+
+/** An unanswered candidate of the user's, or a 404. */
+async function loadPending(userId, candidateId) {
+    const candidate = await DuplicateCandidate.findOne({ _id: candidateId, user: userId });
+    if (!candidate) throw httpError('Duplicate not found', 404);
+    if (candidate.status !== 'pending') throw httpError('This duplicate has already been resolved', 409);
+    return candidate;
+}
+
+async function resolve(candidate, status) {
+    candidate.status = status;
+    candidate.resolvedAt = new Date();
+    await candidate.save();
+    return candidate;
+}
+
+/**
+ * Merge a candidate pair into the transaction the user keeps. The kept row
+ * gains the other's tags, its description if it had none, and its
+ * attachments; the other goes to the trash.
+ *
+ * @throws {Error} .status 404 for an unknown candidate, 400 when keepId is not
+ *   one of its transactions, 409 when it is already answered, one of its rows
+ *   is gone, or the row to drop is reconciled
+ */
+async function mergeDuplicate(userId, candidateId, keepId) {
+    const candidate = await loadPending(userId, candidateId);
+    const ids = candidate.transactions.map(String);
+    if (!ids.includes(String(keepId))) throw httpError('keep must be one of the two transactions', 400);
+    const dropId = ids.find((id) => id !== String(keepId));
+
+    const [keep, drop] = await Promise.all([
+        Transaction.findOne({ _id: keepId, user: userId }).lean(),
+        Transaction.findOne({ _id: dropId, user: userId }).lean()
+    ]);
+    if (!keep || !drop) {
+        await DuplicateCandidate.deleteOne({ _id: candidate._id });
+        throw httpError('One of these transactions no longer exists', 409);
+    }
+    // Checked before anything moves, so a refusal leaves both rows untouched.
+    if (drop.status === 'reconciled' || drop.transferStatus === 'reconciled') {
+        throw httpError('The transaction to remove is reconciled. Keep that one instead.', 409);
+    }
+
+    const changes = {};
+    const tags = [...new Set([...(keep.tags || []), ...(drop.tags || [])])];
+    if (tags.length > (keep.tags || []).length) changes.tags = tags;
+    if (!keep.description && drop.description) changes.description = drop.description;
+    if (Object.keys(changes).length > 0) {
+        await transactionWriter.updateTransaction(userId, keep._id, changes);
+    }
+
+    // Its refunds now refund the kept row; the writer refiles each one and
+    // checks it still fits. They have to move first, since an expense with
+    // refunds cannot be deleted, and they move back if the delete fails.
+    const refunds = await Transaction.find({ user: userId, refundOf: drop._id }).select('_id').lean();
+    const relinked = [];
+    try {
+        for (const refund of refunds) {
+            await transactionWriter.updateTransaction(userId, refund._id, { refundOf: keep._id });
+            relinked.push(refund._id);
+        }
+        await transactionWriter.deleteTransaction(userId, drop._id);
+    } catch (err) {
+        for (const id of relinked) {
+            await transactionWriter.updateTransaction(userId, id, { refundOf: drop._id });
+        }
+        throw err;
+    }
+
+    // Moved rather than left with the trashed row: the receipt belongs to the
+    // payment, and the payment is the row being kept. Only once the row is
+    // gone, so a failed delete leaves both as they were.
+    await Attachment.updateMany({ user: userId, transaction: drop._id }, { $set: { transaction: keep._id } });
+
+    await resolve(candidate, 'merged');
+    // Other questions about the dropped row have no answer any more.
+    await DuplicateCandidate.deleteMany({ user: userId, status: 'pending', transactions: drop._id });
+
+    return { kept: keep._id, removed: drop._id };
+}
+
+/** Both transactions are real. This pair is not raised again. */
+async function keepBoth(userId, candidateId) {
+    return resolve(await loadPending(userId, candidateId), 'kept');
+}
+
+/**
+ * Both transactions are real and so is every pair like them. Other
+ * unanswered candidates with the same signature are settled as well.
+ */
+async function ignoreForever(userId, candidateId) {
+    const candidate = await resolve(await loadPending(userId, candidateId), 'ignored');
+    await DuplicateCandidate.updateMany(
+        { user: userId, status: 'pending', signature: candidate.signature },
+        { $set: { status: 'ignored', resolvedAt: candidate.resolvedAt } }
+    );
+    return candidate;
+}
+
+module.exports = {
+    DATE_WINDOW_DAYS,
+    SCAN_LOOKBACK_DAYS,
+    descriptionSimilarity,
+    duplicateSignature,
+    findDuplicatePairs,
+    scanForDuplicates,
+    mergeDuplicate,
+    keepBoth,
+    ignoreForever
+};
@@ -0,0 +1,274 @@
+/* Currency conversion against the local rate table.
+ *
+ * A transaction is recorded in its account's currency and stamped with the
+ * same money in the user's base currency (Settings → currency), converted at
+ * the rate on its date. Totals, budgets and reports add up the base amounts,
+ * so a month with dollar, euro and dinar spending still has one figure.
+ *
+ * The rate for a day is the latest one on or before it; a date before the
+ * first rate on record takes the earliest one. A currency with no rate at all
+ * cannot be converted, and writing a transaction in it is a 400 until an
+ * administrator adds one.
+ *
+ * Stamps are recomputed when they go stale: after rates are added or changed
+ * (for the currencies concerned) and when a user changes base currency.
+ */
+const FxRate = require('../models/fxRate.model');
+const Transaction = require('../models/transaction.model');
+const Account = require('../models/account.model');
+const User = require('../models/user.model');
+const { parseDate, detectDelimiter, splitCsv } = require('./statementParser');
+
+// What every row in the table is quoted against.
+const PIVOT = 'USD';
+const BATCH_SIZE = 500;
+const CSV_COLUMNS = ['date', 'currency', 'rate'];
+
+function httpError(message, status) {
+    const err = new Error(message);
+    err.status = status;
+    return err;
+}
+
+const dayKey = (date) => new Date(date).toISOString().slice(0, 10);
+
+/** Two pivot rates → what one unit of the first is worth in the second. */
+const crossRate = (fromRate, toRate) => Math.round((fromRate / toRate) * 1e8) / 1e8;
+
+/** An amount at a rate, in cents. */
+const convertAmount = (amount, rate) => Math.round(amount * rate * 100) / 100;
+
+/** @returns {Promise<number|null>} one unit of `currency` in the pivot on `date` */
+async function pivotRate(currency, date) {
+    if (currency === PIVOT) return 1;
+    const day = new Date(`${dayKey(date)}T00:00:00.000Z`);
+
+    const before = await FxRate.findOne({ currency, date: { $lte: day } }).sort({ date: -1 }).lean();
+    if (before) return before.rate;
+    const after = await FxRate.findOne({ currency, date: { $gt: day } }).sort({ date: 1 }).lean();
+    return after ? after.rate : null;
+}
+
+/**
+ * A rate lookup that remembers what it has read, for converting many rows.
+ *
+ * @returns {(from: string, to: string, date: Date) => Promise<number>}
+ *   throws a 400 naming the currency when either side has no rate
+ */
+function createConverter() {
+    const cache = new Map();
+    const lookup = (currency, date) => {
+        const key = `${currency}|${dayKey(date)}`;
+        if (!cache.has(key)) cache.set(key, pivotRate(currency, date));
+        return cache.get(key);
+    };
+
+    return async (from, to, date) => {
+        if (from === to) return 1;
+        const [fromRate, toRate] = await Promise.all([lookup(from, date), lookup(to, date)]);
+        const missing = !fromRate ? from : !toRate ? to : null;
+        if (missing) {
+            throw httpError(`There is no exchange rate for ${missing} yet. An administrator has to add one first.`, 400);
+        }
+        return crossRate(fromRate, toRate);
+    };
+}
+
+/** @returns {Promise<string>} the currency a user's totals are kept in */
+async function baseCurrencyOf(userId) {
+    const user = await User.findById(userId).select('settings.currency').lean();
+    return (user && user.settings && user.settings.currency) || PIVOT;
+}
+
+/**
+ * The currency fields of one transaction.
+ *
+ * @param {Object} trx { account, transferTo, type, amount, date }
+ * @param {Object} context { baseCurrency, currencyOf(accountId), rate }
+ * @returns {Promise<{ currency, fxRate, baseAmount, transferAmount }>}
+ *   transferAmount is undefined unless a transfer changes currency
+ */
+async function convert(trx, { baseCurrency, currencyOf, rate }) {
+    const date = trx.date || new Date();
+    const currency = currencyOf(trx.account);
+    const fxRate = await rate(currency, baseCurrency, date);
+    const destination = trx.type === 'transfer' ? currencyOf(trx.transferTo) : currency;
+
+    return {
+        currency,
+        fxRate,
+        baseAmount: convertAmount(trx.amount, fxRate),
+        transferAmount: destination === currency
+            ? undefined
+            : convertAmount(trx.amount, await rate(currency, destination, date))
+    };
+}
+
+/**
+ * Currency fields for a transaction about to be written.
+ *
+ * @throws {Error} .status 400 when a currency involved has no rate
+ */
+async function amountsFor(userId, trx) {
+    const [baseCurrency, accounts] = await Promise.all([
+        baseCurrencyOf(userId),
+        Account.find({ _id: { $in: [trx.account, trx.transferTo].filter(Boolean) } }).select('currency').lean()
+    ]);
+    const byId = new Map(accounts.map((account) => [String(account._id), account.currency]));
+
+    return convert(trx, {
+        baseCurrency,
+        currencyOf: (id) => byId.get(String(id)) || baseCurrency,
+        rate: createConverter()
+    });
+}
+
+/**
+ * Recompute the stored conversion of every transaction matching a filter.
+ *
+ * Streams the rows and writes in batches, so a rate import touching years of
+ * history does not hold it all in memory. A row whose currency has lost its
+ * rate keeps its old stamp and is counted as skipped.
+ *
+ * @returns {Promise<{ updated: number, skipped: number }>}
+ */
+async function reconvertTransactions(filter) {
+    const rate = createConverter();
+    const bases = new Map();
+    const currencies = new Map();
+    const cached = async (map, key, load) => {
+        if (!map.has(key)) map.set(key, await load());
+        return map.get(key);
+    };
+
+    let ops = [];
+    let updated = 0;
+    let skipped = 0;
+    const flush = async () => {
+        if (ops.length === 0) return;
+        await Transaction.bulkWrite(ops, { ordered: false });
+        updated += ops.length;
+        ops = [];
+    };
+
+    const cursor = Transaction.find(filter)
+        .select('user account transferTo type amount date currency fxRate baseAmount transferAmount')
+        .lean()
+        .cursor();
+
+    for await (const trx of cursor) {
+        const baseCurrency = await cached(bases, String(trx.user), () => baseCurrencyOf(trx.user));
+        const ids = [trx.account, trx.transferTo].filter(Boolean).map(String);
+        for (const id of ids) {
+            await cached(currencies, id, async () => {
+                const account = await Account.findById(id).select('currency').lean();
+                return account ? account.currency : baseCurrency;
+            });
+        }
+
+        let fields;
+        try {
+            fields = await convert(trx, { baseCurrency, currencyOf: (id) => currencies.get(String(id)), rate });
+        } catch (err) {
+            if (err.status !== 400) throw err;
+            skipped += 1;
+            continue;
+        }
+
+        const unchanged = ['currency', 'fxRate', 'baseAmount', 'transferAmount']
+            .every((field) => trx[field] === fields[field]);
+        if (unchanged) continue;
+
+        const { transferAmount, ...set } = fields;
+        ops.push({
+            updateOne: {
+                filter: { _id: trx._id },
+                update: transferAmount === undefined
+                    ? { $set: set, $unset: { transferAmount: '' } }
+                    : { $set: fields }
+            }
+        });
+        if (ops.length >= BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    return { updated, skipped };
+}
+
+/**
+ * Recompute the stamps a change to these currencies' rates affects: rows in
+ * one of them, and every row of users who keep their totals in one of them.
+ */
+async function reconvertCurrencies(currencies) {
+    const codes = [...new Set(currencies)];
+    const users = await User.find({ 'settings.currency': { $in: codes } }).select('_id').lean();
+    return reconvertTransactions({
+        $or: [{ currency: { $in: codes } }, { user: { $in: users.map((user) => user._id) } }]
+    });
+}
+
+/**
+ * Parse a CSV of rates: a header naming date, currency and rate (any order),
+ * then one rate per row. Dates are YYYY-MM-DD.
+ *
+ * @returns {{ rows: Array<{ line, date, currency, rate }>, errors: Array<{ line, message }> }}
+ */
+function parseRatesCsv(text) {
+    const body = String(text || '').replace(/^\uFEFF/, '');
+    const table = splitCsv(body, detectDelimiter(body.split(/\r?\n/, 1)[0] || ''));
+    if (table.length === 0) return { rows: [], errors: [] };
+
+    const columns = table[0].map((cell) => cell.trim().toLowerCase());
+    const col = Object.fromEntries(CSV_COLUMNS.map((name) => [name, columns.indexOf(name)]));
+    if (CSV_COLUMNS.some((name) => col[name] === -1)) {
+        return { rows: [], errors: [{ line: 1, message: 'The first row must name the date, currency and rate columns.' }] };
+    }
+
+    const rows = [];
+    const errors = [];
+    table.slice(1).forEach((cells, i) => {
+        const line = i + 2;
+        const date = parseDate(cells[col.date]);
+        const currency = String(cells[col.currency] || '').trim().toUpperCase();
+        const rate = Number(String(cells[col.rate] || '').trim());
+
+        if (!date) return errors.push({ line, message: `Unreadable date "${cells[col.date] || ''}"` });
+        if (!/^[A-Z]{3}$/.test(currency)) return errors.push({ line, message: `"${currency}" is not a three-letter currency code` });
+        if (currency === PIVOT) return errors.push({ line, message: `${PIVOT} is the reference currency; its rate is always 1` });
+        if (!(rate > 0)) return errors.push({ line, message: `Unreadable rate "${cells[col.rate] || ''}"` });
+
+        rows.push({ line, date, currency, rate });
+    });
+
+    return { rows, errors };
+}
+
+/**
+ * Add or overwrite rates, one per currency and day.
+ *
+ * @returns {Promise<number>} how many rows were written
+ */
+async function saveRates(rows) {
+    if (rows.length === 0) return 0;
+    await FxRate.bulkWrite(rows.map(({ currency, date, rate }) => ({
+        updateOne: {
+            filter: { currency, date: new Date(`${dayKey(date)}T00:00:00.000Z`) },
+            update: { $set: { rate } },
+            upsert: true
+        }
+    })), { ordered: false });
+    return rows.length;
+}
+
+module.exports = {
+    PIVOT,
+    crossRate,
+    convertAmount,
+    createConverter,
+    baseCurrencyOf,
+    amountsFor,
+    reconvertTransactions,
+    reconvertCurrencies,
+    parseRatesCsv,
+    saveRates
+};
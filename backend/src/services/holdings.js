@@ -0,0 +1,183 @@
+/* Holdings: what an investment account owns, and what it is worth.
+ *
+ * Positions are not stored. They are replayed from the account's trades in
+ * date order, at average cost: a buy adds its quantity and what it cost,
+ * fees included; a sell takes out its quantity at the average cost so far and
+ * realizes the difference between that and its proceeds. Deleting or
+ * restoring a trade therefore needs no bookkeeping.
+ *
+ * A position is valued at the latest price on or before the day (see the
+ * Price model), in the account's currency. Recording trades and prices is
+ * services/investments.
+ */
+const Price = require('../models/price.model');
+const Transaction = require('../models/transaction.model');
+
+const round2 = (n) => Math.round(n * 100) / 100;
+// Fractional shares: eight places, like the fx rates.
+const roundQuantity = (n) => Math.round(n * 1e8) / 1e8;
+
+/**
+ * Replay trades into positions, one per symbol ever traded.
+ *
+ * @param {Array} trades trade transactions, oldest first
+ * @returns {Map<string, {symbol, quantity, costBasis, realizedGain}>}
+ */
+function replayTrades(trades) {
+    const positions = new Map();
+
+    for (const { trade } of trades) {
+        const position = positions.get(trade.symbol)
+            || { symbol: trade.symbol, quantity: 0, costBasis: 0, realizedGain: 0 };
+        const fees = trade.fees || 0;
+
+        if (trade.side === 'buy') {
+            position.quantity = roundQuantity(position.quantity + trade.quantity);
+            position.costBasis = round2(position.costBasis + trade.quantity * trade.price + fees);
+        } else {
+            // A sell beyond what is held (a buy since deleted) realizes its
+            // excess against no cost at all.
+            const sold = Math.min(trade.quantity, position.quantity);
+            const costOut = position.quantity > 0 ? round2((position.costBasis / position.quantity) * sold) : 0;
+            const proceeds = trade.quantity * trade.price - fees;
+
+            position.realizedGain = round2(position.realizedGain + proceeds - costOut);
+            position.costBasis = round2(position.costBasis - costOut);
+            position.quantity = roundQuantity(position.quantity - sold);
+        }
+
+        positions.set(trade.symbol, position);
+    }
+
+    return positions;
+}
+
+/**
+ * The first trade, in the order given, that sells more of its symbol than is
+ * held at that point; null when none does. replayTrades tolerates such a
+ * sell, but recording one would change the gain of every sale after it.
+ *
+ * @returns {{ trade, held: number } | null} held is the quantity just before it
+ */
+function firstOversell(trades) {
+    const held = new Map();
+    for (const row of trades) {
+        const { side, symbol, quantity } = row.trade;
+        const before = held.get(symbol) || 0;
+        if (side === 'sell' && quantity > before) return { trade: row, held: before };
+        held.set(symbol, roundQuantity(side === 'buy' ? before + quantity : before - quantity));
+    }
+    return null;
+}
+
+/** The user's trades, oldest first. */
+function tradesOf(userId, filter = {}) {
+    return Transaction.find({ ...filter, user: userId, type: 'trade' })
+        .sort({ date: 1, createdAt: 1 })
+        .select('account date trade')
+        .lean();
+}
+
+/**
+ * The latest price of each symbol on or before `on`.
+ *
+ * @returns {Promise<Map<string, {price, date}>>}
+ */
+async function latestPrices(userId, symbols, on = new Date()) {
+    if (symbols.length === 0) return new Map();
+
+    const rows = await Price.aggregate([
+        { $match: { user: userId, symbol: { $in: symbols }, date: { $lte: on } } },
+        { $sort: { date: -1 } },
+        { $group: { _id: '$symbol', price: { $first: '$price' }, date: { $first: '$date' } } }
+    ]);
+    return new Map(rows.map((row) => [row._id, { price: row.price, date: row.date }]));
+}
+
+/**
+ * Value replayed positions. A symbol with no price on record is valued at
+ * cost, and says so with a null price.
+ */
+function valuePositions(positions, prices) {
+    return [...positions.values()].map((position) => {
+        const quote = prices.get(position.symbol);
+        const marketValue = quote ? round2(position.quantity * quote.price) : position.costBasis;
+        return {
+            ...position,
+            price: quote ? quote.price : null,
+            priceDate: quote ? quote.date : null,
+            marketValue,
+            unrealizedGain: round2(marketValue - position.costBasis)
+        };
+    });
+}
+
+const total = (rows, field) => round2(rows.reduce((sum, row) => sum + row[field], 0));
+
+/**
+ * Each investment account's open positions, valued, with totals. Closed
+ * positions are left out of `positions` but their realized gains count.
+ *
+ * @param {Array} accounts investment accounts
+ * @returns {Promise<Map<string, {positions, totals}>>} keyed by account id
+ */
+async function holdingsOf(userId, accounts, now = new Date()) {
+    const result = new Map();
+    if (accounts.length === 0) return result;
+
+    const trades = await tradesOf(userId, { account: { $in: accounts.map((account) => account._id) }, date: { $lte: now } });
+    const symbols = [...new Set(trades.map((trx) => trx.trade.symbol))];
+    const prices = await latestPrices(userId, symbols, now);
+
+    for (const account of accounts) {
+        const own = trades.filter((trx) => String(trx.account) === String(account._id));
+        const valued = valuePositions(replayTrades(own), prices);
+        const open = valued.filter((position) => position.quantity > 0);
+
+        result.set(String(account._id), {
+            positions: open,
+            totals: {
+                costBasis: total(open, 'costBasis'),
+                marketValue: total(open, 'marketValue'),
+                unrealizedGain: total(open, 'unrealizedGain'),
+                realizedGain: total(valued, 'realizedGain')
+            }
+        });
+    }
+
+    return result;
+}
+
+/**
+ * The market value of investment accounts on any day up to `until`, for
+ * rebuilding history: the trades and prices are read once, and each call
+ * replays and values as of the end of its day.
+ *
+ * @returns {Promise<function(accountId, Date): number>} 0 for any other account
+ */
+async function createValuer(userId, accounts, until) {
+    if (accounts.length === 0) return () => 0;
+
+    const trades = await tradesOf(userId, { account: { $in: accounts.map((account) => account._id) }, date: { $lte: until } });
+    const symbols = [...new Set(trades.map((trx) => trx.trade.symbol))];
+    const prices = symbols.length === 0
+        ? []
+        : await Price.find({ user: userId, symbol: { $in: symbols }, date: { $lte: until } }).sort({ date: 1 }).lean();
+
+    return (accountId, day) => {
+        const own = trades.filter((trx) => String(trx.account) === String(accountId) && trx.date <= day);
+        if (own.length === 0) return 0;
+
+        // Oldest first, so each symbol ends on its latest price by then.
+        const latest = new Map();
+        for (const row of prices) {
+            if (row.date > day) break;
+            latest.set(row.symbol, { price: row.price, date: row.date });
+        }
+
+        const open = valuePositions(replayTrades(own), latest).filter((position) => position.quantity > 0);
+        return total(open, 'marketValue');
+    };
+}
+
+module.exports = { replayTrades, firstOversell, valuePositions, tradesOf, latestPrices, holdingsOf, createValuer };
@@ -0,0 +1,212 @@
+/* Investment accounts: trades, prices, and the portfolio across accounts.
+ *
+ * A trade is a transaction of type 'trade' on the investment account. Its
+ * amount is the cash that moved, so the account's ordinary derived balance is
+ * its cash; the holdings it bought are valued separately (services/holdings)
+ * and added on top. Trades count toward no income, spending or budget.
+ *
+ * Prices are entered by the user or imported from CSV. There are no live
+ * quotes.
+ */
+const Account = require('../models/account.model');
+const Price = require('../models/price.model');
+const transactionWriter = require('./transactionWriter');
+const { firstOversell, tradesOf, holdingsOf } = require('./holdings');
+const { baseCurrencyOf, createConverter, convertAmount } = require('./fx');
+const { parseDate, detectDelimiter, splitCsv } = require('./statementParser');
+
+const CSV_COLUMNS = ['date', 'symbol', 'price'];
+const SYMBOL = /^[A-Z0-9.^-]{1,15}$/;
+
+const round2 = (n) => Math.round(n * 100) / 100;
+const dayOf = (date) => new Date(`${new Date(date).toISOString().slice(0, 10)}T00:00:00.000Z`);
+
+function httpError(message, status) {
+    const err = new Error(message);
+    err.status = status;
+    return err;
+}
+
+async function findInvestmentAccount(userId, accountId) {
+    const account = await Account.findOne({ _id: accountId, user: userId });
+    if (!account) throw httpError('Account not found', 404);
+    if (account.type !== 'investment') throw httpError('Trades can only be recorded on an investment account.', 400);
+    return account;
+}
+
+/** One investment account's open positions and totals. */
+async function accountHoldings(userId, accountId, now = new Date()) {
+    const account = await findInvestmentAccount(userId, accountId);
+    return (await holdingsOf(userId, [account], now)).get(String(account._id));
+}
+
+/**
+ * Buy or sell a security in an investment account.
+ *
+ * A sell may not exceed what the account held on the trade's date, nor leave
+ * too little for a sell already recorded after it. The trade's price is
+ * recorded as that day's price unless one is already on record, so a new
+ * holding is valued from the start.
+ *
+ * @param {Object} input { side, symbol, quantity, price, fees?, date?, description? }
+ * @returns {Promise<Transaction>}
+ */
+async function recordTrade(userId, accountId, { side, symbol, quantity, price, fees = 0, date, description }) {
+    const account = await findInvestmentAccount(userId, accountId);
+    const when = date ? new Date(date) : new Date();
+    const code = symbol.trim().toUpperCase();
+
+    if (side === 'sell') {
+        // Every trade of the symbol with this one in its place, the way
+        // tradesOf orders them: after any others on the same day.
+        const trades = await tradesOf(userId, { account: account._id, 'trade.symbol': code });
+        const at = trades.findIndex((row) => row.date > when);
+        const sell = { date: when, trade: { side, symbol: code, quantity } };
+        trades.splice(at === -1 ? trades.length : at, 0, sell);
+
+        const oversold = firstOversell(trades);
+        if (oversold && oversold.trade === sell) {
+            throw httpError(`This account held only ${oversold.held} ${code} on that day.`, 400);
+        }
+        if (oversold) {
+            const day = oversold.trade.date.toISOString().slice(0, 10);
+            throw httpError(`That would leave too little ${code} for the sale on ${day}.`, 400);
+        }
+    }
+
+    const gross = quantity * price;
+    const amount = round2(side === 'buy' ? gross + fees : gross - fees);
+    if (!(amount > 0)) throw httpError('The fees are more than the sale raised.', 400);
+
+    const { transaction } = await transactionWriter.createTransaction({
+        user: userId,
+        account: account._id,
+        type: 'trade',
+        amount,
+        date: when,
+        description: description || `${side === 'buy' ? 'Buy' : 'Sell'} ${quantity} ${code} @ ${price}`,
+        trade: { side, symbol: code, quantity, price, fees }
+    });
+
+    await Price.updateOne(
+        { user: userId, symbol: code, date: dayOf(when) },
+        { $setOnInsert: { price } },
+        { upsert: true }
+    );
+
+    return transaction;
+}
+
+/**
+ * Every investment account's holdings, and the portfolio across them in the
+ * user's base currency: totals, and each symbol's share of the market value.
+ */
+async function portfolio(userId, now = new Date()) {
+    const accounts = await Account.find({ user: userId, type: 'investment', isArchived: false }).lean();
+    const [holdings, baseCurrency] = await Promise.all([holdingsOf(userId, accounts, now), baseCurrencyOf(userId)]);
+    const rate = createConverter();
+
+    const bySymbol = new Map();
+    const totals = { costBasis: 0, marketValue: 0, unrealizedGain: 0, realizedGain: 0 };
+    const perAccount = [];
+
+    for (const account of accounts) {
+        const { positions, totals: own } = holdings.get(String(account._id));
+        const toBase = await rate(account.currency || baseCurrency, baseCurrency, now);
+        const base = (n) => convertAmount(n, toBase);
+
+        for (const field of Object.keys(totals)) totals[field] = round2(totals[field] + base(own[field]));
+        for (const position of positions) {
+            bySymbol.set(position.symbol, round2((bySymbol.get(position.symbol) || 0) + base(position.marketValue)));
+        }
+        perAccount.push({ account: { _id: account._id, name: account.name, currency: account.currency }, positions, totals: own });
+    }
+
+    const allocation = [...bySymbol.entries()]
+        .map(([symbol, marketValue]) => ({
+            symbol,
+            marketValue,
+            share: totals.marketValue > 0 ? Math.round((marketValue / totals.marketValue) * 10000) / 100 : 0
+        }))
+        .sort((a, b) => b.marketValue - a.marketValue);
+
+    return { currency: baseCurrency, totals, allocation, accounts: perAccount };
+}
+
+/** Price history, newest first. */
+function listPrices(userId, symbol) {
+    const filter = { user: userId };
+    if (symbol) filter.symbol = symbol.toUpperCase();
+    return Price.find(filter).sort({ date: -1, symbol: 1 }).limit(500).lean();
+}
+
+/**
+ * Add or overwrite prices, one per symbol and day.
+ *
+ * @returns {Promise<number>} how many rows were written
+ */
+async function savePrices(userId, rows) {
+    if (rows.length === 0) return 0;
+    await Price.bulkWrite(rows.map(({ symbol, date, price }) => ({
+        updateOne: {
+            filter: { user: userId, symbol: symbol.toUpperCase(), date: dayOf(date) },
+            update: { $set: { price } },
+            upsert: true
+        }
+    })), { ordered: false });
+    return rows.length;
+}
+
+/** @returns {Promise<boolean>} false when the user has no such price */
+async function deletePrice(userId, id) {
+    const result = await Price.deleteOne({ _id: id, user: userId });
+    return result.deletedCount > 0;
+}
+
+/**
+ * Parse a CSV of prices: a header naming date, symbol and price (any order),
+ * then one price per row. Dates are YYYY-MM-DD.
+ *
+ * @returns {{ rows: Array<{ line, date, symbol, price }>, errors: Array<{ line, message }> }}
+ */
+function parsePricesCsv(text) {
+    const body = String(text || '').replace(/^\uFEFF/, '');
+    const table = splitCsv(body, detectDelimiter(body.split(/\r?\n/, 1)[0] || ''));
+    if (table.length === 0) return { rows: [], errors: [] };
+
+    const columns = table[0].map((cell) => cell.trim().toLowerCase());
+    const col = Object.fromEntries(CSV_COLUMNS.map((name) => [name, columns.indexOf(name)]));
+    if (CSV_COLUMNS.some((name) => col[name] === -1)) {
+        return { rows: [], errors: [{ line: 1, message: 'The first row must name the date, symbol and price columns.' }] };
+    }
+
+    const rows = [];
+    const errors = [];
+    table.slice(1).forEach((cells, i) => {
+        const line = i + 2;
+        const date = parseDate(cells[col.date]);
+        const symbol = String(cells[col.symbol] || '').trim().toUpperCase();
+        const price = Number(String(cells[col.price] || '').trim());
+
+        if (!date) return errors.push({ line, message: `Unreadable date "${cells[col.date] || ''}"` });
+        if (!SYMBOL.test(symbol)) return errors.push({ line, message: `"${symbol}" is not a ticker symbol` });
+        if (!(price >= 0) || String(cells[col.price] || '').trim() === '') {
+            return errors.push({ line, message: `Unreadable price "${cells[col.price] || ''}"` });
+        }
+
+        rows.push({ line, date, symbol, price });
+    });
+
+    return { rows, errors };
+}
+
+module.exports = {
+    accountHoldings,
+    recordTrade,
+    portfolio,
+    listPrices,
+    savePrices,
+    deletePrice,
+    parsePricesCsv,
+    SYMBOL
+};
@@ -0,0 +1,127 @@
+/* Loan payments.
+ *
+ * A loan account is a liability. It opens at minus its principal, and each
+ * payment from a bank account becomes two transactions: a transfer of the
+ * principal part into the loan, which brings its balance back toward zero,
+ * and an expense for the interest part, which is money actually spent. Only
+ * the interest shows up in spending and budgets.
+ */
+const Account = require('../models/account.model');
+const Category = require('../models/category.model');
+const Transaction = require('../models/transaction.model');
+const TransactionHistory = require('../models/transactionHistory.model');
+const { TransactionQueries } = require('../utils/dbOptimization');
+const { monthlyRate, paymentFor, isLoan, loanSummary } = require('./amortization');
+const transactionWriter = require('./transactionWriter');
+
+const INTEREST_CATEGORY = 'Loan interest';
+
+const round2 = (n) => Math.round(n * 100) / 100;
+
+function httpError(message, status) {
+    const err = new Error(message);
+    err.status = status;
+    return err;
+}
+
+/** A loan's balance from its transactions, as in withBalances. */
+async function balanceOf(userId, account) {
+    const rows = await Transaction.aggregate(TransactionQueries.getAccountBalances(userId, {
+        $or: [{ account: account._id }, { transferTo: account._id }]
+    }));
+    const row = rows.find((entry) => String(entry._id) === String(account._id));
+    return (account.openingBalance || 0) + (row ? row.net : 0);
+}
+
+/**
+ * Undo a row this payment just wrote, as if it never was: not to the trash,
+ * where half a payment could be restored, and without a history.
+ */
+async function discard(userId, transaction) {
+    await Transaction.deleteOne({ _id: transaction._id, user: userId });
+    await TransactionHistory.deleteMany({ user: userId, transaction: transaction._id });
+}
+
+async function findLoan(userId, loanId) {
+    const loan = await Account.findOne({ _id: loanId, user: userId });
+    if (!loan) throw httpError('Account not found', 404);
+    if (!isLoan(loan)) throw httpError('This account is not a loan with a principal, term and payment day.', 400);
+    return loan;
+}
+
+/** The loan's summary with its full remaining schedule. */
+async function getSchedule(userId, loanId, now = new Date()) {
+    const loan = await findLoan(userId, loanId);
+    return loanSummary(loan, await balanceOf(userId, loan), now, { withSchedule: true });
+}
+
+/**
+ * Pay a loan from another account: interest on the current balance as an
+ * expense, the rest as a transfer into the loan. `amount` defaults to the
+ * regular payment; more pays the loan down faster, and nothing beyond the
+ * balance is taken.
+ *
+ * @param {Object} payment { from, date?, amount? }
+ * @returns {Promise<{interest, principal, transactions}>}
+ */
+async function recordLoanPayment(userId, loanId, { from, date, amount }) {
+    const loan = await findLoan(userId, loanId);
+    const source = await Account.findOne({ _id: from, user: userId });
+    if (!source) throw httpError('Account not found', 404);
+    if (String(source._id) === String(loan._id)) throw httpError('A loan cannot pay itself.', 400);
+    // Interest is an expense on the paying account, in its currency.
+    if (source.currency !== loan.currency) throw httpError(`Pay this loan from an account in ${loan.currency}.`, 400);
+
+    const owed = round2(Math.max(-(await balanceOf(userId, loan)), 0));
+    if (owed === 0) throw httpError('This loan is already paid off.', 400);
+
+    const total = amount ?? paymentFor(loan.principal, loan.interestRate || 0, loan.termMonths);
+    const interest = Math.min(round2(owed * monthlyRate(loan.interestRate || 0)), total);
+    const principal = Math.min(round2(total - interest), owed);
+    const when = date ? new Date(date) : new Date();
+
+    // The category exists before either row is written, so the only thing
+    // left to fail between them is the interest write itself.
+    const category = interest > 0
+        ? await Category.findOneAndUpdate(
+            { user: userId, name: INTEREST_CATEGORY },
+            { $setOnInsert: { user: userId, name: INTEREST_CATEGORY } },
+            { upsert: true, new: true }
+        )
+        : null;
+
+    // The principal first, and taken back if the interest then fails: a
+    // payment is both rows or neither.
+    const transactions = [];
+    if (principal > 0) {
+        transactions.push((await transactionWriter.createTransaction({
+            user: userId,
+            account: source._id,
+            transferTo: loan._id,
+            type: 'transfer',
+            amount: principal,
+            date: when,
+            description: `${loan.name} principal`
+        })).transaction);
+    }
+    if (interest > 0) {
+        try {
+            transactions.unshift((await transactionWriter.createTransaction({
+                user: userId,
+                account: source._id,
+                type: 'expense',
+                amount: interest,
+                category: category._id,
+                date: when,
+                description: `${loan.name} interest`
+            })).transaction);
+        } catch (err) {
+            if (transactions.length > 0) await discard(userId, transactions[0]);
+            throw err;
+        }
+    }
+
+    return { interest, principal, transactions };
+}
+
+module.exports = { getSchedule, recordLoanPayment, INTEREST_CATEGORY };
@@ -0,0 +1,239 @@
+/* Net worth over time.
+ *
+ * Account balances are derived from transactions, which answers "what is it
+ * now" but not "what was it in March" once later rows land. A snapshot per
+ * user per day keeps the answer: the daily job takes today's, and the same
+ * walk rebuilds any past day from the transactions dated on or before it.
+ *
+ * A day's balance is the account's opening balance, from the day it was
+ * opened, plus every movement dated up to the end of that day, plus what an
+ * investment account's holdings were worth. Assets are the accounts in
+ * credit and liabilities the ones in the red, both in the base currency.
+ */
+const Account = require('../models/account.model');
+const Transaction = require('../models/transaction.model');
+const NetWorthSnapshot = require('../models/netWorthSnapshot.model');
+const { TransactionQueries } = require('../utils/dbOptimization');
+const { baseCurrencyOf, createConverter, convertAmount } = require('./fx');
+const { createValuer } = require('./holdings');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A job that was down longer than this leaves a gap rather than walking
+// months of days on one run; migration 004 can fill it.
+const MAX_CATCH_UP_DAYS = 31;
+
+const round2 = (n) => Math.round(n * 100) / 100;
+const dayKey = (date) => date.toISOString().slice(0, 10);
+const startOfDay = (date) => new Date(`${dayKey(new Date(date))}T00:00:00.000Z`);
+const endOfDay = (day) => new Date(day.getTime() + DAY_MS - 1);
+
+function addMonths(date, months) {
+    const d = new Date(date);
+    d.setUTCMonth(d.getUTCMonth() + months);
+    return d;
+}
+
+/** Assets, liabilities and net worth from a day's account balances. */
+function summarize(balances) {
+    let assets = 0;
+    let liabilities = 0;
+    for (const { baseBalance } of balances) {
+        if (baseBalance === null) continue;
+        if (baseBalance >= 0) assets += baseBalance;
+        else liabilities -= baseBalance;
+    }
+    return { assets: round2(assets), liabilities: round2(liabilities), netWorth: round2(assets - liabilities) };
+}
+
+/**
+ * Snapshots for every day from `from` to `to`, not yet saved.
+ *
+ * One aggregation gives each account's movement per day; walking it keeps a
+ * running total, so a year of history costs one query rather than 365.
+ *
+ * @returns {Promise<Array>} oldest first; empty for a user without accounts
+ */
+async function buildSnapshots(userId, from, to) {
+    const first = startOfDay(from);
+    const last = startOfDay(to);
+    const until = endOfDay(last);
+
+    const accounts = await Account.find({ user: userId }).lean();
+    if (accounts.length === 0 || first > last) return [];
+
+    const [changes, currency, valueOf] = await Promise.all([
+        Transaction.aggregate(TransactionQueries.getAccountDailyChanges(userId, { date: { $lte: until } })),
+        baseCurrencyOf(userId),
+        createValuer(userId, accounts.filter((account) => account.type === 'investment'), until)
+    ]);
+
+    const rate = createConverter();
+    const toBase = async (account, date) => {
+        try {
+            return await rate(account.currency || currency, currency, date);
+        } catch (err) {
+            if (err.status !== 400) throw err;
+            return null;
+        }
+    };
+    const openingRates = new Map(await Promise.all(
+        accounts.map(async (account) => [String(account._id), await toBase(account, account.createdAt)])
+    ));
+
+    const running = new Map();
+    let next = 0;
+    const snapshots = [];
+
+    for (let day = first; day <= last; day = new Date(day.getTime() + DAY_MS)) {
+        const key = dayKey(day);
+        const close = endOfDay(day);
+
+        // Everything dated on or before this day, including days before `from`.
+        for (; next < changes.length && changes[next]._id.day <= key; next += 1) {
+            const { _id, net, baseNet } = changes[next];
+            const sum = running.get(String(_id.account)) || { net: 0, baseNet: 0 };
+            running.set(String(_id.account), { net: sum.net + net, baseNet: sum.baseNet + baseNet });
+        }
+
+        const balances = [];
+        for (const account of accounts) {
+            const id = String(account._id);
+            const opened = new Date(account.createdAt) <= close;
+            const moved = running.get(id);
+            if (!opened && !moved) continue;
+
+            const opening = opened ? account.openingBalance : 0;
+            const marketValue = account.type === 'investment' ? valueOf(id, close) : 0;
+            const openingRate = openingRates.get(id);
+            const marketRate = marketValue ? await toBase(account, day) : 1;
+
+            balances.push({
+                account: account._id,
+                balance: round2(opening + (moved ? moved.net : 0) + marketValue),
+                baseBalance: openingRate === null || marketRate === null
+                    ? null
+                    : round2(convertAmount(opening, openingRate) + (moved ? moved.baseNet : 0)
+                        + convertAmount(marketValue, marketRate))
+            });
+        }
+
+        snapshots.push({ user: userId, date: day, currency, accounts: balances, ...summarize(balances) });
+    }
+
+    return snapshots;
+}
+
+/**
+ * Write snapshots, replacing any already taken on the same days unless
+ * `overwrite` is false, when those are kept as they were.
+ */
+async function saveSnapshots(snapshots, { overwrite = true } = {}) {
+    if (snapshots.length === 0) return 0;
+    await NetWorthSnapshot.bulkWrite(snapshots.map((snapshot) => ({
+        updateOne: {
+            filter: { user: snapshot.user, date: snapshot.date },
+            update: overwrite ? { $set: snapshot } : { $setOnInsert: snapshot },
+            upsert: true
+        }
+    })), { ordered: false });
+    return snapshots.length;
+}
+
+/**
+ * Take today's snapshot, and any missed since the last one. The last one is
+ * taken again too: it may have been taken before its day was over.
+ *
+ * @returns {Promise<number>} how many days were written
+ */
+async function snapshotUser(userId, now = new Date()) {
+    const today = startOfDay(now);
+    const latest = await NetWorthSnapshot.findOne({ user: userId }).sort({ date: -1 }).select('date').lean();
+
+    const earliest = new Date(today.getTime() - MAX_CATCH_UP_DAYS * DAY_MS);
+    let from = today;
+    if (latest) from = latest.date > earliest ? latest.date : earliest;
+    return saveSnapshots(await buildSnapshots(userId, from, today));
+}
+
+/** The first day a user had an account or a transaction, or null. */
+async function firstActivity(userId) {
+    const [account, transaction] = await Promise.all([
+        Account.findOne({ user: userId }).sort({ createdAt: 1 }).select('createdAt').lean(),
+        Transaction.findOne({ user: userId }).sort({ date: 1 }).select('date').lean()
+    ]);
+    const dates = [account && account.createdAt, transaction && transaction.date].filter(Boolean);
+    return dates.length === 0 ? null : startOfDay(new Date(Math.min(...dates.map((d) => d.getTime()))));
+}
+
+/** The last point of each month, for a long range drawn by month. */
+function lastOfEachMonth(points) {
+    const byMonth = new Map();
+    for (const point of points) byMonth.set(dayKey(point.date).slice(0, 7), point);
+    return [...byMonth.values()];
+}
+
+/**
+ * How net worth moved since the same day a month earlier: the latest point
+ * against the last one on or before that day. Null without an earlier one.
+ */
+function monthOverMonth(latest, previous) {
+    if (!latest || !previous) return null;
+    const amount = round2(latest.netWorth - previous.netWorth);
+    return {
+        since: previous.date,
+        amount,
+        percent: previous.netWorth !== 0 ? Math.round((amount / Math.abs(previous.netWorth)) * 10000) / 100 : null
+    };
+}
+
+const POINT_FIELDS = 'date currency assets liabilities netWorth';
+const pointOf = ({ date, assets, liabilities, netWorth }) => ({ date, assets, liabilities, netWorth });
+
+/**
+ * Net worth from `start` to `end`, a point per day or per month, with the
+ * change over the last month. Today is always computed live, so the chart
+ * ends on the figure the accounts page shows.
+ *
+ * Snapshots taken in a different base currency are left out: they cannot be
+ * compared with today's without rewriting history at today's rates.
+ *
+ * @param {Object} options { start?, end?, interval: 'day' | 'month' }
+ */
+async function history(userId, { start, end, interval = 'day' } = {}, now = new Date()) {
+    const today = startOfDay(now);
+    const last = end ? startOfDay(end) : today;
+    const first = start ? startOfDay(start) : addMonths(last, -12);
+    const currency = await baseCurrencyOf(userId);
+
+    const stored = await NetWorthSnapshot.find({ user: userId, currency, date: { $gte: first, $lte: last, $lt: today } })
+        .sort({ date: 1 })
+        .select(POINT_FIELDS)
+        .lean();
+    const points = stored.map(pointOf);
+    if (last >= today) points.push(...(await buildSnapshots(userId, today, today)).map(pointOf));
+
+    const latest = points[points.length - 1];
+    const previous = latest && await NetWorthSnapshot.findOne({
+        user: userId, currency, date: { $lte: addMonths(latest.date, -1) }
+    }).sort({ date: -1 }).select(POINT_FIELDS).lean();
+
+    return {
+        currency,
+        interval,
+        points: interval === 'month' ? lastOfEachMonth(points) : points,
+        change: monthOverMonth(latest, previous)
+    };
+}
+
+module.exports = {
+    summarize,
+    buildSnapshots,
+    saveSnapshots,
+    snapshotUser,
+    firstActivity,
+    lastOfEachMonth,
+    monthOverMonth,
+    history,
+    startOfDay,
+    MAX_CATCH_UP_DAYS
+};
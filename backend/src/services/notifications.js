@@ -80,6 +80,11 @@ async function dispatch(userOrId, { type, title, body, meta = {}, dedupeKey }) {
     }
 }
 
+/** The dedupeKey of a budget alert: one per level, month and scope. */
+const budgetKey = (level, event) => (event.scope === 'category'
+    ? `budget:${level}:${event.month}:cat:${event.categoryId}`
+    : `budget:${level}:${event.month}:total`);
+
 /** Turn budgetCheck events into notifications. */
 async function dispatchBudgetEvents(userOrId, events, { formatAmount = (n) => n.toFixed(2) } = {}) {
     const created = [];
@@ -90,9 +95,7 @@ async function dispatchBudgetEvents(userOrId, events, { formatAmount = (n) => n.
         const percent = event.limit > 0 ? Math.round((event.spent / event.limit) * 100) : 0;
 
         const scopeLabel = isCategory ? event.categoryName : 'your monthly budget';
-        const dedupeKey = isCategory
-            ? `budget:${event.level}:${event.month}:cat:${event.categoryId}`
-            : `budget:${event.level}:${event.month}:total`;
+        const dedupeKey = budgetKey(event.level, event);
 
         const notification = await dispatch(userOrId, {
             type: 'budget',
@@ -112,4 +115,47 @@ async function dispatchBudgetEvents(userOrId, events, { formatAmount = (n) => n.
     return created;
 }
 
-module.exports = { dispatch, dispatchBudgetEvents, isEnabled };
+/**
+ * Resolve the "over budget" alerts of scopes that are back under their limit.
+ *
+ * The alert is kept, with meta.resolved set, and its dedupeKey is retired so
+ * that crossing the limit again in the same month alerts again. A "back under
+ * budget" notice follows, subject to the same budgetAlerts preference.
+ *
+ * @param {Array} scopes the `within` list from evaluateBudgetMonth
+ * @returns {Promise<Notification[]>} the alerts resolved
+ */
+async function resolveBudgetAlerts(userOrId, scopes, { formatAmount = (n) => n.toFixed(2) } = {}) {
+    if (scopes.length === 0) return [];
+    const userId = userOrId._id || userOrId;
+
+    try {
+        const byKey = new Map(scopes.map((scope) => [budgetKey('exceeded', scope), scope]));
+        const open = await Notification.find({ user: userId, dedupeKey: { $in: [...byKey.keys()] } });
+
+        for (const alert of open) {
+            const scope = byKey.get(alert.dedupeKey);
+            const resolvedAt = new Date();
+            alert.meta = { ...alert.meta, resolved: true, resolvedAt, spent: scope.spent };
+            alert.dedupeKey = `${alert.dedupeKey}:resolved:${resolvedAt.getTime()}`;
+            await alert.save();
+
+            const isCategory = scope.scope === 'category';
+            await dispatch(userOrId, {
+                type: 'budget',
+                title: `Back under budget${isCategory ? ` — ${scope.categoryName}` : ''}`,
+                body: `You've now spent ${formatAmount(scope.spent)} of ${formatAmount(scope.limit)} on ${isCategory ? scope.categoryName : 'your monthly budget'}.`,
+                meta: { href: '/budgets', month: scope.month, scope: scope.scope, spent: scope.spent, limit: scope.limit, resolves: alert._id },
+                dedupeKey: `budget:under:${alert._id}`
+            });
+        }
+
+        return open;
+    } catch (err) {
+        // Like dispatch: the edit or delete that got here has already happened.
+        logger.error('Resolving budget alerts failed', { userId, error: err.message, stack: err.stack });
+        return [];
+    }
+}
+
+module.exports = { dispatch, dispatchBudgetEvents, resolveBudgetAlerts, isEnabled };
@@ -0,0 +1,205 @@
+/* Linking transactions to payees.
+ *
+ * A description is matched against every payee's name and aliases; the
+ * longest matching pattern wins, so an alias for "Uber Eats" beats the plain
+ * "Uber". Patterns match whole words only — "Shell" must not claim
+ * "Shellfish Co" — and '*' stands for any run of characters, which is how
+ * "AMZN*" covers "AMZN Mktp US*2K4".
+ *
+ * Patterns are compiled from plain text with only '*' given meaning; like
+ * categorization rules, a user-supplied regex would run against every new
+ * transaction.
+ *
+ * The payee is derived from the description, so it is not part of the
+ * transaction's change history; the description it came from is.
+ */
+const Payee = require('../models/payee.model');
+const Transaction = require('../models/transaction.model');
+const { escapeRegex } = require('./transactionSearch');
+
+const MAX_NAME_LENGTH = 60;
+const BATCH_SIZE = 500;
+
+/** Lowercased, single-spaced: two names with the same key are one payee. */
+const payeeKey = (name) => String(name).trim().replace(/\s+/g, ' ').toLowerCase();
+
+const titleCase = (text) => text.toLowerCase().replace(/(^|\s)(\p{L})/gu, (m, space, letter) => space + letter.toUpperCase());
+
+/**
+ * The payee name a description suggests, or '' when nothing is left of it.
+ *
+ * Card terminals put a reference after '*' or '#' and scatter store numbers,
+ * dates and card digits through the rest; any word with a digit in it goes.
+ * All-capitals descriptions are title-cased so "AMZN MKTP US" reads like a
+ * name.
+ */
+function payeeNameFrom(description) {
+    const text = String(description || '').split(/[*#]/)[0] || String(description || '');
+    const name = text
+        .split(/\s+/)
+        .filter((word) => word && !/\d/.test(word))
+        .join(' ')
+        .replace(/[^\p{L}\p{N}&'.\- ]/gu, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, MAX_NAME_LENGTH)
+        .trim();
+    return name === name.toUpperCase() ? titleCase(name) : name;
+}
+
+/** A name or alias as a whole-word, case-insensitive matcher. */
+function patternRegex(pattern) {
+    const body = pattern.trim().split('*').map(escapeRegex).join('.*');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+/** Each payee's name and aliases as matchers, ready for matchPayee(). */
+function compilePayees(payees) {
+    return payees.flatMap((payee) => [payee.name, ...(payee.aliases || [])]
+        .filter((pattern) => pattern && pattern.replace(/\*/g, '').trim())
+        .map((pattern) => ({
+            payee: payee._id,
+            regex: patternRegex(pattern),
+            length: pattern.replace(/\*/g, '').length
+        })));
+}
+
+/** @returns {ObjectId|null} the payee whose longest pattern matches */
+function matchPayee(matchers, description) {
+    if (!description) return null;
+    let best = null;
+    for (const matcher of matchers) {
+        if ((!best || matcher.length > best.length) && matcher.regex.test(description)) best = matcher;
+    }
+    return best ? best.payee : null;
+}
+
+/** The payee named by the key, created when there is none. Safe under races. */
+async function upsertPayee(userId, name) {
+    const payee = await Payee.findOneAndUpdate(
+        { user: userId, key: payeeKey(name) },
+        { $setOnInsert: { user: userId, name, key: payeeKey(name), aliases: [] } },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+    return payee._id;
+}
+
+/**
+ * Make a resolver for one user: loads their payees once, then answers a
+ * description at a time, creating payees for new merchants as it goes.
+ *
+ * @param {Object} [options] { create: false } to only link to payees that
+ *   exist already
+ */
+async function payeeResolver(userId, { create = true } = {}) {
+    const matchers = compilePayees(await Payee.find({ user: userId }).select('name aliases').lean());
+    const created = new Map();
+
+    return async (description) => {
+        const matched = matchPayee(matchers, description);
+        if (matched || !create) return matched;
+
+        const name = payeeNameFrom(description);
+        if (!name) return null;
+        const key = payeeKey(name);
+        if (!created.has(key)) {
+            const id = await upsertPayee(userId, name);
+            created.set(key, id);
+            matchers.push({ payee: id, regex: patternRegex(name), length: name.length });
+        }
+        return created.get(key);
+    };
+}
+
+/**
+ * Confirm a payee chosen by the client is the user's own.
+ *
+ * @throws {Error} .status 404, as for an account that is not theirs
+ */
+async function assertOwnsPayee(userId, id) {
+    if (!id) return;
+    if (!await Payee.exists({ _id: id, user: userId })) {
+        const err = new Error('Payee not found');
+        err.status = 404;
+        throw err;
+    }
+}
+
+/**
+ * The payee for one transaction about to be written. Transfers and trades
+ * have none: the money stays with the user.
+ *
+ * @param {Function} [resolve] a payeeResolver() shared across many rows;
+ *   without one, this loads and compiles the user's payees for the one row
+ */
+async function resolvePayee(userId, { type, description }, resolve) {
+    if (type === 'transfer' || type === 'trade' || !description) return null;
+    return (resolve || await payeeResolver(userId))(description);
+}
+
+/**
+ * Re-link existing transactions after the payees changed: aliases edited, a
+ * payee deleted, or history from before payees existed.
+ *
+ * A direct bulk write, like applying a categorization rule to history: the
+ * payee moves no money, so there is no budget check to run.
+ *
+ * @param {Object} filter narrows the user's transactions
+ * @param {Object} [options] as for payeeResolver()
+ * @returns {Promise<number>} how many transactions changed payee
+ */
+async function linkPayees(userId, filter = {}, options = {}) {
+    const resolve = await payeeResolver(userId, options);
+    const cursor = Transaction.find({ ...filter, user: userId, type: { $nin: ['transfer', 'trade'] } })
+        .select('description payee')
+        .lean()
+        .cursor();
+
+    let ops = [];
+    let changed = 0;
+    const flush = async () => {
+        if (ops.length === 0) return;
+        await Transaction.bulkWrite(ops, { ordered: false });
+        changed += ops.length;
+        ops = [];
+    };
+
+    for await (const trx of cursor) {
+        const payee = await resolve(trx.description);
+        if (String(payee || '') === String(trx.payee || '')) continue;
+        ops.push({
+            updateOne: {
+                filter: { _id: trx._id, user: userId },
+                update: payee ? { $set: { payee } } : { $unset: { payee: 1 } }
+            }
+        });
+        if (ops.length >= BATCH_SIZE) await flush();
+    }
+    await flush();
+    return changed;
+}
+
+/**
+ * The transactions a payee's patterns could claim, plus the ones it has now:
+ * what has to be re-linked after its patterns change.
+ */
+function payeeScope(payee, patterns) {
+    const clauses = patterns
+        .filter((pattern) => pattern && pattern.replace(/\*/g, '').trim())
+        .map((pattern) => ({
+            description: { $regex: pattern.trim().split('*').map(escapeRegex).join('.*'), $options: 'i' }
+        }));
+    return { $or: [{ payee: payee._id }, ...clauses] };
+}
+
+module.exports = {
+    payeeKey,
+    payeeNameFrom,
+    compilePayees,
+    matchPayee,
+    assertOwnsPayee,
+    payeeResolver,
+    resolvePayee,
+    linkPayees,
+    payeeScope
+};
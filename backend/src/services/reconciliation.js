@@ -0,0 +1,177 @@
+/* Reconciling an account against a bank statement.
+ *
+ * The arithmetic: the account's reconciled balance (opening balance plus every
+ * row locked by earlier reconciliations) plus the rows ticked as cleared in
+ * this session, up to the statement date, must equal the statement's ending
+ * balance to the cent. Everything is summed in cents, as splits are, so that
+ * 0.1 + 0.2 cannot leave a phantom difference that blocks completion.
+ */
+const Account = require('../models/account.model');
+const Transaction = require('../models/transaction.model');
+const Reconciliation = require('../models/reconciliation.model');
+const { withBalances } = require('./accountBalances');
+const transactionWriter = require('./transactionWriter');
+
+const toCents = (n) => Math.round(n * 100);
+
+function httpError(message, status) {
+    const err = new Error(message);
+    err.status = status;
+    return err;
+}
+
+/** A statement dated the 31st covers everything on the 31st. */
+function endOfDay(date) {
+    const end = new Date(date);
+    end.setUTCHours(23, 59, 59, 999);
+    return end;
+}
+
+/**
+ * How a transaction moves this account's balance: positive in, negative out,
+ * in the account's currency — which for the receiving side of a transfer
+ * between currencies is transferAmount.
+ */
+function signedAmount(trx, accountId) {
+    if (trx.type === 'income') return trx.amount;
+    if (trx.type === 'expense') return -trx.amount;
+    if (trx.type === 'trade') return trx.trade.side === 'buy' ? -trx.amount : trx.amount;
+    return String(trx.account) === String(accountId) ? -trx.amount : (trx.transferAmount ?? trx.amount);
+}
+
+const inAccount = (accountId) => ({ $or: [{ account: accountId }, { transferTo: accountId }] });
+
+// This account's side of each row not yet reconciled. A transfer's two legs
+// are on two statements, so reconciling one account leaves the other's alone.
+const unreconciledIn = (accountId) => ({
+    $or: [
+        { account: accountId, status: { $ne: 'reconciled' } },
+        { transferTo: accountId, transferStatus: { $ne: 'reconciled' } }
+    ]
+});
+
+async function loadAccount(userId, accountId) {
+    const account = await Account.findOne({ _id: accountId, user: userId });
+    if (!account) throw httpError('Account not found', 404);
+    return account;
+}
+
+/**
+ * The account's open session, if any, with every unreconciled row it covers
+ * and where the ticked ones leave the balance.
+ *
+ * @returns {Promise<{ account, session, transactions, clearedBalance, difference }>}
+ *   session is null, and the rest empty, when none is open
+ */
+async function reconciliationView(userId, accountId) {
+    const account = await loadAccount(userId, accountId);
+    const [withBalance] = await withBalances(userId, [account]);
+    const session = await Reconciliation.findOne({ user: userId, account: account._id, status: 'open' }).lean();
+    if (!session) {
+        return { account: withBalance, session: null, transactions: [], clearedBalance: null, difference: null };
+    }
+
+    const rows = await Transaction.find({
+        user: userId,
+        ...unreconciledIn(account._id),
+        date: { $lte: endOfDay(session.statementDate) }
+    })
+        .populate('category', 'name')
+        .sort({ date: 1, _id: 1 })
+        .lean();
+
+    const transactions = rows.map((row) => ({
+        _id: row._id,
+        date: row.date,
+        description: row.description,
+        type: row.type,
+        category: row.category,
+        status: row[transactionWriter.statusFieldFor(row, account._id)] || 'pending',
+        amount: signedAmount(row, account._id)
+    }));
+
+    const clearedCents = toCents(withBalance.reconciledBalance) + transactions
+        .filter((trx) => trx.status === 'cleared')
+        .reduce((sum, trx) => sum + toCents(trx.amount), 0);
+
+    return {
+        account: withBalance,
+        session,
+        transactions,
+        clearedBalance: clearedCents / 100,
+        difference: (toCents(session.statementBalance) - clearedCents) / 100
+    };
+}
+
+/** Open a session, or change the statement of the one already open. */
+async function startReconciliation(userId, accountId, { statementDate, statementBalance }) {
+    const account = await loadAccount(userId, accountId);
+    if (account.lastReconciledAt && statementDate < account.lastReconciledAt) {
+        throw httpError('The statement date must be after the last reconciliation', 400);
+    }
+
+    await Reconciliation.findOneAndUpdate(
+        { user: userId, account: account._id, status: 'open' },
+        { $set: { statementDate, statementBalance }, $setOnInsert: { user: userId, account: account._id } },
+        { upsert: true }
+    );
+    return reconciliationView(userId, accountId);
+}
+
+/** Tick or untick rows of this account as cleared. */
+async function markCleared(userId, accountId, ids, cleared) {
+    const account = await loadAccount(userId, accountId);
+    const inThisAccount = await Transaction.countDocuments({ _id: { $in: ids }, user: userId, ...inAccount(account._id) });
+    if (inThisAccount !== ids.length) throw httpError('Transaction not found', 404);
+
+    await transactionWriter.setTransactionStatus(userId, ids, cleared ? 'cleared' : 'pending', { account: account._id });
+    return reconciliationView(userId, accountId);
+}
+
+/**
+ * Complete the open session: lock every ticked row as reconciled and record
+ * the statement on the account. Refused while there is any difference left.
+ *
+ * @returns {Promise<{ reconciled: number, account }>}
+ */
+async function finishReconciliation(userId, accountId) {
+    const view = await reconciliationView(userId, accountId);
+    if (!view.session) throw httpError('No reconciliation in progress', 404);
+    if (view.difference !== 0) {
+        throw httpError(`The cleared balance is ${view.difference} away from the statement`, 400);
+    }
+
+    const ids = view.transactions.filter((trx) => trx.status === 'cleared').map((trx) => trx._id);
+    if (ids.length > 0) {
+        await transactionWriter.setTransactionStatus(userId, ids, 'reconciled', { reconciling: true, account: accountId });
+    }
+
+    await Account.updateOne({ _id: accountId, user: userId }, {
+        lastReconciledAt: view.session.statementDate,
+        lastReconciledBalance: view.session.statementBalance
+    });
+    await Reconciliation.updateOne({ _id: view.session._id }, {
+        status: 'completed',
+        completedAt: new Date(),
+        reconciledCount: ids.length
+    });
+
+    const [account] = await withBalances(userId, [await loadAccount(userId, accountId)]);
+    return { reconciled: ids.length, account };
+}
+
+/** Abandon the open session. Rows ticked as cleared stay cleared: they are. */
+async function cancelReconciliation(userId, accountId) {
+    const account = await loadAccount(userId, accountId);
+    const result = await Reconciliation.deleteOne({ user: userId, account: account._id, status: 'open' });
+    if (result.deletedCount === 0) throw httpError('No reconciliation in progress', 404);
+}
+
+module.exports = {
+    signedAmount,
+    reconciliationView,
+    startReconciliation,
+    markCleared,
+    finishReconciliation,
+    cancelReconciliation
+};
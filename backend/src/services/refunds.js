@@ -0,0 +1,227 @@
+/* Refunds and reimbursements.
+ *
+ * A refund is an income row linked to the expense it gives money back for —
+ * a returned purchase, or an employer repaying an expense marked
+ * reimbursable. It still credits its account like any income, but it is not
+ * earnings: income figures leave it out and spending figures subtract it
+ * (TransactionQueries.spendingMatch / spendAmount), so a returned jacket
+ * gives its budget back instead of looking like a pay rise.
+ *
+ * For that to land in the right category, a refund is filed under the
+ * expense's category — or, for a split receipt, the same split scaled to the
+ * refund — and refiled whenever the expense is recategorised. The user picks
+ * the expense; the category follows from it.
+ *
+ * A refund can arrive in an account in another currency than the expense
+ * left. What it gives back is then measured in the expense's currency, at the
+ * rate on the refund's day.
+ */
+const Transaction = require('../models/transaction.model');
+const { escapeRegex } = require('./transactionSearch');
+const { snapshot } = require('./transactionHistory');
+const { baseCurrencyOf, createConverter, convertAmount } = require('./fx');
+
+const CANDIDATE_LIMIT = 50;
+const CANDIDATE_LOOKBACK_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toCents = (n) => Math.round(n * 100);
+
+function httpError(message, status) {
+    const err = new Error(message);
+    err.status = status;
+    return err;
+}
+
+/**
+ * The category breakdown for a refund of `amount` against an expense.
+ *
+ * A split expense gives a proportional split, the last part taking the
+ * rounding. Each part is the expense part's share of the whole times
+ * `amount`, so the parts are in the refund's currency whatever the expense's. A refund too small to split that way — a part would round to
+ * nothing — goes wholly to the expense's largest part.
+ *
+ * @returns {{ category, splits }} splits is [] when the refund is not split
+ */
+function refundCategory(expense, amount) {
+    const parts = expense.splits || [];
+    if (parts.length === 0) return { category: expense.category, splits: [] };
+
+    const total = toCents(expense.amount);
+    const wanted = toCents(amount);
+    let given = 0;
+    const splits = parts.map((part, i) => {
+        const cents = i === parts.length - 1
+            ? wanted - given
+            : Math.round((toCents(part.amount) * wanted) / total);
+        given += cents;
+        return { category: part.category, amount: cents / 100, note: part.note };
+    });
+
+    if (splits.every((part) => part.amount > 0)) return { category: undefined, splits };
+    const largest = parts.reduce((best, part) => (part.amount > best.amount ? part : best));
+    return { category: largest.category, splits: [] };
+}
+
+/**
+ * Refunds added up in the currency of the expense they refund. A row without
+ * a stamped currency is in the base currency, as the aggregations assume.
+ *
+ * @param {Object} context { rate, baseCurrency }, rate from createConverter
+ * @returns {Promise<number>}
+ */
+async function sumInCurrencyOf(expense, refunds, { rate, baseCurrency }) {
+    const currency = expense.currency || baseCurrency;
+    let cents = 0;
+    for (const refund of refunds) {
+        const fxRate = await rate(refund.currency || baseCurrency, currency, refund.date || new Date());
+        cents += toCents(convertAmount(refund.amount, fxRate));
+    }
+    return cents / 100;
+}
+
+/**
+ * @returns {Promise<Map<string, number>>} what has been refunded so far, per
+ *   expense id, in each expense's currency
+ */
+async function refundedTotals(userId, expenses) {
+    if (expenses.length === 0) return new Map();
+    const [refunds, baseCurrency] = await Promise.all([
+        Transaction.find({ user: userId, type: 'income', refundOf: { $in: expenses.map((trx) => trx._id) } })
+            .select('refundOf amount currency date')
+            .lean(),
+        baseCurrencyOf(userId)
+    ]);
+
+    const byExpense = new Map();
+    for (const refund of refunds) {
+        const key = String(refund.refundOf);
+        byExpense.set(key, [...(byExpense.get(key) || []), refund]);
+    }
+    const context = { rate: createConverter(), baseCurrency };
+    const totals = new Map();
+    for (const expense of expenses) {
+        const own = byExpense.get(String(expense._id));
+        if (own) totals.set(String(expense._id), await sumInCurrencyOf(expense, own, context));
+    }
+    return totals;
+}
+
+/** An expense with what has been refunded on it and what is still owed. */
+function withOutstanding(expense, refundedById) {
+    const refunded = refundedById.get(String(expense._id)) || 0;
+    return { ...expense, refunded, outstanding: (toCents(expense.amount) - toCents(refunded)) / 100 };
+}
+
+/**
+ * Load the expense a refund is being linked to, and check there is room left
+ * on it: refunds linked to one expense cannot add up to more than it cost.
+ *
+ * @param {Object} refund the income row, as it will be saved: { refundOf,
+ *   amount, currency, date }
+ * @throws {Error} .status 404 when the expense is not the user's, 400 when it
+ *   is not an expense or the refunds would exceed it
+ */
+async function assertRefundable(userId, refund) {
+    const expense = await Transaction.findOne({ _id: refund.refundOf, user: userId }).lean();
+    if (!expense) throw httpError('Refunded transaction not found', 404);
+    if (expense.type !== 'expense') throw httpError('Only an expense can be refunded.', 400);
+
+    const [others, baseCurrency] = await Promise.all([
+        Transaction.find({ user: expense.user, refundOf: expense._id, _id: { $ne: refund._id } })
+            .select('amount currency date')
+            .lean(),
+        baseCurrencyOf(userId)
+    ]);
+    const refunded = await sumInCurrencyOf(expense, [...others, refund], { rate: createConverter(), baseCurrency });
+    if (toCents(refunded) > toCents(expense.amount)) {
+        throw httpError('Refunds cannot add up to more than the expense they refund.', 400);
+    }
+    return expense;
+}
+
+/** File a refund document under its expense's category. */
+function fileUnder(refund, expense) {
+    const { category, splits } = refundCategory(expense, refund.amount);
+    refund.category = category;
+    refund.splits = splits;
+}
+
+/**
+ * Refile the refunds of an expense whose category or split just changed.
+ *
+ * @returns {Promise<Array<{transaction, before, after}>>} the refunds that
+ *   moved, for the caller to record in the history
+ */
+async function refileRefunds(userId, expense) {
+    const refunds = await Transaction.find({ user: userId, refundOf: expense._id });
+    const changed = [];
+    for (const refund of refunds) {
+        const before = snapshot(refund);
+        fileUnder(refund, expense);
+        await refund.save();
+        changed.push({ transaction: refund._id, before, after: refund });
+    }
+    return changed;
+}
+
+/**
+ * Expenses marked reimbursable that refunds do not yet cover, oldest first.
+ *
+ * @returns {Promise<Array>} each expense with `refunded` and `outstanding`
+ */
+async function outstandingReimbursables(userId) {
+    const expenses = await Transaction.find({ user: userId, type: 'expense', reimbursable: true })
+        .sort({ date: 1 })
+        .populate('category')
+        .populate('splits.category')
+        .populate('account', 'name type currency')
+        .populate('payee', 'name')
+        .lean();
+    const refunded = await refundedTotals(userId, expenses);
+
+    return expenses
+        .map((trx) => withOutstanding(trx, refunded))
+        .filter((trx) => trx.outstanding > 0);
+}
+
+/**
+ * Expenses an income row could be linked to: recent ones with room left,
+ * reimbursable ones first, then newest first.
+ *
+ * @param {Object} [options] { search } narrows by description
+ */
+async function refundCandidates(userId, { search } = {}) {
+    const filter = {
+        user: userId,
+        type: 'expense',
+        $or: [
+            { reimbursable: true },
+            { date: { $gte: new Date(Date.now() - CANDIDATE_LOOKBACK_DAYS * DAY_MS) } }
+        ]
+    };
+    if (search) filter.description = { $regex: escapeRegex(search), $options: 'i' };
+
+    const expenses = await Transaction.find(filter)
+        .sort({ reimbursable: -1, date: -1 })
+        .limit(CANDIDATE_LIMIT * 2)
+        .select('amount currency date description reimbursable category splits account')
+        .populate('category', 'name')
+        .populate('account', 'name currency')
+        .lean();
+    const refunded = await refundedTotals(userId, expenses);
+
+    return expenses
+        .map((trx) => withOutstanding(trx, refunded))
+        .filter((trx) => trx.outstanding > 0)
+        .slice(0, CANDIDATE_LIMIT);
+}
+
+module.exports = {
+    refundCategory,
+    assertRefundable,
+    fileUnder,
+    refileRefunds,
+    outstandingReimbursables,
+    refundCandidates
+};
@@ -0,0 +1,158 @@
+/* Account statements: what an account held at the start of a period, every
+ * transaction in it with the balance after it, and what it held at the end.
+ *
+ * Amounts are signed from the account's side, as in getAccountBalances and
+ * reconciliation: a transfer is money out of its source and money in to its
+ * destination, at transferAmount when the two currencies differ. For an
+ * investment account the balances are its cash; holdings are not on a
+ * statement, as a broker's cash statement leaves them off too.
+ */
+const Account = require('../models/account.model');
+const Transaction = require('../models/transaction.model');
+const { TransactionQueries } = require('../utils/dbOptimization');
+const { signedAmount } = require('./reconciliation');
+
+const toCents = (n) => Math.round(n * 100);
+
+// Rows beyond this ask for a shorter period rather than a huge response.
+const MAX_ROWS = 5000;
+
+const CSV_HEADER = ['Date', 'Description', 'Type', 'Category', 'Counterparty', 'Status', 'Amount', 'Balance'];
+
+function httpError(message, status) {
+    const err = new Error(message);
+    err.status = status;
+    return err;
+}
+
+// A reference, populated or not, as an id string.
+const idOf = (ref) => String(ref && ref._id ? ref._id : ref);
+
+const startOfDay = (date) => new Date(`${new Date(date).toISOString().slice(0, 10)}T00:00:00.000Z`);
+
+/** A statement ending on the 31st covers everything on the 31st. */
+function endOfDay(date) {
+    const end = new Date(date);
+    end.setUTCHours(23, 59, 59, 999);
+    return end;
+}
+
+/** The category text of a row: its own, its splits', or none. */
+function categoryText(trx) {
+    if (trx.splits && trx.splits.length > 0) {
+        return [...new Set(trx.splits.map((split) => (split.category && split.category.name) || 'Uncategorized'))].join(', ');
+    }
+    return trx.category ? trx.category.name : '';
+}
+
+/** The other side of a transfer, from this account's point of view. */
+function counterparty(trx, accountId) {
+    if (trx.type !== 'transfer') return trx.payee ? trx.payee.name : '';
+    const other = idOf(trx.account) === String(accountId) ? trx.transferTo : trx.account;
+    return other && other.name ? other.name : '';
+}
+
+/**
+ * Statement lines with the running balance, summed in cents so a long period
+ * cannot drift.
+ *
+ * @param {number} opening the balance before the first row
+ * @param {Array} transactions oldest first, references populated or not
+ * @returns {{ lines, closing, moneyIn, moneyOut }}
+ */
+function runningBalances(opening, transactions, accountId) {
+    let balance = toCents(opening);
+    let moneyIn = 0;
+    let moneyOut = 0;
+
+    const lines = transactions.map((trx) => {
+        const amount = toCents(signedAmount({ ...trx, account: idOf(trx.account) }, accountId));
+        balance += amount;
+        if (amount >= 0) moneyIn += amount;
+        else moneyOut -= amount;
+
+        return {
+            _id: trx._id,
+            date: trx.date,
+            description: trx.description || '',
+            type: trx.type,
+            category: categoryText(trx),
+            counterparty: counterparty(trx, accountId),
+            status: (idOf(trx.transferTo) === String(accountId) ? trx.transferStatus : trx.status) || 'pending',
+            amount: amount / 100,
+            balance: balance / 100
+        };
+    });
+
+    return { lines, closing: balance / 100, moneyIn: moneyIn / 100, moneyOut: moneyOut / 100 };
+}
+
+/**
+ * An account's statement for `start` to `end`, both days included. Without
+ * them it covers the current month to date.
+ *
+ * @returns {Promise<{ account, start, end, openingBalance, closingBalance, moneyIn, moneyOut, transactions }>}
+ */
+async function accountStatement(userId, accountId, { start, end } = {}, now = new Date()) {
+    const account = await Account.findOne({ _id: accountId, user: userId }).lean();
+    if (!account) throw httpError('Account not found', 404);
+
+    const from = start ? startOfDay(start) : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const to = endOfDay(end || now);
+    if (from > to) throw httpError('The start date must be on or before the end date', 400);
+
+    const inAccount = { $or: [{ account: account._id }, { transferTo: account._id }] };
+    const [before] = await Transaction.aggregate(
+        TransactionQueries.getAccountBalances(userId, { ...inAccount, date: { $lt: from } })
+            .concat([{ $match: { _id: account._id } }])
+    );
+    const openingBalance = (toCents(account.openingBalance) + toCents(before ? before.net : 0)) / 100;
+
+    const transactions = await Transaction.find({ ...inAccount, user: userId, date: { $gte: from, $lte: to } })
+        .sort({ date: 1, createdAt: 1 })
+        .limit(MAX_ROWS + 1)
+        .populate('category', 'name')
+        .populate('splits.category', 'name')
+        .populate('account', 'name')
+        .populate('transferTo', 'name')
+        .populate('payee', 'name')
+        .lean();
+    if (transactions.length > MAX_ROWS) {
+        throw httpError(`This period has more than ${MAX_ROWS} transactions. Choose a shorter one.`, 400);
+    }
+
+    const { lines, closing, moneyIn, moneyOut } = runningBalances(openingBalance, transactions, account._id);
+
+    return {
+        account: { _id: account._id, name: account.name, type: account.type, currency: account.currency },
+        start: from,
+        end: to,
+        openingBalance,
+        closingBalance: closing,
+        moneyIn,
+        moneyOut,
+        transactions: lines
+    };
+}
+
+const csvCell = (value) => {
+    const text = String(value ?? '');
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** A statement as CSV: an opening line, one line per transaction, a closing line. */
+function statementCsv(statement) {
+    const day = (date) => new Date(date).toISOString().slice(0, 10);
+    const rows = [
+        CSV_HEADER,
+        [day(statement.start), 'Opening balance', '', '', '', '', '', statement.openingBalance.toFixed(2)],
+        ...statement.transactions.map((line) => [
+            day(line.date), line.description, line.type, line.category, line.counterparty, line.status,
+            line.amount.toFixed(2), line.balance.toFixed(2)
+        ]),
+        [day(statement.end), 'Closing balance', '', '', '', '', '', statement.closingBalance.toFixed(2)]
+    ];
+    return `${rows.map((row) => row.map(csvCell).join(',')).join('\r\n')}\r\n`;
+}
+
+module.exports = { runningBalances, accountStatement, statementCsv };
@@ -0,0 +1,398 @@
+/* Bank statement parsing: CSV, OFX and QIF.
+ *
+ * Pure functions — no database, no logging. Each parser turns a file's text
+ * into the same normalized row shape, so duplicate detection and the import
+ * controller never need to know which format a row came from:
+ *
+ *   { line, date: Date, amount: number (signed), description, categoryName }
+ *
+ * Amounts stay signed here. Deciding that a negative amount is an expense is
+ * the caller's job (toImportRow), because it is the one place that knows the
+ * app stores every amount as a positive number plus a type.
+ */
+
+const FORMATS = ['csv', 'ofx', 'qif'];
+
+// The same three layouts users can pick in settings, so a wizard can default
+// to whatever the user already reads dates as.
+const DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+/** Format from a filename's extension, or null when it is not one we read. */
+function detectFormat(filename = '') {
+    const ext = String(filename).toLowerCase().split('.').pop();
+    return FORMATS.includes(ext) ? ext : null;
+}
+
+/**
+ * Parse a money string the way it appears on real statements.
+ *
+ * Handles currency symbols, thousands separators in either convention
+ * ("1,234.56" and "1.234,56"), accounting-style parentheses and a trailing
+ * minus. Returns NaN rather than guessing when nothing numeric is left.
+ */
+function parseAmount(raw) {
+    if (typeof raw === 'number') return raw;
+    let text = String(raw || '').trim();
+    if (!text) return NaN;
+
+    let negative = false;
+    if (/^\(.*\)$/.test(text)) {
+        negative = true;
+        text = text.slice(1, -1);
+    }
+    if (text.endsWith('-')) {
+        negative = true;
+        text = text.slice(0, -1);
+    }
+
+    text = text.replace(/[^\d.,-]/g, '');
+    if (text.startsWith('-')) {
+        negative = !negative;
+        text = text.slice(1);
+    }
+
+    const lastComma = text.lastIndexOf(',');
+    const lastDot = text.lastIndexOf('.');
+
+    if (lastComma > -1 && lastDot > -1) {
+        // Whichever separator comes last is the decimal point.
+        text = lastComma > lastDot
+            ? text.replace(/\./g, '').replace(',', '.')
+            : text.replace(/,/g, '');
+    } else if (lastComma > -1) {
+        // A lone comma followed by exactly one or two digits is a decimal
+        // comma; anything else ("1,234") is a thousands separator.
+        text = /,\d{1,2}$/.test(text) && text.indexOf(',') === lastComma
+            ? text.replace(',', '.')
+            : text.replace(/,/g, '');
+    }
+
+    const value = Number.parseFloat(text);
+    if (Number.isNaN(value)) return NaN;
+    return negative ? -value : value;
+}
+
+const utcDate = (year, month, day) => {
+    if (year < 100) year += 2000;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    // Date.UTC rolls 2026-02-31 into March; a statement date never does.
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date;
+};
+
+/**
+ * Parse a statement date in one of DATE_FORMATS.
+ *
+ * Accepts any of / - . as separator and two-digit years, plus the QIF habit of
+ * writing the year after an apostrophe ("1/25'26"). Dates land on UTC
+ * midnight, matching what the transaction form sends.
+ *
+ * @returns {Date|null}
+ */
+function parseDate(raw, format = 'YYYY-MM-DD') {
+    const text = String(raw || '').trim().replace(/'/g, '/');
+    if (!text) return null;
+
+    // ISO is unambiguous, so it is honoured whatever format was chosen.
+    const iso = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/.exec(text);
+    if (iso) return utcDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+    const parts = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/.exec(text);
+    if (!parts) return null;
+
+    const [first, second, year] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+    return format === 'DD/MM/YYYY'
+        ? utcDate(year, second, first)
+        : utcDate(year, first, second);
+}
+
+/* ---------------------------------------------------------------- CSV */
+
+/** Most European banks export with semicolons; tabs show up from spreadsheets. */
+function detectDelimiter(headerLine) {
+    const counts = [',', ';', '\t'].map((d) => [d, headerLine.split(d).length]);
+    counts.sort((a, b) => b[1] - a[1]);
+    return counts[0][0];
+}
+
+/**
+ * Split CSV text into rows of fields. RFC 4180 quoting: a quoted field may
+ * contain the delimiter, newlines, and "" for a literal quote.
+ */
+function splitCsv(text, delimiter) {
+    const rows = [];
+    let row = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i += 1) {
+        const ch = text[i];
+
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i += 1;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i += 1;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+// Header names banks actually use, checked in order.
+const COLUMN_HINTS = {
+    date: ['date', 'transaction date', 'posted', 'posting date', 'booking date', 'value date'],
+    amount: ['amount', 'value', 'sum', 'transaction amount'],
+    description: ['description', 'payee', 'memo', 'details', 'narrative', 'name', 'reference'],
+    category: ['category', 'type of spending']
+};
+
+/** Best-effort column mapping from the header row. Unmatched fields stay null. */
+function guessMapping(columns) {
+    const lower = columns.map((c) => c.trim().toLowerCase());
+    const mapping = {};
+
+    for (const [field, hints] of Object.entries(COLUMN_HINTS)) {
+        const exact = hints.map((h) => lower.indexOf(h)).find((i) => i > -1);
+        const partial = lower.findIndex((c) => hints.some((h) => c.includes(h)));
+        const index = exact !== undefined ? exact : partial;
+        mapping[field] = index > -1 ? columns[index] : null;
+    }
+
+    return mapping;
+}
+
+/**
+ * @param {string} text
+ * @param {Object} [mapping] { date, amount, description, category, dateFormat }
+ *   — header names. Missing entries are guessed from the header row.
+ * @returns {{ columns: string[], mapping: Object, rows: Array, errors: Array }}
+ */
+function parseCsv(text, mapping = {}) {
+    const body = String(text || '').replace(/^\uFEFF/, '');
+    const firstLine = body.split(/\r?\n/, 1)[0] || '';
+    const table = splitCsv(body, detectDelimiter(firstLine));
+
+    if (table.length === 0) return { columns: [], mapping: {}, rows: [], errors: [] };
+
+    const columns = table[0].map((c) => c.trim());
+    const guessed = guessMapping(columns);
+    const resolved = {
+        date: mapping.date || guessed.date,
+        amount: mapping.amount || guessed.amount,
+        description: mapping.description || guessed.description,
+        category: mapping.category || guessed.category,
+        dateFormat: mapping.dateFormat || 'YYYY-MM-DD'
+    };
+
+    const indexOf = (name) => (name ? columns.indexOf(name) : -1);
+    const col = {
+        date: indexOf(resolved.date),
+        amount: indexOf(resolved.amount),
+        description: indexOf(resolved.description),
+        category: indexOf(resolved.category)
+    };
+
+    const rows = [];
+    const errors = [];
+
+    if (col.date === -1 || col.amount === -1) {
+        errors.push({ line: 1, message: 'Map both a date and an amount column to continue.' });
+        return { columns, mapping: resolved, rows, errors };
+    }
+
+    table.slice(1).forEach((cells, i) => {
+        // +2: one for the header row, one because lines count from 1.
+        const line = i + 2;
+        const date = parseDate(cells[col.date], resolved.dateFormat);
+        const amount = parseAmount(cells[col.amount]);
+
+        if (!date) return errors.push({ line, message: `Unreadable date "${cells[col.date] || ''}"` });
+        if (Number.isNaN(amount)) return errors.push({ line, message: `Unreadable amount "${cells[col.amount] || ''}"` });
+
+        rows.push({
+            line,
+            date,
+            amount,
+            description: col.description > -1 ? (cells[col.description] || '').trim() : '',
+            categoryName: col.category > -1 ? (cells[col.category] || '').trim() : ''
+        });
+    });
+
+    return { columns, mapping: resolved, rows, errors };
+}
+
+/* ---------------------------------------------------------------- OFX */
+
+/**
+ * OFX 1.x is SGML with unclosed leaf tags ("<TRNAMT>-12.50"); 2.x is XML.
+ * Reading each leaf up to the next "<" or line break handles both.
+ */
+const ofxTag = (block, tag) => {
+    const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+    return match ? match[1].trim() : '';
+};
+
+function parseOfx(text) {
+    const rows = [];
+    const errors = [];
+    const blocks = String(text || '').split(/<STMTTRN>/i).slice(1);
+
+    blocks.forEach((raw, i) => {
+        const block = raw.split(/<\/STMTTRN>/i)[0];
+        const line = i + 1; // OFX has no meaningful lines; number the entries
+        const posted = ofxTag(block, 'DTPOSTED');
+        const match = /^(\d{4})(\d{2})(\d{2})/.exec(posted);
+        const date = match ? utcDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+        const amount = parseAmount(ofxTag(block, 'TRNAMT'));
+
+        if (!date) return errors.push({ line, message: `Unreadable date "${posted}"` });
+        if (Number.isNaN(amount)) return errors.push({ line, message: 'Missing amount' });
+
+        rows.push({
+            line,
+            date,
+            amount,
+            description: ofxTag(block, 'NAME') || ofxTag(block, 'MEMO'),
+            categoryName: ''
+        });
+    });
+
+    return { columns: [], mapping: {}, rows, errors };
+}
+
+/* ---------------------------------------------------------------- QIF */
+
+/**
+ * QIF records are runs of single-letter-prefixed lines ended by "^".
+ * D date, T/U amount, P payee, M memo, L category. A category written as
+ * "[Savings]" names a transfer account, not a category, so it is dropped.
+ */
+function parseQif(text, mapping = {}) {
+    const dateFormat = mapping.dateFormat || 'MM/DD/YYYY';
+    const rows = [];
+    const errors = [];
+
+    let record = {};
+    let startLine = 1;
+
+    const flush = () => {
+        if (Object.keys(record).length === 0) return;
+
+        const date = parseDate(record.D, dateFormat);
+        const amount = parseAmount(record.T !== undefined ? record.T : record.U);
+        const category = (record.L || '').trim();
+
+        if (!date) errors.push({ line: startLine, message: `Unreadable date "${record.D || ''}"` });
+        else if (Number.isNaN(amount)) errors.push({ line: startLine, message: 'Missing amount' });
+        else {
+            rows.push({
+                line: startLine,
+                date,
+                amount,
+                description: (record.P || record.M || '').trim(),
+                categoryName: /^\[.*\]$/.test(category) ? '' : category.split(':')[0]
+            });
+        }
+        record = {};
+    };
+
+    String(text || '').split(/\r?\n/).forEach((rawLine, i) => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('!')) return;
+        if (line === '^') {
+            flush();
+            startLine = i + 2;
+            return;
+        }
+        if (Object.keys(record).length === 0) startLine = i + 1;
+        const code = line[0];
+        if (record[code] === undefined) record[code] = line.slice(1);
+    });
+    flush();
+
+    return { columns: [], mapping: { dateFormat }, rows, errors };
+}
+
+const PARSERS = { csv: parseCsv, ofx: parseOfx, qif: parseQif };
+
+/**
+ * Dispatch on format. A zero-amount row is reported rather than returned:
+ * the app stores amounts as positive numbers, so it has no valid shape.
+ */
+function parseStatement(format, text, mapping) {
+    const parser = PARSERS[format];
+    if (!parser) throw new Error(`parseStatement: unsupported format "${format}"`);
+
+    const result = parser(text, mapping);
+    const rows = [];
+    for (const row of result.rows) {
+        if (row.amount === 0) result.errors.push({ line: row.line, message: 'Zero amount' });
+        else rows.push(row);
+    }
+    result.errors.sort((a, b) => a.line - b.line);
+    return { ...result, rows };
+}
+
+/**
+ * Key used to recognise the same transaction twice: calendar day, amount to
+ * the cent, and description ignoring case and spacing. Shared by the import
+ * preview and anything else that needs to ask "have we seen this row?".
+ */
+function duplicateKey({ date, amount, description }) {
+    const day = new Date(date).toISOString().slice(0, 10);
+    const cents = Math.round(Math.abs(amount) * 100);
+    const text = String(description || '').trim().replace(/\s+/g, ' ').toLowerCase();
+    return `${day}|${cents}|${text}`;
+}
+
+/** A signed parsed row in the shape transactionWriter expects. */
+function toImportRow(row) {
+    return {
+        line: row.line,
+        date: row.date,
+        amount: Math.abs(row.amount),
+        type: row.amount < 0 ? 'expense' : 'income',
+        description: row.description,
+        categoryName: row.categoryName
+    };
+}
+
+module.exports = {
+    FORMATS,
+    DATE_FORMATS,
+    detectFormat,
+    parseAmount,
+    parseDate,
+    detectDelimiter,
+    splitCsv,
+    parseCsv,
+    parseOfx,
+    parseQif,
+    parseStatement,
+    guessMapping,
+    duplicateKey,
+    toImportRow
+};
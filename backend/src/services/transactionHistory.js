@@ -0,0 +1,141 @@
+/* Field-level audit trail for transactions.
+ *
+ * Every write in transactionWriter — and the few bulk paths that update rows
+ * directly — reports what it changed here. Values are reduced to plain JSON
+ * before comparing, so an ObjectId and its string, or a Date and the same
+ * instant re-read from the database, do not show up as changes.
+ *
+ * Recording never fails the write it describes: like the budget check, errors
+ * are logged and swallowed. A missing history entry is a gap in the audit; a
+ * failed save because of one would be a lost transaction.
+ */
+const TransactionHistory = require('../models/transactionHistory.model');
+const logger = require('../utils/logger');
+
+// The fields a user can see or change. Bookkeeping (source, recurringId,
+// importId, timestamps) is covered by the entry's actor and createdAt.
+const TRACKED_FIELDS = [
+    'amount', 'type', 'category', 'splits', 'account', 'transferTo', 'date', 'description', 'tags', 'status',
+    'transferStatus', 'refundOf', 'reimbursable'
+];
+
+const isEmpty = (value) =>
+    value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+function plain(field, value) {
+    if (isEmpty(value)) return null;
+    if (field === 'date') return new Date(value).toISOString();
+    if (field === 'splits') {
+        return value.map((split) => ({
+            category: split.category ? String(split.category) : null,
+            amount: split.amount,
+            note: split.note || null
+        }));
+    }
+    if (field === 'tags') return [...value];
+    if (field === 'amount') return value;
+    return String(value);
+}
+
+/** The tracked fields of a transaction (document or plain object) as JSON values. */
+function snapshot(trx) {
+    const values = {};
+    for (const field of TRACKED_FIELDS) {
+        values[field] = plain(field, trx[field]);
+    }
+    return values;
+}
+
+/** @returns {Array<{field, from, to}>} the fields whose value differs */
+function diffSnapshots(before, after) {
+    return TRACKED_FIELDS
+        .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+        .map((field) => ({ field, from: before[field], to: after[field] }));
+}
+
+/**
+ * Who created a transaction, read from its provenance. Goal contributions do
+ * not keep the goal id on the row, so the writer passes it in.
+ */
+function creatorOf(trx, goalId) {
+    switch (trx.source) {
+        case 'recurring': return { kind: 'recurring', ref: trx.recurringId };
+        case 'import': return { kind: 'import', ref: trx.importId };
+        case 'goal': return { kind: 'goal', ref: goalId };
+        default: return { kind: 'user', ref: trx.user };
+    }
+}
+
+const byUser = (userId) => ({ kind: 'user', ref: userId });
+
+async function record(entries) {
+    if (entries.length === 0) return;
+    try {
+        await TransactionHistory.insertMany(entries, { ordered: false });
+    } catch (err) {
+        logger.error('Failed to record transaction history', { count: entries.length, error: err.message });
+    }
+}
+
+/** @param {Object} actor usually creatorOf(trx) */
+const recordCreated = (trx, actor) => {
+    const empty = snapshot({});
+    return record([{
+        user: trx.user,
+        transaction: trx._id,
+        action: 'create',
+        actor,
+        changes: diffSnapshots(empty, snapshot(trx))
+    }]);
+};
+
+/**
+ * @param {Array<{ transaction, before, after }>} pairs the transaction's id and
+ *   its tracked fields either side of the change; pairs that differ in
+ *   nothing are skipped
+ */
+const recordUpdated = (userId, pairs, actor = byUser(userId)) =>
+    record(pairs
+        .map(({ transaction, before, after }) => ({
+            user: userId,
+            transaction,
+            action: 'update',
+            actor,
+            changes: diffSnapshots(snapshot(before), snapshot(after))
+        }))
+        .filter((entry) => entry.changes.length > 0));
+
+/** Keeps every value the rows had, so a deleted transaction can be rebuilt by hand. */
+const recordDeleted = (userId, transactions, actor = byUser(userId)) => {
+    const empty = snapshot({});
+    return record(transactions.map((trx) => ({
+        user: userId,
+        transaction: trx._id,
+        action: 'delete',
+        actor,
+        changes: diffSnapshots(snapshot(trx), empty)
+    })));
+};
+
+/** A transaction brought back from the trash, with the values it came back with. */
+const recordRestored = (userId, transactions, actor = byUser(userId)) => {
+    const empty = snapshot({});
+    return record(transactions.map((trx) => ({
+        user: userId,
+        transaction: trx._id,
+        action: 'restore',
+        actor,
+        changes: diffSnapshots(empty, snapshot(trx))
+    })));
+};
+
+module.exports = {
+    TRACKED_FIELDS,
+    snapshot,
+    diffSnapshots,
+    creatorOf,
+    recordCreated,
+    recordUpdated,
+    recordDeleted,
+    recordRestored
+};
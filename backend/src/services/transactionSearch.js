@@ -0,0 +1,58 @@
+/* Free-text transaction search.
+ *
+ * `q` has to find a row by its description ("amazon"), but also by the name of
+ * its category or account ("groceries", "visa"), which live in other
+ * collections. A single $text query cannot reach those, and MongoDB will not
+ * plan a $text inside an $or alongside unindexed clauses, so the search is
+ * resolved here into plain id lists first and handed to
+ * TransactionQueries.getUserTransactions as an ordinary $or.
+ */
+const Transaction = require('../models/transaction.model');
+const Category = require('../models/category.model');
+const Account = require('../models/account.model');
+const { normalizeTag } = require('../utils/tags');
+
+// Upper bound on description matches considered. A query vague enough to hit
+// more rows than this is refined by the other filters, not paged through.
+const MAX_TEXT_MATCHES = 5000;
+
+const escapeRegex = (s) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Build the filter clause for a search string.
+ *
+ * @returns {Promise<Array<Object>>} alternatives for an $or — a transaction
+ *   matches when any one of them does
+ */
+async function searchClauses(userId, q) {
+    const nameMatch = { user: userId, name: { $regex: escapeRegex(q), $options: 'i' } };
+
+    const [textHits, categories, accounts] = await Promise.all([
+        // Word-based and stemmed: "orders" finds "Order #1234".
+        Transaction.find({ user: userId, $text: { $search: q } })
+            .select('_id')
+            .limit(MAX_TEXT_MATCHES)
+            .lean(),
+        Category.find(nameMatch).select('_id').lean(),
+        Account.find(nameMatch).select('_id').lean()
+    ]);
+
+    const categoryIds = categories.map((c) => c._id);
+    const accountIds = accounts.map((a) => a._id);
+
+    const clauses = [
+        { _id: { $in: textHits.map((t) => t._id) } },
+        // Substring rather than word match, so "amaz" still finds "Amazon".
+        { description: { $regex: escapeRegex(q), $options: 'i' } },
+        { tags: normalizeTag(q) }
+    ];
+    if (categoryIds.length > 0) {
+        clauses.push({ category: { $in: categoryIds } }, { 'splits.category': { $in: categoryIds } });
+    }
+    if (accountIds.length > 0) {
+        clauses.push({ account: { $in: accountIds } }, { transferTo: { $in: accountIds } });
+    }
+    return clauses;
+}
+
+module.exports = { searchClauses, escapeRegex };
@@ -2,6 +2,9 @@
  *
  * Every transaction in the system must be created through here — the HTTP
  * controller, goal contributions, and the recurring-transaction job alike.
+ * Edits and deletions go through here as well, so each one lands in the
+ * transaction's history (services/transactionHistory); the two bulk paths
+ * that bypass it, tag renames and retroactive rules, record their own.
  *
  * Before this existed, Transaction.create() was called from three places and
  * only one of them ran the budget check, so contributing to a goal silently
@@ -11,9 +14,20 @@
  */
 const Transaction = require('../models/transaction.model');
 const Account = require('../models/account.model');
-const { checkBudgets } = require('./budgetCheck');
-const { dispatchBudgetEvents } = require('./notifications');
+const { evaluateBudgetMonth, categoriesOf, monthKey } = require('./budgetCheck');
+const { dispatchBudgetEvents, resolveBudgetAlerts } = require('./notifications');
 const { resolveDefaultAccount } = require('../controllers/accounts.controller');
+const { registerTags } = require('../controllers/tags.controller');
+const { applyRules } = require('./categorizationRules');
+const { normalizeTags } = require('../utils/tags');
+const TrashedTransaction = require('../models/trashedTransaction.model');
+const {
+    snapshot, creatorOf, recordCreated, recordUpdated, recordDeleted, recordRestored
+} = require('./transactionHistory');
+const { purgeDateFor } = require('./trash');
+const { assertOwnsPayee, resolvePayee } = require('./payees');
+const { assertRefundable, refundCategory, fileUnder, refileRefunds } = require('./refunds');
+const { amountsFor } = require('./fx');
 
 /**
  * Create a transaction and run every side effect that must accompany it.
@@ -23,10 +37,24 @@ const { resolveDefaultAccount } = require('../controllers/accounts.controller');
  * @param {number}   input.amount     positive
  * @param {'income'|'expense'} input.type
  * @param {ObjectId} [input.category]
+ * @param {Array<{category, amount, note}>} [input.splits] category breakdown
+ *   of amount; replaces category when given
+ * @param {string[]} [input.tags]   free-form; new ones join the user's registry
  * @param {Date}     [input.date]     defaults to now
  * @param {string}   [input.description]
- * @param {'manual'|'recurring'|'goal'} [input.source='manual']
+ * @param {'manual'|'recurring'|'goal'|'import'} [input.source='manual']
  * @param {ObjectId} [input.recurringId] set when source is 'recurring'
+ * @param {ObjectId} [input.importId] set when source is 'import'
+ * @param {ObjectId} [input.goalId] set when source is 'goal'; kept in the
+ *   history entry only
+ * @param {ObjectId} [input.refundOf] on income, the expense it refunds; the
+ *   category then comes from that expense
+ * @param {boolean}  [input.reimbursable] on an expense, money owed back
+ * @param {'pending'|'cleared'} [input.status='pending'] never reconciled: only
+ *   a completed reconciliation sets that
+ * @param {Object} [options]
+ * @param {Function} [options.payees] a payeeResolver() the caller made once
+ *   for many rows, such as an import; one is made per call otherwise
  * @returns {Promise<{ transaction, budgetEvents }>}
  */
 /**
@@ -55,49 +83,188 @@ async function assertOwnsAccounts(userId, ids) {
     }
 }
 
-async function createTransaction(input) {
+async function createTransaction(rawInput, { payees } = {}) {
+    // The user's categorization rules fill in whatever the caller left empty.
+    // Running them here rather than in each caller is what makes a rule apply
+    // to manual, imported and recurring entries alike.
+    const input = await applyRules(rawInput.user, rawInput);
     const {
-        user, amount, type, category, date, description,
-        source = 'manual', recurringId, account, transferTo
+        user, amount, type, category, splits, tags, date, description,
+        source = 'manual', recurringId, importId, goalId, account, transferTo,
+        refundOf, reimbursable, trade, status
     } = input;
 
     await assertOwnsAccounts(user, [account, type === 'transfer' ? transferTo : null]);
+    await assertOwnsPayee(user, input.payee);
+    // A payee the caller chose wins; otherwise the description decides.
+    const payee = input.payee !== undefined
+        ? input.payee
+        : await resolvePayee(user, { type, description }, payees);
 
     // Callers that do not name an account get the user's default, provisioned
     // on demand. This is the only place that decision is made — which is the
     // reason this module exists.
     const resolvedAccount = account || (await resolveDefaultAccount(user))._id;
+    const when = date || new Date();
+    // In the account's currency, and in the user's base currency at the
+    // rate on the day.
+    const amounts = await amountsFor(user, { account: resolvedAccount, transferTo, type, amount, date: when });
+
+    // A refund is filed under the expense it refunds, whatever the caller or
+    // a rule picked.
+    const filing = refundOf
+        ? refundCategory(await assertRefundable(user, { refundOf, amount, currency: amounts.currency, date: when }), amount)
+        : { category, splits };
 
     const transaction = await Transaction.create({
         user,
         amount,
+        ...amounts,
         type,
-        category,
+        category: filing.category,
+        splits: filing.splits,
         account: resolvedAccount,
         // Passed through as given rather than silently dropped on non-transfers.
         // The schema's pre('validate') hook rejects the combination with a 400,
         // so a client sending a destination on an expense learns it was wrong
         // instead of having the field quietly discarded.
         transferTo,
-        date: date || new Date(),
+        date: when,
         description,
+        payee: type === 'transfer' ? undefined : payee || undefined,
+        refundOf: refundOf || undefined,
+        trade,
+        reimbursable: reimbursable || undefined,
+        status,
+        tags,
         source,
-        recurringId
+        recurringId,
+        importId
     });
 
-    // Budget evaluation must never fail the write — checkBudgets swallows its
-    // own errors and returns an empty list.
-    const budgetEvents = await checkBudgets(user, transaction);
+    await registerTags(user, transaction.tags);
+    await recordCreated(transaction, creatorOf(transaction, goalId));
 
     // Dedupe lives in the dispatcher, so repeatedly crossing the same threshold
     // in the same month produces one notification, not one per transaction.
-    if (budgetEvents.length > 0) {
-        await dispatchBudgetEvents(user, budgetEvents);
-    }
+    // A refund can bring a month back under budget instead.
+    const budgetEvents = await reevaluateBudgets(user, monthsOf([transaction]));
 
     return { transaction, budgetEvents };
 }
 
+// What a reconciliation vouched for. Category, splits, description and tags
+// stay editable: they change no balance.
+const LOCKED_FIELDS = ['amount', 'type', 'date', 'account', 'transferTo'];
+
+/** Either leg of a transfer reconciled locks the whole row. */
+const isReconciled = (trx) => trx.status === 'reconciled' || trx.transferStatus === 'reconciled';
+
+/**
+ * The status field for one account's side of a transaction: a transfer's
+ * arriving leg has its own.
+ */
+const statusFieldFor = (trx, accountId) =>
+    (trx.type === 'transfer' && String(trx.transferTo) === String(accountId) ? 'transferStatus' : 'status');
+
+function lockedError(message) {
+    const err = new Error(message);
+    err.status = 409;
+    return err;
+}
+
+/**
+ * Refuse a change to a reconciled transaction's locked fields. Setting its
+ * status back to cleared or pending in the same change is the explicit way to
+ * unlock it; sending a locked field with its current value (as the edit form
+ * does) is not a change. On a transfer that unlocks both legs (applyChanges).
+ *
+ * A trade's locked fields never change here: its amount follows from its
+ * quantity and price, and positions replay trades in date order. It is
+ * deleted and recorded again instead.
+ */
+function assertUnlocked(transaction, changes) {
+    const differs = (field) => {
+        if (field === 'date') {
+            // The form sends a date without a time; compare the day only.
+            return new Date(changes.date).toISOString().slice(0, 10) !== transaction.date.toISOString().slice(0, 10);
+        }
+        return String(changes[field]) !== String(transaction[field]);
+    };
+    const changesLocked = () => LOCKED_FIELDS.some((field) => changes[field] !== undefined && differs(field));
+
+    if (transaction.type === 'trade' && changesLocked()) {
+        throw lockedError('A trade\'s amount, date and account cannot be edited. Delete it and record it again.');
+    }
+
+    if (!isReconciled(transaction)) return;
+    if (changes.status && changes.status !== 'reconciled') return;
+
+    if (changesLocked()) {
+        throw lockedError('This transaction is reconciled. Mark it as not reconciled to change its amount, date, type or accounts.');
+    }
+}
+
+/** Assign an update to a loaded transaction, keeping its invariants. */
+function applyChanges(transaction, changes) {
+    Object.assign(transaction, changes);
+
+    // Switching away from a transfer must drop the destination. Assigning
+    // undefined does not remove a set path in mongoose; the field has to be
+    // explicitly cleared.
+    if (changes.type && changes.type !== 'transfer') {
+        transaction.transferTo = undefined;
+        transaction.markModified('transferTo');
+    }
+
+    // Choosing a single category for a split row replaces the split; without
+    // this the pre('validate') hook would keep the splits and drop the
+    // category the user just picked.
+    if (changes.category && !changes.splits) {
+        transaction.splits = [];
+    }
+
+    // Only income refunds and only an expense is reimbursable; a type change
+    // drops whichever no longer fits, as it drops transferTo.
+    if (changes.refundOf === null || transaction.type !== 'income') {
+        transaction.refundOf = undefined;
+    }
+    if (changes.reimbursable === false || transaction.type !== 'expense') {
+        transaction.reimbursable = undefined;
+    }
+
+    // Unlocking a transfer unlocks its other leg too: the money on both
+    // statements is about to change. That side did clear, so it stays cleared.
+    if (changes.status && changes.status !== 'reconciled' && transaction.transferStatus === 'reconciled') {
+        transaction.transferStatus = 'cleared';
+    }
+}
+
+/**
+ * Recompute an edited transaction's currency fields. The amount, date and
+ * accounts all feed into them, so every edit does it rather than guessing
+ * which one changed.
+ */
+async function restamp(userId, transaction) {
+    Object.assign(transaction, await amountsFor(userId, transaction));
+    transaction.markModified('transferAmount');
+}
+
+/**
+ * Keep an edited transaction's payee in step with it: the one the client
+ * chose (null to clear), or a fresh match when the description or type
+ * changed. Any other edit leaves it alone, so a payee picked by hand sticks.
+ */
+async function linkPayee(userId, transaction, changes) {
+    let payee;
+    if (changes.payee !== undefined) payee = changes.payee;
+    else if (changes.description !== undefined || changes.type !== undefined) {
+        payee = await resolvePayee(userId, transaction);
+    } else return;
+
+    transaction.payee = transaction.type === 'transfer' || transaction.type === 'trade' ? undefined : payee || undefined;
+}
+
 /**
  * Apply an update to an existing transaction.
  *
@@ -115,24 +282,331 @@ async function updateTransaction(userId, id, changes) {
 
     await assertOwnsAccounts(userId, [changes.account, changes.transferTo]);
 
-    Object.assign(transaction, changes);
-
-    // Switching away from a transfer must drop the destination. Assigning
-    // undefined does not remove a set path in mongoose; the field has to be
-    // explicitly cleared.
-    if (changes.type && changes.type !== 'transfer') {
-        transaction.transferTo = undefined;
-        transaction.markModified('transferTo');
+    assertUnlocked(transaction, changes);
+    await assertOwnsPayee(userId, changes.payee);
+    if (transaction.type === 'expense' && changes.type && changes.type !== 'expense'
+        && await Transaction.exists({ user: userId, refundOf: transaction._id })) {
+        throw lockedError('This expense has refunds linked to it. Unlink them before changing its type.');
     }
 
+    const before = snapshot(transaction);
+    applyChanges(transaction, changes);
+    await linkPayee(userId, transaction, changes);
+    await restamp(userId, transaction);
+    // Re-filed on every edit: the amount may have changed, and a category
+    // picked by hand would otherwise drift from the expense's.
+    if (transaction.refundOf) fileUnder(transaction, await assertRefundable(userId, transaction));
     await transaction.save();
 
-    const budgetEvents = await checkBudgets(userId, transaction);
+    // Its refunds follow an expense into its new category.
+    const refiled = transaction.type === 'expense' && (changes.category !== undefined || changes.splits !== undefined)
+        ? await refileRefunds(userId, transaction)
+        : [];
+
+    if (changes.tags) await registerTags(userId, transaction.tags);
+    await recordUpdated(userId, [{ transaction: transaction._id, before, after: transaction }, ...refiled]);
+
+    // The month it left, too: moving or shrinking an expense can bring that
+    // month back under budget.
+    const budgetEvents = await reevaluateBudgets(userId, monthsOf([before, transaction]));
+
+    return { transaction, budgetEvents };
+}
+
+/**
+ * Set the reconciliation status of a set of transactions, all or nothing.
+ *
+ * Status moves no money, so there is no budget check. Reconciled rows can only
+ * be reached through a completed reconciliation, never set directly, which is
+ * why this refuses to mark or unmark them unless asked to by the
+ * reconciliation itself.
+ *
+ * @param {'pending'|'cleared'|'reconciled'} status
+ * @param {Object} [options] { reconciling: true } when called by a completed
+ *   reconciliation; { account } to set that account's side of a transfer,
+ *   which is the leaving side otherwise
+ * @returns {Promise<number>} how many rows changed
+ */
+async function setTransactionStatus(userId, ids, status, { reconciling = false, account } = {}) {
+    const transactions = await loadOwned(userId, ids);
+    const fieldOf = (trx) => statusFieldFor(trx, account);
+    if (!reconciling && (status === 'reconciled' || transactions.some((trx) => trx[fieldOf(trx)] === 'reconciled'))) {
+        throw lockedError('Reconciled transactions can only be changed by editing them individually.');
+    }
+
+    const changed = transactions.filter((trx) => trx[fieldOf(trx)] !== status);
+    const before = changed.map(snapshot);
+    for (const transaction of changed) {
+        transaction[fieldOf(transaction)] = status;
+        await transaction.save();
+    }
+    await recordUpdated(userId, changed.map((transaction, i) => ({
+        transaction: transaction._id, before: before[i], after: transaction
+    })));
+    return changed.length;
+}
+
+/**
+ * Load a set of the user's transactions by id, all or nothing.
+ *
+ * Same semantics as assertOwnsAccounts: one id that is missing or belongs to
+ * someone else fails the whole request with a 404, rather than quietly
+ * acting on the rest.
+ */
+async function loadOwned(userId, ids) {
+    const transactions = await Transaction.find({ _id: { $in: ids }, user: userId });
+    if (transactions.length !== new Set(ids.map(String)).size) {
+        const err = new Error('Transaction not found');
+        err.status = 404;
+        throw err;
+    }
+    return transactions;
+}
+
+/**
+ * Every month a set of transactions touches, with the categories touched in
+ * it. Only spending counts: expenses, and the refunds that net against them.
+ */
+function monthsOf(transactions, into = new Map()) {
+    for (const trx of transactions) {
+        if (trx.type !== 'expense' && !trx.refundOf) continue;
+        const month = monthKey(trx.date);
+        const categories = into.get(month) || new Set();
+        categoriesOf(trx).forEach((id) => categories.add(id));
+        into.set(month, categories);
+    }
+    return into;
+}
+
+/**
+ * Evaluate the budgets of every month in `months` and bring the user's alerts
+ * in line: thresholds newly crossed are notified, and "over budget" alerts for
+ * scopes now back under their limit are resolved.
+ *
+ * Budget evaluation must never fail the write — evaluateBudgetMonth and the
+ * dispatcher swallow their own errors.
+ *
+ * @param {Map<string, Set<string>>} months as monthsOf
+ * @returns {Promise<Array>} the events detected, as checkBudgets
+ */
+async function reevaluateBudgets(userId, months) {
+    const budgetEvents = [];
+    const within = [];
+    for (const [month, categories] of months) {
+        const result = await evaluateBudgetMonth(userId, month, [...categories]);
+        budgetEvents.push(...result.events);
+        within.push(...result.within);
+    }
     if (budgetEvents.length > 0) {
         await dispatchBudgetEvents(userId, budgetEvents);
     }
+    await resolveBudgetAlerts(userId, within);
+    return budgetEvents;
+}
 
-    return { transaction, budgetEvents };
+/**
+ * Change category, account, date or tags on many transactions at once.
+ *
+ * Every row is loaded, changed and validated before any is saved, so a change
+ * that is invalid for one row (an account equal to a transfer's destination)
+ * rejects the request instead of leaving it half applied. The budget check
+ * then runs once per affected month — including a month rows were moved out
+ * of — rather than once per row.
+ *
+ * @param {Object} changes { category?, account?, date?, addTags?, removeTags? }
+ * @returns {Promise<{ updated: number, budgetEvents: Array }>}
+ */
+async function bulkUpdateTransactions(userId, ids, changes) {
+    const { addTags, removeTags, ...fields } = changes;
+
+    await assertOwnsAccounts(userId, [fields.account]);
+    const transactions = await loadOwned(userId, ids);
+    transactions.forEach((transaction) => assertUnlocked(transaction, fields));
+
+    const months = monthsOf(transactions);
+    const before = transactions.map(snapshot);
+    const removed = new Set(normalizeTags(removeTags));
+    for (const transaction of transactions) {
+        applyChanges(transaction, fields);
+        if (fields.account || fields.date) await restamp(userId, transaction);
+        if (addTags || removeTags) {
+            transaction.tags = normalizeTags([...(transaction.tags || []), ...(addTags || [])])
+                .filter((tag) => !removed.has(tag));
+        }
+        // As on a single edit: a refund stays filed under its expense.
+        if (transaction.refundOf) fileUnder(transaction, await assertRefundable(userId, transaction));
+    }
+    await Promise.all(transactions.map((transaction) => transaction.validate()));
+    for (const transaction of transactions) {
+        await transaction.save({ validateBeforeSave: false });
+    }
+
+    // And the refunds of recategorised expenses follow them.
+    const refiled = [];
+    if (fields.category !== undefined) {
+        for (const transaction of transactions.filter((trx) => trx.type === 'expense')) {
+            refiled.push(...await refileRefunds(userId, transaction));
+        }
+    }
+
+    if (addTags) await registerTags(userId, addTags);
+    await recordUpdated(userId, [
+        ...transactions.map((transaction, i) => ({
+            transaction: transaction._id, before: before[i], after: transaction
+        })),
+        ...refiled
+    ]);
+
+    // Refiled refunds move budget money between categories too.
+    const touched = [...transactions, ...refiled.flatMap(({ before: was, after }) => [was, after])];
+    const budgetEvents = await reevaluateBudgets(userId, monthsOf(touched, months));
+
+    return { updated: transactions.length, budgetEvents };
+}
+
+/**
+ * Move the user's transactions matching a filter to the trash, and record each
+ * one in the history. Attachments stay where they are until the trash entry
+ * is purged (services/trash), so a restore gets them back too.
+ *
+ * Removing rows can only lower what a month has spent, so the budget check
+ * here finds no new breach; it resolves the alerts of scopes back under
+ * their limit.
+ *
+ * @param {Object} filter e.g. { importId } to undo a statement import
+ * @returns {Promise<number>} how many were deleted
+ */
+async function deleteTransactions(userId, filter) {
+    const transactions = await Transaction.find({ ...filter, user: userId }).lean();
+    if (transactions.length === 0) return 0;
+    if (transactions.some(isReconciled)) {
+        throw lockedError('Reconciled transactions cannot be deleted. Mark them as not reconciled first.');
+    }
+    // A refund left pointing at a deleted expense would still count against
+    // spending and fail every later edit, so its expense stays until it is
+    // unlinked, or deleted along with it.
+    const ids = transactions.map((trx) => trx._id);
+    const expenses = transactions.filter((trx) => trx.type === 'expense').map((trx) => trx._id);
+    if (expenses.length > 0
+        && await Transaction.exists({ user: userId, refundOf: { $in: expenses }, _id: { $nin: ids } })) {
+        throw lockedError('This expense has refunds linked to it. Unlink or delete them first.');
+    }
+
+    // Trash first: if the delete then fails, the row exists in both places
+    // and the next delete simply replaces its trash entry. The other order
+    // could lose it outright.
+    const deletedAt = new Date();
+    await TrashedTransaction.bulkWrite(transactions.map((trx) => ({
+        replaceOne: {
+            filter: { _id: trx._id },
+            replacement: { _id: trx._id, user: userId, transaction: trx, deletedAt, purgeAt: purgeDateFor(deletedAt) },
+            upsert: true
+        }
+    })), { ordered: false });
+
+    const result = await Transaction.deleteMany({ _id: { $in: ids }, user: userId });
+    await recordDeleted(userId, transactions);
+    await reevaluateBudgets(userId, monthsOf(transactions));
+    return result.deletedCount;
+}
+
+/** @returns {Promise<boolean>} false when the user has no such transaction */
+async function deleteTransaction(userId, id) {
+    return (await deleteTransactions(userId, { _id: id })) > 0;
+}
+
+/**
+ * Check that the refunds being restored still have their expense. One in the
+ * trash must come back with it; one purged for good cannot, so the refund
+ * comes back as plain income rather than pointing at nothing.
+ */
+async function relinkRefunds(userId, transactions) {
+    const refunds = transactions.filter((trx) => trx.refundOf);
+    if (refunds.length === 0) return;
+
+    const restoring = new Set(transactions.map((trx) => String(trx._id)));
+    const expenseIds = refunds.map((trx) => trx.refundOf);
+    const [live, trashed] = await Promise.all([
+        Transaction.find({ _id: { $in: expenseIds }, user: userId }).distinct('_id'),
+        TrashedTransaction.find({ _id: { $in: expenseIds }, user: userId }).distinct('_id')
+    ]);
+    const liveIds = new Set(live.map(String));
+    const trashedIds = new Set(trashed.map(String));
+
+    for (const refund of refunds) {
+        const expense = String(refund.refundOf);
+        if (liveIds.has(expense) || restoring.has(expense)) continue;
+        if (trashedIds.has(expense)) {
+            throw lockedError('A refund\'s expense is in the trash. Restore the expense along with it.');
+        }
+        delete refund.refundOf;
+    }
+}
+
+/**
+ * Bring transactions back from the trash, under their original ids.
+ *
+ * All or nothing, like the bulk actions: an id that is not in the user's trash
+ * fails the request with a 404. So does a transaction whose account has been
+ * deleted since — restoring it would count money in an account that no longer
+ * exists. Restored rows can push a month back over budget, so the budget
+ * check runs for every month they land in.
+ *
+ * @returns {Promise<{ restored: number, budgetEvents: Array }>}
+ */
+async function restoreTransactions(userId, ids) {
+    const entries = await TrashedTransaction.find({ _id: { $in: ids }, user: userId }).lean();
+    if (entries.length !== new Set(ids.map(String)).size) {
+        const err = new Error('Transaction not found in trash');
+        err.status = 404;
+        throw err;
+    }
+
+    const transactions = entries.map((entry) => entry.transaction);
+    const accounts = transactions.flatMap((trx) => [trx.account, trx.transferTo]);
+    try {
+        await assertOwnsAccounts(userId, accounts);
+    } catch (err) {
+        if (err.status !== 404) throw err;
+        err.message = 'A transaction\'s account has been deleted, so it cannot be restored';
+        err.status = 409;
+        throw err;
+    }
+
+    await relinkRefunds(userId, transactions);
+
+    await Transaction.insertMany(transactions);
+    await TrashedTransaction.deleteMany({ _id: { $in: ids }, user: userId });
+
+    await registerTags(userId, transactions.flatMap((trx) => trx.tags || []));
+    await recordRestored(userId, transactions);
+
+    const budgetEvents = await reevaluateBudgets(userId, monthsOf(transactions));
+
+    return { restored: transactions.length, budgetEvents };
+}
+
+/**
+ * Delete many transactions at once, all or nothing.
+ *
+ * @returns {Promise<{ deleted: number }>}
+ */
+async function bulkDeleteTransactions(userId, ids) {
+    await loadOwned(userId, ids);
+    return { deleted: await deleteTransactions(userId, { _id: { $in: ids } }) };
 }
 
-module.exports = { createTransaction, updateTransaction, assertOwnsAccounts };
+module.exports = {
+    createTransaction,
+    updateTransaction,
+    deleteTransaction,
+    deleteTransactions,
+    restoreTransactions,
+    setTransactionStatus,
+    bulkUpdateTransactions,
+    bulkDeleteTransactions,
+    assertOwnsAccounts,
+    statusFieldFor,
+    monthsOf,
+    reevaluateBudgets
+};
@@ -0,0 +1,36 @@
+/* The transaction trash: how long deleted rows are kept, and removing them
+ * for good.
+ *
+ * Moving rows into the trash and back out is transactionWriter's job, since
+ * both change what balances and budgets see. Purging does not: a trashed row
+ * already counts for nothing, so all that is left is the row and its files.
+ */
+const TrashedTransaction = require('../models/trashedTransaction.model');
+const { removeAttachments } = require('./attachments');
+
+const TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When a row deleted at `deletedAt` leaves the trash for good. */
+const purgeDateFor = (deletedAt) => new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+
+/**
+ * Permanently delete trashed transactions and their attachments.
+ *
+ * @param {Object} [filter] narrows the user's trash, e.g. { _id: { $in: ids } };
+ *   omitted, the whole trash is emptied
+ * @returns {Promise<number>} how many were purged
+ */
+async function purgeTrash(userId, filter = {}) {
+    const entries = await TrashedTransaction.find({ ...filter, user: userId }).select('_id').lean();
+    if (entries.length === 0) return 0;
+
+    const ids = entries.map((entry) => entry._id);
+    // Files first, as everywhere else: a failure leaves a trash entry to
+    // retry, not files that nothing points at.
+    await removeAttachments(userId, { transaction: { $in: ids } });
+    const result = await TrashedTransaction.deleteMany({ _id: { $in: ids }, user: userId });
+    return result.deletedCount;
+}
+
+module.exports = { TRASH_RETENTION_DAYS, purgeDateFor, purgeTrash };
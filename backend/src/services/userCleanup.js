@@ -16,17 +16,40 @@ const Goal = require('../models/goal.model');
 const Notification = require('../models/notification.model');
 const RecurringTransaction = require('../models/recurringTransaction.model');
 const Account = require('../models/account.model');
+const ImportBatch = require('../models/importBatch.model');
+const Tag = require('../models/tag.model');
+const CategorizationRule = require('../models/categorizationRule.model');
+const Attachment = require('../models/attachment.model');
+const TransactionHistory = require('../models/transactionHistory.model');
+const TrashedTransaction = require('../models/trashedTransaction.model');
+const Reconciliation = require('../models/reconciliation.model');
+const DuplicateCandidate = require('../models/duplicateCandidate.model');
+const Payee = require('../models/payee.model');
+const Price = require('../models/price.model');
+const NetWorthSnapshot = require('../models/netWorthSnapshot.model');
+const { removeAttachments } = require('./attachments');
 const User = require('../models/user.model');
 const logger = require('../utils/logger');
 
 // Order matters only for readability; there are no FK constraints to satisfy.
 const OWNED_COLLECTIONS = [
     ['transactions', Transaction],
+    ['trash', TrashedTransaction],
+    ['transactionHistory', TransactionHistory],
     ['recurringTransactions', RecurringTransaction],
     ['budgets', Budget],
     ['goals', Goal],
     ['categories', Category],
+    ['tags', Tag],
+    ['payees', Payee],
+    ['prices', Price],
+    ['netWorthSnapshots', NetWorthSnapshot],
+    ['rules', CategorizationRule],
     ['notifications', Notification],
+    ['importBatches', ImportBatch],
+    ['reconciliations', Reconciliation],
+    ['duplicateCandidates', DuplicateCandidate],
+    ['attachments', Attachment],
     ['accounts', Account]
 ];
 
@@ -45,6 +68,10 @@ const OWNED_COLLECTIONS = [
 async function purgeUserData(userId, { deleteUser = true } = {}) {
     const deleted = {};
 
+    // Files are not documents: deleting the Attachment records alone would
+    // leave every receipt on disk (or in GridFS) with nothing pointing at it.
+    deleted.attachmentFiles = await removeAttachments(userId);
+
     for (const [name, Model] of OWNED_COLLECTIONS) {
         const result = await Model.deleteMany({ user: userId });
         deleted[name] = result.deletedCount;
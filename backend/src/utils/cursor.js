@@ -0,0 +1,32 @@
+/* Opaque cursors for keyset pagination over transactions.
+ *
+ * A cursor names the last row of the previous page by its sort key,
+ * (date, _id). Rows are sorted by date then _id, both descending, so "the next
+ * page" is everything strictly after that pair. Unlike skip/limit, a row
+ * inserted while the user scrolls cannot shift a page boundary and show the
+ * same row twice or hide one.
+ */
+const mongoose = require('mongoose');
+
+/** @returns {string} base64url of "<ISO date>|<ObjectId>" */
+const encodeCursor = (row) =>
+    Buffer.from(`${new Date(row.date).toISOString()}|${row._id}`).toString('base64url');
+
+/**
+ * @returns {{ date: Date, id: ObjectId }|null} null when the cursor is not one
+ *   this server produced
+ */
+const decodeCursor = (cursor) => {
+    const [iso, id] = Buffer.from(String(cursor), 'base64url').toString('utf8').split('|');
+    const date = new Date(iso);
+    if (Number.isNaN(date.getTime()) || !mongoose.isValidObjectId(id)) return null;
+    return { date, id: new mongoose.Types.ObjectId(id) };
+};
+
+/** Filter alternatives for "after this cursor" in (date desc, _id desc) order. */
+const afterCursor = ({ date, id }) => [
+    { date: { $lt: date } },
+    { date, _id: { $lt: id } }
+];
+
+module.exports = { encodeCursor, decodeCursor, afterCursor };
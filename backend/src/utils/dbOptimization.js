@@ -1,10 +1,78 @@
 /* Database optimization utilities */
 const logger = require('./logger');
+const { parseTagFilter } = require('./tags');
+const { afterCursor } = require('./cursor');
 
 /**
  * Query optimization patterns and utilities
  */
 
+/**
+ * The stages the balance pipelines share: one row per account a transaction
+ * moves, with its signed `delta` and `baseDelta`. See getAccountBalances.
+ */
+const accountMovements = (userId, match) => [
+  { $match: { ...match, user: userId } },
+  {
+    $project: {
+      date: 1,
+      entries: {
+        $concatArrays: [
+          [
+            {
+              account: '$account',
+              status: '$status',
+              sign: {
+                $switch: {
+                  branches: [
+                    { case: { $eq: ['$type', 'income'] }, then: 1 },
+                    { case: { $eq: ['$type', 'expense'] }, then: -1 },
+                    // Money leaving the source account.
+                    { case: { $eq: ['$type', 'transfer'] }, then: -1 },
+                    // Cash spent on a buy, or raised by a sell.
+                    {
+                      case: { $eq: ['$type', 'trade'] },
+                      then: { $cond: [{ $eq: ['$trade.side', 'buy'] }, -1, 1] }
+                    }
+                  ],
+                  default: 0
+                }
+              },
+              amount: '$amount',
+              baseAmount: TransactionQueries.baseAmount
+            }
+          ],
+          {
+            $cond: [
+              { $eq: ['$type', 'transfer'] },
+              [{
+                account: '$transferTo',
+                status: '$transferStatus',
+                sign: 1,
+                amount: { $ifNull: ['$transferAmount', '$amount'] },
+                baseAmount: TransactionQueries.baseAmount
+              }],
+              []
+            ]
+          }
+        ]
+      }
+    }
+  },
+  { $unwind: '$entries' },
+  // Transactions predating the account backfill have no account to credit.
+  { $match: { 'entries.account': { $ne: null } } },
+  {
+    $project: {
+      account: '$entries.account',
+      date: 1,
+      status: '$entries.status',
+      delta: { $multiply: ['$entries.sign', '$entries.amount'] },
+      baseDelta: { $multiply: ['$entries.sign', '$entries.baseAmount'] }
+    }
+  }
+];
+
 /**
  * Optimized transaction queries with proper field selection and indexing hints
  */
@@ -13,7 +81,10 @@ const TransactionQueries = {
    * Get user transactions with date filtering and category population
    */
   getUserTransactions: (userId, filters = {}) => {
-    const { start, end, type, category, account, limit = 50, skip = 0 } = filters;
+    const {
+      start, end, type, category, account, tags, minAmount, maxAmount, search,
+      after, limit = 50, skip = 0
+    } = filters;
 
     const query = { user: userId };
 
@@ -27,19 +98,44 @@ const TransactionQueries = {
     // Type filter
     if (type) query.type = type;
 
-    // Category filter
-    if (category) query.category = category;
+    // Amount range, inclusive at both ends.
+    if (minAmount !== undefined || maxAmount !== undefined) {
+      query.amount = {};
+      if (minAmount !== undefined) query.amount.$gte = minAmount;
+      if (maxAmount !== undefined) query.amount.$lte = maxAmount;
+    }
+
+    // Tag filter. Every listed tag must be present, so adding a tag narrows
+    // the list the way adding any other filter does.
+    const tagList = parseTagFilter(tags);
+    if (tagList.length > 0) query.tags = { $all: tagList };
+
+    // Category filter. A split row has no category of its own, so it matches
+    // when any of its parts does.
+    const or = [];
+    if (category) or.push([{ category }, { 'splits.category': category }]);
 
     // Account filter. Matches transfers in either direction so a per-account
     // statement shows money arriving as well as leaving.
-    if (account) {
-      query.$or = [{ account }, { transferTo: account }];
-    }
+    if (account) or.push([{ account }, { transferTo: account }]);
+
+    // Free-text search, already resolved to alternatives by
+    // services/transactionSearch.
+    if (search) or.push(search);
+
+    // Keyset pagination: only rows after the previous page's last one.
+    if (after) or.push(afterCursor(after));
+
+    if (or.length === 1) query.$or = or[0];
+    if (or.length > 1) query.$and = or.map(($or) => ({ $or }));
 
     return {
       filter: query,
       options: {
-        sort: { date: -1 }, // Use compound index (user, date)
+        // _id breaks ties between rows with the same date, which a cursor
+        // needs: without it, equal dates can come back in any order and a
+        // page boundary between them would repeat or skip rows.
+        sort: { date: -1, _id: -1 }, // Use compound index (user, date)
         limit: Math.min(limit, 100), // Cap limit for performance
         skip,
         lean: true // Return plain objects for better performance
@@ -48,12 +144,83 @@ const TransactionQueries = {
       // pull opening balances and timestamps onto every row.
       populate: [
         { path: 'category' },
+        { path: 'splits.category' },
         { path: 'account', select: 'name type currency' },
-        { path: 'transferTo', select: 'name type currency' }
+        { path: 'transferTo', select: 'name type currency' },
+        { path: 'payee', select: 'name' }
       ]
     };
   },
 
+  /**
+   * Narrow a filter to the rows that make up spending: expenses, and the
+   * refunds linked to one (see services/refunds). Sum them with spendAmount,
+   * which counts a refund against the expense instead of as income.
+   */
+  spendingMatch: (match) => ({
+    $and: [match, { $or: [{ type: 'expense' }, { type: 'income', refundOf: { $ne: null } }] }]
+  }),
+
+  /**
+   * A transaction's amount in the user's base currency (see services/fx).
+   * Rows written before migration 003 have none and count at face value.
+   */
+  baseAmount: { $ifNull: ['$baseAmount', '$amount'] },
+
+  /** An expense's base amount, or a linked refund's negated. */
+  spendAmount: {
+    $cond: [
+      { $eq: ['$type', 'income'] },
+      { $multiply: [{ $ifNull: ['$baseAmount', '$amount'] }, -1] },
+      { $ifNull: ['$baseAmount', '$amount'] }
+    ]
+  },
+
+  /**
+   * Pipeline stages that turn each matched transaction into one document per
+   * category line: its splits when it has them, otherwise itself. After these,
+   * `category`, `amount` and `baseAmount` are per-line, so any $group on
+   * category attributes a split receipt to each of its categories. A split
+   * line's base amount is its share at the row's rate.
+   *
+   * @param {ObjectId|ObjectId[]} [categoryIds] keep only lines in these
+   *   categories, e.g. one and everything below it
+   */
+  splitLines: (categoryIds) => [
+    {
+      $project: {
+        user: 1,
+        type: 1,
+        date: 1,
+        fxRate: 1,
+        baseAmount: 1,
+        lines: {
+          $cond: [
+            { $gt: [{ $size: { $ifNull: ['$splits', []] } }, 0] },
+            '$splits',
+            [{ category: '$category', amount: '$amount', baseAmount: { $ifNull: ['$baseAmount', '$amount'] } }]
+          ]
+        }
+      }
+    },
+    { $unwind: '$lines' },
+    {
+      $project: {
+        user: 1,
+        type: 1,
+        date: 1,
+        category: '$lines.category',
+        amount: '$lines.amount',
+        baseAmount: {
+          $ifNull: ['$lines.baseAmount', { $multiply: ['$lines.amount', { $ifNull: ['$fxRate', 1] }] }]
+        }
+      }
+    },
+    ...(categoryIds
+      ? [{ $match: { category: Array.isArray(categoryIds) ? { $in: categoryIds } : categoryIds } }]
+      : [])
+  ],
+
   /**
    * Optimized monthly spending aggregation
    */
@@ -63,12 +230,12 @@ const TransactionQueries = {
     
     return [
       {
-        $match: {
+        $match: TransactionQueries.spendingMatch({
           user: userId,
-          type: 'expense',
           date: { $gte: startDate, $lt: endDate }
-        }
+        })
       },
+      ...TransactionQueries.splitLines(),
       {
         $group: {
           _id: {
@@ -76,7 +243,7 @@ const TransactionQueries = {
             month: { $month: '$date' },
             category: '$category'
           },
-          total: { $sum: '$amount' },
+          total: { $sum: TransactionQueries.spendAmount },
           count: { $sum: 1 }
         }
       },
@@ -92,18 +259,18 @@ const TransactionQueries = {
   getCategorySpending: (userId, startDate, endDate) => {
     return [
       {
-        $match: {
+        $match: TransactionQueries.spendingMatch({
           user: userId,
-          type: 'expense',
           date: { $gte: startDate, $lte: endDate }
-        }
+        })
       },
+      ...TransactionQueries.splitLines(),
       {
         $group: {
           _id: '$category',
-          total: { $sum: '$amount' },
+          total: { $sum: TransactionQueries.spendAmount },
           count: { $sum: 1 },
-          avgAmount: { $avg: '$amount' }
+          avgAmount: { $avg: '$baseAmount' }
         }
       },
       {
@@ -130,51 +297,54 @@ const TransactionQueries = {
    * Net movement per account, as a pipeline.
    *
    * A transfer is stored as ONE document, so it has to contribute to two
-   * accounts: minus from `account`, plus to `transferTo`. The $project below
-   * turns each transaction into a small array of {account, delta} entries —
+   * accounts: minus from `account`, plus to `transferTo`. accountMovements
+   * turns each transaction into a small array of {account, sign} entries —
    * one entry normally, two for a transfer — which $unwind then flattens so a
    * single $group can sum them.
    *
-   * The caller adds openingBalance; this only reports movement.
+   * Each account's movement comes out twice: `net` (with `cleared` and
+   * `reconciled`) in the account's own currency, which is what its statement
+   * shows, and `baseNet` in the user's base currency, which is what totals
+   * across accounts add up. A transfer between currencies lands in its
+   * destination as transferAmount.
+   *
+   * The caller adds openingBalance; this only reports movement. `match`
+   * narrows the rows counted, e.g. to a date range for a balance as of a day.
    * Served by { user: 1, account: 1, date: -1 }.
    */
-  getAccountBalances: (userId) => [
-    { $match: { user: userId } },
+  getAccountBalances: (userId, match = {}) => [
+    ...accountMovements(userId, match),
     {
-      $project: {
-        entries: {
-          $concatArrays: [
-            [
-              {
-                account: '$account',
-                delta: {
-                  $switch: {
-                    branches: [
-                      { case: { $eq: ['$type', 'income'] }, then: '$amount' },
-                      { case: { $eq: ['$type', 'expense'] }, then: { $multiply: ['$amount', -1] } },
-                      // Money leaving the source account.
-                      { case: { $eq: ['$type', 'transfer'] }, then: { $multiply: ['$amount', -1] } }
-                    ],
-                    default: 0
-                  }
-                }
-              }
-            ],
-            {
-              $cond: [
-                { $eq: ['$type', 'transfer'] },
-                [{ account: '$transferTo', delta: '$amount' }],
-                []
-              ]
-            }
-          ]
-        }
+      $group: {
+        _id: '$account',
+        net: { $sum: '$delta' },
+        // What the bank has confirmed: cleared and reconciled rows only.
+        cleared: {
+          $sum: { $cond: [{ $in: ['$status', ['cleared', 'reconciled']] }, '$delta', 0] }
+        },
+        reconciled: {
+          $sum: { $cond: [{ $eq: ['$status', 'reconciled'] }, '$delta', 0] }
+        },
+        baseNet: { $sum: '$baseDelta' }
+      }
+    }
+  ],
+
+  /**
+   * Net movement per account per day (YYYY-MM-DD, UTC), oldest first, as a
+   * pipeline. The running sum of these is each account's balance on each day;
+   * services/netWorth walks it to rebuild history.
+   */
+  getAccountDailyChanges: (userId, match = {}) => [
+    ...accountMovements(userId, match),
+    {
+      $group: {
+        _id: { account: '$account', day: { $dateToString: { format: '%Y-%m-%d', date: '$date' } } },
+        net: { $sum: '$delta' },
+        baseNet: { $sum: '$baseDelta' }
       }
     },
-    { $unwind: '$entries' },
-    // Transactions predating the account backfill have no account to credit.
-    { $match: { 'entries.account': { $ne: null } } },
-    { $group: { _id: '$entries.account', net: { $sum: '$entries.delta' } } }
+    { $sort: { '_id.day': 1 } }
   ]
 };
 
@@ -0,0 +1,27 @@
+/* Tag normalisation shared by the model, the registry and the query filters.
+ *
+ * "Tax Deductible", "tax-deductible" and " TAX-deductible " must be one tag,
+ * or filtering silently misses rows. Everything that stores or matches a tag
+ * goes through normalizeTag first.
+ */
+
+const MAX_TAG_LENGTH = 30;
+
+/** Lowercase, trimmed, inner whitespace collapsed to a single hyphen. */
+const normalizeTag = (raw) =>
+    String(raw || '').trim().toLowerCase().replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH);
+
+/** Normalise and de-duplicate, dropping anything that normalises to empty. */
+const normalizeTags = (tags) => [...new Set((tags || []).map(normalizeTag).filter(Boolean))];
+
+/**
+ * A tag filter from a query string: either an array (`?tags=a&tags=b`) or a
+ * comma-separated list (`?tags=a,b`).
+ */
+const parseTagFilter = (value) => {
+    if (!value) return [];
+    const list = Array.isArray(value) ? value : String(value).split(',');
+    return normalizeTags(list);
+};
+
+module.exports = { MAX_TAG_LENGTH, normalizeTag, normalizeTags, parseTagFilter };
@@ -0,0 +1,116 @@
+/* Merging accounts, and closing one with a final transfer of its balance. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Transaction = require('../src/models/transaction.model');
+const RecurringTransaction = require('../src/models/recurringTransaction.model');
+const TrashedTransaction = require('../src/models/trashedTransaction.model');
+const { signAccess } = require('../src/utils/jwt');
+const { closingTransfer } = require('../src/services/accountMerge');
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Merge User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('closing transfer', () => {
+    it('moves money left in the account out', () => {
+        expect(closingTransfer('card', 120.456, 'bank')).toEqual({ account: 'card', transferTo: 'bank', amount: 120.46 });
+    });
+
+    it('pays what the account owes in', () => {
+        expect(closingTransfer('card', -80, 'bank')).toEqual({ account: 'bank', transferTo: 'card', amount: 80 });
+    });
+
+    it('is null when nothing is left', () => {
+        expect(closingTransfer('card', 0.001, 'bank')).toBeNull();
+    });
+});
+
+describe('account merge and close', () => {
+    let user;
+    let cookie;
+    let checking;
+    let savings;
+
+    beforeEach(async () => {
+        user = await makeUser('merge@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        checking = await Account.create({ user: user._id, name: 'Checking', currency: 'USD', isDefault: true, openingBalance: 100 });
+        savings = await Account.create({ user: user._id, name: 'Savings', currency: 'USD', openingBalance: 500 });
+    });
+
+    const balances = async () => {
+        const res = await request(app).get('/api/v1/accounts?includeArchived=true').set('Cookie', [cookie]);
+        return Object.fromEntries(res.body.data.map((account) => [account.name, account.balance]));
+    };
+
+    it('moves transactions and recurring rules, and drops transfers between the two', async () => {
+        await Transaction.create([
+            { user: user._id, account: savings._id, type: 'income', amount: 50, date: new Date() },
+            { user: user._id, account: checking._id, transferTo: savings._id, type: 'transfer', amount: 30, date: new Date() }
+        ]);
+        await RecurringTransaction.create({
+            user: user._id, account: savings._id, name: 'Interest', type: 'income', amount: 10,
+            frequency: 'monthly', startDate: new Date(), nextDue: new Date()
+        });
+
+        const res = await request(app).post(`/api/v1/accounts/${savings._id}/merge`).set('Cookie', [cookie])
+            .send({ into: String(checking._id) });
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data).toMatchObject({ moved: 1, recurring: 1, removedTransfers: 1, account: { balance: 650 } });
+        expect(await Account.findById(savings._id)).toBeNull();
+        expect(await Transaction.countDocuments({ user: user._id, account: checking._id })).toEqual(1);
+        expect((await RecurringTransaction.findOne({ user: user._id })).account).toEqual(checking._id);
+        expect(await TrashedTransaction.countDocuments({ user: user._id, 'transaction.type': 'transfer' })).toEqual(1);
+    });
+
+    it('refuses to drop a reconciled transfer between the two', async () => {
+        await Transaction.create({
+            user: user._id, account: checking._id, transferTo: savings._id, type: 'transfer', amount: 30,
+            date: new Date(), transferStatus: 'reconciled'
+        });
+
+        const res = await request(app).post(`/api/v1/accounts/${savings._id}/merge`).set('Cookie', [cookie])
+            .send({ into: String(checking._id) });
+
+        expect(res.statusCode).toEqual(409);
+        expect(await Account.findById(savings._id)).not.toBeNull();
+        expect(await Transaction.countDocuments({ user: user._id, type: 'transfer' })).toEqual(1);
+    });
+
+    it('hands the default on to the target', async () => {
+        const res = await request(app).post(`/api/v1/accounts/${checking._id}/merge`).set('Cookie', [cookie])
+            .send({ into: String(savings._id) });
+
+        expect(res.statusCode).toEqual(200);
+        expect((await Account.findById(savings._id)).isDefault).toBe(true);
+    });
+
+    it('refuses accounts in different currencies', async () => {
+        const euro = await Account.create({ user: user._id, name: 'Euro', currency: 'EUR' });
+        const res = await request(app).post(`/api/v1/accounts/${euro._id}/merge`).set('Cookie', [cookie])
+            .send({ into: String(checking._id) });
+        expect(res.statusCode).toEqual(400);
+    });
+
+    it('closes an account by moving its balance out and archiving it', async () => {
+        const res = await request(app).post(`/api/v1/accounts/${savings._id}/close`).set('Cookie', [cookie])
+            .send({ to: String(checking._id) });
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data.account).toMatchObject({ isArchived: true, balance: 0 });
+        expect(await balances()).toMatchObject({ Checking: 600, Savings: 0 });
+    });
+
+    it('needs somewhere for the balance to go', async () => {
+        const res = await request(app).post(`/api/v1/accounts/${savings._id}/close`).set('Cookie', [cookie]).send({});
+        expect(res.statusCode).toEqual(400);
+    });
+});
@@ -0,0 +1,133 @@
+/* Attachments: type and size checks, per-user scoping, and clean-up of the
+ * stored files when their transaction or owner goes. */
+const fs = require('fs');
+const path = require('path');
+const request = require('supertest');
+const app = require('../src/app');
+const config = require('../src/config');
+const User = require('../src/models/user.model');
+const Attachment = require('../src/models/attachment.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { detectContentType } = require('../src/services/attachments');
+const { purgeUserData } = require('../src/services/userCleanup');
+
+// Smallest valid signatures; the rest of the bytes do not matter here.
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(32, 1)]);
+const JPEG = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(32, 2)]);
+const PDF = Buffer.from('%PDF-1.7\n%fake\n');
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Attachment User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+const fileExists = (attachment) => fs.existsSync(path.join(config.attachmentDir, attachment.storageKey));
+
+describe('attachment type detection', () => {
+    it('trusts the bytes, not the name', () => {
+        expect(detectContentType(PNG)).toEqual('image/png');
+        expect(detectContentType(PDF)).toEqual('application/pdf');
+        expect(detectContentType(Buffer.from('<html>receipt.pdf</html>'))).toBeNull();
+    });
+});
+
+describe('attachments', () => {
+    let user;
+    let cookie;
+    let trx;
+
+    beforeEach(async () => {
+        user = await makeUser('attach@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        ({ transaction: trx } = await transactionWriter.createTransaction({
+            user: user._id, amount: 99, type: 'expense', description: 'Laptop'
+        }));
+    });
+
+    const upload = (body, as = cookie) =>
+        request(app).post('/api/v1/attachments').set('Cookie', [as]).send({
+            transaction: String(trx._id),
+            filename: 'receipt.png',
+            data: PNG.toString('base64'),
+            ...body
+        });
+
+    it('stores an image with its thumbnail and lists it on the transaction row', async () => {
+        const res = await upload({ thumbnail: `data:image/jpeg;base64,${JPEG.toString('base64')}` });
+
+        expect(res.statusCode).toEqual(201);
+        expect(res.body.data).toMatchObject({ contentType: 'image/png', size: PNG.length, hasThumbnail: true });
+        expect(res.body.data.storageKey).toBeUndefined();
+
+        const list = await request(app).get('/api/v1/transactions').set('Cookie', [cookie]);
+        expect(list.body.data[0].attachments).toHaveLength(1);
+
+        const thumb = await request(app)
+            .get(`/api/v1/attachments/${res.body.data._id}/thumbnail`)
+            .set('Cookie', [cookie]);
+        expect(thumb.headers['content-type']).toContain('image/jpeg');
+    });
+
+    it('rejects a file that is not an image or PDF, whatever it is called', async () => {
+        const res = await upload({ filename: 'receipt.pdf', data: Buffer.from('MZ\x90\x00').toString('base64') });
+        expect(res.statusCode).toEqual(400);
+        expect(await Attachment.countDocuments()).toEqual(0);
+    });
+
+    it('rejects a file over the size limit', async () => {
+        const big = Buffer.concat([PDF, Buffer.alloc(5 * 1024 * 1024)]);
+        const res = await upload({ filename: 'big.pdf', data: big.toString('base64') });
+        expect(res.statusCode).toEqual(400);
+    });
+
+    it('downloads only for the owner', async () => {
+        const created = await upload({ filename: 'invoice.pdf', data: PDF.toString('base64') });
+        const url = `/api/v1/attachments/${created.body.data._id}/download`;
+
+        const mine = await request(app).get(url).set('Cookie', [cookie]);
+        expect(mine.statusCode).toEqual(200);
+        expect(mine.headers['content-type']).toContain('application/pdf');
+        expect(mine.headers['content-disposition']).toContain('invoice.pdf');
+
+        const other = await makeUser('attach-other@test.com');
+        const otherCookie = `accessToken=${signAccess({ sub: other._id, role: 'user' })}`;
+        const theirs = await request(app).get(url).set('Cookie', [otherCookie]);
+        expect(theirs.statusCode).toEqual(404);
+    });
+
+    it('refuses to attach to another user\'s transaction', async () => {
+        const other = await makeUser('attach-other@test.com');
+        const otherCookie = `accessToken=${signAccess({ sub: other._id, role: 'user' })}`;
+
+        const res = await upload({}, otherCookie);
+        expect(res.statusCode).toEqual(404);
+    });
+
+    it('keeps the file while its transaction is in the trash, and removes it on purge', async () => {
+        await upload({});
+        const attachment = await Attachment.findOne();
+        expect(fileExists(attachment)).toBe(true);
+
+        await request(app).delete(`/api/v1/transactions/${trx._id}`).set('Cookie', [cookie]);
+        expect(fileExists(attachment)).toBe(true);
+
+        await request(app).post('/api/v1/trash/purge').set('Cookie', [cookie]).send({ ids: [String(trx._id)] });
+
+        expect(fileExists(attachment)).toBe(false);
+        expect(await Attachment.countDocuments()).toEqual(0);
+    });
+
+    it('removes every file when the user is purged', async () => {
+        await upload({});
+        const attachment = await Attachment.findOne();
+
+        await purgeUserData(user._id);
+
+        expect(fileExists(attachment)).toBe(false);
+    });
+});
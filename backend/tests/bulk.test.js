@@ -0,0 +1,135 @@
+/* Bulk edit and bulk delete: all or nothing, and one budget check per month. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Budget = require('../src/models/budget.model');
+const Category = require('../src/models/category.model');
+const Transaction = require('../src/models/transaction.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+
+const CURRENT_MONTH = new Date().toISOString().slice(0, 7);
+const inCurrentMonth = () => new Date(`${CURRENT_MONTH}-15T12:00:00.000Z`);
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Bulk User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('bulk transaction actions', () => {
+    let user;
+    let cookie;
+    let food;
+
+    beforeEach(async () => {
+        user = await makeUser('bulk@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        food = await Category.create({ user: user._id, name: 'Food' });
+    });
+
+    const spend = async (amount, fields = {}) =>
+        (await transactionWriter.createTransaction({
+            user: user._id, amount, type: 'expense', date: inCurrentMonth(), ...fields
+        })).transaction;
+
+    const bulk = (body) =>
+        request(app).post('/api/v1/transactions/bulk').set('Cookie', [cookie]).send(body);
+
+    it('recategorises and tags every selected row', async () => {
+        const a = await spend(10, { tags: ['old'] });
+        const b = await spend(20);
+        const untouched = await spend(30);
+
+        const res = await bulk({
+            ids: [String(a._id), String(b._id)],
+            action: 'update',
+            changes: { category: String(food._id), addTags: ['Groceries'], removeTags: ['old'] }
+        });
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data.updated).toEqual(2);
+        const rows = await Transaction.find({ user: user._id, category: food._id });
+        expect(rows).toHaveLength(2);
+        rows.forEach((row) => expect(row.tags).toEqual(['groceries']));
+        expect((await Transaction.findById(untouched._id)).category).toBeUndefined();
+    });
+
+    it('moves rows to another account and date', async () => {
+        const card = await Account.create({ user: user._id, name: 'Card' });
+        const a = await spend(10);
+
+        await bulk({
+            ids: [String(a._id)],
+            action: 'update',
+            changes: { account: String(card._id), date: '2026-01-05' }
+        });
+
+        const row = await Transaction.findById(a._id);
+        expect(String(row.account)).toEqual(String(card._id));
+        expect(row.date.toISOString().slice(0, 10)).toEqual('2026-01-05');
+    });
+
+    it('runs the budget check once per affected month', async () => {
+        await Budget.create({
+            user: user._id,
+            month: CURRENT_MONTH,
+            totalBudget: 0,
+            categoryBudgets: [{ category: food._id, amount: 25 }]
+        });
+        const rows = [await spend(10), await spend(10), await spend(10)];
+
+        const res = await bulk({
+            ids: rows.map((row) => String(row._id)),
+            action: 'update',
+            changes: { category: String(food._id) }
+        });
+
+        // Three rows crossed the limit together: one event, not three.
+        expect(res.body.data.budgetEvents).toHaveLength(1);
+        expect(res.body.data.budgetEvents[0]).toMatchObject({ scope: 'category', level: 'exceeded', spent: 30 });
+    });
+
+    it('deletes the selected rows', async () => {
+        const a = await spend(10);
+        const b = await spend(20);
+        await spend(30);
+
+        const res = await bulk({ ids: [String(a._id), String(b._id)], action: 'delete' });
+
+        expect(res.body.data.deleted).toEqual(2);
+        expect(await Transaction.countDocuments({ user: user._id })).toEqual(1);
+    });
+
+    it('changes nothing when any id belongs to someone else', async () => {
+        const other = await makeUser('bulk-other@test.com');
+        const theirs = (await transactionWriter.createTransaction({
+            user: other._id, amount: 5, type: 'expense'
+        })).transaction;
+        const mine = await spend(10);
+
+        const res = await bulk({ ids: [String(mine._id), String(theirs._id)], action: 'delete' });
+
+        expect(res.statusCode).toEqual(404);
+        expect(await Transaction.countDocuments()).toEqual(2);
+    });
+
+    it('rejects another user\'s account before touching any row', async () => {
+        const other = await makeUser('bulk-other@test.com');
+        const foreign = await Account.create({ user: other._id, name: 'Theirs' });
+        const mine = await spend(10);
+
+        const res = await bulk({
+            ids: [String(mine._id)],
+            action: 'update',
+            changes: { account: String(foreign._id) }
+        });
+
+        expect(res.statusCode).toEqual(404);
+        expect(String((await Transaction.findById(mine._id)).account)).not.toEqual(String(foreign._id));
+    });
+});
@@ -0,0 +1,121 @@
+/* Category merge and safe delete: nothing is left pointing at a deleted
+ * category. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Budget = require('../src/models/budget.model');
+const Category = require('../src/models/category.model');
+const Transaction = require('../src/models/transaction.model');
+const Notification = require('../src/models/notification.model');
+const RecurringTransaction = require('../src/models/recurringTransaction.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { resplit } = require('../src/services/categoryMerge');
+
+const CURRENT_MONTH = new Date().toISOString().slice(0, 7);
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Merge Category User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('resplit', () => {
+    const splits = [{ category: 'dining', amount: 30 }, { category: 'household', amount: 70 }];
+
+    it('moves only the matching split lines', () => {
+        expect(resplit(splits, 'dining', 'food')).toEqual([
+            { category: 'food', amount: 30 }, { category: 'household', amount: 70 }
+        ]);
+    });
+
+    it('clears the category when there is no target', () => {
+        expect(resplit(splits, 'dining', null)[0]).toEqual({ category: undefined, amount: 30 });
+    });
+});
+
+describe('category merge and delete', () => {
+    let user;
+    let cookie;
+    let dining;
+    let food;
+
+    beforeEach(async () => {
+        user = await makeUser('merge-category@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        dining = await Category.create({ user: user._id, name: 'Dining' });
+        food = await Category.create({ user: user._id, name: 'Food' });
+
+        await Transaction.create({ user: user._id, type: 'expense', amount: 40, category: dining._id, date: new Date() });
+        await RecurringTransaction.create({
+            user: user._id, name: 'Lunch club', type: 'expense', amount: 20, category: dining._id,
+            frequency: 'monthly', startDate: new Date(), nextDue: new Date()
+        });
+        await Budget.create({
+            user: user._id,
+            month: CURRENT_MONTH,
+            categoryBudgets: [{ category: dining._id, amount: 100 }, { category: food._id, amount: 200 }]
+        });
+    });
+
+    it('reports what uses a category', async () => {
+        const res = await request(app).get(`/api/v1/categories/${dining._id}/usage`).set('Cookie', [cookie]);
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data).toMatchObject({ transactions: 1, recurring: 1, budgets: 1, rules: 0 });
+    });
+
+    it('refuses to delete a category in use without being told where it goes', async () => {
+        const res = await request(app).delete(`/api/v1/categories/${dining._id}`).set('Cookie', [cookie]);
+
+        expect(res.statusCode).toEqual(409);
+        expect(await Category.findById(dining._id)).not.toBeNull();
+    });
+
+    it('merges every reference into the target, folding budget allocations together', async () => {
+        const res = await request(app).post(`/api/v1/categories/${dining._id}/merge`).set('Cookie', [cookie])
+            .send({ into: String(food._id) });
+
+        expect(res.statusCode).toEqual(200);
+        expect(await Category.findById(dining._id)).toBeNull();
+        expect((await Transaction.findOne({ user: user._id })).category).toEqual(food._id);
+        expect((await RecurringTransaction.findOne({ user: user._id })).category).toEqual(food._id);
+
+        const budget = await Budget.findOne({ user: user._id });
+        expect(budget.categoryBudgets).toHaveLength(1);
+        expect(budget.categoryBudgets[0].amount).toEqual(300);
+    });
+
+    it('clears every reference when asked to uncategorize', async () => {
+        const res = await request(app).delete(`/api/v1/categories/${dining._id}?uncategorize=true`).set('Cookie', [cookie]);
+
+        expect(res.statusCode).toEqual(200);
+        expect((await Transaction.findOne({ user: user._id })).category).toBeUndefined();
+        expect((await RecurringTransaction.findOne({ user: user._id })).category).toBeUndefined();
+        expect((await Budget.findOne({ user: user._id })).categoryBudgets).toHaveLength(1);
+    });
+
+    it('checks the target\'s budget against the spending it takes over', async () => {
+        await Transaction.create({ user: user._id, type: 'expense', amount: 270, category: food._id, date: new Date() });
+
+        await request(app).post(`/api/v1/categories/${dining._id}/merge`).set('Cookie', [cookie])
+            .send({ into: String(food._id) });
+
+        expect(await Notification.exists({ user: user._id, title: 'Over budget — Food' })).toBeTruthy();
+    });
+
+    it('resolves the alerts of a category whose spending is moved out', async () => {
+        await transactionWriter.createTransaction({
+            user: user._id, type: 'expense', amount: 80, category: dining._id, date: new Date()
+        });
+        const alert = await Notification.findOne({ user: user._id, title: 'Over budget — Dining' });
+        expect(alert).not.toBeNull();
+
+        await request(app).delete(`/api/v1/categories/${dining._id}?uncategorize=true`).set('Cookie', [cookie]);
+
+        expect((await Notification.findById(alert._id)).meta.resolved).toBe(true);
+    });
+});
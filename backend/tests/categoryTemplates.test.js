@@ -0,0 +1,98 @@
+/* Starter category templates: localized names, and applying one twice makes
+ * nothing new. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Category = require('../src/models/category.model');
+const { signAccess } = require('../src/utils/jwt');
+const { localizeTemplate } = require('../src/services/categoryTemplates');
+
+const makeUser = (email, country = 'US') =>
+    User.create({
+        name: 'Template User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000),
+        settings: { country }
+    });
+
+describe('category template localization', () => {
+    const names = (template) => template.categories.map((category) => category.name);
+
+    it('uses the default names for a country without a locale pack', () => {
+        expect(names(localizeTemplate('personal', 'JP'))).toContain('Gas');
+    });
+
+    it('renames and adds categories for the country', () => {
+        const template = localizeTemplate('personal', 'gb');
+        expect(names(template)).toContain('Petrol');
+        expect(names(template)).not.toContain('Gas');
+        expect(template.categories).toContainEqual({ key: 'councilTax', name: 'Council Tax', parent: 'housing' });
+    });
+
+    it('lists parents before their children', () => {
+        const { categories } = localizeTemplate('freelancer', 'US');
+        categories.forEach((category, index) => {
+            if (category.parent) {
+                expect(categories.findIndex((each) => each.key === category.parent)).toBeLessThan(index);
+            }
+        });
+    });
+
+    it('rejects an unknown template', () => {
+        expect(() => localizeTemplate('pirate', 'US')).toThrow('Category template not found');
+    });
+});
+
+describe('applying category templates', () => {
+    let user;
+    let cookie;
+
+    beforeEach(async () => {
+        user = await makeUser('templates@test.com', 'GB');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+    });
+
+    it('creates the localized tree once, however often it is applied', async () => {
+        const first = await request(app).post('/api/v1/categories/templates/apply').set('Cookie', [cookie])
+            .send({ template: 'personal' });
+        const second = await request(app).post('/api/v1/categories/templates/apply').set('Cookie', [cookie])
+            .send({ template: 'personal' });
+
+        const expected = localizeTemplate('personal', 'GB').categories.length;
+        expect(first.statusCode).toEqual(200);
+        expect(first.body.data.created).toEqual(expected);
+        expect(second.body.data).toEqual({ created: 0, existing: expected });
+        expect(await Category.countDocuments({ user: user._id })).toEqual(expected);
+
+        const petrol = await Category.findOne({ user: user._id, name: 'Petrol' });
+        const transport = await Category.findOne({ user: user._id, name: 'Transport' });
+        expect(petrol.parent).toEqual(transport._id);
+    });
+
+    it('reuses a category the user already has, whatever its case', async () => {
+        const housing = await Category.create({ user: user._id, name: 'housing' });
+
+        await request(app).post('/api/v1/categories/templates/apply').set('Cookie', [cookie])
+            .send({ template: 'family' });
+
+        expect(await Category.countDocuments({ user: user._id, name: 'Housing' })).toEqual(0);
+        expect((await Category.findOne({ user: user._id, name: 'Mortgage' })).parent).toEqual(housing._id);
+    });
+
+    it('seeds the chosen template at signup', async () => {
+        const res = await request(app).post('/api/v1/auth/signup').send({
+            name: 'New Freelancer',
+            email: 'new-freelancer@test.com',
+            password: 'Password1',
+            country: 'AU',
+            categoryTemplate: 'freelancer'
+        });
+
+        expect(res.statusCode).toEqual(201);
+        const created = await User.findOne({ email: 'new-freelancer@test.com' });
+        expect(created.settings.country).toEqual('AU');
+        expect(await Category.findOne({ user: created._id, name: 'GST' })).not.toBeNull();
+    });
+});
@@ -0,0 +1,93 @@
+/* Category hierarchy: walking the tree, reparenting, and child spending
+ * rolling up into a parent's budget. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Budget = require('../src/models/budget.model');
+const Category = require('../src/models/category.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { descendantsOf, ancestorsOf } = require('../src/services/categoryTree');
+
+const CURRENT_MONTH = new Date().toISOString().slice(0, 7);
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Tree User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('category tree', () => {
+    const tree = [
+        { _id: 'food', parent: null },
+        { _id: 'eating-out', parent: 'food' },
+        { _id: 'coffee', parent: 'eating-out' },
+        { _id: 'groceries', parent: 'food' },
+        { _id: 'rent', parent: null }
+    ];
+
+    it('finds everything below a category', () => {
+        expect(descendantsOf(tree, 'food').sort()).toEqual(['coffee', 'eating-out', 'groceries']);
+        expect(descendantsOf(tree, 'rent')).toEqual([]);
+    });
+
+    it('finds everything above a category, nearest first', () => {
+        expect(ancestorsOf(tree, 'coffee')).toEqual(['eating-out', 'food']);
+        expect(ancestorsOf(tree, 'food')).toEqual([]);
+    });
+
+    it('stops at a loop instead of hanging', () => {
+        const loop = [{ _id: 'a', parent: 'b' }, { _id: 'b', parent: 'a' }];
+        expect(descendantsOf(loop, 'a')).toEqual(['b']);
+        expect(ancestorsOf(loop, 'a')).toEqual(['b']);
+    });
+});
+
+describe('hierarchical categories', () => {
+    let user;
+    let cookie;
+    let food;
+    let restaurants;
+
+    beforeEach(async () => {
+        user = await makeUser('tree@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        food = await Category.create({ user: user._id, name: 'Food' });
+        restaurants = await Category.create({ user: user._id, name: 'Restaurants', parent: food._id });
+    });
+
+    it('creates a category under a parent', async () => {
+        const res = await request(app).post('/api/v1/categories').set('Cookie', [cookie])
+            .send({ name: 'Groceries', parent: String(food._id) });
+
+        expect(res.statusCode).toEqual(201);
+        expect(String(res.body.data.parent)).toEqual(String(food._id));
+    });
+
+    it('refuses to move a category inside its own child', async () => {
+        const res = await request(app).put(`/api/v1/categories/${food._id}`).set('Cookie', [cookie])
+            .send({ parent: String(restaurants._id) });
+        expect(res.statusCode).toEqual(400);
+    });
+
+    it('moves children up a level when their parent is deleted', async () => {
+        await request(app).delete(`/api/v1/categories/${food._id}`).set('Cookie', [cookie]);
+        expect((await Category.findById(restaurants._id)).parent).toBeNull();
+    });
+
+    it('counts spending on a child toward the parent budget', async () => {
+        await Budget.create({
+            user: user._id, month: CURRENT_MONTH, categoryBudgets: [{ category: food._id, amount: 100 }]
+        });
+
+        const { budgetEvents } = await transactionWriter.createTransaction({
+            user: user._id, amount: 120, type: 'expense', category: restaurants._id, date: new Date()
+        });
+
+        expect(budgetEvents).toHaveLength(1);
+        expect(budgetEvents[0]).toMatchObject({ scope: 'category', level: 'exceeded', categoryName: 'Food', spent: 120 });
+    });
+});
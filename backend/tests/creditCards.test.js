@@ -0,0 +1,121 @@
+/* Credit cards: the statement cycle, what a closed statement owes, payments
+ * as transfers into the card, and the due-date reminders. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Notification = require('../src/models/notification.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { lastClosingDate, dueDateAfter, cardStatement, cardStatements } = require('../src/services/creditCard');
+const cardDueReminders = require('../src/jobs/cardDueReminders');
+
+const day = (iso) => new Date(`${iso}T00:00:00.000Z`);
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Card User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('statement cycle', () => {
+    it('closes on the statement day of this month once it has passed', () => {
+        expect(lastClosingDate(14, new Date('2026-03-20T10:00:00Z'))).toEqual(day('2026-03-14'));
+    });
+
+    it('falls back to last month before the statement day', () => {
+        expect(lastClosingDate(14, new Date('2026-03-10T10:00:00Z'))).toEqual(day('2026-02-14'));
+    });
+
+    it('uses the last day of a short month', () => {
+        expect(lastClosingDate(31, new Date('2026-03-05T10:00:00Z'))).toEqual(day('2026-02-28'));
+    });
+
+    it('falls due later the same month, or the next', () => {
+        expect(dueDateAfter(day('2026-03-05'), 25)).toEqual(day('2026-03-25'));
+        expect(dueDateAfter(day('2026-03-14'), 5)).toEqual(day('2026-04-05'));
+        expect(dueDateAfter(day('2026-03-14'), 14)).toEqual(day('2026-04-14'));
+    });
+});
+
+describe('credit card accounts', () => {
+    let user;
+    let cookie;
+    let bank;
+    let card;
+
+    beforeEach(async () => {
+        user = await makeUser('card@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        bank = await Account.create({ user: user._id, name: 'Checking', currency: 'USD', isDefault: true, openingBalance: 2000 });
+        card = await Account.create({
+            user: user._id, name: 'Visa', type: 'card', currency: 'USD', creditLimit: 1000, statementDay: 14, dueDay: 5
+        });
+    });
+
+    const write = (fields) =>
+        transactionWriter.createTransaction({ user: user._id, account: card._id, ...fields });
+
+    it('owes what was spent up to and including the closing day', async () => {
+        await write({ amount: 100, type: 'expense', date: day('2026-03-02') });
+        await write({ amount: 50, type: 'expense', date: new Date('2026-03-14T18:00:00Z') });
+        await write({ amount: 70, type: 'expense', date: day('2026-03-16') });
+
+        const statement = await cardStatement(user._id, card, new Date('2026-03-20T10:00:00Z'));
+        expect(statement).toMatchObject({ statementBalance: 150, paid: 0, remaining: 150, dueDate: day('2026-04-05') });
+    });
+
+    it('counts a transfer from the bank after closing as a payment', async () => {
+        await write({ amount: 150, type: 'expense', date: day('2026-03-02') });
+        await transactionWriter.createTransaction({
+            user: user._id, account: bank._id, transferTo: card._id, amount: 100, type: 'transfer', date: day('2026-03-18')
+        });
+
+        const statement = await cardStatement(user._id, card, new Date('2026-03-20T10:00:00Z'));
+        expect(statement).toMatchObject({ statementBalance: 150, paid: 100, remaining: 50 });
+    });
+
+    it('reads a statement for each card and nothing for other accounts', async () => {
+        await write({ amount: 80, type: 'expense', date: day('2026-03-02') });
+
+        const statements = await cardStatements(user._id, [bank, card], new Date('2026-03-20T10:00:00Z'));
+        expect([...statements.keys()]).toEqual([String(card._id)]);
+        expect(statements.get(String(card._id))).toMatchObject({ statementBalance: 80 });
+    });
+
+    it('lists available credit and the statement with the account', async () => {
+        await write({ amount: 300, type: 'expense', date: new Date() });
+
+        const res = await request(app).get('/api/v1/accounts').set('Cookie', [cookie]);
+        const visa = res.body.data.find((account) => account.name === 'Visa');
+        expect(visa.availableCredit).toEqual(700);
+        expect(visa.statement).toHaveProperty('dueDate');
+
+        const checking = res.body.data.find((account) => account.name === 'Checking');
+        expect(checking).toMatchObject({ availableCredit: null, statement: null });
+    });
+
+    it('reminds once per window before the due date', async () => {
+        await write({ amount: 150, type: 'expense', date: day('2026-03-02') });
+
+        const now = new Date('2026-04-01T10:00:00Z');
+        expect((await cardDueReminders(now)).sent).toEqual(1);
+        expect((await cardDueReminders(now)).sent).toEqual(0);
+
+        const [notification] = await Notification.find({ user: user._id });
+        expect(notification).toMatchObject({ type: 'system' });
+        expect(notification.title).toMatch(/Visa payment is due in 4 days/);
+    });
+
+    it('does not remind about a statement already paid', async () => {
+        await write({ amount: 150, type: 'expense', date: day('2026-03-02') });
+        await transactionWriter.createTransaction({
+            user: user._id, account: bank._id, transferTo: card._id, amount: 150, type: 'transfer', date: day('2026-03-20')
+        });
+
+        expect((await cardDueReminders(new Date('2026-04-01T10:00:00Z'))).sent).toEqual(0);
+    });
+});
@@ -0,0 +1,129 @@
+/* Multi-currency: transactions keep their account's currency and a base
+ * amount converted at the rate on their date, and every total adds up the
+ * base amounts. The rate table is local and maintained by administrators. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Budget = require('../src/models/budget.model');
+const FxRate = require('../src/models/fxRate.model');
+const Transaction = require('../src/models/transaction.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { crossRate, convertAmount, parseRatesCsv } = require('../src/services/fx');
+
+const CURRENT_MONTH = new Date().toISOString().slice(0, 7);
+const inCurrentMonth = () => new Date(`${CURRENT_MONTH}-15T12:00:00.000Z`);
+
+const makeUser = (email, fields = {}) =>
+    User.create({
+        name: 'Currency User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000),
+        ...fields
+    });
+
+describe('rate arithmetic', () => {
+    it('crosses two pivot rates', () => {
+        // 1 EUR = 1.10 USD and 1 GBP = 1.25 USD, so 1 EUR = 0.88 GBP.
+        expect(crossRate(1.1, 1.25)).toEqual(0.88);
+    });
+
+    it('rounds a converted amount to cents', () => {
+        expect(convertAmount(10, 0.33333333)).toEqual(3.33);
+    });
+
+    it('reads a rate CSV by its header, reporting bad rows by line', () => {
+        const { rows, errors } = parseRatesCsv('currency;rate;date\nEUR;1.08;2026-03-01\nXX;1;2026-03-01\nGBP;abc;2026-03-01\n');
+        expect(rows).toHaveLength(1);
+        expect(rows[0]).toMatchObject({ currency: 'EUR', rate: 1.08 });
+        expect(errors.map((e) => e.line)).toEqual([3, 4]);
+    });
+
+    it('insists on a header', () => {
+        expect(parseRatesCsv('2026-03-01,EUR,1.08').errors[0].line).toEqual(1);
+    });
+});
+
+describe('currency conversion', () => {
+    let user;
+    let cookie;
+    let usd;
+    let eur;
+
+    beforeEach(async () => {
+        user = await makeUser('currency@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        usd = await Account.create({ user: user._id, name: 'Checking', currency: 'USD', isDefault: true });
+        eur = await Account.create({ user: user._id, name: 'Euro', currency: 'EUR' });
+        await FxRate.create([
+            { currency: 'EUR', date: new Date('2020-01-01'), rate: 1.1 },
+            { currency: 'EUR', date: new Date(`${CURRENT_MONTH}-10`), rate: 1.2 }
+        ]);
+    });
+
+    const write = async (fields) =>
+        (await transactionWriter.createTransaction({
+            user: user._id, account: usd._id, date: inCurrentMonth(), ...fields
+        })).transaction;
+
+    it('stamps a transaction with the rate on its date', async () => {
+        const dinner = await write({ amount: 50, type: 'expense', account: eur._id });
+        expect(dinner).toMatchObject({ currency: 'EUR', fxRate: 1.2, baseAmount: 60 });
+
+        const old = await write({ amount: 50, type: 'expense', account: eur._id, date: new Date('2021-06-01') });
+        expect(old.baseAmount).toEqual(55);
+    });
+
+    it('refuses a currency with no rate', async () => {
+        const yen = await Account.create({ user: user._id, name: 'Yen', currency: 'JPY' });
+        await expect(write({ amount: 1000, type: 'expense', account: yen._id }))
+            .rejects.toMatchObject({ status: 400 });
+    });
+
+    it('counts base amounts against the budget', async () => {
+        await Budget.create({ user: user._id, month: CURRENT_MONTH, totalBudget: 100 });
+        await write({ amount: 40, type: 'expense' });
+        await write({ amount: 50, type: 'expense', account: eur._id });
+
+        // 40 + 60 + 1 is over a budget of 100; 40 + 50 + 1 would not be.
+        const { budgetEvents } = await transactionWriter.createTransaction({
+            user: user._id, account: usd._id, amount: 1, type: 'expense', date: inCurrentMonth()
+        });
+        expect(budgetEvents[0]).toMatchObject({ scope: 'total', level: 'exceeded', spent: 101 });
+    });
+
+    it('lands a transfer between currencies as the converted amount', async () => {
+        await write({ amount: 120, type: 'transfer', transferTo: eur._id });
+
+        const res = await request(app).get('/api/v1/accounts').set('Cookie', [cookie]);
+        const euro = res.body.data.find((account) => account.name === 'Euro');
+        expect(euro).toMatchObject({ balance: 100, baseBalance: 120 });
+    });
+
+    it('recomputes base amounts when the user changes base currency', async () => {
+        const dinner = await write({ amount: 50, type: 'expense', account: eur._id });
+
+        const res = await request(app).put('/api/v1/users/settings').set('Cookie', [cookie]).send({ currency: 'EUR' });
+        expect(res.statusCode).toEqual(200);
+        expect((await Transaction.findById(dinner._id)).baseAmount).toEqual(50);
+    });
+
+    it('lets only an administrator import rates, and reconverts', async () => {
+        const dinner = await write({ amount: 50, type: 'expense', account: eur._id });
+        const content = `date,currency,rate\n${CURRENT_MONTH}-15,EUR,1.3\n`;
+
+        let res = await request(app).post('/api/v1/fx-rates/import').set('Cookie', [cookie]).send({ content });
+        expect(res.statusCode).toEqual(403);
+
+        const admin = await makeUser('fx-admin@test.com', { role: 'admin' });
+        const adminCookie = `accessToken=${signAccess({ sub: admin._id, role: 'admin' })}`;
+        res = await request(app).post('/api/v1/fx-rates/import').set('Cookie', [adminCookie]).send({ content });
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data.imported).toEqual(1);
+
+        expect((await Transaction.findById(dinner._id)).baseAmount).toEqual(65);
+    });
+});
@@ -0,0 +1,236 @@
+/* Duplicate detection: which pairs are flagged, the review queue, and what
+ * merge, keep both and ignore forever each leave behind. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Attachment = require('../src/models/attachment.model');
+const Notification = require('../src/models/notification.model');
+const Transaction = require('../src/models/transaction.model');
+const TrashedTransaction = require('../src/models/trashedTransaction.model');
+const DuplicateCandidate = require('../src/models/duplicateCandidate.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { findDuplicatePairs, descriptionSimilarity } = require('../src/services/duplicates');
+const findDuplicates = require('../src/jobs/findDuplicates');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Duplicate User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + DAY_MS)
+    });
+
+describe('duplicate pairs', () => {
+    const row = (id, extra = {}) => ({
+        _id: id,
+        account: 'a',
+        type: 'expense',
+        date: new Date('2026-03-01'),
+        amount: 10,
+        description: 'Coffee Shop',
+        ...extra
+    });
+
+    it('pairs rows that agree on account, type, amount, date and description', () => {
+        const pairs = findDuplicatePairs([
+            row('1'),
+            row('2', { date: new Date('2026-03-03'), amount: 10.05, description: 'COFFEE SHOP #4471' })
+        ]);
+        expect(pairs).toHaveLength(1);
+        expect(pairs[0]).toMatchObject({ pairKey: '1:2', similarity: 1 });
+    });
+
+    it('leaves rows apart on any one of them', () => {
+        expect(findDuplicatePairs([row('1'), row('2', { account: 'b' })])).toHaveLength(0);
+        expect(findDuplicatePairs([row('1'), row('2', { type: 'income' })])).toHaveLength(0);
+        expect(findDuplicatePairs([row('1'), row('2', { amount: 12 })])).toHaveLength(0);
+        expect(findDuplicatePairs([row('1'), row('2', { date: new Date('2026-03-08') })])).toHaveLength(0);
+        expect(findDuplicatePairs([row('1'), row('2', { description: 'Hardware store' })])).toHaveLength(0);
+    });
+
+    it('does not flag a daily rule posting on consecutive days', () => {
+        const pairs = findDuplicatePairs([
+            row('1', { recurringId: 'r' }),
+            row('2', { recurringId: 'r', date: new Date('2026-03-02') })
+        ]);
+        expect(pairs).toHaveLength(0);
+    });
+
+    it('skips ignored signatures', () => {
+        const [pair] = findDuplicatePairs([row('1'), row('2')]);
+        expect(findDuplicatePairs([row('3'), row('4')], new Set([pair.signature]))).toHaveLength(0);
+    });
+
+    it('matches a short description inside a longer one', () => {
+        expect(descriptionSimilarity('Amazon', 'AMAZON MKTPLACE 0923')).toEqual(1);
+        expect(descriptionSimilarity('', 'Rent')).toEqual(1);
+        expect(descriptionSimilarity('Rent', 'Groceries')).toEqual(0);
+    });
+});
+
+describe('duplicate review', () => {
+    let user;
+    let cookie;
+    let account;
+
+    beforeEach(async () => {
+        user = await makeUser('duplicates@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        account = await Account.create({ user: user._id, name: 'Main', openingBalance: 100 });
+    });
+
+    const spend = async (amount, extra = {}) =>
+        (await transactionWriter.createTransaction({
+            user: user._id, amount, type: 'expense', account: account._id, description: 'Grocer', ...extra
+        })).transaction;
+
+    const scan = () => request(app).post('/api/v1/duplicates/scan').set('Cookie', [cookie]);
+    const queue = async () => (await request(app).get('/api/v1/duplicates').set('Cookie', [cookie])).body.data;
+
+    it('queues a likely pair once and notifies once', async () => {
+        await spend(25);
+        await spend(25, { date: new Date(Date.now() - DAY_MS), tags: ['weekly'] });
+
+        const first = await scan();
+        expect(first.statusCode).toEqual(200);
+        expect(first.body.data).toMatchObject({ found: 1, pending: 1 });
+
+        const again = await scan();
+        expect(again.body.data).toMatchObject({ found: 0, pending: 1 });
+
+        const items = await queue();
+        expect(items).toHaveLength(1);
+        expect(items[0].transactions.map((t) => t.account.name)).toEqual(['Main', 'Main']);
+
+        const notifications = await Notification.find({ user: user._id, type: 'system' });
+        expect(notifications).toHaveLength(1);
+        expect(notifications[0].meta.href).toEqual('/duplicates');
+    });
+
+    it('merges into the kept row and sends the other to the trash', async () => {
+        const keep = await spend(25);
+        const drop = await spend(25, { tags: ['weekly'] });
+        await Attachment.create({
+            user: user._id, transaction: drop._id, filename: 'r.pdf',
+            contentType: 'application/pdf', size: 10, storageKey: 'k'
+        });
+        await scan();
+        const [candidate] = await queue();
+
+        const res = await request(app).post(`/api/v1/duplicates/${candidate._id}/merge`)
+            .set('Cookie', [cookie]).send({ keep: String(keep._id) });
+
+        expect(res.statusCode).toEqual(200);
+        expect(await Transaction.exists({ _id: drop._id })).toBeNull();
+        expect(await TrashedTransaction.exists({ _id: drop._id })).toBeTruthy();
+        expect((await Transaction.findById(keep._id)).tags).toEqual(['weekly']);
+        expect((await Attachment.findOne({ filename: 'r.pdf' })).transaction).toEqual(keep._id);
+        expect(await queue()).toHaveLength(0);
+
+        // The answered pair is not raised again.
+        expect((await scan()).body.data.found).toEqual(0);
+    });
+
+    it('moves the dropped row\'s refunds to the kept row', async () => {
+        const keep = await spend(25);
+        const drop = await spend(25);
+        const refund = (await transactionWriter.createTransaction({
+            user: user._id, amount: 5, type: 'income', account: account._id, description: 'Returned', refundOf: drop._id
+        })).transaction;
+        await scan();
+        const [candidate] = await queue();
+
+        const res = await request(app).post(`/api/v1/duplicates/${candidate._id}/merge`)
+            .set('Cookie', [cookie]).send({ keep: String(keep._id) });
+
+        expect(res.statusCode).toEqual(200);
+        expect((await Transaction.findById(refund._id)).refundOf).toEqual(keep._id);
+        expect(await Transaction.exists({ _id: drop._id })).toBeNull();
+    });
+
+    it('refuses to merge away a reconciled row', async () => {
+        const keep = await spend(25);
+        const drop = await spend(25);
+        await Transaction.updateOne({ _id: drop._id }, { status: 'reconciled' });
+        await scan();
+        const [candidate] = await queue();
+
+        const res = await request(app).post(`/api/v1/duplicates/${candidate._id}/merge`)
+            .set('Cookie', [cookie]).send({ keep: String(keep._id) });
+
+        expect(res.statusCode).toEqual(409);
+        expect(await Transaction.countDocuments({ user: user._id })).toEqual(2);
+    });
+
+    it('keeps both without asking about that pair again', async () => {
+        await spend(25);
+        await spend(25);
+        await scan();
+        const [candidate] = await queue();
+
+        const res = await request(app).post(`/api/v1/duplicates/${candidate._id}/keep`).set('Cookie', [cookie]);
+
+        expect(res.statusCode).toEqual(200);
+        expect(await Transaction.countDocuments({ user: user._id })).toEqual(2);
+        expect((await scan()).body.data.found).toEqual(0);
+
+        // A third copy is a new question.
+        await spend(25);
+        expect((await scan()).body.data.found).toEqual(2);
+    });
+
+    it('ignores every pair like an ignored one', async () => {
+        await spend(25);
+        await spend(25);
+        await scan();
+        const [candidate] = await queue();
+
+        await request(app).post(`/api/v1/duplicates/${candidate._id}/ignore`).set('Cookie', [cookie]);
+        await spend(25);
+
+        expect((await scan()).body.data.found).toEqual(0);
+        expect(await queue()).toHaveLength(0);
+    });
+
+    it('drops a candidate whose transaction was deleted', async () => {
+        await spend(25);
+        const other = await spend(25);
+        await scan();
+
+        await transactionWriter.deleteTransaction(user._id, other._id);
+
+        expect(await queue()).toHaveLength(0);
+        expect((await scan()).body.data.pending).toEqual(0);
+        expect(await DuplicateCandidate.countDocuments()).toEqual(0);
+    });
+
+    it('does not show or resolve another user\'s candidates', async () => {
+        await spend(25);
+        await spend(25);
+        await scan();
+        const [candidate] = await queue();
+
+        const other = await makeUser('other-duplicates@test.com');
+        const otherCookie = `accessToken=${signAccess({ sub: other._id, role: 'user' })}`;
+
+        const list = await request(app).get('/api/v1/duplicates').set('Cookie', [otherCookie]);
+        expect(list.body.data).toHaveLength(0);
+        const res = await request(app).post(`/api/v1/duplicates/${candidate._id}/keep`).set('Cookie', [otherCookie]);
+        expect(res.statusCode).toEqual(404);
+    });
+
+    it('is found by the background job', async () => {
+        await spend(25);
+        await spend(25);
+
+        const result = await findDuplicates();
+
+        expect(result.found).toEqual(1);
+        expect(await DuplicateCandidate.countDocuments({ user: user._id, status: 'pending' })).toEqual(1);
+    });
+});
@@ -0,0 +1,118 @@
+/* Transaction history: a field-level entry for every create, update and
+ * delete, attributed to whoever (or whatever) made it. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Category = require('../src/models/category.model');
+const Goal = require('../src/models/goal.model');
+const TransactionHistory = require('../src/models/transactionHistory.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { snapshot, diffSnapshots } = require('../src/services/transactionHistory');
+
+const makeUser = (email) =>
+    User.create({
+        name: 'History User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('history diff', () => {
+    it('ignores representation differences and reports real changes', () => {
+        const before = snapshot({ amount: 10, date: new Date('2026-03-01'), tags: ['a'] });
+        const after = snapshot({ amount: 12, date: '2026-03-01T00:00:00.000Z', tags: ['a'], description: '' });
+
+        expect(diffSnapshots(before, after)).toEqual([{ field: 'amount', from: 10, to: 12 }]);
+    });
+});
+
+describe('transaction history', () => {
+    let user;
+    let cookie;
+
+    beforeEach(async () => {
+        user = await makeUser('history@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+    });
+
+    const historyOf = (id, as = cookie) =>
+        request(app).get(`/api/v1/transactions/${id}/history`).set('Cookie', [as]);
+
+    it('records a create and each later change, newest first', async () => {
+        const food = await Category.create({ user: user._id, name: 'Food' });
+        const created = await request(app).post('/api/v1/transactions').set('Cookie', [cookie])
+            .send({ amount: 20, type: 'expense', description: 'Lunch' });
+        const id = created.body.data._id;
+
+        await request(app).put(`/api/v1/transactions/${id}`).set('Cookie', [cookie])
+            .send({ amount: 25, category: String(food._id) });
+
+        const res = await historyOf(id);
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data.map((e) => e.action)).toEqual(['update', 'create']);
+
+        const [update, create] = res.body.data;
+        expect(update.actor).toEqual({ kind: 'user', ref: String(user._id) });
+        expect(update.changes).toEqual([
+            { field: 'amount', from: 20, to: 25 },
+            { field: 'category', from: null, to: String(food._id) }
+        ]);
+        expect(create.changes).toContainEqual({ field: 'description', from: null, to: 'Lunch' });
+    });
+
+    it('does not record a save that changed nothing', async () => {
+        const { transaction } = await transactionWriter.createTransaction({
+            user: user._id, amount: 5, type: 'expense', description: 'Coffee'
+        });
+        await transactionWriter.updateTransaction(user._id, transaction._id, { amount: 5 });
+
+        expect(await TransactionHistory.countDocuments({ transaction: transaction._id })).toEqual(1);
+    });
+
+    it('keeps the history of a deleted transaction', async () => {
+        const { transaction } = await transactionWriter.createTransaction({
+            user: user._id, amount: 8, type: 'expense', description: 'Taxi'
+        });
+        await request(app).delete(`/api/v1/transactions/${transaction._id}`).set('Cookie', [cookie]);
+
+        const res = await historyOf(transaction._id);
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data[0].action).toEqual('delete');
+        expect(res.body.data[0].changes).toContainEqual({ field: 'amount', from: 8, to: null });
+    });
+
+    it('attributes automated entries to what created them', async () => {
+        const goal = await Goal.create({ user: user._id, name: 'Bike', targetAmount: 500, category: 'other' });
+        await request(app).post(`/api/v1/goals/${goal._id}/contribute`).set('Cookie', [cookie])
+            .send({ amount: 50 });
+
+        const entry = await TransactionHistory.findOne({ user: user._id, action: 'create' }).lean();
+        expect(entry.actor.kind).toEqual('goal');
+        expect(String(entry.actor.ref)).toEqual(String(goal._id));
+    });
+
+    it('records tag renames on the transactions they touch', async () => {
+        const { transaction } = await transactionWriter.createTransaction({
+            user: user._id, amount: 30, type: 'expense', tags: ['trip']
+        });
+        const tags = await request(app).get('/api/v1/tags').set('Cookie', [cookie]);
+        await request(app).put(`/api/v1/tags/${tags.body.data[0]._id}`).set('Cookie', [cookie])
+            .send({ name: 'holiday' });
+
+        const res = await historyOf(transaction._id);
+        expect(res.body.data[0].changes).toEqual([{ field: 'tags', from: ['trip'], to: ['holiday'] }]);
+    });
+
+    it('is not visible to other users', async () => {
+        const { transaction } = await transactionWriter.createTransaction({
+            user: user._id, amount: 8, type: 'expense'
+        });
+        const other = await makeUser('history-other@test.com');
+        const otherCookie = `accessToken=${signAccess({ sub: other._id, role: 'user' })}`;
+
+        const res = await historyOf(transaction._id, otherCookie);
+        expect(res.statusCode).toEqual(404);
+    });
+});
@@ -0,0 +1,264 @@
+/* Statement import: the parsers, the preview/commit endpoints, and undo. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Budget = require('../src/models/budget.model');
+const Category = require('../src/models/category.model');
+const Notification = require('../src/models/notification.model');
+const Payee = require('../src/models/payee.model');
+const Transaction = require('../src/models/transaction.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { parseAmount, parseDate, parseStatement } = require('../src/services/statementParser');
+
+const daysAhead = (n) => new Date(Date.now() + n * 24 * 60 * 60 * 1000);
+const CURRENT_MONTH = new Date().toISOString().slice(0, 7);
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Import User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: daysAhead(1)
+    });
+
+describe('statement parsing', () => {
+    it('reads amounts in either separator convention', () => {
+        expect(parseAmount('1,234.56')).toEqual(1234.56);
+        expect(parseAmount('1.234,56')).toEqual(1234.56);
+        expect(parseAmount('-12,50')).toEqual(-12.5);
+        expect(parseAmount('(40.00)')).toEqual(-40);
+        expect(parseAmount('$1,234')).toEqual(1234);
+        expect(Number.isNaN(parseAmount('n/a'))).toBe(true);
+    });
+
+    it('reads day-first and month-first dates as told', () => {
+        expect(parseDate('03/04/2026', 'DD/MM/YYYY').toISOString()).toEqual('2026-04-03T00:00:00.000Z');
+        expect(parseDate('03/04/2026', 'MM/DD/YYYY').toISOString()).toEqual('2026-03-04T00:00:00.000Z');
+        expect(parseDate('2026-02-31')).toBeNull();
+    });
+
+    it('parses CSV with quoted fields and a semicolon delimiter', () => {
+        const csv = 'Date;Amount;Payee\n2026-03-01;-12,50;"Coffee; to go"\n2026-03-02;1000;Salary\n';
+        const { rows, errors, mapping } = parseStatement('csv', csv);
+
+        expect(errors).toEqual([]);
+        expect(mapping).toMatchObject({ date: 'Date', amount: 'Amount', description: 'Payee' });
+        expect(rows).toHaveLength(2);
+        expect(rows[0]).toMatchObject({ amount: -12.5, description: 'Coffee; to go' });
+    });
+
+    it('reports unreadable CSV rows instead of dropping them silently', () => {
+        const { rows, errors } = parseStatement('csv', 'Date,Amount\nyesterday,5\n2026-03-01,0\n');
+
+        expect(rows).toHaveLength(0);
+        expect(errors.map((e) => e.line)).toEqual([2, 3]);
+    });
+
+    it('parses SGML-style OFX', () => {
+        const ofx = [
+            'OFXHEADER:100',
+            '<OFX><BANKTRANLIST>',
+            '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260305120000<TRNAMT>-42.10<NAME>AMZN Mktp</STMTTRN>',
+            '</BANKTRANLIST></OFX>'
+        ].join('\n');
+        const { rows } = parseStatement('ofx', ofx);
+
+        expect(rows).toHaveLength(1);
+        expect(rows[0]).toMatchObject({ amount: -42.1, description: 'AMZN Mktp' });
+        expect(rows[0].date.toISOString()).toEqual('2026-03-05T00:00:00.000Z');
+    });
+
+    it('parses QIF and ignores transfer-account categories', () => {
+        const qif = "!Type:Bank\nD3/7/2026\nT-20.00\nPGrocer\nLFood:Groceries\n^\nD3/8'26\nT100\nPPay\nL[Savings]\n^\n";
+        const { rows } = parseStatement('qif', qif);
+
+        expect(rows).toHaveLength(2);
+        expect(rows[0]).toMatchObject({ amount: -20, description: 'Grocer', categoryName: 'Food' });
+        expect(rows[1]).toMatchObject({ amount: 100, categoryName: '' });
+    });
+});
+
+describe('import endpoints', () => {
+    let user;
+    let cookie;
+
+    beforeEach(async () => {
+        user = await makeUser('import@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+    });
+
+    const csv = [
+        'Date,Amount,Description,Category',
+        `${CURRENT_MONTH}-10,-25.00,Coffee Shop,Food`,
+        `${CURRENT_MONTH}-11,2000,Payroll,`
+    ].join('\n');
+
+    it('previews rows, matches categories by name and flags known duplicates', async () => {
+        const food = await Category.create({ user: user._id, name: 'food' });
+        await transactionWriter.createTransaction({
+            user: user._id, amount: 25, type: 'expense', description: 'coffee  shop',
+            date: new Date(`${CURRENT_MONTH}-10T00:00:00.000Z`)
+        });
+
+        const res = await request(app)
+            .post('/api/v1/imports/preview')
+            .set('Cookie', [cookie])
+            .send({ format: 'csv', content: csv });
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data.rows).toHaveLength(2);
+        expect(res.body.data.duplicates).toEqual(1);
+
+        const [coffee, payroll] = res.body.data.rows;
+        expect(coffee).toMatchObject({ type: 'expense', amount: 25, duplicate: true, category: String(food._id) });
+        expect(payroll).toMatchObject({ type: 'income', amount: 2000, duplicate: false, category: null });
+
+        // Preview never writes.
+        expect(await Transaction.countDocuments({ user: user._id })).toEqual(1);
+    });
+
+    it('accepts a file larger than the global 10kb body limit', async () => {
+        const lines = ['Date,Amount,Description'];
+        for (let i = 0; i < 400; i += 1) lines.push(`${CURRENT_MONTH}-01,-1.00,Row number ${i}`);
+
+        const res = await request(app)
+            .post('/api/v1/imports/preview')
+            .set('Cookie', [cookie])
+            .send({ format: 'csv', content: lines.join('\n') });
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data.rows).toHaveLength(400);
+    });
+
+    it('commits rows through the writer, tagged with the batch id', async () => {
+        await Budget.create({ user: user._id, month: CURRENT_MONTH, totalBudget: 20 });
+
+        const res = await request(app)
+            .post('/api/v1/imports')
+            .set('Cookie', [cookie])
+            .send({
+                format: 'csv',
+                filename: 'march.csv',
+                rows: [
+                    { line: 2, date: `${CURRENT_MONTH}-10`, amount: 25, type: 'expense', description: 'Coffee Shop' },
+                    { line: 3, date: `${CURRENT_MONTH}-11`, amount: 2000, type: 'income', description: 'Payroll' }
+                ]
+            });
+
+        expect(res.statusCode).toEqual(201);
+        expect(res.body.data.imported).toEqual(2);
+
+        const rows = await Transaction.find({ user: user._id });
+        expect(rows).toHaveLength(2);
+        rows.forEach((row) => {
+            expect(row.source).toEqual('import');
+            expect(String(row.importId)).toEqual(String(res.body.data.batch._id));
+            // Default-account resolution applied.
+            expect(row.account).toBeDefined();
+        });
+
+        // The budget check ran like it does for any other write.
+        expect(await Notification.countDocuments({ user: user._id, type: 'budget' })).toEqual(1);
+    });
+
+    it('links rows to payees the user has, without making new ones', async () => {
+        const starbucks = await Payee.create({ user: user._id, name: 'Starbucks', key: 'starbucks' });
+
+        await request(app)
+            .post('/api/v1/imports')
+            .set('Cookie', [cookie])
+            .send({
+                format: 'csv',
+                rows: [
+                    { line: 2, date: `${CURRENT_MONTH}-10`, amount: 5, type: 'expense', description: 'STARBUCKS 0423' },
+                    { line: 3, date: `${CURRENT_MONTH}-11`, amount: 9, type: 'expense', description: 'POS 7781 CORNER DELI' }
+                ]
+            });
+
+        const rows = await Transaction.find({ user: user._id }).sort({ date: 1 });
+        expect(rows.map((row) => row.payee)).toEqual([starbucks._id, undefined]);
+        expect(await Payee.countDocuments({ user: user._id })).toEqual(1);
+    });
+
+    it('drops a category the user does not own', async () => {
+        const other = await makeUser('import-other@test.com');
+        const theirs = await Category.create({ user: other._id, name: 'Theirs' });
+
+        await request(app)
+            .post('/api/v1/imports')
+            .set('Cookie', [cookie])
+            .send({
+                format: 'qif',
+                rows: [{ date: `${CURRENT_MONTH}-10`, amount: 5, type: 'expense', category: String(theirs._id) }]
+            });
+
+        const row = await Transaction.findOne({ user: user._id });
+        expect(row.category).toBeUndefined();
+    });
+
+    it('returns 404 importing into another user\'s account', async () => {
+        const other = await makeUser('import-acct@test.com');
+        const theirs = await Account.create({ user: other._id, name: 'Theirs' });
+
+        const res = await request(app)
+            .post('/api/v1/imports')
+            .set('Cookie', [cookie])
+            .send({
+                format: 'csv',
+                account: String(theirs._id),
+                rows: [{ date: `${CURRENT_MONTH}-10`, amount: 5, type: 'expense' }]
+            });
+
+        expect(res.statusCode).toEqual(404);
+        expect(await Transaction.countDocuments()).toEqual(0);
+    });
+
+    it('undoes a whole import in one call and leaves other rows alone', async () => {
+        await transactionWriter.createTransaction({ user: user._id, amount: 9, type: 'expense', description: 'manual' });
+
+        const commit = await request(app)
+            .post('/api/v1/imports')
+            .set('Cookie', [cookie])
+            .send({
+                format: 'ofx',
+                rows: [
+                    { date: `${CURRENT_MONTH}-10`, amount: 25, type: 'expense' },
+                    { date: `${CURRENT_MONTH}-12`, amount: 30, type: 'expense' }
+                ]
+            });
+
+        const res = await request(app)
+            .delete(`/api/v1/imports/${commit.body.data.batch._id}`)
+            .set('Cookie', [cookie]);
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data.deleted).toEqual(2);
+
+        const remaining = await Transaction.find({ user: user._id });
+        expect(remaining).toHaveLength(1);
+        expect(remaining[0].description).toEqual('manual');
+
+        const list = await request(app).get('/api/v1/imports').set('Cookie', [cookie]);
+        expect(list.body.data[0].status).toEqual('undone');
+    });
+
+    it('returns 404 undoing another user\'s import', async () => {
+        const other = await makeUser('import-undo@test.com');
+        const otherCookie = `accessToken=${signAccess({ sub: other._id, role: 'user' })}`;
+
+        const commit = await request(app)
+            .post('/api/v1/imports')
+            .set('Cookie', [otherCookie])
+            .send({ format: 'csv', rows: [{ date: `${CURRENT_MONTH}-10`, amount: 5, type: 'expense' }] });
+
+        const res = await request(app)
+            .delete(`/api/v1/imports/${commit.body.data.batch._id}`)
+            .set('Cookie', [cookie]);
+
+        expect(res.statusCode).toEqual(404);
+        expect(await Transaction.countDocuments({ user: other._id })).toEqual(1);
+    });
+});
@@ -0,0 +1,123 @@
+/* Investments: positions replayed from trades at average cost, valued at the
+ * latest price; trades move an investment account's cash but count as
+ * neither income nor spending. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const { signAccess } = require('../src/utils/jwt');
+const { replayTrades, firstOversell, valuePositions } = require('../src/services/holdings');
+const { parsePricesCsv } = require('../src/services/investments');
+
+const trade = (side, symbol, quantity, price, fees = 0) => ({ trade: { side, symbol, quantity, price, fees } });
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Investor',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('holdings arithmetic', () => {
+    it('averages the cost of buys, fees included', () => {
+        const positions = replayTrades([trade('buy', 'AAPL', 10, 100, 5), trade('buy', 'AAPL', 10, 120)]);
+        expect(positions.get('AAPL')).toMatchObject({ quantity: 20, costBasis: 2205, realizedGain: 0 });
+    });
+
+    it('realizes a sale against the average cost', () => {
+        const positions = replayTrades([
+            trade('buy', 'AAPL', 10, 100),
+            trade('buy', 'AAPL', 10, 120),
+            trade('sell', 'AAPL', 5, 150, 2)
+        ]);
+        // Average cost 110; 5 × 150 − 2 proceeds less 550 cost.
+        expect(positions.get('AAPL')).toMatchObject({ quantity: 15, costBasis: 1650, realizedGain: 198 });
+    });
+
+    it('values at the latest price, or at cost when there is none', () => {
+        const positions = replayTrades([trade('buy', 'AAPL', 10, 100), trade('buy', 'VWCE.DE', 2, 50)]);
+        const valued = valuePositions(positions, new Map([['AAPL', { price: 130, date: new Date() }]]));
+
+        expect(valued.find((p) => p.symbol === 'AAPL')).toMatchObject({ marketValue: 1300, unrealizedGain: 300 });
+        expect(valued.find((p) => p.symbol === 'VWCE.DE')).toMatchObject({ price: null, marketValue: 100, unrealizedGain: 0 });
+    });
+
+    it('finds the first sell of more than is held at that point', () => {
+        const late = trade('sell', 'AAPL', 8, 120);
+        expect(firstOversell([trade('buy', 'AAPL', 10, 100), trade('sell', 'AAPL', 5, 110), late]))
+            .toEqual({ trade: late, held: 5 });
+        expect(firstOversell([trade('buy', 'AAPL', 10, 100), trade('sell', 'MSFT', 1, 50)]).held).toEqual(0);
+        expect(firstOversell([trade('buy', 'AAPL', 10, 100), trade('sell', 'AAPL', 10, 110)])).toBeNull();
+    });
+
+    it('parses a price file and reports the rows it cannot read', () => {
+        const { rows, errors } = parsePricesCsv('symbol,date,price\naapl,2026-03-02,181.5\nAAPL,someday,180\nMSFT,2026-03-02,\n');
+
+        expect(rows).toEqual([expect.objectContaining({ symbol: 'AAPL', price: 181.5, line: 2 })]);
+        expect(errors.map((e) => e.line)).toEqual([3, 4]);
+    });
+});
+
+describe('investment accounts', () => {
+    let user;
+    let cookie;
+    let broker;
+
+    beforeEach(async () => {
+        user = await makeUser('investor@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        broker = await Account.create({ user: user._id, name: 'Brokerage', type: 'investment', currency: 'USD', openingBalance: 5000 });
+    });
+
+    const buy = (body) =>
+        request(app).post(`/api/v1/investments/accounts/${broker._id}/trades`).set('Cookie', [cookie])
+            .send({ side: 'buy', ...body });
+
+    it('moves cash into holdings, keeping the balance whole', async () => {
+        const res = await buy({ symbol: 'aapl', quantity: 10, price: 100, fees: 5 });
+        expect(res.statusCode).toEqual(201);
+        expect(res.body.data).toMatchObject({ type: 'trade', amount: 1005, trade: { symbol: 'AAPL' } });
+
+        const accounts = (await request(app).get('/api/v1/accounts').set('Cookie', [cookie])).body.data;
+        expect(accounts[0]).toMatchObject({ cashBalance: 3995, marketValue: 1000, balance: 4995 });
+    });
+
+    it('revalues holdings at a newer price', async () => {
+        await buy({ symbol: 'AAPL', quantity: 10, price: 100, date: '2026-03-01' });
+        await request(app).post('/api/v1/investments/prices').set('Cookie', [cookie])
+            .send({ symbol: 'AAPL', date: '2026-03-05', price: 150 });
+
+        const res = await request(app).get('/api/v1/investments/portfolio').set('Cookie', [cookie]);
+        expect(res.body.data.totals).toMatchObject({ costBasis: 1000, marketValue: 1500, unrealizedGain: 500 });
+        expect(res.body.data.allocation).toEqual([{ symbol: 'AAPL', marketValue: 1500, share: 100 }]);
+    });
+
+    it('refuses to sell more than is held', async () => {
+        await buy({ symbol: 'AAPL', quantity: 10, price: 100 });
+
+        const res = await request(app).post(`/api/v1/investments/accounts/${broker._id}/trades`).set('Cookie', [cookie])
+            .send({ side: 'sell', symbol: 'AAPL', quantity: 11, price: 100 });
+        expect(res.statusCode).toEqual(400);
+    });
+
+    it('refuses a sell that leaves too little for a later one', async () => {
+        const sell = (body) => request(app).post(`/api/v1/investments/accounts/${broker._id}/trades`)
+            .set('Cookie', [cookie]).send({ side: 'sell', ...body });
+        await buy({ symbol: 'AAPL', quantity: 10, price: 100, date: '2026-01-05' });
+        await sell({ symbol: 'AAPL', quantity: 10, price: 120, date: '2026-03-05' });
+
+        const res = await sell({ symbol: 'AAPL', quantity: 4, price: 110, date: '2026-02-05' });
+        expect(res.statusCode).toEqual(400);
+        expect(res.body.message).toContain('2026-03-05');
+    });
+
+    it('lists trades as their own type, not as spending', async () => {
+        await buy({ symbol: 'AAPL', quantity: 10, price: 100 });
+
+        const list = (type) => request(app).get(`/api/v1/transactions?type=${type}`).set('Cookie', [cookie]);
+        expect((await list('expense')).body.data).toHaveLength(0);
+        expect((await list('trade')).body.data).toHaveLength(1);
+    });
+});
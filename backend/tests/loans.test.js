@@ -0,0 +1,147 @@
+/* Loans: the amortization arithmetic, and payments that split into an
+ * interest expense and a principal transfer into the loan. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Category = require('../src/models/category.model');
+const Transaction = require('../src/models/transaction.model');
+const TrashedTransaction = require('../src/models/trashedTransaction.model');
+const TransactionHistory = require('../src/models/transactionHistory.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { paymentFor, amortizationSchedule, loanSummary } = require('../src/services/amortization');
+
+const day = (iso) => new Date(`${iso}T00:00:00.000Z`);
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Loan User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('amortization', () => {
+    const carLoan = {
+        type: 'loan', principal: 10000, interestRate: 6, termMonths: 12, paymentDay: 5, startDate: day('2026-01-10')
+    };
+
+    it('computes the fixed payment, rounded up to the cent', () => {
+        expect(paymentFor(10000, 6, 12)).toEqual(860.67);
+        expect(paymentFor(1200, 0, 12)).toEqual(100);
+    });
+
+    it('repays the principal exactly over the term', () => {
+        const rows = amortizationSchedule({
+            balance: 10000, interestRate: 6, payment: 860.67, firstDate: day('2026-02-05'), paymentDay: 5
+        });
+
+        expect(rows).toHaveLength(12);
+        expect(rows[0]).toMatchObject({ interest: 50, principal: 810.67, balance: 9189.33 });
+        expect(rows[11].balance).toEqual(0);
+        expect(rows.reduce((total, row) => total + row.principal, 0)).toBeCloseTo(10000, 2);
+    });
+
+    it('summarises a new loan from its first payment', () => {
+        const summary = loanSummary(carLoan, -10000, new Date('2026-01-20T12:00:00Z'));
+        expect(summary).toMatchObject({
+            monthlyPayment: 860.67, remainingBalance: 10000, totalInterest: 327.96, paymentsLeft: 12
+        });
+        expect(summary.payoffDate).toEqual(day('2027-01-05'));
+    });
+
+    it('recomputes what is left from the current balance', () => {
+        const summary = loanSummary(carLoan, -5000, new Date('2026-06-20T12:00:00Z'));
+        expect(summary).toMatchObject({ remainingBalance: 5000, paymentsLeft: 6 });
+        expect(summary.nextPayment).toMatchObject({ date: day('2026-07-05'), interest: 25 });
+    });
+
+    it('is null for any other account', () => {
+        expect(loanSummary({ type: 'bank' }, 100)).toBeNull();
+    });
+});
+
+describe('loan accounts', () => {
+    let user;
+    let cookie;
+    let bank;
+
+    beforeEach(async () => {
+        user = await makeUser('loan@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        bank = await Account.create({ user: user._id, name: 'Checking', currency: 'USD', isDefault: true, openingBalance: 5000 });
+    });
+
+    const openLoan = () =>
+        request(app).post('/api/v1/accounts').set('Cookie', [cookie]).send({
+            name: 'Car loan', type: 'loan', currency: 'USD', principal: 10000, interestRate: 6, termMonths: 12, paymentDay: 5
+        });
+
+    it('opens owing the principal', async () => {
+        const res = await openLoan();
+
+        expect(res.statusCode).toEqual(201);
+        expect(res.body.data).toMatchObject({ balance: -10000, loan: { remainingBalance: 10000, monthlyPayment: 860.67 } });
+    });
+
+    it('requires the loan terms', async () => {
+        const res = await request(app).post('/api/v1/accounts').set('Cookie', [cookie])
+            .send({ name: 'Mortgage', type: 'loan', principal: 200000 });
+        expect(res.statusCode).toEqual(400);
+    });
+
+    it('splits a payment into interest spent and principal repaid', async () => {
+        const loan = (await openLoan()).body.data;
+
+        const res = await request(app).post(`/api/v1/accounts/${loan._id}/loan-payments`).set('Cookie', [cookie])
+            .send({ from: String(bank._id) });
+        expect(res.statusCode).toEqual(201);
+        expect(res.body.data).toMatchObject({ interest: 50, principal: 810.67 });
+
+        const interest = await Transaction.findOne({ user: user._id, type: 'expense' });
+        expect(interest.account).toEqual(bank._id);
+        expect((await Category.findById(interest.category)).name).toEqual('Loan interest');
+
+        const accounts = (await request(app).get('/api/v1/accounts').set('Cookie', [cookie])).body.data;
+        expect(accounts.find((a) => a.name === 'Car loan').balance).toEqual(-9189.33);
+        expect(accounts.find((a) => a.name === 'Checking').balance).toEqual(4139.33);
+    });
+
+    it('records neither half of a payment when the interest cannot be written', async () => {
+        const loan = (await openLoan()).body.data;
+        const create = transactionWriter.createTransaction;
+        const spy = vi.spyOn(transactionWriter, 'createTransaction').mockImplementation((input) => (
+            input.type === 'expense' ? Promise.reject(new Error('write failed')) : create(input)
+        ));
+
+        try {
+            const res = await request(app).post(`/api/v1/accounts/${loan._id}/loan-payments`).set('Cookie', [cookie])
+                .send({ from: String(bank._id) });
+            expect(res.statusCode).toEqual(500);
+        } finally {
+            spy.mockRestore();
+        }
+
+        expect(await Transaction.countDocuments({ user: user._id })).toEqual(0);
+        // Not in the trash, where half a payment could be restored.
+        expect(await TrashedTransaction.countDocuments({ user: user._id })).toEqual(0);
+        expect(await TransactionHistory.countDocuments({ user: user._id })).toEqual(0);
+        const accounts = (await request(app).get('/api/v1/accounts').set('Cookie', [cookie])).body.data;
+        expect(accounts.find((a) => a.name === 'Car loan').balance).toEqual(-10000);
+    });
+
+    it('returns the remaining schedule', async () => {
+        const loan = (await openLoan()).body.data;
+
+        const res = await request(app).get(`/api/v1/accounts/${loan._id}/amortization`).set('Cookie', [cookie]);
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data.schedule).toHaveLength(12);
+    });
+
+    it('refuses a schedule for an account that is not a loan', async () => {
+        const res = await request(app).get(`/api/v1/accounts/${bank._id}/amortization`).set('Cookie', [cookie]);
+        expect(res.statusCode).toEqual(400);
+    });
+});
@@ -0,0 +1,97 @@
+/* Net worth: daily snapshots rebuilt from transactions, the job that takes
+ * them, and the history endpoint with its month-over-month change. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const NetWorthSnapshot = require('../src/models/netWorthSnapshot.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { summarize, lastOfEachMonth, monthOverMonth, buildSnapshots } = require('../src/services/netWorth');
+const netWorthSnapshots = require('../src/jobs/netWorthSnapshots');
+
+const day = (iso) => new Date(`${iso}T00:00:00.000Z`);
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Net Worth User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('net worth arithmetic', () => {
+    it('splits balances into assets and liabilities', () => {
+        const totals = summarize([{ baseBalance: 1200 }, { baseBalance: -450.5 }, { baseBalance: null }]);
+        expect(totals).toEqual({ assets: 1200, liabilities: 450.5, netWorth: 749.5 });
+    });
+
+    it('keeps the last point of each month', () => {
+        const points = [day('2026-01-05'), day('2026-01-31'), day('2026-02-10')].map((date) => ({ date }));
+        expect(lastOfEachMonth(points).map((p) => p.date)).toEqual([day('2026-01-31'), day('2026-02-10')]);
+    });
+
+    it('measures the change against a month earlier', () => {
+        const change = monthOverMonth(
+            { date: day('2026-03-15'), netWorth: 1100 },
+            { date: day('2026-02-15'), netWorth: 1000 }
+        );
+        expect(change).toEqual({ since: day('2026-02-15'), amount: 100, percent: 10 });
+        expect(monthOverMonth({ netWorth: 1 }, null)).toBeNull();
+    });
+});
+
+describe('net worth history', () => {
+    let user;
+    let cookie;
+    let bank;
+    let card;
+
+    beforeEach(async () => {
+        user = await makeUser('networth@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        bank = await Account.create({ user: user._id, name: 'Checking', currency: 'USD', isDefault: true });
+        card = await Account.create({ user: user._id, name: 'Visa', type: 'card', currency: 'USD' });
+    });
+
+    it('rebuilds past days from the transactions dated by then', async () => {
+        await transactionWriter.createTransaction({ user: user._id, amount: 1000, type: 'income', account: bank._id, date: day('2026-01-05') });
+        await transactionWriter.createTransaction({ user: user._id, amount: 300, type: 'expense', account: card._id, date: day('2026-01-10') });
+
+        const snapshots = await buildSnapshots(user._id, day('2026-01-04'), day('2026-01-10'));
+
+        expect(snapshots).toHaveLength(7);
+        expect(snapshots[0]).toMatchObject({ netWorth: 0, accounts: [] });
+        expect(snapshots[1]).toMatchObject({ assets: 1000, liabilities: 0, netWorth: 1000 });
+        expect(snapshots[6]).toMatchObject({ assets: 1000, liabilities: 300, netWorth: 700 });
+    });
+
+    it('takes one snapshot a day however often the job runs', async () => {
+        const now = new Date();
+        await netWorthSnapshots(now);
+        await transactionWriter.createTransaction({ user: user._id, amount: 50, type: 'income', account: bank._id });
+        await netWorthSnapshots(now);
+
+        const snapshots = await NetWorthSnapshot.find({ user: user._id });
+        expect(snapshots).toHaveLength(1);
+        expect(snapshots[0].netWorth).toEqual(50);
+    });
+
+    it('returns the history ending on today, with the change over a month', async () => {
+        const today = day(new Date().toISOString().slice(0, 10));
+        const monthAgo = new Date(today);
+        monthAgo.setUTCMonth(monthAgo.getUTCMonth() - 1);
+        await NetWorthSnapshot.create({
+            user: user._id, date: monthAgo, currency: 'USD', assets: 100, liabilities: 0, netWorth: 100
+        });
+        await transactionWriter.createTransaction({ user: user._id, amount: 150, type: 'income', account: bank._id });
+
+        const res = await request(app).get('/api/v1/net-worth').set('Cookie', [cookie]);
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data.points).toHaveLength(2);
+        expect(res.body.data.points[1].netWorth).toEqual(150);
+        expect(res.body.data.change).toMatchObject({ amount: 50, percent: 50 });
+    });
+});
@@ -135,6 +135,58 @@ describe('budget notifications', () => {
     });
 });
 
+describe('budget alert resolution', () => {
+    let user;
+
+    beforeEach(async () => {
+        user = await makeUser('notify-resolve@test.com');
+        await Budget.create({ user: user._id, month: CURRENT_MONTH, totalBudget: 1000 });
+    });
+
+    const spend = async (amount, date = inCurrentMonth()) =>
+        (await transactionWriter.createTransaction({ user: user._id, amount, type: 'expense', date })).transaction;
+
+    const overBudget = () => Notification.findOne({ user: user._id, title: /Over budget/ });
+
+    it('resolves the alert when a delete brings the month back under', async () => {
+        await spend(600);
+        const second = await spend(500);
+
+        await transactionWriter.deleteTransaction(user._id, second._id);
+
+        const alert = await overBudget();
+        expect(alert.meta).toMatchObject({ resolved: true, spent: 600 });
+        expect(await Notification.countDocuments({ user: user._id, title: /Back under budget/ })).toEqual(1);
+    });
+
+    it('re-evaluates the month an edit moved a row out of', async () => {
+        await spend(600);
+        const second = await spend(500);
+
+        await transactionWriter.updateTransaction(user._id, second._id, { date: new Date('2020-01-15T12:00:00.000Z') });
+
+        expect((await overBudget()).meta.resolved).toBe(true);
+    });
+
+    it('leaves the alert open while the month is still over', async () => {
+        await spend(1100);
+        const small = await spend(50);
+
+        await transactionWriter.deleteTransaction(user._id, small._id);
+
+        expect((await overBudget()).meta.resolved).toBeUndefined();
+    });
+
+    it('alerts again when the month goes back over', async () => {
+        await spend(600);
+        const second = await spend(500);
+        await transactionWriter.deleteTransaction(user._id, second._id);
+        await spend(500);
+
+        expect(await Notification.countDocuments({ user: user._id, title: /Over budget/ })).toEqual(2);
+    });
+});
+
 describe('goalReminders job', () => {
     let user;
 
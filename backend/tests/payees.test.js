@@ -0,0 +1,147 @@
+/* Payees: names suggested by descriptions, alias matching, and keeping
+ * transactions linked as payees are edited, merged and deleted. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Payee = require('../src/models/payee.model');
+const Transaction = require('../src/models/transaction.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { payeeNameFrom, compilePayees, matchPayee } = require('../src/services/payees');
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Payee User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('payee matching', () => {
+    it('strips terminal references and numbers from a suggested name', () => {
+        expect(payeeNameFrom('AMZN Mktp US*2K4')).toEqual('AMZN Mktp US');
+        expect(payeeNameFrom('POS 1234 SHELL OIL 5678')).toEqual('Pos Shell Oil');
+        expect(payeeNameFrom('Amazon.com')).toEqual('Amazon.com');
+        expect(payeeNameFrom('123456')).toEqual('');
+    });
+
+    it('matches whole words, with * as a wildcard, longest pattern first', () => {
+        const matchers = compilePayees([
+            { _id: 'amazon', name: 'Amazon', aliases: ['AMZN*'] },
+            { _id: 'shell', name: 'Shell', aliases: [] },
+            { _id: 'uber', name: 'Uber', aliases: [] },
+            { _id: 'eats', name: 'Uber Eats', aliases: [] }
+        ]);
+        expect(matchPayee(matchers, 'AMZN Mktp US*2K4')).toEqual('amazon');
+        expect(matchPayee(matchers, 'amazon.com')).toEqual('amazon');
+        expect(matchPayee(matchers, 'Shellfish Co')).toBeNull();
+        expect(matchPayee(matchers, 'UBER EATS 88')).toEqual('eats');
+        expect(matchPayee(matchers, 'Uber trip')).toEqual('uber');
+    });
+});
+
+describe('payees', () => {
+    let user;
+    let cookie;
+    let account;
+
+    beforeEach(async () => {
+        user = await makeUser('payees@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        account = await Account.create({ user: user._id, name: 'Main' });
+    });
+
+    const spend = async (description, extra = {}) =>
+        (await transactionWriter.createTransaction({
+            user: user._id, amount: 10, type: 'expense', account: account._id, description, ...extra
+        })).transaction;
+
+    it('links a new transaction to a payee, creating one when none matches', async () => {
+        const first = await spend('STARBUCKS 0423');
+        const second = await spend('Starbucks Seattle');
+
+        const payees = await Payee.find({ user: user._id });
+        expect(payees.map((p) => p.name)).toEqual(['Starbucks']);
+        expect(first.payee).toEqual(payees[0]._id);
+        expect(second.payee).toEqual(payees[0]._id);
+    });
+
+    it('leaves transfers without a payee', async () => {
+        const savings = await Account.create({ user: user._id, name: 'Savings' });
+        const transfer = await spend('To savings', { type: 'transfer', transferTo: savings._id });
+        expect(transfer.payee).toBeUndefined();
+    });
+
+    it('re-links when the description changes', async () => {
+        const trx = await spend('Starbucks');
+        const { transaction } = await transactionWriter.updateTransaction(user._id, trx._id, { description: 'Costco' });
+        const costco = await Payee.findOne({ user: user._id, key: 'costco' });
+        expect(transaction.payee).toEqual(costco._id);
+    });
+
+    it('merges one payee into another, aliases and all', async () => {
+        await spend('AMZN Mktp US*2K4');
+        await spend('Amazon.com');
+        const [amzn, amazon] = await Promise.all([
+            Payee.findOne({ key: 'amzn mktp us' }),
+            Payee.findOne({ key: 'amazon.com' })
+        ]);
+
+        const res = await request(app).post(`/api/v1/payees/${amzn._id}/merge`).set('Cookie', [cookie])
+            .send({ into: String(amazon._id) });
+
+        expect(res.statusCode).toEqual(200);
+        expect(await Payee.exists({ _id: amzn._id })).toBeNull();
+        expect(await Transaction.countDocuments({ payee: amazon._id })).toEqual(2);
+
+        const later = await spend('AMZN Mktp US*9Z1');
+        expect(later.payee).toEqual(amazon._id);
+    });
+
+    it('re-links existing transactions when an alias is added', async () => {
+        await spend('AMZN Mktp US*2K4');
+        const res = await request(app).post('/api/v1/payees').set('Cookie', [cookie])
+            .send({ name: 'Amazon', aliases: ['AMZN*'] });
+
+        expect(res.statusCode).toEqual(201);
+        expect(res.body.data.linked).toEqual(1);
+        const amazon = await Payee.findOne({ key: 'amazon' });
+        expect(await Transaction.countDocuments({ payee: amazon._id })).toEqual(1);
+    });
+
+    it('lists payees with their spending', async () => {
+        await spend('Starbucks');
+        await spend('Starbucks');
+        await Transaction.create({ user: user._id, amount: 5, type: 'expense', account: account._id, description: 'Old row' });
+
+        const res = await request(app).get('/api/v1/payees').set('Cookie', [cookie]);
+
+        expect(res.body.data).toHaveLength(1);
+        expect(res.body.data[0]).toMatchObject({ name: 'Starbucks', count: 2, spent: 20 });
+        expect(res.body.meta.unlinked).toEqual(1);
+
+        const link = await request(app).post('/api/v1/payees/link').set('Cookie', [cookie]);
+        expect(link.body.data.linked).toEqual(1);
+    });
+
+    it('unlinks on delete without bringing the payee back', async () => {
+        const trx = await spend('Starbucks');
+        const res = await request(app).delete(`/api/v1/payees/${trx.payee}`).set('Cookie', [cookie]);
+
+        expect(res.statusCode).toEqual(200);
+        expect((await Transaction.findById(trx._id)).payee).toBeUndefined();
+        expect(await Payee.countDocuments({ user: user._id })).toEqual(0);
+    });
+
+    it('refuses another user\'s payee', async () => {
+        const other = await makeUser('other-payees@test.com');
+        const theirs = await Payee.create({ user: other._id, name: 'Theirs', key: 'theirs' });
+
+        const res = await request(app).post('/api/v1/transactions').set('Cookie', [cookie])
+            .send({ amount: 5, type: 'expense', description: 'x', payee: String(theirs._id) });
+
+        expect(res.statusCode).toEqual(404);
+    });
+});
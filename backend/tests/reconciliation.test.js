@@ -0,0 +1,140 @@
+/* Reconciliation: cleared and reconciled balances, the session arithmetic,
+ * and the lock on reconciled rows. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Transaction = require('../src/models/transaction.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { signedAmount } = require('../src/services/reconciliation');
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Reconcile User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('signed amounts', () => {
+    it('counts a transfer out of one account and into the other', () => {
+        const trx = { type: 'transfer', amount: 40, account: 'a', transferTo: 'b' };
+        expect(signedAmount(trx, 'a')).toEqual(-40);
+        expect(signedAmount(trx, 'b')).toEqual(40);
+        expect(signedAmount({ type: 'expense', amount: 5 }, 'a')).toEqual(-5);
+    });
+});
+
+describe('reconciliation', () => {
+    let user;
+    let cookie;
+    let account;
+
+    beforeEach(async () => {
+        user = await makeUser('reconcile@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        account = await Account.create({ user: user._id, name: 'Checking', openingBalance: 100 });
+    });
+
+    const url = (suffix = '') => `/api/v1/accounts/${account._id}/reconciliation${suffix}`;
+    const add = async (amount, type, date = '2026-01-10') =>
+        (await transactionWriter.createTransaction({
+            user: user._id, amount, type, account: account._id, date: new Date(date)
+        })).transaction;
+    const tick = (ids, cleared = true) =>
+        request(app).put(url('/cleared')).set('Cookie', [cookie]).send({ ids: ids.map(String), cleared });
+
+    it('balances ticked rows against the statement and locks them on finish', async () => {
+        const pay = await add(500, 'income');
+        const rent = await add(300, 'expense');
+        await add(20, 'expense'); // not on the statement yet
+
+        await request(app).post(url()).set('Cookie', [cookie])
+            .send({ statementDate: '2026-01-31', statementBalance: 300 });
+        const ticked = await tick([pay._id, rent._id]);
+
+        expect(ticked.body.data.clearedBalance).toEqual(300);
+        expect(ticked.body.data.difference).toEqual(0);
+
+        const done = await request(app).post(url('/finish')).set('Cookie', [cookie]);
+        expect(done.statusCode).toEqual(200);
+        expect(done.body.data.reconciled).toEqual(2);
+        expect(done.body.data.account).toMatchObject({ balance: 280, clearedBalance: 300, reconciledBalance: 300 });
+        expect(new Date(done.body.data.account.lastReconciledAt).toISOString().slice(0, 10)).toEqual('2026-01-31');
+        expect((await Transaction.findById(rent._id)).status).toEqual('reconciled');
+    });
+
+    it('refuses to finish while there is a difference', async () => {
+        const pay = await add(500, 'income');
+        await request(app).post(url()).set('Cookie', [cookie])
+            .send({ statementDate: '2026-01-31', statementBalance: 550 });
+        await tick([pay._id]);
+
+        const res = await request(app).post(url('/finish')).set('Cookie', [cookie]);
+        expect(res.statusCode).toEqual(400);
+        expect((await Transaction.findById(pay._id)).status).toEqual('cleared');
+    });
+
+    it('locks the money on a reconciled row until it is explicitly unlocked', async () => {
+        const rent = await add(300, 'expense');
+        await Transaction.updateOne({ _id: rent._id }, { status: 'reconciled' });
+        const put = (body) => request(app).put(`/api/v1/transactions/${rent._id}`).set('Cookie', [cookie]).send(body);
+
+        expect((await put({ amount: 310 })).statusCode).toEqual(409);
+        expect((await put({ amount: 300, description: 'Rent' })).statusCode).toEqual(200);
+        expect((await request(app).delete(`/api/v1/transactions/${rent._id}`).set('Cookie', [cookie])).statusCode)
+            .toEqual(409);
+        expect((await put({ amount: 310, status: 'cleared' })).statusCode).toEqual(200);
+    });
+
+    it('keeps the status a new transaction is created with, but never reconciled', async () => {
+        const post = (status) => request(app).post('/api/v1/transactions').set('Cookie', [cookie])
+            .send({ amount: 12, type: 'expense', account: String(account._id), status });
+
+        const cleared = await post('cleared');
+        expect(cleared.statusCode).toEqual(201);
+        expect((await Transaction.findById(cleared.body.data._id)).status).toEqual('cleared');
+        expect((await post('reconciled')).statusCode).toEqual(400);
+    });
+
+    it('reconciles each side of a transfer against its own statement', async () => {
+        const savings = await Account.create({ user: user._id, name: 'Savings' });
+        const { transaction: transfer } = await transactionWriter.createTransaction({
+            user: user._id, amount: 40, type: 'transfer', account: account._id, transferTo: savings._id,
+            date: new Date('2026-01-10')
+        });
+
+        await request(app).post(url()).set('Cookie', [cookie])
+            .send({ statementDate: '2026-01-31', statementBalance: 60 });
+        await tick([transfer._id]);
+        expect((await request(app).post(url('/finish')).set('Cookie', [cookie])).statusCode).toEqual(200);
+
+        const savingsUrl = `/api/v1/accounts/${savings._id}/reconciliation`;
+        const view = await request(app).post(savingsUrl).set('Cookie', [cookie])
+            .send({ statementDate: '2026-01-31', statementBalance: 40 });
+        expect(view.body.data.account.reconciledBalance).toEqual(0);
+        expect(view.body.data.transactions).toEqual([expect.objectContaining({ status: 'pending', amount: 40 })]);
+
+        const stored = await Transaction.findById(transfer._id);
+        expect(stored).toMatchObject({ status: 'reconciled', transferStatus: 'pending' });
+        expect((await request(app).put(`/api/v1/transactions/${transfer._id}`).set('Cookie', [cookie])
+            .send({ amount: 45 })).statusCode).toEqual(409);
+
+        await request(app).put(`${savingsUrl}/cleared`).set('Cookie', [cookie])
+            .send({ ids: [String(transfer._id)], cleared: true });
+        expect((await request(app).post(`${savingsUrl}/finish`).set('Cookie', [cookie])).statusCode).toEqual(200);
+        expect((await Transaction.findById(transfer._id)).transferStatus).toEqual('reconciled');
+    });
+
+    it('only ticks rows of the account being reconciled', async () => {
+        const other = await Account.create({ user: user._id, name: 'Savings' });
+        const { transaction } = await transactionWriter.createTransaction({
+            user: user._id, amount: 5, type: 'expense', account: other._id
+        });
+
+        const res = await tick([transaction._id]);
+        expect(res.statusCode).toEqual(404);
+    });
+});
@@ -0,0 +1,208 @@
+/* Refunds and reimbursements: a linked refund is filed under its expense's
+ * category, nets against that category's spending instead of counting as
+ * income, and settles a reimbursable expense. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Budget = require('../src/models/budget.model');
+const Category = require('../src/models/category.model');
+const Transaction = require('../src/models/transaction.model');
+const FxRate = require('../src/models/fxRate.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { checkBudgets } = require('../src/services/budgetCheck');
+const { refundCategory } = require('../src/services/refunds');
+
+const CURRENT_MONTH = new Date().toISOString().slice(0, 7);
+const inCurrentMonth = () => new Date(`${CURRENT_MONTH}-15T12:00:00.000Z`);
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Refund User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('refund category', () => {
+    it('takes the category of an unsplit expense', () => {
+        expect(refundCategory({ amount: 80, category: 'clothes' }, 20))
+            .toEqual({ category: 'clothes', splits: [] });
+    });
+
+    it('scales a split expense, the last part taking the rounding', () => {
+        const expense = {
+            amount: 90,
+            splits: [
+                { category: 'food', amount: 30 },
+                { category: 'home', amount: 30 },
+                { category: 'kids', amount: 30 }
+            ]
+        };
+        const { splits } = refundCategory(expense, 10);
+        expect(splits.map((part) => part.amount)).toEqual([3.33, 3.33, 3.34]);
+        expect(splits.map((part) => part.category)).toEqual(['food', 'home', 'kids']);
+    });
+
+    it('falls back to the largest part when a split would round to nothing', () => {
+        const expense = {
+            amount: 100,
+            splits: [{ category: 'food', amount: 99 }, { category: 'bags', amount: 1 }]
+        };
+        expect(refundCategory(expense, 0.2)).toEqual({ category: 'food', splits: [] });
+    });
+});
+
+describe('refunds', () => {
+    let user;
+    let cookie;
+    let account;
+    let clothes;
+
+    beforeEach(async () => {
+        user = await makeUser('refunds@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        account = await Account.create({ user: user._id, name: 'Main' });
+        clothes = await Category.create({ user: user._id, name: 'Clothes' });
+    });
+
+    const write = async (fields) =>
+        (await transactionWriter.createTransaction({
+            user: user._id, account: account._id, date: inCurrentMonth(), ...fields
+        })).transaction;
+
+    it('files a refund under the expense\'s category', async () => {
+        const jacket = await write({ amount: 80, type: 'expense', category: clothes._id });
+        const refund = await write({ amount: 80, type: 'income', refundOf: jacket._id });
+
+        expect(refund.category).toEqual(clothes._id);
+        expect(refund.refundOf).toEqual(jacket._id);
+    });
+
+    it('nets a refund against the category budget', async () => {
+        await Budget.create({
+            user: user._id, month: CURRENT_MONTH, totalBudget: 1000,
+            categoryBudgets: [{ category: clothes._id, amount: 100 }]
+        });
+        const jacket = await write({ amount: 80, type: 'expense', category: clothes._id });
+        await write({ amount: 80, type: 'income', refundOf: jacket._id });
+        const shoes = await write({ amount: 90, type: 'expense', category: clothes._id });
+
+        const events = await checkBudgets(user._id, shoes);
+        expect(events.find((e) => e.scope === 'category')).toMatchObject({ level: 'warning', spent: 90 });
+    });
+
+    it('refuses refunds that add up to more than the expense', async () => {
+        const jacket = await write({ amount: 80, type: 'expense', category: clothes._id });
+        await write({ amount: 50, type: 'income', refundOf: jacket._id });
+
+        const res = await request(app).post('/api/v1/transactions').set('Cookie', [cookie])
+            .send({ amount: 40, type: 'income', refundOf: String(jacket._id), account: String(account._id) });
+
+        expect(res.statusCode).toEqual(400);
+    });
+
+    it('moves a refund along when its expense is recategorised', async () => {
+        const food = await Category.create({ user: user._id, name: 'Food' });
+        const jacket = await write({ amount: 80, type: 'expense', category: clothes._id });
+        const refund = await write({ amount: 20, type: 'income', refundOf: jacket._id });
+
+        await transactionWriter.updateTransaction(user._id, jacket._id, { category: food._id });
+
+        expect((await Transaction.findById(refund._id)).category).toEqual(food._id);
+    });
+
+    it('moves refunds along with a bulk recategorisation', async () => {
+        const food = await Category.create({ user: user._id, name: 'Food' });
+        const jacket = await write({ amount: 80, type: 'expense', category: clothes._id });
+        const refund = await write({ amount: 20, type: 'income', refundOf: jacket._id });
+
+        await transactionWriter.bulkUpdateTransactions(user._id, [jacket._id], { category: food._id });
+        expect((await Transaction.findById(refund._id)).category).toEqual(food._id);
+
+        // A refund recategorised on its own stays with its expense.
+        await transactionWriter.bulkUpdateTransactions(user._id, [refund._id], { category: clothes._id });
+        expect((await Transaction.findById(refund._id)).category).toEqual(food._id);
+    });
+
+    it('keeps a refunded expense until its refunds are unlinked', async () => {
+        const jacket = await write({ amount: 80, type: 'expense', category: clothes._id });
+        const refund = await write({ amount: 20, type: 'income', refundOf: jacket._id });
+
+        await expect(transactionWriter.deleteTransaction(user._id, jacket._id))
+            .rejects.toMatchObject({ status: 409 });
+        expect(await Transaction.findById(jacket._id)).not.toBeNull();
+
+        // The refund stays editable, and once it is unlinked the expense can go.
+        await transactionWriter.updateTransaction(user._id, refund._id, { description: 'Returned jacket' });
+        await transactionWriter.updateTransaction(user._id, refund._id, { refundOf: null });
+        expect(await transactionWriter.deleteTransaction(user._id, jacket._id)).toBe(true);
+    });
+
+    it('deletes an expense together with its refunds', async () => {
+        const jacket = await write({ amount: 80, type: 'expense', category: clothes._id });
+        const refund = await write({ amount: 20, type: 'income', refundOf: jacket._id });
+
+        const { deleted } = await transactionWriter.bulkDeleteTransactions(user._id, [jacket._id, refund._id]);
+        expect(deleted).toEqual(2);
+
+        // Restoring the refund alone would leave it pointing at the trash.
+        await expect(transactionWriter.restoreTransactions(user._id, [refund._id]))
+            .rejects.toMatchObject({ status: 409 });
+    });
+
+    it('lists reimbursables until they are repaid', async () => {
+        const trip = await write({ amount: 300, type: 'expense', reimbursable: true });
+        await write({ amount: 100, type: 'income', refundOf: trip._id });
+
+        let res = await request(app).get('/api/v1/refunds/reimbursables').set('Cookie', [cookie]);
+        expect(res.body.data).toHaveLength(1);
+        expect(res.body.data[0]).toMatchObject({ refunded: 100, outstanding: 200 });
+        expect(res.body.meta.outstanding).toEqual(200);
+
+        await write({ amount: 200, type: 'income', refundOf: trip._id });
+        res = await request(app).get('/api/v1/refunds/reimbursables').set('Cookie', [cookie]);
+        expect(res.body.data).toHaveLength(0);
+    });
+
+    it('measures a refund in another currency in the expense\'s', async () => {
+        // One dinar is a quarter of a euro.
+        await FxRate.create([
+            { currency: 'EUR', date: new Date('2020-01-01'), rate: 1.2 },
+            { currency: 'TND', date: new Date('2020-01-01'), rate: 0.3 }
+        ]);
+        const euros = await Account.create({ user: user._id, name: 'Euro card', currency: 'EUR' });
+        const dinars = await Account.create({ user: user._id, name: 'Dinar account', currency: 'TND' });
+        const trip = await write({ amount: 100, type: 'expense', account: euros._id, reimbursable: true });
+
+        await write({ amount: 300, type: 'income', account: dinars._id, refundOf: trip._id });
+        const res = await request(app).get('/api/v1/refunds/reimbursables').set('Cookie', [cookie]);
+        expect(res.body.data[0]).toMatchObject({ refunded: 75, outstanding: 25 });
+
+        await expect(write({ amount: 120, type: 'income', account: dinars._id, refundOf: trip._id }))
+            .rejects.toMatchObject({ status: 400 });
+        await write({ amount: 100, type: 'income', account: dinars._id, refundOf: trip._id });
+    });
+
+    it('unlinks with null, and only income can refund', async () => {
+        const jacket = await write({ amount: 80, type: 'expense', category: clothes._id });
+        const refund = await write({ amount: 80, type: 'income', refundOf: jacket._id });
+
+        const { transaction } = await transactionWriter.updateTransaction(user._id, refund._id, { refundOf: null });
+        expect(transaction.refundOf).toBeUndefined();
+
+        await expect(write({ amount: 5, type: 'expense', refundOf: jacket._id }))
+            .rejects.toMatchObject({ status: 400 });
+    });
+
+    it('refuses to link to another user\'s expense', async () => {
+        const other = await makeUser('other-refunds@test.com');
+        const otherAccount = await Account.create({ user: other._id, name: 'Theirs' });
+        const theirs = await Transaction.create({ user: other._id, account: otherAccount._id, amount: 10, type: 'expense' });
+
+        await expect(write({ amount: 5, type: 'income', refundOf: theirs._id }))
+            .rejects.toMatchObject({ status: 404 });
+    });
+});
@@ -0,0 +1,238 @@
+/* Categorization rules: matching, priority, and the writer applying them, plus
+ * the dry-run preview and the retroactive apply. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Category = require('../src/models/category.model');
+const CategorizationRule = require('../src/models/categorizationRule.model');
+const Transaction = require('../src/models/transaction.model');
+const FxRate = require('../src/models/fxRate.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { plannedChanges } = require('../src/services/categorizationRules');
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Rule User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('rule matching', () => {
+    const rule = {
+        conditions: { operator: 'contains', value: 'uber', type: 'expense', maxAmount: 100 },
+        actions: { category: 'transport', tags: ['Ride'] }
+    };
+
+    it('matches case-insensitively within the conditions', () => {
+        expect(plannedChanges(rule, { type: 'expense', amount: 20, description: 'UBER *TRIP' }))
+            .toEqual({ category: 'transport', tags: ['ride'] });
+        expect(plannedChanges(rule, { type: 'expense', amount: 200, description: 'Uber' })).toBeNull();
+        expect(plannedChanges(rule, { type: 'transfer', amount: 20, description: 'Uber' })).toBeNull();
+    });
+
+    it('keeps a category already set unless told to overwrite', () => {
+        const trx = { type: 'expense', amount: 20, description: 'Uber', category: 'food', tags: ['ride'] };
+        expect(plannedChanges(rule, trx)).toBeNull();
+        expect(plannedChanges(rule, trx, { overwrite: true })).toEqual({ category: 'transport' });
+    });
+
+    it('leaves a reconciled row\'s account alone but still files it', () => {
+        const moving = { conditions: { operator: 'contains', value: 'uber' }, actions: { category: 'transport', account: 'card' } };
+        const trx = { type: 'expense', amount: 20, description: 'Uber', account: 'bank', status: 'reconciled' };
+        expect(plannedChanges(moving, trx, { overwrite: true })).toEqual({ category: 'transport' });
+    });
+
+    it('leaves refunds to follow their expense', () => {
+        const trx = { type: 'expense', amount: 20, description: 'Uber refund', refundOf: 'ride' };
+        expect(plannedChanges(rule, trx, { overwrite: true })).toBeNull();
+    });
+
+    it('treats the value literally, not as a pattern', () => {
+        const literal = { conditions: { operator: 'equals', value: 'a.b' }, actions: { tags: ['x'] } };
+        expect(plannedChanges(literal, { type: 'expense', amount: 1, description: 'axb' })).toBeNull();
+        expect(plannedChanges(literal, { type: 'expense', amount: 1, description: 'A.B' })).not.toBeNull();
+    });
+});
+
+describe('categorization rules', () => {
+    let user;
+    let cookie;
+    let transport;
+    let food;
+    let card;
+
+    beforeEach(async () => {
+        user = await makeUser('rules@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        transport = await Category.create({ user: user._id, name: 'Transport' });
+        food = await Category.create({ user: user._id, name: 'Food' });
+        card = await Account.create({ user: user._id, name: 'Card' });
+    });
+
+    const createRule = (body) =>
+        request(app).post('/api/v1/rules').set('Cookie', [cookie]).send(body);
+
+    const uberRule = (overrides = {}) => ({
+        name: 'Uber',
+        conditions: { operator: 'contains', value: 'UBER' },
+        actions: { category: String(transport._id), account: String(card._id) },
+        ...overrides
+    });
+
+    it('fills in category and account on a new transaction', async () => {
+        await createRule(uberRule());
+
+        const res = await request(app)
+            .post('/api/v1/transactions')
+            .set('Cookie', [cookie])
+            .send({ amount: 18, type: 'expense', description: 'Uber trip' });
+
+        expect(res.statusCode).toEqual(201);
+        expect(String(res.body.data.category)).toEqual(String(transport._id));
+        expect(String(res.body.data.account)).toEqual(String(card._id));
+    });
+
+    it('applies to recurring and imported entries through the writer', async () => {
+        await createRule(uberRule());
+
+        const { transaction } = await transactionWriter.createTransaction({
+            user: user._id, amount: 30, type: 'expense', description: 'UBER ONE', source: 'recurring'
+        });
+
+        expect(String(transaction.category)).toEqual(String(transport._id));
+    });
+
+    it('never overrides a category the caller chose', async () => {
+        await createRule(uberRule());
+
+        const { transaction } = await transactionWriter.createTransaction({
+            user: user._id, amount: 30, type: 'expense', description: 'Uber Eats', category: food._id
+        });
+
+        expect(String(transaction.category)).toEqual(String(food._id));
+    });
+
+    it('lets the higher-priority rule decide', async () => {
+        await createRule(uberRule());
+        const eats = await createRule(uberRule({
+            name: 'Uber Eats',
+            conditions: { value: 'uber eats' },
+            actions: { category: String(food._id) }
+        }));
+        const [first] = (await request(app).get('/api/v1/rules').set('Cookie', [cookie])).body.data;
+
+        await request(app)
+            .put('/api/v1/rules/reorder')
+            .set('Cookie', [cookie])
+            .send({ ids: [eats.body.data._id, first._id] });
+
+        const { transaction } = await transactionWriter.createTransaction({
+            user: user._id, amount: 12, type: 'expense', description: 'UBER EATS order'
+        });
+
+        expect(String(transaction.category)).toEqual(String(food._id));
+        // The lower rule still fills the field the higher one left alone.
+        expect(String(transaction.account)).toEqual(String(card._id));
+    });
+
+    it('previews changes to history without writing', async () => {
+        await transactionWriter.createTransaction({ user: user._id, amount: 10, type: 'expense', description: 'Uber' });
+        await transactionWriter.createTransaction({ user: user._id, amount: 10, type: 'expense', description: 'Bakery' });
+
+        const res = await request(app)
+            .post('/api/v1/rules/preview')
+            .set('Cookie', [cookie])
+            .send(uberRule({ actions: { category: String(transport._id) } }));
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data).toMatchObject({ matched: 1, changed: 1 });
+        expect(res.body.data.sample[0].changes.category).toEqual(String(transport._id));
+        expect(await Transaction.countDocuments({ user: user._id, category: transport._id })).toEqual(0);
+    });
+
+    it('applies a saved rule retroactively', async () => {
+        await transactionWriter.createTransaction({ user: user._id, amount: 10, type: 'expense', description: 'Uber' });
+        await transactionWriter.createTransaction({
+            user: user._id, amount: 10, type: 'expense', description: 'Uber', category: food._id
+        });
+        const rule = await createRule(uberRule({ actions: { category: String(transport._id) } }));
+
+        const gaps = await request(app)
+            .post(`/api/v1/rules/${rule.body.data._id}/apply`)
+            .set('Cookie', [cookie])
+            .send({});
+        expect(gaps.body.data).toMatchObject({ matched: 2, updated: 1 });
+
+        const all = await request(app)
+            .post(`/api/v1/rules/${rule.body.data._id}/apply`)
+            .set('Cookie', [cookie])
+            .send({ overwrite: true });
+        expect(all.body.data.updated).toEqual(1);
+        expect(await Transaction.countDocuments({ user: user._id, category: transport._id })).toEqual(2);
+    });
+
+    it('restamps rows it moves into an account in another currency', async () => {
+        const euro = await Account.create({ user: user._id, name: 'Euro', currency: 'EUR' });
+        await FxRate.create({ currency: 'EUR', date: new Date('2020-01-01'), rate: 1.1 });
+        const ride = (await transactionWriter.createTransaction({
+            user: user._id, amount: 10, type: 'expense', description: 'Uber'
+        })).transaction;
+        const rule = await createRule(uberRule({ actions: { account: String(euro._id) } }));
+
+        await request(app).post(`/api/v1/rules/${rule.body.data._id}/apply`).set('Cookie', [cookie])
+            .send({ overwrite: true });
+
+        expect(await Transaction.findById(ride._id).lean())
+            .toMatchObject({ account: euro._id, currency: 'EUR', fxRate: 1.1, baseAmount: 11 });
+    });
+
+    it('does not move reconciled rows to another account', async () => {
+        const ride = (await transactionWriter.createTransaction({
+            user: user._id, amount: 10, type: 'expense', description: 'Uber'
+        })).transaction;
+        await Transaction.updateOne({ _id: ride._id }, { status: 'reconciled' });
+        const rule = await createRule(uberRule());
+
+        const res = await request(app).post(`/api/v1/rules/${rule.body.data._id}/apply`).set('Cookie', [cookie])
+            .send({ overwrite: true });
+
+        expect(res.body.data.updated).toEqual(1);
+        const after = await Transaction.findById(ride._id);
+        expect(after.account).toEqual(ride.account);
+        expect(after.category).toEqual(transport._id);
+    });
+
+    it('refiles the refunds of an expense it recategorises', async () => {
+        const ride = (await transactionWriter.createTransaction({
+            user: user._id, amount: 30, type: 'expense', description: 'Uber', category: food._id
+        })).transaction;
+        const refund = (await transactionWriter.createTransaction({
+            user: user._id, amount: 10, type: 'income', description: 'Uber credit', refundOf: ride._id
+        })).transaction;
+        const rule = await createRule(uberRule({ actions: { category: String(transport._id) } }));
+
+        const res = await request(app).post(`/api/v1/rules/${rule.body.data._id}/apply`).set('Cookie', [cookie])
+            .send({ overwrite: true });
+
+        expect(res.body.data).toMatchObject({ matched: 2, updated: 1 });
+        expect((await Transaction.findById(refund._id)).category).toEqual(transport._id);
+        const history = await request(app).get(`/api/v1/transactions/${refund._id}/history`).set('Cookie', [cookie]);
+        expect(history.body.data[0].changes).toContainEqual(
+            expect.objectContaining({ field: 'category', to: String(transport._id) })
+        );
+    });
+
+    it('rejects a rule pointing at another user\'s category', async () => {
+        const other = await makeUser('rules-other@test.com');
+        const theirs = await Category.create({ user: other._id, name: 'Private' });
+
+        const res = await createRule(uberRule({ actions: { category: String(theirs._id) } }));
+
+        expect(res.statusCode).toEqual(404);
+        expect(await CategorizationRule.countDocuments()).toEqual(0);
+    });
+});
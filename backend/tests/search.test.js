@@ -0,0 +1,89 @@
+/* Transaction search: q across description, category and account names, plus
+ * the amount-range filter and the total count. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Category = require('../src/models/category.model');
+const Transaction = require('../src/models/transaction.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Search User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('transaction search', () => {
+    let user;
+    let cookie;
+
+    beforeEach(async () => {
+        // $text fails outright if the text index is still being built.
+        await Transaction.init();
+        user = await makeUser('search@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+    });
+
+    const spend = (amount, fields = {}) =>
+        transactionWriter.createTransaction({ user: user._id, amount, type: 'expense', ...fields });
+
+    const search = (query) =>
+        request(app).get(`/api/v1/transactions?${query}`).set('Cookie', [cookie]);
+
+    it('finds rows by description words and by substring', async () => {
+        await spend(30, { description: 'Amazon order #1234' });
+        await spend(12, { description: 'Coffee' });
+
+        const words = await search('q=orders');
+        expect(words.body.data).toHaveLength(1);
+
+        const partial = await search('q=amaz');
+        expect(partial.body.data).toHaveLength(1);
+        expect(partial.body.data[0].description).toEqual('Amazon order #1234');
+    });
+
+    it('finds rows by category and account name', async () => {
+        const groceries = await Category.create({ user: user._id, name: 'Groceries' });
+        const visa = await Account.create({ user: user._id, name: 'Visa Card' });
+        await spend(50, { category: groceries._id, description: 'Market' });
+        await spend(20, { account: visa._id, description: 'Fuel' });
+        await spend(5, { description: 'Other' });
+
+        expect((await search('q=grocer')).body.data[0].description).toEqual('Market');
+        expect((await search('q=visa')).body.data[0].description).toEqual('Fuel');
+    });
+
+    it('combines q with the amount range and reports the total', async () => {
+        for (const amount of [10, 20, 30, 40]) {
+            await spend(amount, { description: 'Amazon' });
+        }
+        await spend(25, { description: 'Rent' });
+
+        const res = await search('q=amazon&minAmount=15&maxAmount=35&limit=1');
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data).toHaveLength(1);
+        expect(res.body.meta.total).toEqual(2);
+    });
+
+    it('never returns another user\'s matches', async () => {
+        const other = await makeUser('search-other@test.com');
+        await transactionWriter.createTransaction({
+            user: other._id, amount: 9, type: 'expense', description: 'Amazon'
+        });
+
+        const res = await search('q=amazon');
+        expect(res.body.data).toHaveLength(0);
+        expect(res.body.meta.total).toEqual(0);
+    });
+
+    it('rejects an inverted amount range', async () => {
+        const res = await search('minAmount=50&maxAmount=10');
+        expect(res.statusCode).toEqual(400);
+    });
+});
@@ -1,8 +1,12 @@
+const os = require('os');
+const path = require('path');
 const mongoose = require('mongoose');
 const { MongoMemoryServer } = require('mongodb-memory-server');
 
 process.env.JWT_ACCESS_SECRET = 'test-access-secret';
 process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+// Attachment files go somewhere disposable, never into the working tree.
+process.env.ATTACHMENT_DIR = path.join(os.tmpdir(), `finance-test-attachments-${process.pid}`);
 
 let mongoServer;
 
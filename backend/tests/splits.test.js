@@ -0,0 +1,140 @@
+/* Split transactions: one receipt, several categories, each counted once. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Budget = require('../src/models/budget.model');
+const Category = require('../src/models/category.model');
+const Transaction = require('../src/models/transaction.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+
+const CURRENT_MONTH = new Date().toISOString().slice(0, 7);
+const inCurrentMonth = () => new Date(`${CURRENT_MONTH}-15T12:00:00.000Z`);
+
+describe('split transactions', () => {
+    let user;
+    let cookie;
+    let groceries;
+    let household;
+
+    beforeEach(async () => {
+        user = await User.create({
+            name: 'Split User',
+            email: 'split@test.com',
+            password: 'pass',
+            isActive: true,
+            expiresAt: new Date(Date.now() + 86400000)
+        });
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        groceries = await Category.create({ user: user._id, name: 'Groceries' });
+        household = await Category.create({ user: user._id, name: 'Household' });
+    });
+
+    const receipt = (overrides = {}) => ({
+        amount: 100,
+        type: 'expense',
+        date: `${CURRENT_MONTH}-15`,
+        description: 'Supermarket',
+        splits: [
+            { category: String(groceries._id), amount: 70 },
+            { category: String(household._id), amount: 30, note: 'Detergent' }
+        ],
+        ...overrides
+    });
+
+    it('stores the parts and clears the single category', async () => {
+        const res = await request(app)
+            .post('/api/v1/transactions')
+            .set('Cookie', [cookie])
+            .send(receipt({ category: String(groceries._id) }));
+
+        expect(res.statusCode).toEqual(201);
+        expect(res.body.data.splits).toHaveLength(2);
+        expect(res.body.data.category).toBeUndefined();
+    });
+
+    it('rejects parts that do not add up to the total', async () => {
+        const res = await request(app)
+            .post('/api/v1/transactions')
+            .set('Cookie', [cookie])
+            .send(receipt({ amount: 120 }));
+
+        expect(res.statusCode).toEqual(400);
+        expect(await Transaction.countDocuments({ user: user._id })).toEqual(0);
+    });
+
+    it('rejects splitting a transfer', async () => {
+        await expect(transactionWriter.createTransaction({
+            user: user._id,
+            amount: 10,
+            type: 'transfer',
+            splits: [{ category: groceries._id, amount: 5 }, { category: household._id, amount: 5 }]
+        })).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('charges each part to its own category budget', async () => {
+        await Budget.create({
+            user: user._id,
+            month: CURRENT_MONTH,
+            totalBudget: 0,
+            categoryBudgets: [
+                { category: groceries._id, amount: 1000 },
+                { category: household._id, amount: 30 }
+            ]
+        });
+
+        const { budgetEvents } = await transactionWriter.createTransaction({
+            user: user._id,
+            amount: 100,
+            type: 'expense',
+            date: inCurrentMonth(),
+            splits: [{ category: groceries._id, amount: 70 }, { category: household._id, amount: 30 }]
+        });
+
+        // Only the household part crossed its limit; the full 100 never
+        // counts against either category.
+        expect(budgetEvents).toHaveLength(1);
+        expect(budgetEvents[0]).toMatchObject({
+            scope: 'category', level: 'exceeded', spent: 30, categoryName: 'Household'
+        });
+    });
+
+    it('lists a split row under each of its categories', async () => {
+        await request(app).post('/api/v1/transactions').set('Cookie', [cookie]).send(receipt());
+
+        const res = await request(app)
+            .get(`/api/v1/transactions?category=${household._id}`)
+            .set('Cookie', [cookie]);
+
+        expect(res.body.data).toHaveLength(1);
+        expect(res.body.data[0].splits[1].category.name).toEqual('Household');
+    });
+
+    it('un-splits when a single category is chosen on update', async () => {
+        const created = await request(app).post('/api/v1/transactions').set('Cookie', [cookie]).send(receipt());
+
+        const res = await request(app)
+            .put(`/api/v1/transactions/${created.body.data._id}`)
+            .set('Cookie', [cookie])
+            .send({ category: String(groceries._id) });
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data.splits).toEqual([]);
+        expect(String(res.body.data.category)).toEqual(String(groceries._id));
+    });
+
+    it('exports one CSV line per part', async () => {
+        await request(app).post('/api/v1/transactions').set('Cookie', [cookie]).send(receipt());
+
+        const res = await request(app)
+            .get('/api/v1/export/transactions?format=csv')
+            .set('Cookie', [cookie]);
+
+        expect(res.statusCode).toEqual(200);
+        const lines = res.text.trim().split('\n').slice(1);
+        expect(lines).toHaveLength(2);
+        expect(lines[0]).toContain('Groceries');
+        expect(lines[1]).toContain('Detergent');
+        expect(lines[1]).toContain('Household');
+    });
+});
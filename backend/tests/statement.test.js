@@ -0,0 +1,107 @@
+/* Account statements: the opening balance, a running balance after each
+ * row with transfers signed from the account's side, and the CSV export. */
+const mongoose = require('mongoose');
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { runningBalances, statementCsv } = require('../src/services/statement');
+
+const day = (iso) => new Date(`${iso}T00:00:00.000Z`);
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Statement User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('statement lines', () => {
+    const checking = new mongoose.Types.ObjectId();
+    const savings = { _id: new mongoose.Types.ObjectId(), name: 'Savings' };
+
+    it('signs each row from the account\'s side and carries the balance', () => {
+        const { lines, closing, moneyIn, moneyOut } = runningBalances(100, [
+            { type: 'income', amount: 50.1, date: day('2026-03-01') },
+            { type: 'expense', amount: 20.2, date: day('2026-03-02') },
+            { type: 'transfer', amount: 30, account: checking, transferTo: savings, date: day('2026-03-03') },
+            { type: 'transfer', amount: 10, transferAmount: 9, account: savings, transferTo: checking, date: day('2026-03-04') }
+        ], checking);
+
+        expect(lines.map((line) => line.amount)).toEqual([50.1, -20.2, -30, 9]);
+        expect(lines.map((line) => line.balance)).toEqual([150.1, 129.9, 99.9, 108.9]);
+        expect(lines[2].counterparty).toEqual('Savings');
+        expect({ closing, moneyIn, moneyOut }).toEqual({ closing: 108.9, moneyIn: 59.1, moneyOut: 50.2 });
+    });
+
+    it('writes opening and closing lines around the rows, quoting where needed', () => {
+        const csv = statementCsv({
+            start: day('2026-03-01'),
+            end: day('2026-03-31'),
+            openingBalance: 100,
+            closingBalance: 75,
+            transactions: [{
+                date: day('2026-03-02'), description: 'Lunch, with "Sam"', type: 'expense', category: 'Food',
+                counterparty: '', status: 'cleared', amount: -25, balance: 75
+            }]
+        }).split('\r\n');
+
+        expect(csv[1]).toEqual('2026-03-01,Opening balance,,,,,,100.00');
+        expect(csv[2]).toEqual('2026-03-02,"Lunch, with ""Sam""",expense,Food,,cleared,-25.00,75.00');
+        expect(csv[3]).toEqual('2026-03-31,Closing balance,,,,,,75.00');
+    });
+});
+
+describe('account statement', () => {
+    let user;
+    let cookie;
+    let checking;
+    let savings;
+
+    beforeEach(async () => {
+        user = await makeUser('statement@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        checking = await Account.create({ user: user._id, name: 'Checking', currency: 'USD', isDefault: true, openingBalance: 500 });
+        savings = await Account.create({ user: user._id, name: 'Savings', currency: 'USD' });
+
+        const add = (fields) => transactionWriter.createTransaction({ user: user._id, account: checking._id, ...fields });
+        await add({ type: 'income', amount: 1000, date: day('2026-02-20') });
+        await add({ type: 'expense', amount: 200, date: day('2026-03-05') });
+        await add({ type: 'transfer', amount: 300, transferTo: savings._id, date: day('2026-03-10') });
+        await add({ type: 'expense', amount: 50, date: day('2026-04-01') });
+    });
+
+    const statementOf = (account, query) =>
+        request(app).get(`/api/v1/accounts/${account._id}/statement`).query(query).set('Cookie', [cookie]);
+
+    it('opens on what came before and closes on what the period added', async () => {
+        const res = await statementOf(checking, { start: '2026-03-01', end: '2026-03-31' });
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data).toMatchObject({ openingBalance: 1500, closingBalance: 1000, moneyIn: 0, moneyOut: 500 });
+        expect(res.body.data.transactions.map((line) => line.balance)).toEqual([1300, 1000]);
+    });
+
+    it('shows a transfer in as money in on the receiving account', async () => {
+        const res = await statementOf(savings, { start: '2026-03-01', end: '2026-03-31' });
+        expect(res.body.data.transactions).toEqual([expect.objectContaining({ amount: 300, balance: 300, counterparty: 'Checking' })]);
+    });
+
+    it('downloads as CSV', async () => {
+        const res = await statementOf(checking, { start: '2026-03-01', end: '2026-03-31', format: 'csv' });
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.headers['content-type']).toMatch(/text\/csv/);
+        expect(res.text.split('\r\n')[1]).toEqual('2026-03-01,Opening balance,,,,,,1500.00');
+    });
+
+    it('refuses another user\'s account', async () => {
+        const other = await Account.create({ user: new mongoose.Types.ObjectId(), name: 'Theirs', currency: 'USD' });
+        const res = await statementOf(other, {});
+        expect(res.statusCode).toEqual(404);
+    });
+});
@@ -0,0 +1,115 @@
+/* Tags: normalisation, the registry, and filtering by tag. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Tag = require('../src/models/tag.model');
+const Transaction = require('../src/models/transaction.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const { normalizeTag, parseTagFilter } = require('../src/utils/tags');
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Tag User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + 86400000)
+    });
+
+describe('tag normalisation', () => {
+    it('folds case and whitespace into one form', () => {
+        expect(normalizeTag('  Tax Deductible ')).toEqual('tax-deductible');
+        expect(parseTagFilter('Vacation 2026,,tax-deductible')).toEqual(['vacation-2026', 'tax-deductible']);
+        expect(parseTagFilter(['a', 'A'])).toEqual(['a']);
+    });
+});
+
+describe('tags', () => {
+    let user;
+    let cookie;
+
+    beforeEach(async () => {
+        user = await makeUser('tags@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+    });
+
+    const spend = (amount, tags) =>
+        transactionWriter.createTransaction({ user: user._id, amount, type: 'expense', tags });
+
+    it('registers new tags when a transaction uses them', async () => {
+        const res = await request(app)
+            .post('/api/v1/transactions')
+            .set('Cookie', [cookie])
+            .send({ amount: 40, type: 'expense', tags: ['Vacation 2026', 'vacation-2026'] });
+
+        expect(res.statusCode).toEqual(201);
+        expect(res.body.data.tags).toEqual(['vacation-2026']);
+
+        const list = await request(app).get('/api/v1/tags').set('Cookie', [cookie]);
+        expect(list.body.data).toHaveLength(1);
+        expect(list.body.data[0]).toMatchObject({ name: 'vacation-2026', count: 1 });
+    });
+
+    it('filters the transaction list by every requested tag', async () => {
+        await spend(10, ['tax-deductible']);
+        await spend(20, ['tax-deductible', 'reimbursable']);
+        await spend(30);
+
+        const one = await request(app).get('/api/v1/transactions?tags=Tax-Deductible').set('Cookie', [cookie]);
+        expect(one.body.data).toHaveLength(2);
+
+        const both = await request(app)
+            .get('/api/v1/transactions?tags=tax-deductible,reimbursable')
+            .set('Cookie', [cookie]);
+        expect(both.body.data).toHaveLength(1);
+        expect(both.body.data[0].amount).toEqual(20);
+    });
+
+    it('filters the CSV export by tag and includes the tags column', async () => {
+        await spend(10, ['reimbursable']);
+        await spend(30);
+
+        const res = await request(app)
+            .get('/api/v1/export/transactions?format=csv&tags=reimbursable')
+            .set('Cookie', [cookie]);
+
+        const lines = res.text.trim().split('\n');
+        expect(lines[0]).toContain('Tags');
+        expect(lines).toHaveLength(2);
+        expect(lines[1]).toContain('reimbursable');
+    });
+
+    it('renames a tag on every transaction that carries it', async () => {
+        await spend(10, ['trip']);
+        const tag = await Tag.findOne({ user: user._id, name: 'trip' });
+
+        const res = await request(app)
+            .put(`/api/v1/tags/${tag._id}`)
+            .set('Cookie', [cookie])
+            .send({ name: 'Vacation 2026' });
+
+        expect(res.statusCode).toEqual(200);
+        const row = await Transaction.findOne({ user: user._id });
+        expect(row.tags).toEqual(['vacation-2026']);
+    });
+
+    it('deleting a tag removes it from transactions but keeps the transactions', async () => {
+        await spend(10, ['trip', 'food']);
+        const tag = await Tag.findOne({ user: user._id, name: 'trip' });
+
+        await request(app).delete(`/api/v1/tags/${tag._id}`).set('Cookie', [cookie]);
+
+        const row = await Transaction.findOne({ user: user._id });
+        expect(row.tags).toEqual(['food']);
+    });
+
+    it('returns 404 for another user\'s tag', async () => {
+        const other = await makeUser('tags-other@test.com');
+        const theirs = await Tag.create({ user: other._id, name: 'private' });
+
+        const res = await request(app).delete(`/api/v1/tags/${theirs._id}`).set('Cookie', [cookie]);
+        expect(res.statusCode).toEqual(404);
+        expect(await Tag.countDocuments({ user: other._id })).toEqual(1);
+    });
+});
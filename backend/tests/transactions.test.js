@@ -135,4 +135,53 @@ describe('Transactions Endpoints', () => {
 
         expect(res.body.data).toHaveLength(2);
     });
+
+    it('should page through every row with cursors, sharing dates included', async () => {
+        // Same date on purpose: the _id tie-break is what keeps pages disjoint.
+        const date = '2026-03-01T00:00:00.000Z';
+        for (let i = 0; i < 5; i += 1) {
+            await request(app)
+                .post('/api/v1/transactions')
+                .set('Cookie', [cookie])
+                .send({ amount: i + 1, type: 'expense', date });
+        }
+
+        const seen = [];
+        let cursor = '';
+        let pages = 0;
+        do {
+            const res = await request(app)
+                .get(`/api/v1/transactions?limit=2${cursor ? `&cursor=${cursor}` : ''}`)
+                .set('Cookie', [cookie]);
+
+            expect(res.body.meta.total).toEqual(5);
+            seen.push(...res.body.data.map((t) => t._id));
+            cursor = res.body.meta.hasMore ? res.body.meta.nextCursor : '';
+            pages += 1;
+        } while (cursor);
+
+        expect(pages).toEqual(3);
+        expect(new Set(seen).size).toEqual(5);
+    });
+
+    it('should report no further page on the last one', async () => {
+        await request(app)
+            .post('/api/v1/transactions')
+            .set('Cookie', [cookie])
+            .send({ amount: 1, type: 'expense' });
+
+        const res = await request(app)
+            .get('/api/v1/transactions?limit=1')
+            .set('Cookie', [cookie]);
+
+        expect(res.body.meta).toMatchObject({ total: 1, hasMore: false, nextCursor: null });
+    });
+
+    it('should reject a cursor it did not issue', async () => {
+        const res = await request(app)
+            .get('/api/v1/transactions?cursor=bm90LWEtY3Vyc29y')
+            .set('Cookie', [cookie]);
+
+        expect(res.statusCode).toEqual(400);
+    });
 });
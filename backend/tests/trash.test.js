@@ -0,0 +1,135 @@
+/* Trash: deleted transactions are kept, invisible to every total, for a
+ * retention period during which they can be restored. */
+const request = require('supertest');
+const app = require('../src/app');
+const User = require('../src/models/user.model');
+const Account = require('../src/models/account.model');
+const Category = require('../src/models/category.model');
+const Budget = require('../src/models/budget.model');
+const Notification = require('../src/models/notification.model');
+const Transaction = require('../src/models/transaction.model');
+const TrashedTransaction = require('../src/models/trashedTransaction.model');
+const { signAccess } = require('../src/utils/jwt');
+const transactionWriter = require('../src/services/transactionWriter');
+const emptyTrash = require('../src/jobs/emptyTrash');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CURRENT_MONTH = new Date().toISOString().slice(0, 7);
+
+const makeUser = (email) =>
+    User.create({
+        name: 'Trash User',
+        email,
+        password: 'pass',
+        isActive: true,
+        expiresAt: new Date(Date.now() + DAY_MS)
+    });
+
+describe('trash', () => {
+    let user;
+    let cookie;
+    let account;
+
+    beforeEach(async () => {
+        user = await makeUser('trash@test.com');
+        cookie = `accessToken=${signAccess({ sub: user._id, role: 'user' })}`;
+        account = await Account.create({ user: user._id, name: 'Main', openingBalance: 100 });
+    });
+
+    const spend = async (amount, extra = {}) =>
+        (await transactionWriter.createTransaction({
+            user: user._id, amount, type: 'expense', account: account._id, ...extra
+        })).transaction;
+
+    const remove = (id) => request(app).delete(`/api/v1/transactions/${id}`).set('Cookie', [cookie]);
+    const restore = (ids) => request(app).post('/api/v1/trash/restore').set('Cookie', [cookie])
+        .send({ ids: ids.map(String) });
+    const balance = async () =>
+        (await request(app).get(`/api/v1/accounts/${account._id}`).set('Cookie', [cookie])).body.data.balance;
+
+    it('moves a deleted transaction to the trash and out of every total', async () => {
+        const trx = await spend(40);
+        expect(await balance()).toEqual(60);
+
+        const res = await remove(trx._id);
+        expect(res.statusCode).toEqual(200);
+
+        expect(await balance()).toEqual(100);
+        expect(await Transaction.countDocuments()).toEqual(0);
+
+        const trash = await request(app).get('/api/v1/trash').set('Cookie', [cookie]);
+        expect(trash.body.data).toHaveLength(1);
+        expect(trash.body.data[0]).toMatchObject({ _id: String(trx._id), amount: 40 });
+        expect(new Date(trash.body.data[0].purgeAt) - new Date(trash.body.data[0].deletedAt)).toEqual(30 * DAY_MS);
+    });
+
+    it('restores under the original id and re-runs the budget check', async () => {
+        const food = await Category.create({ user: user._id, name: 'Food' });
+        await Budget.create({
+            user: user._id,
+            month: CURRENT_MONTH,
+            totalBudget: 0,
+            categoryBudgets: [{ category: food._id, amount: 30 }]
+        });
+        const trx = await spend(50, { category: food._id });
+        await remove(trx._id);
+        await Notification.deleteMany({});
+
+        const res = await restore([trx._id]);
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.body.data.restored).toEqual(1);
+        expect(await Transaction.exists({ _id: trx._id })).toBeTruthy();
+        expect(await TrashedTransaction.countDocuments()).toEqual(0);
+        expect(await balance()).toEqual(50);
+        expect(await Notification.countDocuments({ user: user._id, type: 'budget' })).toEqual(1);
+    });
+
+    it('refuses to restore another user\'s trash', async () => {
+        const other = await makeUser('trash-other@test.com');
+        const { transaction } = await transactionWriter.createTransaction({
+            user: other._id, amount: 5, type: 'expense'
+        });
+        await transactionWriter.deleteTransaction(other._id, transaction._id);
+
+        const res = await restore([transaction._id]);
+        expect(res.statusCode).toEqual(404);
+        expect(await TrashedTransaction.countDocuments()).toEqual(1);
+    });
+
+    it('refuses to restore into an account that has since been deleted', async () => {
+        const spare = await Account.create({ user: user._id, name: 'Spare' });
+        const trx = await spend(10, { account: spare._id });
+        await remove(trx._id);
+        await request(app).delete(`/api/v1/accounts/${spare._id}`).set('Cookie', [cookie]);
+
+        const res = await restore([trx._id]);
+        expect(res.statusCode).toEqual(409);
+    });
+
+    it('purges selected entries, or everything', async () => {
+        const a = await spend(1);
+        const b = await spend(2);
+        await remove(a._id);
+        await remove(b._id);
+
+        const one = await request(app).post('/api/v1/trash/purge').set('Cookie', [cookie]).send({ ids: [String(a._id)] });
+        expect(one.body.data.purged).toEqual(1);
+
+        const all = await request(app).post('/api/v1/trash/purge').set('Cookie', [cookie]).send({});
+        expect(all.body.data.purged).toEqual(1);
+        expect(await TrashedTransaction.countDocuments()).toEqual(0);
+    });
+
+    it('empties only expired entries when the job runs', async () => {
+        const old = await spend(1);
+        const recent = await spend(2);
+        await remove(old._id);
+        await remove(recent._id);
+        await TrashedTransaction.updateOne({ _id: old._id }, { purgeAt: new Date(Date.now() - DAY_MS) });
+
+        expect(await emptyTrash()).toEqual({ purged: 1 });
+        expect(await emptyTrash()).toEqual({ purged: 0 });
+        expect(await TrashedTransaction.exists({ _id: recent._id })).toBeTruthy();
+    });
+});
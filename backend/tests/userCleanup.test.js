@@ -14,6 +14,8 @@ const Goal = require('../src/models/goal.model');
 const Transaction = require('../src/models/transaction.model');
 const Notification = require('../src/models/notification.model');
 const RecurringTransaction = require('../src/models/recurringTransaction.model');
+const Price = require('../src/models/price.model');
+const NetWorthSnapshot = require('../src/models/netWorthSnapshot.model');
 const { signAccess } = require('../src/utils/jwt');
 const transactionWriter = require('../src/services/transactionWriter');
 const { purgeUserData } = require('../src/services/userCleanup');
@@ -41,6 +43,10 @@ const populate = async (user) => {
         user: user._id, name: 'Rent', amount: 100, type: 'expense',
         frequency: 'monthly', startDate: new Date(), nextDue: daysAhead(5)
     });
+    await Price.create({ user: user._id, symbol: 'VTI', date: new Date(), price: 250 });
+    await NetWorthSnapshot.create({
+        user: user._id, date: new Date(), currency: 'USD', assets: 100, liabilities: 0, netWorth: 100
+    });
     await dispatch(user, { type: 'system', title: 'Hi', body: 'x', dedupeKey: `sys:${user._id}` });
     await transactionWriter.createTransaction({
         user: user._id, amount: 25, type: 'expense', category: category._id
@@ -55,6 +61,8 @@ const countsFor = async (userId) => ({
     goals: await Goal.countDocuments({ user: userId }),
     notifications: await Notification.countDocuments({ user: userId }),
     recurring: await RecurringTransaction.countDocuments({ user: userId }),
+    prices: await Price.countDocuments({ user: userId }),
+    snapshots: await NetWorthSnapshot.countDocuments({ user: userId }),
     users: await User.countDocuments({ _id: userId })
 });
 
@@ -71,7 +79,7 @@ describe('purgeUserData', () => {
 
         expect(await countsFor(user._id)).toEqual({
             transactions: 0, accounts: 0, categories: 0, budgets: 0,
-            goals: 0, notifications: 0, recurring: 0, users: 0
+            goals: 0, notifications: 0, recurring: 0, prices: 0, snapshots: 0, users: 0
         });
     });
 
@@ -97,6 +105,9 @@ describe('purgeUserData', () => {
 
         const after = await countsFor(user._id);
         expect(after.transactions).toEqual(0);
+        expect(after.prices).toEqual(0);
+        // Otherwise the net worth chart keeps drawing the wiped accounts.
+        expect(after.snapshots).toEqual(0);
         expect(after.users).toEqual(1);
     });
 
@@ -25,7 +25,12 @@ const CategoriesPage = lazy(() => import("./pages/CategoriesPage"));
 const BudgetsPage = lazy(() => import("./pages/BudgetsPage"));
 const GoalsPage = lazy(() => import("./pages/GoalsPage"));
 const RecurringPage = lazy(() => import("./pages/RecurringPage"));
+const RulesPage = lazy(() => import("./pages/RulesPage"));
+const DuplicatesPage = lazy(() => import("./pages/DuplicatesPage"));
+const PayeesPage = lazy(() => import("./pages/PayeesPage"));
+const ReimbursablesPage = lazy(() => import("./pages/ReimbursablesPage"));
 const AccountsPage = lazy(() => import("./pages/AccountsPage"));
+const InvestmentsPage = lazy(() => import("./pages/InvestmentsPage"));
 const ReportsPage = lazy(() => import("./pages/ReportsPage"));
 const AdminPage = lazy(() => import("./pages/AdminPage"));
 const SettingsPage = lazy(() => import("./pages/SettingsPage"));
@@ -187,6 +192,16 @@ const AppRoutes: React.FC = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/investments"
+          element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <InvestmentsPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/recurring"
           element={
@@ -197,6 +212,46 @@ const AppRoutes: React.FC = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/rules"
+          element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <RulesPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/payees"
+          element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <PayeesPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/reimbursables"
+          element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <ReimbursablesPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/duplicates"
+          element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <DuplicatesPage />
+              </DashboardLayout>
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/reports"
           element={
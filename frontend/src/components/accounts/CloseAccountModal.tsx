@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Modal } from "../common/Modal";
+import { Button } from "../common/Button";
+import { Input } from "../common/Input";
+import { closeAccount } from "../../services/accounts";
+import { apiErrorMessage } from "../../lib/api";
+import { useToast } from "../../hooks/useToast";
+import { useCurrency } from "../../hooks/useCurrency";
+import type { Account } from "../../types";
+
+interface CloseAccountModalProps {
+  account: Account | null;
+  /** Where the remaining balance can go: the user's other active accounts. */
+  accounts: Account[];
+  onClose: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Close an account: what is left in it is transferred to another account in
+ * the same currency (or what it owes is paid from there), then it is
+ * archived with its history intact.
+ */
+export const CloseAccountModal: React.FC<CloseAccountModalProps> = ({ account, accounts, onClose }) => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const { formatCurrency } = useCurrency();
+  const destinations = accounts.filter(
+    (candidate) => candidate._id !== account?._id && candidate.currency === account?.currency
+  );
+  const [to, setTo] = useState(() => (destinations.find((a) => a.isDefault) || destinations[0])?._id || "");
+  const [date, setDate] = useState(today);
+
+  const balance = account ? account.cashBalance ?? account.balance : 0;
+  const hasBalance = Math.abs(balance) >= 0.005;
+  const hasHoldings = (account?.marketValue ?? 0) > 0;
+
+  const closeMutation = useMutation({
+    mutationFn: () => closeAccount(account?._id || "", hasBalance ? { to, date } : {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      showSuccess(`${account?.name} closed`);
+      onClose();
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to close the account")),
+  });
+
+  return (
+    <Modal isOpen={Boolean(account)} onClose={onClose} title={`Close ${account?.name || "account"}`}>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          closeMutation.mutate();
+        }}
+        className="space-y-4"
+      >
+        {hasHoldings ? (
+          <p className="text-sm text-red-600">Sell the holdings in this account before closing it.</p>
+        ) : hasBalance ? (
+          <>
+            <p className="text-sm text-slate-600">
+              {balance > 0
+                ? `${formatCurrency(balance, account?.currency)} is left in this account. Move it to:`
+                : `This account owes ${formatCurrency(-balance, account?.currency)}. Pay it from:`}
+            </p>
+            <div>
+              <select
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2.5"
+              >
+                {destinations.map((destination) => (
+                  <option key={destination._id} value={destination._id}>
+                    {destination.name}
+                  </option>
+                ))}
+              </select>
+              {destinations.length === 0 && (
+                <p className="mt-1 text-xs text-red-600">
+                  The balance can only move to an account in {account?.currency}.
+                </p>
+              )}
+            </div>
+            <Input label="Date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </>
+        ) : (
+          <p className="text-sm text-slate-600">This account has nothing left in it.</p>
+        )}
+        <p className="text-sm text-slate-500">
+          The account is archived afterwards. Its transactions stay in your history.
+        </p>
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="danger"
+            isLoading={closeMutation.isPending}
+            disabled={hasHoldings || (hasBalance && !to)}
+          >
+            Close account
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Modal } from "../common/Modal";
+import { Button } from "../common/Button";
+import { Input } from "../common/Input";
+import { getAmortization, recordLoanPayment } from "../../services/accounts";
+import { apiErrorMessage } from "../../lib/api";
+import { useToast } from "../../hooks/useToast";
+import { useCurrency } from "../../hooks/useCurrency";
+import type { Account } from "../../types";
+
+interface LoanModalProps {
+  loan: Account | null;
+  /** Where a payment can come from: the user's other active accounts. */
+  accounts: Account[];
+  onClose: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * A loan's remaining amortization schedule, and a form to record a payment.
+ * The interest part of a payment is an expense on the paying account; the
+ * rest is a transfer that brings the loan's balance down.
+ */
+export const LoanModal: React.FC<LoanModalProps> = ({ loan, accounts, onClose }) => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const { formatCurrency } = useCurrency();
+  const sources = accounts.filter(
+    (account) => account._id !== loan?._id && account.type !== "loan" && account.currency === loan?.currency
+  );
+  const [from, setFrom] = useState(() => (sources.find((a) => a.isDefault) || sources[0])?._id || "");
+  const [amount, setAmount] = useState(() => (loan?.loan ? String(loan.loan.monthlyPayment) : ""));
+  const [date, setDate] = useState(today);
+
+  const loanId = loan?._id || "";
+  const { data: summary, isLoading } = useQuery({
+    queryKey: ["amortization", loanId],
+    queryFn: () => getAmortization(loanId),
+    enabled: Boolean(loan),
+  });
+
+  const payMutation = useMutation({
+    mutationFn: () => recordLoanPayment(loanId, { from, date, amount: Number(amount) }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["amortization", loanId] });
+      showSuccess(
+        `Paid ${formatCurrency(result.principal, loan?.currency)} principal and ${formatCurrency(
+          result.interest,
+          loan?.currency
+        )} interest`
+      );
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to record the payment")),
+  });
+
+  const money = (n: number) => formatCurrency(n, loan?.currency);
+
+  return (
+    <Modal isOpen={Boolean(loan)} onClose={onClose} title={loan?.name || "Loan"}>
+      <div className="space-y-5">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            payMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1.5">Pay from</label>
+            <select
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2.5"
+            >
+              {sources.map((account) => (
+                <option key={account._id} value={account._id}>
+                  {account.name}
+                </option>
+              ))}
+            </select>
+            {sources.length === 0 && (
+              <p className="mt-1 text-xs text-red-600">
+                Payments come from an account in {loan?.currency}.
+              </p>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            <Input label="Date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              isLoading={payMutation.isPending}
+              disabled={!from || !(Number(amount) > 0) || summary?.remainingBalance === 0}
+            >
+              Record payment
+            </Button>
+          </div>
+        </form>
+
+        <div className="border-t border-slate-100 pt-4">
+          {isLoading || !summary ? (
+            <p className="text-sm text-slate-500">Loading…</p>
+          ) : (summary.schedule || []).length === 0 ? (
+            <p className="text-sm text-slate-500">This loan is paid off.</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto">
+              <table className="min-w-full text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="text-xs text-slate-500 uppercase">
+                    <th className="py-2 text-left font-semibold">Date</th>
+                    <th className="py-2 text-right font-semibold">Interest</th>
+                    <th className="py-2 text-right font-semibold">Principal</th>
+                    <th className="py-2 text-right font-semibold">Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {(summary.schedule || []).map((row) => (
+                    <tr key={row.number}>
+                      <td className="py-1.5 text-slate-600">{new Date(row.date).toLocaleDateString()}</td>
+                      <td className="py-1.5 text-right text-red-600">{money(row.interest)}</td>
+                      <td className="py-1.5 text-right text-slate-900">{money(row.principal)}</td>
+                      <td className="py-1.5 text-right text-slate-500">{money(row.balance)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
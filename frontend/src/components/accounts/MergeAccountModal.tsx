@@ -0,0 +1,85 @@
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Modal } from "../common/Modal";
+import { Button } from "../common/Button";
+import { mergeAccount } from "../../services/accounts";
+import { apiErrorMessage } from "../../lib/api";
+import { useToast } from "../../hooks/useToast";
+import type { Account } from "../../types";
+
+interface MergeAccountModalProps {
+  account: Account | null;
+  /** What it can be merged into: the user's other active accounts. */
+  accounts: Account[];
+  onClose: () => void;
+}
+
+/**
+ * Merge an account into another in the same currency. Its transactions,
+ * recurring rules and opening balance move over, and the account is deleted.
+ */
+export const MergeAccountModal: React.FC<MergeAccountModalProps> = ({ account, accounts, onClose }) => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const targets = accounts.filter(
+    (candidate) => candidate._id !== account?._id && candidate.currency === account?.currency
+  );
+  const [into, setInto] = useState(() => (targets.find((a) => a.isDefault) || targets[0])?._id || "");
+
+  const mergeMutation = useMutation({
+    mutationFn: () => mergeAccount(account?._id || "", into),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["recurring"] });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      showSuccess(
+        `Merged into ${result.account.name}: ${result.moved} transaction(s) and ${result.recurring} recurring rule(s) moved`
+      );
+      onClose();
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to merge the accounts")),
+  });
+
+  return (
+    <Modal isOpen={Boolean(account)} onClose={onClose} title={`Merge ${account?.name || "account"}`}>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          mergeMutation.mutate();
+        }}
+        className="space-y-4"
+      >
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1.5">Merge into</label>
+          <select
+            value={into}
+            onChange={(e) => setInto(e.target.value)}
+            className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2.5"
+          >
+            {targets.map((target) => (
+              <option key={target._id} value={target._id}>
+                {target.name}
+              </option>
+            ))}
+          </select>
+          {targets.length === 0 && (
+            <p className="mt-1 text-xs text-red-600">Accounts can only be merged into one in {account?.currency}.</p>
+          )}
+        </div>
+        <p className="text-sm text-slate-500">
+          Every transaction and recurring rule on {account?.name} moves to the account you choose, and{" "}
+          {account?.name} is deleted. Transfers between the two go to the trash. This cannot be undone.
+        </p>
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="danger" isLoading={mergeMutation.isPending} disabled={!into}>
+            Merge
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
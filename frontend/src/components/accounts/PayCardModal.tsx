@@ -0,0 +1,104 @@
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Modal } from "../common/Modal";
+import { Button } from "../common/Button";
+import { Input } from "../common/Input";
+import { createTransaction } from "../../services/transactions";
+import { apiErrorMessage } from "../../lib/api";
+import { useToast } from "../../hooks/useToast";
+import { useCurrency } from "../../hooks/useCurrency";
+import type { Account } from "../../types";
+
+interface PayCardModalProps {
+  card: Account | null;
+  /** Where the payment can come from: the user's other active accounts. */
+  accounts: Account[];
+  onClose: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Pay a card from another account. The payment is an ordinary transfer into
+ * the card, which its statement counts against what is due.
+ */
+export const PayCardModal: React.FC<PayCardModalProps> = ({ card, accounts, onClose }) => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const { formatCurrency } = useCurrency();
+  const sources = accounts.filter((account) => account._id !== card?._id && account.type !== "card");
+  const [from, setFrom] = useState(() => (sources.find((a) => a.isDefault) || sources[0])?._id || "");
+  const [amount, setAmount] = useState(() => (card?.statement?.remaining ? String(card.statement.remaining) : ""));
+  const [date, setDate] = useState(today);
+
+  const payMutation = useMutation({
+    mutationFn: () =>
+      createTransaction({
+        type: "transfer",
+        account: from,
+        transferTo: card?._id,
+        amount: Number(amount),
+        date,
+        description: `${card?.name} payment`,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      showSuccess("Payment recorded");
+      onClose();
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to record the payment")),
+  });
+
+  const statement = card?.statement;
+
+  return (
+    <Modal isOpen={Boolean(card)} onClose={onClose} title={`Pay ${card?.name || "card"}`}>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          payMutation.mutate();
+        }}
+        className="space-y-5"
+      >
+        {statement && statement.remaining > 0 && (
+          <p className="text-sm text-slate-600">
+            {formatCurrency(statement.remaining, card?.currency)} of the statement is still due
+            {statement.dueDate ? ` by ${new Date(statement.dueDate).toLocaleDateString()}` : ""}.
+          </p>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1.5">From</label>
+          <select
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2.5"
+          >
+            {sources.map((account) => (
+              <option key={account._id} value={account._id}>
+                {account.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Input
+          label="Amount"
+          type="number"
+          step="0.01"
+          min="0"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+        />
+        <Input label="Date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        <div className="flex justify-end space-x-3 pt-4 border-t border-slate-100">
+          <Button variant="secondary" type="button" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" isLoading={payMutation.isPending} disabled={!from || !(Number(amount) > 0)}>
+            Record payment
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
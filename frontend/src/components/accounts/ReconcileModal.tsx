@@ -0,0 +1,269 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FiCheckCircle } from "react-icons/fi";
+import { Modal } from "../common/Modal";
+import { Button } from "../common/Button";
+import { Input } from "../common/Input";
+import {
+  cancelReconciliation,
+  finishReconciliation,
+  getReconciliation,
+  markCleared,
+  startReconciliation,
+} from "../../services/accounts";
+import { apiErrorMessage } from "../../lib/api";
+import { useToast } from "../../hooks/useToast";
+import { useCurrency } from "../../hooks/useCurrency";
+import type { Account, ReconciliationView } from "../../types";
+
+interface ReconcileModalProps {
+  account: Account | null;
+  onClose: () => void;
+}
+
+/**
+ * Check an account against a bank statement: enter the statement's date and
+ * ending balance, tick the rows it shows, and finish once the difference is
+ * zero. Finishing locks the ticked rows.
+ */
+export const ReconcileModal: React.FC<ReconcileModalProps> = ({ account, onClose }) => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const { formatCurrency } = useCurrency();
+  const [statementDate, setStatementDate] = useState("");
+  const [statementBalance, setStatementBalance] = useState("");
+  const [isEditingStatement, setIsEditingStatement] = useState(false);
+
+  const accountId = account?._id || "";
+  const queryKey = ["reconciliation", accountId];
+
+  const { data: view, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => getReconciliation(accountId),
+    enabled: Boolean(account),
+  });
+
+  const setView = (next: ReconciliationView) => queryClient.setQueryData(queryKey, next);
+
+  const startMutation = useMutation({
+    mutationFn: () =>
+      startReconciliation(accountId, {
+        statementDate,
+        statementBalance: Number(statementBalance),
+      }),
+    onSuccess: (next) => {
+      setView(next);
+      setIsEditingStatement(false);
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to start reconciliation")),
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: ({ ids, cleared }: { ids: string[]; cleared: boolean }) =>
+      markCleared(accountId, ids, cleared),
+    onSuccess: setView,
+    onError: (err) => showError(apiErrorMessage(err, "Failed to update")),
+  });
+
+  // Reconciling changes statuses and the account's balances.
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    queryClient.invalidateQueries({ queryKey });
+  };
+
+  const finishMutation = useMutation({
+    mutationFn: () => finishReconciliation(accountId),
+    onSuccess: (result) => {
+      refresh();
+      showSuccess(`Reconciled ${result.reconciled} transaction(s)`);
+      onClose();
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to finish reconciliation")),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelReconciliation(accountId),
+    onSuccess: () => {
+      refresh();
+      onClose();
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to cancel reconciliation")),
+  });
+
+  const session = view?.session;
+  const rows = view?.transactions || [];
+  const uncleared = rows.filter((row) => row.status !== "cleared").map((row) => row._id);
+  const isBalanced = view?.difference === 0;
+
+  const editStatement = () => {
+    setStatementDate(session ? session.statementDate.slice(0, 10) : "");
+    setStatementBalance(session ? String(session.statementBalance) : "");
+    setIsEditingStatement(true);
+  };
+
+  const statementForm = (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        startMutation.mutate();
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-slate-500">
+        Enter the closing date and ending balance from your bank statement.
+        {account?.lastReconciledAt &&
+          ` Last reconciled to ${new Date(account.lastReconciledAt).toLocaleDateString()}.`}{" "}
+        A transfer is reconciled here for this account only; its other side waits for that account&apos;s statement.
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          label="Statement date"
+          type="date"
+          value={statementDate}
+          onChange={(e) => setStatementDate(e.target.value)}
+          required
+        />
+        <Input
+          label="Ending balance"
+          type="number"
+          step="0.01"
+          value={statementBalance}
+          onChange={(e) => setStatementBalance(e.target.value)}
+          required
+        />
+      </div>
+      <div className="flex justify-end gap-3">
+        <Button
+          variant="secondary"
+          type="button"
+          onClick={() => (session ? setIsEditingStatement(false) : onClose())}
+        >
+          Cancel
+        </Button>
+        <Button type="submit" isLoading={startMutation.isPending}>
+          {session ? "Update" : "Start"}
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <Modal
+      isOpen={Boolean(account)}
+      onClose={onClose}
+      title={`Reconcile ${account?.name || ""}`}
+      size="xl"
+    >
+      {isLoading || !view ? (
+        <p className="text-sm text-slate-400">Loading…</p>
+      ) : !session || isEditingStatement ? (
+        statementForm
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3 text-sm">
+            <div className="p-3 rounded-lg bg-slate-50">
+              <p className="text-xs text-slate-500">
+                Statement, {new Date(session.statementDate).toLocaleDateString()}
+              </p>
+              <p className="font-semibold text-slate-900">
+                {formatCurrency(session.statementBalance)}
+              </p>
+              <button
+                type="button"
+                onClick={editStatement}
+                className="text-xs text-primary-600 hover:text-primary-700"
+              >
+                Change
+              </button>
+            </div>
+            <div className="p-3 rounded-lg bg-slate-50">
+              <p className="text-xs text-slate-500">Cleared balance</p>
+              <p className="font-semibold text-slate-900">
+                {formatCurrency(view.clearedBalance ?? 0)}
+              </p>
+            </div>
+            <div className={`p-3 rounded-lg ${isBalanced ? "bg-emerald-50" : "bg-amber-50"}`}>
+              <p className="text-xs text-slate-500">Difference</p>
+              <p className={`font-semibold ${isBalanced ? "text-emerald-700" : "text-amber-700"}`}>
+                {formatCurrency(view.difference ?? 0)}
+              </p>
+            </div>
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="py-6 text-center text-sm text-slate-400">
+              No unreconciled transactions up to the statement date.
+            </p>
+          ) : (
+            <div>
+              <div className="flex justify-end mb-1">
+                <button
+                  type="button"
+                  onClick={() => clearMutation.mutate({ ids: uncleared, cleared: true })}
+                  disabled={uncleared.length === 0 || clearMutation.isPending}
+                  className="text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                >
+                  Tick all
+                </button>
+              </div>
+              <ul className="divide-y divide-slate-100 max-h-80 overflow-y-auto border border-slate-100 rounded-lg">
+                {rows.map((row) => (
+                  <li key={row._id}>
+                    <label className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-slate-50">
+                      <input
+                        type="checkbox"
+                        checked={row.status === "cleared"}
+                        onChange={(e) =>
+                          clearMutation.mutate({ ids: [row._id], cleared: e.target.checked })
+                        }
+                        disabled={clearMutation.isPending}
+                        className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <span className="w-24 text-xs text-slate-500">
+                        {new Date(row.date).toLocaleDateString()}
+                      </span>
+                      <span className="flex-1 min-w-0 truncate text-sm text-slate-800">
+                        {row.description || row.category?.name || "No description"}
+                      </span>
+                      <span
+                        className={`text-sm font-medium ${
+                          row.amount < 0 ? "text-red-600" : "text-emerald-600"
+                        }`}
+                      >
+                        {formatCurrency(row.amount)}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-between pt-4 border-t border-slate-100">
+            <Button
+              variant="ghost"
+              onClick={() => cancelMutation.mutate()}
+              isLoading={cancelMutation.isPending}
+            >
+              Cancel reconciliation
+            </Button>
+            <div className="flex gap-3">
+              <Button variant="secondary" onClick={onClose}>
+                Finish later
+              </Button>
+              <Button
+                onClick={() => finishMutation.mutate()}
+                disabled={!isBalanced}
+                isLoading={finishMutation.isPending}
+                icon={<FiCheckCircle className="w-4 h-4" />}
+              >
+                Finish
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
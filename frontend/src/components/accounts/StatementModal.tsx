@@ -0,0 +1,207 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { FiDownload, FiPrinter } from "react-icons/fi";
+import { Modal } from "../common/Modal";
+import { Button } from "../common/Button";
+import { Input } from "../common/Input";
+import { downloadStatementCsv, getStatement } from "../../services/accounts";
+import { apiErrorMessage } from "../../lib/api";
+import { useToast } from "../../hooks/useToast";
+import { useCurrency } from "../../hooks/useCurrency";
+import type { Account, AccountStatement } from "../../types";
+
+interface StatementModalProps {
+  account: Account | null;
+  onClose: () => void;
+}
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+const firstOfMonth = () => {
+  const now = new Date();
+  return isoDay(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)));
+};
+const fileName = (statement: AccountStatement, ext: string) =>
+  `statement-${statement.account.name.replace(/[^A-Za-z0-9_-]+/g, "-")}-${statement.start.slice(0, 10)}_${statement.end.slice(0, 10)}.${ext}`;
+
+/**
+ * An account's statement for a period: the balance it opened on, each
+ * transaction with the balance after it, and the balance it closed on.
+ * Downloads as CSV from the server, or as a PDF built here to print.
+ */
+export const StatementModal: React.FC<StatementModalProps> = ({ account, onClose }) => {
+  const { showSuccess, showError } = useToast();
+  const { formatCurrency } = useCurrency();
+  const [start, setStart] = useState(firstOfMonth);
+  const [end, setEnd] = useState(() => isoDay(new Date()));
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const accountId = account?._id || "";
+  const validPeriod = Boolean(start && end && start <= end);
+  const { data: statement, isLoading, error } = useQuery({
+    queryKey: ["statement", accountId, start, end],
+    queryFn: () => getStatement(accountId, { start, end }),
+    enabled: Boolean(account) && validPeriod,
+  });
+
+  const money = (n: number) => formatCurrency(n, account?.currency);
+
+  const handleCsv = async () => {
+    if (!statement) return;
+    setIsDownloading(true);
+    try {
+      const blob = await downloadStatementCsv(accountId, { start, end });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileName(statement, "csv");
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+      showSuccess("Statement downloaded");
+    } catch (err) {
+      showError(apiErrorMessage(err, "Failed to download the statement"));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handlePdf = () => {
+    if (!statement) return;
+    const doc = new jsPDF();
+    const margin = 14;
+
+    doc.setFontSize(18);
+    doc.text(`Statement — ${statement.account.name}`, margin, 20);
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text(`Period: ${statement.start.slice(0, 10)} to ${statement.end.slice(0, 10)} · ${statement.account.currency}`, margin, 28);
+    doc.text(`Generated: ${new Date().toLocaleString()}`, margin, 33);
+    doc.setTextColor(20);
+
+    autoTable(doc, {
+      startY: 40,
+      head: [["Opening balance", "Money in", "Money out", "Closing balance"]],
+      body: [[
+        money(statement.openingBalance),
+        money(statement.moneyIn),
+        money(statement.moneyOut),
+        money(statement.closingBalance),
+      ]],
+      styles: { fontSize: 10 },
+      headStyles: { fillColor: [59, 130, 246] },
+      margin: { left: margin, right: margin },
+    });
+    const y = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
+
+    autoTable(doc, {
+      startY: y,
+      head: [["Date", "Description", "Category", "Amount", "Balance"]],
+      body: statement.transactions.map((line) => [
+        new Date(line.date).toLocaleDateString(),
+        line.description || line.counterparty || "—",
+        line.type === "transfer" ? `Transfer · ${line.counterparty}` : line.category,
+        money(line.amount),
+        money(line.balance),
+      ]),
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [16, 185, 129] },
+      columnStyles: { 3: { halign: "right" }, 4: { halign: "right" } },
+      margin: { left: margin, right: margin },
+    });
+
+    doc.save(fileName(statement, "pdf"));
+    showSuccess("Statement downloaded");
+  };
+
+  return (
+    <Modal isOpen={Boolean(account)} onClose={onClose} title={`Statement — ${account?.name || ""}`}>
+      <div className="space-y-5">
+        <div className="grid grid-cols-2 gap-4">
+          <Input label="From" type="date" value={start} onChange={(e) => setStart(e.target.value)} />
+          <Input label="To" type="date" value={end} onChange={(e) => setEnd(e.target.value)} />
+        </div>
+        {!validPeriod && <p className="text-xs text-red-600">The start date must be on or before the end date.</p>}
+
+        {error ? (
+          <p className="text-sm text-red-600">{apiErrorMessage(error, "Failed to load the statement")}</p>
+        ) : isLoading || !statement ? (
+          <p className="text-sm text-slate-500">Loading…</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div className="rounded-xl bg-slate-50 px-3 py-2">
+                <p className="text-xs text-slate-500">Opening balance</p>
+                <p className="font-semibold text-slate-900">{money(statement.openingBalance)}</p>
+              </div>
+              <div className="rounded-xl bg-slate-50 px-3 py-2">
+                <p className="text-xs text-slate-500">Closing balance</p>
+                <p className="font-semibold text-slate-900">{money(statement.closingBalance)}</p>
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              In {money(statement.moneyIn)} · Out {money(statement.moneyOut)}
+            </p>
+
+            {statement.transactions.length === 0 ? (
+              <p className="text-sm text-slate-500">No transactions in this period.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="text-xs text-slate-500 uppercase">
+                      <th className="py-2 text-left font-semibold">Date</th>
+                      <th className="py-2 text-left font-semibold">Description</th>
+                      <th className="py-2 text-right font-semibold">Amount</th>
+                      <th className="py-2 text-right font-semibold">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {statement.transactions.map((line) => (
+                      <tr key={line._id}>
+                        <td className="py-1.5 text-slate-600 whitespace-nowrap">
+                          {new Date(line.date).toLocaleDateString()}
+                        </td>
+                        <td className="py-1.5 text-slate-900">
+                          {line.description || line.counterparty || "—"}
+                          {line.type === "transfer" && line.counterparty && (
+                            <span className="block text-xs text-slate-400">Transfer · {line.counterparty}</span>
+                          )}
+                        </td>
+                        <td
+                          className={`py-1.5 text-right whitespace-nowrap ${
+                            line.amount >= 0 ? "text-emerald-600" : "text-slate-900"
+                          }`}
+                        >
+                          {money(line.amount)}
+                        </td>
+                        <td className="py-1.5 text-right text-slate-500 whitespace-nowrap">{money(line.balance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button
+            variant="secondary"
+            onClick={handleCsv}
+            isLoading={isDownloading}
+            disabled={!statement}
+            icon={<FiDownload className="w-4 h-4" />}
+          >
+            CSV
+          </Button>
+          <Button onClick={handlePdf} disabled={!statement} icon={<FiPrinter className="w-4 h-4" />}>
+            PDF
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,276 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FiPlus, FiTrash2, FiUpload } from "react-icons/fi";
+import {
+  deleteFxRate,
+  getFxCurrencies,
+  getFxRates,
+  importFxRates,
+  saveFxRate,
+} from "../../services/fxRates";
+import { apiErrorMessage } from "../../lib/api";
+import { useToast } from "../../hooks/useToast";
+import { Button } from "../common/Button";
+import { Card } from "../common/Card";
+import { Input } from "../common/Input";
+import { Modal } from "../common/Modal";
+import type { FxRateImportResult } from "../../types";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * The local exchange-rate table. Every rate is what one unit of a currency is
+ * worth in the pivot; adding, replacing or deleting one recomputes the base
+ * amounts of the transactions it affects.
+ */
+export const ExchangeRates: React.FC = () => {
+  const [selected, setSelected] = useState("");
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [currency, setCurrency] = useState("");
+  const [date, setDate] = useState(today);
+  const [rate, setRate] = useState("");
+  const [csv, setCsv] = useState("");
+  const [importResult, setImportResult] = useState<FxRateImportResult | null>(null);
+
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+
+  const { data: currencyData } = useQuery({
+    queryKey: ["fx-currencies"],
+    queryFn: getFxCurrencies,
+  });
+  const currencies = currencyData?.currencies || [];
+  const pivot = currencyData?.pivot || "USD";
+
+  const { data: rates = [], isLoading } = useQuery({
+    queryKey: ["fx-rates", selected],
+    queryFn: () => getFxRates(selected || undefined),
+  });
+
+  // Base amounts move with the rates, and with them every total.
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["fx-currencies"] });
+    queryClient.invalidateQueries({ queryKey: ["fx-rates"] });
+    queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["accounts"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: saveFxRate,
+    onSuccess: (result: { reconverted: { updated: number } }) => {
+      refresh();
+      setIsAddOpen(false);
+      setRate("");
+      showSuccess(`Rate saved · ${result.reconverted.updated} transaction(s) reconverted`);
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to save the rate")),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteFxRate,
+    onSuccess: () => {
+      refresh();
+      showSuccess("Rate deleted");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to delete the rate")),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: importFxRates,
+    onSuccess: (result) => {
+      refresh();
+      setImportResult(result);
+      showSuccess(`${result.imported} rate(s) imported`);
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to import rates")),
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(setCsv);
+  };
+
+  const openImport = () => {
+    setCsv("");
+    setImportResult(null);
+    setIsImportOpen(true);
+  };
+
+  return (
+    <Card className="overflow-hidden mt-8">
+      <div className="p-6 border-b border-slate-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900">Exchange rates</h3>
+          <p className="text-sm text-slate-500">
+            What one unit of each currency is worth in {pivot}. A transaction
+            uses the latest rate on or before its date.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={openImport} icon={<FiUpload className="h-4 w-4" />}>
+            Import CSV
+          </Button>
+          <Button onClick={() => setIsAddOpen(true)} icon={<FiPlus className="h-4 w-4" />}>
+            Add rate
+          </Button>
+        </div>
+      </div>
+
+      <div className="px-6 py-3 flex flex-wrap gap-2 border-b border-slate-100">
+        <button
+          onClick={() => setSelected("")}
+          className={`px-3 py-1 rounded-full text-xs font-medium ${
+            selected === "" ? "bg-primary-100 text-primary-700" : "bg-slate-100 text-slate-600"
+          }`}
+        >
+          All
+        </button>
+        {currencies.map((c) => (
+          <button
+            key={c.currency}
+            onClick={() => setSelected(c.currency)}
+            title={`${c.count} day(s) on record`}
+            className={`px-3 py-1 rounded-full text-xs font-medium ${
+              selected === c.currency ? "bg-primary-100 text-primary-700" : "bg-slate-100 text-slate-600"
+            }`}
+          >
+            {c.currency} {c.rate}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <p className="p-6 text-sm text-slate-500">Loading…</p>
+      ) : rates.length === 0 ? (
+        <p className="p-6 text-sm text-slate-500">
+          No rates yet. Transactions can only be recorded in {pivot} and
+          currencies that have one.
+        </p>
+      ) : (
+        <table className="min-w-full divide-y divide-slate-100">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase">Date</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase">Currency</th>
+              <th className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase">Rate</th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rates.map((row) => (
+              <tr key={row._id}>
+                <td className="px-6 py-3 text-sm text-slate-600">{row.date.slice(0, 10)}</td>
+                <td className="px-6 py-3 text-sm font-medium text-slate-900">{row.currency}</td>
+                <td className="px-6 py-3 text-sm text-slate-900 text-right">{row.rate}</td>
+                <td className="px-6 py-3 text-right">
+                  <button
+                    onClick={() => {
+                      if (confirm(`Delete the ${row.currency} rate for ${row.date.slice(0, 10)}?`)) {
+                        deleteMutation.mutate(row._id);
+                      }
+                    }}
+                    disabled={deleteMutation.isPending}
+                    className="p-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50"
+                    title="Delete"
+                  >
+                    <FiTrash2 className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <Modal isOpen={isAddOpen} onClose={() => setIsAddOpen(false)} title="Add Exchange Rate">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate({ currency: currency.toUpperCase(), date, rate: Number(rate) });
+          }}
+          className="space-y-5"
+        >
+          <Input
+            label="Currency"
+            placeholder="e.g., EUR"
+            maxLength={3}
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+          />
+          <Input label="Date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          <Input
+            label={`Value of one unit in ${pivot}`}
+            type="number"
+            step="any"
+            min="0"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+          />
+          <p className="-mt-3 text-xs text-slate-500">
+            Replaces the rate already on record for that currency and day.
+          </p>
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button variant="secondary" type="button" onClick={() => setIsAddOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              isLoading={saveMutation.isPending}
+              disabled={currency.length !== 3 || !(Number(rate) > 0)}
+            >
+              Save
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} title="Import Exchange Rates">
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600">
+            A CSV with <code>date</code>, <code>currency</code> and{" "}
+            <code>rate</code> columns, dates as YYYY-MM-DD. Rates already on
+            record for the same day are replaced.
+          </p>
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} className="text-sm" />
+          <textarea
+            rows={6}
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            placeholder={"date,currency,rate\n2026-01-02,EUR,1.0834"}
+            className="block w-full rounded-xl border-slate-200 font-mono text-xs p-3"
+          />
+          {importResult && (
+            <div className="text-sm text-slate-600">
+              <p>
+                {importResult.imported} imported, {importResult.reconverted.updated} transaction(s) reconverted.
+              </p>
+              {importResult.errors.length > 0 && (
+                <ul className="mt-2 text-xs text-red-600 space-y-0.5">
+                  {importResult.errors.slice(0, 10).map((e) => (
+                    <li key={e.line}>
+                      Line {e.line}: {e.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button variant="secondary" type="button" onClick={() => setIsImportOpen(false)}>
+              Close
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate(csv)}
+              isLoading={importMutation.isPending}
+              disabled={!csv.trim()}
+            >
+              Import
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </Card>
+  );
+};
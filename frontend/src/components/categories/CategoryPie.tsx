@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from "recharts";
+import { FiChevronRight } from "react-icons/fi";
+import { useCurrency } from "../../hooks/useCurrency";
+import { categoryPath, drillDown } from "../../utils/categoryTree";
+import type { Category } from "../../types";
+
+interface CategoryPieProps {
+  /** Spending by category id, as from spendingByCategory. */
+  spending: Record<string, number>;
+  categories: Category[];
+  colors: string[];
+  /** Shown when there is nothing to chart at the top level. */
+  empty?: React.ReactNode;
+}
+
+/**
+ * Spending by category as a donut that starts at the top level. Clicking a
+ * slice with subcategories opens it; the trail above the chart leads back up.
+ */
+export const CategoryPie: React.FC<CategoryPieProps> = ({ spending, categories, colors, empty }) => {
+  const { formatCurrency } = useCurrency();
+  const [parentId, setParentId] = useState<string | null>(null);
+
+  const slices = drillDown(spending, categories, parentId);
+  const trail = categoryPath(categories, parentId);
+
+  if (parentId === null && slices.length === 0) return <>{empty}</>;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex flex-wrap items-center gap-1 text-xs text-slate-500 min-h-[1.25rem]">
+        {trail.length > 0 && (
+          <>
+            <button type="button" onClick={() => setParentId(null)} className="hover:text-primary-600 hover:underline">
+              All categories
+            </button>
+            {trail.map((category, i) => (
+              <React.Fragment key={category._id}>
+                <FiChevronRight className="w-3 h-3" />
+                {i === trail.length - 1 ? (
+                  <span className="font-medium text-slate-700">{category.name}</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setParentId(category._id)}
+                    className="hover:text-primary-600 hover:underline"
+                  >
+                    {category.name}
+                  </button>
+                )}
+              </React.Fragment>
+            ))}
+          </>
+        )}
+      </div>
+
+      <div className="flex-1 w-full min-h-[260px]">
+        {slices.length > 0 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie
+                data={slices}
+                cx="50%"
+                cy="50%"
+                innerRadius={60}
+                outerRadius={80}
+                paddingAngle={5}
+                dataKey="value"
+                nameKey="name"
+                onClick={(_, index) => {
+                  const slice = slices[index];
+                  if (slice?.hasChildren) setParentId(slice.id);
+                }}
+              >
+                {slices.map((slice, index) => (
+                  <Cell
+                    key={slice.id || "uncategorized"}
+                    fill={colors[index % colors.length]}
+                    className={slice.hasChildren ? "cursor-pointer" : undefined}
+                  />
+                ))}
+              </Pie>
+              <Tooltip
+                formatter={(value) => formatCurrency(value as number)}
+                contentStyle={{ borderRadius: "8px", border: "none", boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)" }}
+              />
+            </PieChart>
+          </ResponsiveContainer>
+        ) : (
+          <p className="h-full flex items-center justify-center text-sm text-slate-500">Nothing spent here.</p>
+        )}
+      </div>
+
+      <div className="mt-4 grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {slices.slice(0, 9).map((slice, index) => (
+          <button
+            type="button"
+            key={slice.id || "uncategorized"}
+            disabled={!slice.hasChildren}
+            onClick={() => setParentId(slice.id)}
+            className="flex items-center text-xs text-slate-600 text-left enabled:hover:text-primary-600"
+            title={slice.hasChildren ? `Show what is inside ${slice.name}` : undefined}
+          >
+            <span className="w-2 h-2 rounded-full mr-2 shrink-0" style={{ backgroundColor: colors[index % colors.length] }} />
+            <span className="truncate">{slice.name}</span>
+            {slice.hasChildren && <FiChevronRight className="w-3 h-3 ml-0.5 shrink-0" />}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
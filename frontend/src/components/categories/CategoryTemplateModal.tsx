@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Modal } from "../common/Modal";
+import { Button } from "../common/Button";
+import LoadingSpinner from "../common/LoadingSpinner";
+import { applyCategoryTemplate, getCategoryTemplates } from "../../services/categories";
+import { apiErrorMessage } from "../../lib/api";
+import { useAuth } from "../../contexts/AuthContext";
+import { useToast } from "../../hooks/useToast";
+import { COUNTRIES } from "../../utils/countries";
+
+interface CategoryTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Pick a starter set of categories, named for the user's country. Applying
+ * one again, or one that overlaps, only adds the names not already there.
+ */
+export const CategoryTemplateModal: React.FC<CategoryTemplateModalProps> = ({ isOpen, onClose }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { showSuccess, showError } = useToast();
+  const country = user?.settings?.country || "US";
+  const [selected, setSelected] = useState("");
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ["category-templates", country],
+    queryFn: () => getCategoryTemplates(country),
+    enabled: isOpen,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: () => applyCategoryTemplate(selected),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+      showSuccess(
+        result.created > 0
+          ? `Added ${result.created} categor${result.created === 1 ? "y" : "ies"}` +
+              (result.existing > 0 ? ` (${result.existing} already existed)` : "")
+          : "You already have every category in this set"
+      );
+      onClose();
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to add the starter categories")),
+  });
+
+  const countryName = COUNTRIES.find((each) => each.code === country)?.name;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Starter categories">
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          {countryName && (
+            <p className="text-xs text-slate-500">Named for {countryName}, from your settings.</p>
+          )}
+          <div className="space-y-3">
+            {templates.map((template) => (
+              <label
+                key={template.id}
+                className={`block p-4 rounded-xl border cursor-pointer transition-colors ${
+                  selected === template.id ? "border-primary-400 bg-primary-50" : "border-slate-200 hover:bg-slate-50"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="template"
+                    checked={selected === template.id}
+                    onChange={() => setSelected(template.id)}
+                  />
+                  <span className="text-sm font-semibold text-slate-900">{template.name}</span>
+                </div>
+                <p className="mt-1 text-xs text-slate-500">{template.description}</p>
+                <p className="mt-2 text-xs text-slate-600">
+                  {template.categories
+                    .filter((category) => !category.parent)
+                    .map((category) => category.name)
+                    .join(", ")}
+                </p>
+              </label>
+            ))}
+          </div>
+          <p className="text-sm text-slate-500">
+            Categories you already have are kept as they are; only missing ones are added.
+          </p>
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={applyMutation.isPending} disabled={!selected}>
+              Add categories
+            </Button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from "react";
+import { FiEdit, FiTrash2, FiPlus, FiMove, FiCornerDownRight, FiGitMerge } from "react-icons/fi";
+import { childrenByParent, descendantIds } from "../../utils/categoryTree";
+import type { Category } from "../../types";
+
+interface CategoryTreeProps {
+  categories: Category[];
+  /** Reparent a category; null moves it to the top level. */
+  onMove: (id: string, parent: string | null) => void;
+  onEdit: (category: Category) => void;
+  onDelete: (category: Category) => void;
+  /** Fold a category into another. */
+  onMerge: (category: Category) => void;
+  onAddChild: (parent: Category) => void;
+  disabled?: boolean;
+}
+
+const ROOT = "root";
+
+/**
+ * The categories as a tree. Drag a row onto another to move it inside that
+ * one, or onto the top-level strip to take it out of its parent. A category
+ * cannot be dropped inside itself or anything below it.
+ */
+export const CategoryTree: React.FC<CategoryTreeProps> = ({
+  categories,
+  onMove,
+  onEdit,
+  onDelete,
+  onMerge,
+  onAddChild,
+  disabled,
+}) => {
+  const [dragging, setDragging] = useState<Category | null>(null);
+  const [over, setOver] = useState<string | null>(null);
+
+  const children = childrenByParent(categories);
+  const blocked = dragging ? descendantIds(categories, dragging._id) : new Set<string>();
+
+  // Where the dragged row may land: not on itself, not below itself, and not
+  // where it already is.
+  const canDrop = (target: string) => {
+    if (!dragging || disabled) return false;
+    if (target === ROOT) return Boolean(dragging.parent);
+    return target !== dragging._id && !blocked.has(target) && target !== dragging.parent;
+  };
+
+  const dropProps = (target: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!canDrop(target)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      if (over !== target) setOver(target);
+    },
+    onDragLeave: () => setOver((current) => (current === target ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (dragging && canDrop(target)) onMove(dragging._id, target === ROOT ? null : target);
+      setDragging(null);
+      setOver(null);
+    },
+  });
+
+  const renderBranch = (parent: string | null, depth: number): React.ReactNode =>
+    (children.get(parent) || []).map((category) => (
+      <li key={category._id}>
+        <div
+          draggable={!disabled}
+          onDragStart={(e) => {
+            e.dataTransfer.setData("text/plain", category._id);
+            e.dataTransfer.effectAllowed = "move";
+            setDragging(category);
+          }}
+          onDragEnd={() => {
+            setDragging(null);
+            setOver(null);
+          }}
+          {...dropProps(category._id)}
+          style={{ paddingLeft: `${depth * 1.5 + 0.75}rem` }}
+          className={`group flex items-center gap-2 pr-3 py-2.5 rounded-xl border transition-colors ${
+            over === category._id
+              ? "border-primary-400 bg-primary-50"
+              : dragging?._id === category._id
+              ? "border-dashed border-slate-300 opacity-50"
+              : "border-transparent hover:bg-slate-50"
+          }`}
+        >
+          <FiMove className="w-4 h-4 text-slate-300 cursor-grab shrink-0" />
+          {depth > 0 && <FiCornerDownRight className="w-3.5 h-3.5 text-slate-300 shrink-0" />}
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium text-slate-900 truncate">{category.name}</p>
+            {category.description && <p className="text-xs text-slate-500 truncate">{category.description}</p>}
+          </div>
+          <div className="flex items-center space-x-1 opacity-60 group-hover:opacity-100">
+            <button
+              type="button"
+              onClick={() => onAddChild(category)}
+              className="p-1.5 text-slate-400 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
+              title="Add subcategory"
+            >
+              <FiPlus className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onEdit(category)}
+              className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+              title="Edit category"
+            >
+              <FiEdit className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onMerge(category)}
+              className="p-1.5 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+              disabled={disabled}
+              title="Merge into another category"
+            >
+              <FiGitMerge className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onDelete(category)}
+              className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              disabled={disabled}
+              title="Delete category"
+            >
+              <FiTrash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+        {(children.get(category._id) || []).length > 0 && <ul>{renderBranch(category._id, depth + 1)}</ul>}
+      </li>
+    ));
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-0.5">{renderBranch(null, 0)}</ul>
+      {dragging?.parent && (
+        <div
+          {...dropProps(ROOT)}
+          className={`py-3 text-center text-xs rounded-xl border border-dashed transition-colors ${
+            over === ROOT ? "border-primary-400 bg-primary-50 text-primary-700" : "border-slate-300 text-slate-500"
+          }`}
+        >
+          Drop here to make {dragging.name} a top-level category
+        </div>
+      )}
+    </div>
+  );
+};
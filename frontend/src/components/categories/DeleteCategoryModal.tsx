@@ -0,0 +1,159 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Modal } from "../common/Modal";
+import { Button } from "../common/Button";
+import LoadingSpinner from "../common/LoadingSpinner";
+import { deleteCategory, getCategoryUsage, mergeCategory } from "../../services/categories";
+import { apiErrorMessage } from "../../lib/api";
+import { useToast } from "../../hooks/useToast";
+import { flattenTree, indentedName } from "../../utils/categoryTree";
+import type { Category, CategoryUsage } from "../../types";
+
+interface DeleteCategoryModalProps {
+  category: Category | null;
+  categories: Category[];
+  /** Merge always moves everything to another category; delete may clear it instead. */
+  mode: "delete" | "merge";
+  onClose: () => void;
+}
+
+const USAGE_LABELS: { key: keyof CategoryUsage; label: string }[] = [
+  { key: "transactions", label: "transaction(s)" },
+  { key: "recurring", label: "recurring rule(s)" },
+  { key: "budgets", label: "budget month(s)" },
+  { key: "rules", label: "categorization rule(s)" },
+  { key: "subcategories", label: "subcategory(ies)" },
+];
+
+/**
+ * Delete or merge a category. What still uses it is counted first, and the
+ * user decides where it goes — another category, or uncategorized — before
+ * anything changes.
+ */
+export const DeleteCategoryModal: React.FC<DeleteCategoryModalProps> = ({ category, categories, mode, onClose }) => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [target, setTarget] = useState("");
+  const [uncategorize, setUncategorize] = useState(false);
+
+  const { data: usage, isLoading } = useQuery({
+    queryKey: ["category-usage", category?._id],
+    queryFn: () => getCategoryUsage(category?._id || ""),
+    enabled: Boolean(category),
+  });
+
+  const inUse = usage ? usage.transactions + usage.recurring + usage.budgets + usage.rules : 0;
+  const moving = mode === "merge" || (inUse > 0 && !uncategorize);
+
+  const removeMutation = useMutation({
+    mutationFn: () => {
+      const id = category?._id || "";
+      if (mode === "merge") return mergeCategory(id, target);
+      return deleteCategory(id, moving ? { reassignTo: target } : { uncategorize: inUse > 0 });
+    },
+    onSuccess: () => {
+      for (const key of ["categories", "transactions", "trash", "recurring", "rules", "budget", "notifications"]) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+      showSuccess(mode === "merge" ? `Merged ${category?.name}` : `Deleted ${category?.name}`);
+      onClose();
+    },
+    onError: (err) => showError(apiErrorMessage(err, `Failed to ${mode} the category`)),
+  });
+
+  const targets = flattenTree(categories).filter((row) => row.category._id !== category?._id);
+  const affected = usage ? USAGE_LABELS.filter(({ key }) => usage[key] > 0) : [];
+
+  return (
+    <Modal
+      isOpen={Boolean(category)}
+      onClose={onClose}
+      title={`${mode === "merge" ? "Merge" : "Delete"} ${category?.name || "category"}`}
+    >
+      {isLoading || !usage ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            removeMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          {affected.length > 0 ? (
+            <div>
+              <p className="text-sm text-slate-700">{category?.name} is used by:</p>
+              <ul className="mt-2 space-y-1 text-sm text-slate-600">
+                {affected.map(({ key, label }) => (
+                  <li key={key}>
+                    <span className="font-semibold text-slate-900">{usage[key]}</span> {label}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-700">Nothing uses {category?.name}.</p>
+          )}
+
+          {mode === "delete" && inUse > 0 && (
+            <div className="space-y-2 text-sm text-slate-700">
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={!uncategorize} onChange={() => setUncategorize(false)} />
+                Move them to another category
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={uncategorize} onChange={() => setUncategorize(true)} />
+                Leave them uncategorized
+              </label>
+            </div>
+          )}
+
+          {moving && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                {mode === "merge" ? "Merge into" : "Move to"}
+              </label>
+              <select
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2.5"
+              >
+                <option value="">Choose a category</option>
+                {targets.map(({ category: option, depth }) => (
+                  <option key={option._id} value={option._id}>
+                    {indentedName(option.name, depth)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <p className="text-sm text-slate-500">
+            {moving
+              ? "Budget allocations are added to the target's, and subcategories move inside it."
+              : usage.subcategories > 0
+              ? "Its subcategories move up a level."
+              : null}{" "}
+            {category?.name} is deleted. This cannot be undone.
+          </p>
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="danger"
+              isLoading={removeMutation.isPending}
+              disabled={moving && !target}
+            >
+              {mode === "merge" ? "Merge" : "Delete"}
+            </Button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+};
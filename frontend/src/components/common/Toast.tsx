@@ -4,26 +4,36 @@ import { FiX, FiCheck, FiAlertTriangle, FiInfo } from "react-icons/fi";
 
 export type ToastType = "success" | "error" | "warning" | "info";
 
+/** A button in the toast, e.g. "Undo". Clicking it also dismisses the toast. */
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface ToastProps {
   message: string;
   type: ToastType;
   onClose: () => void;
   duration?: number;
+  action?: ToastAction;
 }
 
 const Toast: React.FC<ToastProps> = ({
   message,
   type,
   onClose,
-  duration = 5000,
+  // Longer when there is something to click, so there is time to click it.
+  duration,
+  action,
 }) => {
+  const timeout = duration ?? (action ? 8000 : 5000);
   useEffect(() => {
     const timer = setTimeout(() => {
       onClose();
-    }, duration);
+    }, timeout);
 
     return () => clearTimeout(timer);
-  }, [onClose, duration]);
+  }, [onClose, timeout]);
 
   const getToastStyles = () => {
     switch (type) {
@@ -64,6 +74,17 @@ const Toast: React.FC<ToastProps> = ({
         <div className="ml-3 flex-1">
           <p className="text-sm font-medium">{message}</p>
         </div>
+        {action && (
+          <button
+            onClick={() => {
+              action.onClick();
+              onClose();
+            }}
+            className="ml-3 text-sm font-semibold underline hover:no-underline focus:outline-none"
+          >
+            {action.label}
+          </button>
+        )}
         <div className="ml-4 flex-shrink-0">
           <button
             onClick={onClose}
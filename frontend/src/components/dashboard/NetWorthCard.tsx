@@ -0,0 +1,142 @@
+// Net worth over time, from the daily snapshots, with the change over the
+// last month. Mounted on DashboardPage.
+
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { FiTrendingDown, FiTrendingUp } from "react-icons/fi";
+import { Card } from "../common/Card";
+import { getNetWorth } from "../../services/netWorth";
+import { useCurrency } from "../../hooks/useCurrency";
+
+// A range longer than a few months is drawn a point per month.
+const RANGES = [
+  { key: "3m", label: "3M", months: 3, interval: "day" },
+  { key: "1y", label: "1Y", months: 12, interval: "day" },
+  { key: "5y", label: "5Y", months: 60, interval: "month" },
+] as const;
+
+type RangeKey = (typeof RANGES)[number]["key"];
+
+const monthsAgo = (months: number) => {
+  const d = new Date();
+  d.setUTCMonth(d.getUTCMonth() - months);
+  return d.toISOString().slice(0, 10);
+};
+
+export const NetWorthCard: React.FC = () => {
+  const { formatCurrency } = useCurrency();
+  const [rangeKey, setRangeKey] = useState<RangeKey>("1y");
+  const range = RANGES.find((r) => r.key === rangeKey) || RANGES[1];
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["net-worth", range.key],
+    queryFn: () => getNetWorth({ start: monthsAgo(range.months), interval: range.interval }),
+  });
+
+  const points = (data?.points || []).map((point) => ({
+    ...point,
+    label: new Date(point.date).toLocaleDateString(undefined, {
+      month: "short",
+      day: range.interval === "day" ? "numeric" : undefined,
+      year: range.interval === "month" ? "2-digit" : undefined,
+    }),
+  }));
+  const latest = points[points.length - 1];
+  const change = data?.change;
+  const money = (n: number) => formatCurrency(n, data?.currency);
+
+  return (
+    <Card className="p-6 flex flex-col">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900">Net Worth</h3>
+          {latest && (
+            <div className="flex items-baseline gap-3 mt-1">
+              <p className="text-2xl font-bold text-slate-900">{money(latest.netWorth)}</p>
+              {change && (
+                <span
+                  className={`inline-flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full ${
+                    change.amount >= 0 ? "bg-emerald-100 text-emerald-700" : "bg-red-100 text-red-700"
+                  }`}
+                  title={`Since ${new Date(change.since).toLocaleDateString()}`}
+                >
+                  {change.amount >= 0 ? <FiTrendingUp className="w-3 h-3" /> : <FiTrendingDown className="w-3 h-3" />}
+                  {change.amount >= 0 ? "+" : ""}
+                  {money(change.amount)}
+                  {change.percent !== null && ` (${change.percent >= 0 ? "+" : ""}${change.percent}%)`} this month
+                </span>
+              )}
+            </div>
+          )}
+          {latest && (
+            <p className="mt-1 text-xs text-slate-500">
+              Assets {money(latest.assets)} · Liabilities {money(latest.liabilities)}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-1">
+          {RANGES.map((r) => (
+            <button
+              key={r.key}
+              onClick={() => setRangeKey(r.key)}
+              className={`px-3 py-1 rounded-full text-xs font-medium ${
+                r.key === rangeKey ? "bg-primary-100 text-primary-700" : "bg-slate-100 text-slate-600"
+              }`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="w-full h-[260px]">
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading…</p>
+        ) : points.length < 2 ? (
+          <div className="h-full flex items-center justify-center text-sm text-slate-500 text-center px-6">
+            Your net worth is recorded once a day. The trend appears here after the first few days.
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={points} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+              <defs>
+                <linearGradient id="netWorthFill" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.25} />
+                  <stop offset="95%" stopColor="#3b82f6" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis
+                dataKey="label"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: "#64748b", fontSize: 12 }}
+                minTickGap={24}
+              />
+              <YAxis axisLine={false} tickLine={false} tick={{ fill: "#64748b", fontSize: 12 }} />
+              <Tooltip
+                contentStyle={{ borderRadius: "12px", border: "none", boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)" }}
+                formatter={(value, name) => [money(value as number), name === "netWorth" ? "Net worth" : name]}
+              />
+              <Area
+                type="monotone"
+                dataKey="netWorth"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                fill="url(#netWorthFill)"
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,252 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FiPlus, FiTrash2, FiUpload } from "react-icons/fi";
+import { deletePrice, getPrices, importPrices, savePrice } from "../../services/investments";
+import { apiErrorMessage } from "../../lib/api";
+import { useToast } from "../../hooks/useToast";
+import { Button } from "../common/Button";
+import { Card } from "../common/Card";
+import { Input } from "../common/Input";
+import { Modal } from "../common/Modal";
+import type { PriceImportResult } from "../../types";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface SecurityPricesProps {
+  /** Symbols currently held, offered as filters. */
+  symbols: string[];
+}
+
+/**
+ * The prices holdings are valued at. There are no live quotes: a position is
+ * worth its quantity times the latest price on record here, entered by hand,
+ * imported, or taken from the user's own trades.
+ */
+export const SecurityPrices: React.FC<SecurityPricesProps> = ({ symbols }) => {
+  const [selected, setSelected] = useState("");
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [symbol, setSymbol] = useState("");
+  const [date, setDate] = useState(today);
+  const [price, setPrice] = useState("");
+  const [csv, setCsv] = useState("");
+  const [importResult, setImportResult] = useState<PriceImportResult | null>(null);
+
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+
+  const { data: prices = [], isLoading } = useQuery({
+    queryKey: ["prices", selected],
+    queryFn: () => getPrices(selected || undefined),
+  });
+
+  // A new price revalues the holdings, and with them the account balances.
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["prices"] });
+    queryClient.invalidateQueries({ queryKey: ["portfolio"] });
+    queryClient.invalidateQueries({ queryKey: ["accounts"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: savePrice,
+    onSuccess: () => {
+      refresh();
+      setIsAddOpen(false);
+      setPrice("");
+      showSuccess("Price saved");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to save the price")),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deletePrice,
+    onSuccess: () => {
+      refresh();
+      showSuccess("Price deleted");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to delete the price")),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: importPrices,
+    onSuccess: (result) => {
+      refresh();
+      setImportResult(result);
+      showSuccess(`${result.imported} price(s) imported`);
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to import prices")),
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(setCsv);
+  };
+
+  const openImport = () => {
+    setCsv("");
+    setImportResult(null);
+    setIsImportOpen(true);
+  };
+
+  return (
+    <Card className="overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900">Prices</h3>
+          <p className="text-sm text-slate-500">
+            Holdings are valued at the latest price on record, in the account's currency.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={openImport} icon={<FiUpload className="h-4 w-4" />}>
+            Import CSV
+          </Button>
+          <Button onClick={() => setIsAddOpen(true)} icon={<FiPlus className="h-4 w-4" />}>
+            Add price
+          </Button>
+        </div>
+      </div>
+
+      {symbols.length > 0 && (
+        <div className="px-6 py-3 flex flex-wrap gap-2 border-b border-slate-100">
+          {["", ...symbols].map((code) => (
+            <button
+              key={code || "all"}
+              onClick={() => setSelected(code)}
+              className={`px-3 py-1 rounded-full text-xs font-medium ${
+                selected === code ? "bg-primary-100 text-primary-700" : "bg-slate-100 text-slate-600"
+              }`}
+            >
+              {code || "All"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="p-6 text-sm text-slate-500">Loading…</p>
+      ) : prices.length === 0 ? (
+        <p className="p-6 text-sm text-slate-500">
+          No prices yet. Until a symbol has one, it is valued at what it cost.
+        </p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="min-w-full divide-y divide-slate-100">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase">Symbol</th>
+                <th className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase">Price</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {prices.map((row) => (
+                <tr key={row._id}>
+                  <td className="px-6 py-3 text-sm text-slate-600">{row.date.slice(0, 10)}</td>
+                  <td className="px-6 py-3 text-sm font-medium text-slate-900">{row.symbol}</td>
+                  <td className="px-6 py-3 text-sm text-slate-900 text-right">{row.price}</td>
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => {
+                        if (confirm(`Delete the ${row.symbol} price for ${row.date.slice(0, 10)}?`)) {
+                          deleteMutation.mutate(row._id);
+                        }
+                      }}
+                      disabled={deleteMutation.isPending}
+                      className="p-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50"
+                      title="Delete"
+                    >
+                      <FiTrash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Modal isOpen={isAddOpen} onClose={() => setIsAddOpen(false)} title="Add Price">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate({ symbol: symbol.trim().toUpperCase(), date, price: Number(price) });
+          }}
+          className="space-y-5"
+        >
+          <Input label="Symbol" placeholder="e.g., AAPL" value={symbol} onChange={(e) => setSymbol(e.target.value)} />
+          <Input label="Date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          <Input
+            label="Price of one unit"
+            type="number"
+            step="any"
+            min="0"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+          />
+          <p className="-mt-3 text-xs text-slate-500">
+            Replaces the price already on record for that symbol and day.
+          </p>
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button variant="secondary" type="button" onClick={() => setIsAddOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              isLoading={saveMutation.isPending}
+              disabled={!symbol.trim() || price === "" || !(Number(price) >= 0)}
+            >
+              Save
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} title="Import Prices">
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600">
+            A CSV with <code>date</code>, <code>symbol</code> and{" "}
+            <code>price</code> columns, dates as YYYY-MM-DD. Prices already on
+            record for the same day are replaced.
+          </p>
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} className="text-sm" />
+          <textarea
+            rows={6}
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            placeholder={"date,symbol,price\n2026-01-02,AAPL,185.64"}
+            className="block w-full rounded-xl border-slate-200 font-mono text-xs p-3"
+          />
+          {importResult && (
+            <div className="text-sm text-slate-600">
+              <p>{importResult.imported} imported.</p>
+              {importResult.errors.length > 0 && (
+                <ul className="mt-2 text-xs text-red-600 space-y-0.5">
+                  {importResult.errors.slice(0, 10).map((e) => (
+                    <li key={e.line}>
+                      Line {e.line}: {e.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button variant="secondary" type="button" onClick={() => setIsImportOpen(false)}>
+              Close
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate(csv)}
+              isLoading={importMutation.isPending}
+              disabled={!csv.trim()}
+            >
+              Import
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </Card>
+  );
+};
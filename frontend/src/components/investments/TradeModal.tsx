@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Modal } from "../common/Modal";
+import { Button } from "../common/Button";
+import { Input } from "../common/Input";
+import { recordTrade } from "../../services/investments";
+import { apiErrorMessage } from "../../lib/api";
+import { useToast } from "../../hooks/useToast";
+import { useCurrency } from "../../hooks/useCurrency";
+import type { Account } from "../../types";
+
+interface TradeModalProps {
+  isOpen: boolean;
+  /** The user's active investment accounts. */
+  accounts: Account[];
+  /** Prefills a sell of this symbol, from a holdings row. */
+  sell?: { accountId: string; symbol: string } | null;
+  onClose: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Record a buy or sell. The cash moves in the account's own currency, fees
+ * included; the price becomes that day's price unless one is on record.
+ */
+export const TradeModal: React.FC<TradeModalProps> = ({ isOpen, accounts, sell, onClose }) => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const { formatCurrency } = useCurrency();
+  const [accountId, setAccountId] = useState(() => sell?.accountId || accounts[0]?._id || "");
+  const [side, setSide] = useState<"buy" | "sell">(sell ? "sell" : "buy");
+  const [symbol, setSymbol] = useState(sell?.symbol || "");
+  const [quantity, setQuantity] = useState("");
+  const [price, setPrice] = useState("");
+  const [fees, setFees] = useState("");
+  const [date, setDate] = useState(today);
+
+  const account = accounts.find((a) => a._id === accountId);
+  const gross = Number(quantity) * Number(price);
+  const cash = side === "buy" ? gross + Number(fees || 0) : gross - Number(fees || 0);
+
+  const tradeMutation = useMutation({
+    mutationFn: () =>
+      recordTrade(accountId, {
+        side,
+        symbol: symbol.trim().toUpperCase(),
+        quantity: Number(quantity),
+        price: Number(price),
+        fees: fees ? Number(fees) : undefined,
+        date,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["portfolio"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["prices"] });
+      showSuccess(`${side === "buy" ? "Bought" : "Sold"} ${quantity} ${symbol.trim().toUpperCase()}`);
+      onClose();
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to record the trade")),
+  });
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Record Trade">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          tradeMutation.mutate();
+        }}
+        className="space-y-4"
+      >
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1.5">Account</label>
+            <select
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2.5"
+            >
+              {accounts.map((a) => (
+                <option key={a._id} value={a._id}>
+                  {a.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1.5">Side</label>
+            <select
+              value={side}
+              onChange={(e) => setSide(e.target.value as "buy" | "sell")}
+              className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2.5"
+            >
+              <option value="buy">Buy</option>
+              <option value="sell">Sell</option>
+            </select>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <Input label="Symbol" placeholder="e.g., AAPL" value={symbol} onChange={(e) => setSymbol(e.target.value)} />
+          <Input label="Date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <Input
+            label="Quantity"
+            type="number"
+            step="any"
+            min="0"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+          />
+          <Input
+            label="Price"
+            type="number"
+            step="any"
+            min="0"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+          />
+          <Input
+            label="Fees"
+            type="number"
+            step="0.01"
+            min="0"
+            value={fees}
+            onChange={(e) => setFees(e.target.value)}
+          />
+        </div>
+        {cash > 0 && (
+          <p className="text-sm text-slate-600">
+            {side === "buy" ? "Pays" : "Raises"}{" "}
+            <span className="font-semibold text-slate-900">{formatCurrency(cash, account?.currency)}</span>{" "}
+            {side === "buy" ? "from" : "into"} the account's cash.
+          </p>
+        )}
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button variant="secondary" type="button" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            isLoading={tradeMutation.isPending}
+            disabled={!accountId || !symbol.trim() || !(Number(quantity) > 0) || !(Number(price) >= 0) || !(cash > 0)}
+          >
+            Record
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -18,7 +18,11 @@ import {
   FiPieChart,
   FiBarChart2,
   FiRepeat,
-  FiList
+  FiList,
+  FiZap,
+  FiShoppingBag,
+  FiBriefcase,
+  FiBarChart
 } from "react-icons/fi";
 
 interface DashboardLayoutProps {
@@ -36,11 +40,15 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
   const navigation = [
     { name: "Dashboard", href: "/dashboard", icon: FiHome },
     { name: "Accounts", href: "/accounts", icon: FiCreditCard },
+    { name: "Investments", href: "/investments", icon: FiBarChart },
     { name: "Transactions", href: "/transactions", icon: FiList },
     { name: "Categories", href: "/categories", icon: FiTag },
+    { name: "Payees", href: "/payees", icon: FiShoppingBag },
+    { name: "Reimbursables", href: "/reimbursables", icon: FiBriefcase },
     { name: "Budgets", href: "/budgets", icon: FiTarget },
     { name: "Goals", href: "/goals", icon: FiTrendingUp },
     { name: "Recurring", href: "/recurring", icon: FiRepeat },
+    { name: "Rules", href: "/rules", icon: FiZap },
     { name: "Reports", href: "/reports", icon: FiBarChart2 },
     { name: "Settings", href: "/settings", icon: FiUser },
     ...(isAdmin ? [{ name: "Admin", href: "/admin", icon: FiUsers }] : []),
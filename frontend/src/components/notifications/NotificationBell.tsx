@@ -158,6 +158,11 @@ const NotificationBell: React.FC = () => {
                         <span className="block text-sm font-medium text-slate-900 truncate">
                           {notification.title}
                         </span>
+                        {notification.meta?.resolved === true && (
+                          <span className="flex-shrink-0 px-1.5 py-0.5 rounded text-[10px] font-semibold bg-emerald-50 text-emerald-700">
+                            Resolved
+                          </span>
+                        )}
                         {!notification.read && (
                           <span className="flex-shrink-0 w-2 h-2 bg-primary-500 rounded-full" />
                         )}
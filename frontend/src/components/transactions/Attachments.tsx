@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FiDownload, FiFileText, FiPaperclip, FiTrash2 } from "react-icons/fi";
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENT_BYTES,
+  deleteAttachment,
+  downloadAttachment,
+  getAttachmentThumbnail,
+  getAttachments,
+  uploadAttachment,
+} from "../../services/attachments";
+import { apiErrorMessage } from "../../lib/api";
+import { useToast } from "../../hooks/useToast";
+import type { Attachment } from "../../types";
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * The attachment's preview, or a document icon for PDFs. Thumbnails need the
+ * auth cookie, so they are fetched as blobs rather than used as an <img> URL.
+ */
+export const AttachmentThumb: React.FC<{ attachment: Attachment; className?: string }> = ({
+  attachment,
+  className = "w-8 h-8",
+}) => {
+  const { data: blob } = useQuery({
+    queryKey: ["attachment-thumbnail", attachment._id],
+    queryFn: () => getAttachmentThumbnail(attachment._id),
+    enabled: attachment.hasThumbnail,
+    staleTime: Infinity,
+  });
+  const url = useMemo(() => (blob ? URL.createObjectURL(blob) : undefined), [blob]);
+
+  useEffect(() => {
+    if (url) return () => URL.revokeObjectURL(url);
+  }, [url]);
+
+  if (!url) {
+    return (
+      <span
+        title={attachment.filename}
+        className={`${className} inline-flex items-center justify-center rounded bg-slate-100 text-slate-500`}
+      >
+        <FiFileText className="w-4 h-4" />
+      </span>
+    );
+  }
+  return (
+    <img
+      src={url}
+      alt={attachment.filename}
+      title={attachment.filename}
+      className={`${className} rounded object-cover border border-slate-200`}
+    />
+  );
+};
+
+/** Upload, download and remove the attachments of a saved transaction. */
+export const AttachmentPanel: React.FC<{ transactionId: string }> = ({ transactionId }) => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data } = useQuery({
+    queryKey: ["attachments", transactionId],
+    queryFn: () => getAttachments(transactionId),
+  });
+  const attachments = data?.attachments || [];
+
+  // The transaction list carries each row's attachments, so it goes stale too.
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["attachments", transactionId] });
+    queryClient.invalidateQueries({ queryKey: ["transactions"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadAttachment(transactionId, file),
+    onSuccess: () => {
+      refresh();
+      showSuccess("Attachment uploaded");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to upload attachment")),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAttachment,
+    onSuccess: () => {
+      refresh();
+      showSuccess("Attachment removed");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to remove attachment")),
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      showError("Attachments are limited to 5 MB");
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      const blob = await downloadAttachment(attachment._id);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = attachment.filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      showError(apiErrorMessage(err, "Download failed"));
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="block text-sm font-medium text-slate-700">Attachments</span>
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          disabled={uploadMutation.isPending}
+          className="inline-flex items-center gap-1 text-sm font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+        >
+          <FiPaperclip className="w-4 h-4" />
+          {uploadMutation.isPending ? "Uploading…" : "Attach file"}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+      {attachments.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          Receipts or invoices: JPEG, PNG, WebP or PDF, up to 5 MB.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {attachments.map((attachment) => (
+            <li key={attachment._id} className="flex items-center gap-3">
+              <AttachmentThumb attachment={attachment} className="w-10 h-10" />
+              <span className="flex-1 min-w-0">
+                <span className="block truncate text-sm text-slate-800">{attachment.filename}</span>
+                <span className="block text-xs text-slate-400">{formatSize(attachment.size)}</span>
+              </span>
+              <button
+                type="button"
+                title="Download"
+                onClick={() => handleDownload(attachment)}
+                className="p-1 hover:bg-slate-100 rounded text-slate-400 hover:text-blue-600"
+              >
+                <FiDownload className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                title="Remove"
+                onClick={() => deleteMutation.mutate(attachment._id)}
+                disabled={deleteMutation.isPending}
+                className="p-1 hover:bg-red-50 rounded text-slate-400 hover:text-red-600"
+              >
+                <FiTrash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+import { FiTrash2, FiX } from "react-icons/fi";
+import { Button } from "../common/Button";
+import type { Account, Category, Tag } from "../../types";
+import type { BulkChanges } from "../../services/transactions";
+
+interface BulkActionBarProps {
+  count: number;
+  categories: Category[];
+  accounts: Account[];
+  tags: Tag[];
+  isWorking: boolean;
+  onApply: (changes: BulkChanges) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const controlClass =
+  "rounded-lg border-slate-200 bg-white text-sm py-1.5 focus:border-primary-500 focus:ring-primary-500";
+
+/**
+ * Shown while transactions are selected. Every field left empty is left
+ * unchanged; Apply sends the rest as one request for the whole selection.
+ */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  count,
+  categories,
+  accounts,
+  tags,
+  isWorking,
+  onApply,
+  onDelete,
+  onClear,
+}) => {
+  const [category, setCategory] = useState("");
+  const [account, setAccount] = useState("");
+  const [date, setDate] = useState("");
+  const [addTag, setAddTag] = useState("");
+  const [removeTag, setRemoveTag] = useState("");
+
+  const changes: BulkChanges = {
+    category: category || undefined,
+    account: account || undefined,
+    date: date ? new Date(date).toISOString() : undefined,
+    addTags: addTag.trim() ? [addTag.trim()] : undefined,
+    removeTags: removeTag ? [removeTag] : undefined,
+  };
+  const hasChanges = Object.values(changes).some(Boolean);
+
+  const apply = () => {
+    onApply(changes);
+    setCategory("");
+    setAccount("");
+    setDate("");
+    setAddTag("");
+    setRemoveTag("");
+  };
+
+  return (
+    <div className="sticky top-2 z-20 flex flex-wrap items-center gap-2 p-3 rounded-xl bg-white border border-primary-200 shadow-lg">
+      <span className="text-sm font-semibold text-slate-900 mr-2">
+        {count} selected
+      </span>
+      <select
+        aria-label="Set category"
+        value={category}
+        onChange={(e) => setCategory(e.target.value)}
+        className={controlClass}
+      >
+        <option value="">Category…</option>
+        {categories.map((c) => (
+          <option key={c._id} value={c._id}>
+            {c.name}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Move to account"
+        value={account}
+        onChange={(e) => setAccount(e.target.value)}
+        className={controlClass}
+      >
+        <option value="">Account…</option>
+        {accounts.map((a) => (
+          <option key={a._id} value={a._id}>
+            {a.name}
+          </option>
+        ))}
+      </select>
+      <input
+        type="date"
+        aria-label="Set date"
+        value={date}
+        onChange={(e) => setDate(e.target.value)}
+        className={controlClass}
+      />
+      <input
+        aria-label="Add tag"
+        placeholder="Add tag"
+        value={addTag}
+        onChange={(e) => setAddTag(e.target.value)}
+        list="bulk-tag-suggestions"
+        className={`${controlClass} w-32`}
+      />
+      <datalist id="bulk-tag-suggestions">
+        {tags.map((t) => (
+          <option key={t._id} value={t.name} />
+        ))}
+      </datalist>
+      <select
+        aria-label="Remove tag"
+        value={removeTag}
+        onChange={(e) => setRemoveTag(e.target.value)}
+        className={controlClass}
+      >
+        <option value="">Remove tag…</option>
+        {tags.map((t) => (
+          <option key={t._id} value={t.name}>
+            {t.name}
+          </option>
+        ))}
+      </select>
+      <Button size="sm" onClick={apply} disabled={!hasChanges} isLoading={isWorking}>
+        Apply
+      </Button>
+      <div className="ml-auto flex items-center gap-1">
+        <Button
+          size="sm"
+          variant="danger"
+          onClick={onDelete}
+          disabled={isWorking}
+          icon={<FiTrash2 className="w-4 h-4" />}
+        >
+          Delete
+        </Button>
+        <button
+          type="button"
+          onClick={onClear}
+          title="Clear selection"
+          className="p-2 text-slate-400 hover:text-slate-700 rounded-lg hover:bg-slate-50"
+        >
+          <FiX className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
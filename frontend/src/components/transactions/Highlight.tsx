@@ -0,0 +1,33 @@
+import React from "react";
+
+interface HighlightProps {
+  text: string;
+  /** The search string. Each word in it is highlighted independently. */
+  query?: string;
+}
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Renders text with every occurrence of the query's words marked. */
+export const Highlight: React.FC<HighlightProps> = ({ text, query }) => {
+  const words = (query || "").trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${words.map(escapeRegex).join("|")})`, "gi");
+  // split() with a capture group keeps the matches at the odd indexes.
+  const parts = text.split(pattern);
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-amber-100 text-inherit rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FiChevronDown, FiChevronRight, FiClock } from "react-icons/fi";
+import { getTransactionHistory } from "../../services/transactions";
+import { useCurrency } from "../../hooks/useCurrency";
+import type { Account, Category, TransactionHistoryEntry } from "../../types";
+
+interface HistoryDrawerProps {
+  transactionId: string;
+  /** Used to show names instead of ids; deleted ones show as such. */
+  categories: Category[];
+  accounts: Account[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  amount: "Amount",
+  type: "Type",
+  category: "Category",
+  splits: "Split",
+  account: "Account",
+  transferTo: "To account",
+  date: "Date",
+  description: "Description",
+  tags: "Tags",
+  status: "Status",
+  transferStatus: "Status in to account",
+  refundOf: "Refund of",
+  reimbursable: "Reimbursable",
+};
+
+const ACTION_LABELS = {
+  create: "Created",
+  update: "Edited",
+  delete: "Moved to trash",
+  restore: "Restored",
+};
+
+const ACTOR_LABELS = {
+  user: "by you",
+  recurring: "by a recurring rule",
+  goal: "by a goal contribution",
+  import: "by a statement import",
+};
+
+/**
+ * Collapsible change log for one transaction. Fetched only when opened, so
+ * the edit form does not pay for it.
+ */
+export const HistoryDrawer: React.FC<HistoryDrawerProps> = ({
+  transactionId,
+  categories,
+  accounts,
+}) => {
+  const { formatCurrency } = useCurrency();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["transaction-history", transactionId],
+    queryFn: () => getTransactionHistory(transactionId),
+    enabled: isOpen,
+  });
+  const entries = data?.entries || [];
+
+  const nameOf = (list: { _id: string; name: string }[], id: string) =>
+    list.find((item) => item._id === id)?.name || "(deleted)";
+
+  const format = (field: string, value: unknown): string => {
+    if (value === null || value === undefined) return "—";
+    switch (field) {
+      case "amount":
+        return formatCurrency(value as number);
+      case "date":
+        return new Date(value as string).toLocaleDateString();
+      case "category":
+        return nameOf(categories, value as string);
+      case "account":
+      case "transferTo":
+        return nameOf(accounts, value as string);
+      case "refundOf":
+        return "an expense";
+      case "reimbursable":
+        return value === "true" ? "Yes" : "No";
+      case "tags":
+        return (value as string[]).map((tag) => `#${tag}`).join(" ");
+      case "splits":
+        return (value as { category: string | null; amount: number }[])
+          .map((s) => `${s.category ? nameOf(categories, s.category) : "Uncategorized"} ${formatCurrency(s.amount)}`)
+          .join(", ");
+      default:
+        return String(value);
+    }
+  };
+
+  const renderEntry = (entry: TransactionHistoryEntry) => (
+    <li key={entry._id} className="py-2">
+      <div className="text-xs text-slate-500">
+        <span className="font-medium text-slate-700">{ACTION_LABELS[entry.action]}</span>{" "}
+        {ACTOR_LABELS[entry.actor.kind]} · {new Date(entry.createdAt).toLocaleString()}
+      </div>
+      {entry.action === "update" && (
+        <ul className="mt-1 space-y-0.5">
+          {entry.changes.map((change) => (
+            <li key={change.field} className="text-xs text-slate-600">
+              <span className="text-slate-400">{FIELD_LABELS[change.field]}:</span>{" "}
+              <span className="line-through">{format(change.field, change.from)}</span>
+              {" → "}
+              <span className="text-slate-900">{format(change.field, change.to)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="border-t border-slate-100 pt-3">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="inline-flex items-center gap-1.5 text-sm font-medium text-slate-600 hover:text-slate-900"
+      >
+        {isOpen ? <FiChevronDown className="w-4 h-4" /> : <FiChevronRight className="w-4 h-4" />}
+        <FiClock className="w-4 h-4" />
+        History
+      </button>
+      {isOpen && (
+        <div className="mt-2 max-h-60 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-xs text-slate-400">Loading…</p>
+          ) : entries.length === 0 ? (
+            <p className="text-xs text-slate-400">No changes recorded for this transaction yet.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">{entries.map(renderEntry)}</ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,422 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FiAlertTriangle, FiRotateCcw, FiUpload } from "react-icons/fi";
+import { Modal } from "../common/Modal";
+import { Button } from "../common/Button";
+import { useToast } from "../../hooks/useToast";
+import { useAuth } from "../../contexts/AuthContext";
+import { useCurrency } from "../../hooks/useCurrency";
+import { apiErrorMessage } from "../../lib/api";
+import { getAccounts } from "../../services/accounts";
+import {
+  commitImport,
+  getImports,
+  previewImport,
+  undoImport,
+} from "../../services/imports";
+import type {
+  ImportDateFormat,
+  ImportFormat,
+  ImportMapping,
+  ImportPreview,
+} from "../../types";
+
+interface ImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SELECT_CLASS =
+  "block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2";
+
+const DATE_FORMATS: ImportDateFormat[] = ["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY"];
+
+const MAPPED_FIELDS: { key: keyof Omit<ImportMapping, "dateFormat">; label: string }[] = [
+  { key: "date", label: "Date" },
+  { key: "amount", label: "Amount" },
+  { key: "description", label: "Description" },
+  { key: "category", label: "Category" },
+];
+
+const formatFromFilename = (name: string): ImportFormat => {
+  const ext = name.split(".").pop()?.toLowerCase();
+  return ext === "ofx" || ext === "qfx" ? "ofx" : ext === "qif" ? "qif" : "csv";
+};
+
+/**
+ * Two-step statement import: upload and map, then review and commit.
+ *
+ * Rows that look like something already recorded start unticked, so a second
+ * upload of the same statement imports nothing unless the user says so.
+ */
+export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose }) => {
+  const { user } = useAuth();
+  const { formatCurrency } = useCurrency();
+  const { showSuccess, showError } = useToast();
+  const queryClient = useQueryClient();
+
+  const [filename, setFilename] = useState("");
+  const [content, setContent] = useState("");
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [account, setAccount] = useState("");
+  const [mapping, setMapping] = useState<ImportMapping>({
+    dateFormat: user?.settings?.dateFormat as ImportDateFormat | undefined,
+  });
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const { data: accountsData } = useQuery({
+    queryKey: ["accounts", false],
+    queryFn: () => getAccounts(),
+    enabled: isOpen,
+  });
+  const accounts = accountsData?.accounts || [];
+
+  const { data: importsData } = useQuery({
+    queryKey: ["imports"],
+    queryFn: getImports,
+    enabled: isOpen,
+  });
+  const batches = importsData?.batches || [];
+
+  const invalidateTransactions = () => {
+    queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["imports"] });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: previewImport,
+    onSuccess: ({ preview: result }) => {
+      setPreview(result);
+      setMapping(result.mapping);
+      setSelected(
+        new Set(result.rows.filter((row) => !row.duplicate).map((row) => row.line))
+      );
+    },
+    onError: (err: unknown) => {
+      showError(apiErrorMessage(err, "Could not read this file"));
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: commitImport,
+    onSuccess: (result) => {
+      invalidateTransactions();
+      if (result.failed.length > 0) {
+        showError(
+          `Imported ${result.imported} transactions; ${result.failed.length} rows failed`
+        );
+      } else {
+        showSuccess(`Imported ${result.imported} transactions`);
+      }
+      handleClose();
+    },
+    onError: (err: unknown) => {
+      showError(apiErrorMessage(err, "Import failed"));
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: undoImport,
+    onSuccess: ({ deleted }) => {
+      invalidateTransactions();
+      showSuccess(`Removed ${deleted} imported transactions`);
+    },
+    onError: (err: unknown) => {
+      showError(apiErrorMessage(err, "Undo failed"));
+    },
+  });
+
+  const reset = () => {
+    setFilename("");
+    setContent("");
+    setPreview(null);
+    setSelected(new Set());
+    setMapping({ dateFormat: mapping.dateFormat });
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    const detected = formatFromFilename(file.name);
+    setFilename(file.name);
+    setContent(text);
+    setFormat(detected);
+    // A new file has new headers; keep only the date format.
+    const fresh = { dateFormat: mapping.dateFormat };
+    setMapping(fresh);
+    previewMutation.mutate({ format: detected, content: text, mapping: fresh });
+  };
+
+  const remap = (next: ImportMapping) => {
+    setMapping(next);
+    previewMutation.mutate({ format, content, mapping: next });
+  };
+
+  const toggleRow = (line: number) => {
+    const next = new Set(selected);
+    if (next.has(line)) next.delete(line);
+    else next.add(line);
+    setSelected(next);
+  };
+
+  const handleCommit = () => {
+    if (!preview) return;
+    commitMutation.mutate({
+      format,
+      filename: filename || undefined,
+      account: account || undefined,
+      rows: preview.rows
+        .filter((row) => selected.has(row.line))
+        .map(({ line, date, amount, type, description, category }) => ({
+          line,
+          date,
+          amount,
+          type,
+          description,
+          category,
+        })),
+    });
+  };
+
+  const handleUndo = (id: string) => {
+    if (confirm("Remove every transaction created by this import?")) {
+      undoMutation.mutate(id);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Statement" size="xl">
+      {!preview ? (
+        <div className="space-y-5">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Into account
+              </label>
+              <select
+                value={account}
+                onChange={(e) => setAccount(e.target.value)}
+                className={SELECT_CLASS}
+              >
+                <option value="">Default account</option>
+                {accounts.map((acc) => (
+                  <option key={acc._id} value={acc._id}>
+                    {acc.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Dates in the file
+              </label>
+              <select
+                value={mapping.dateFormat || ""}
+                onChange={(e) =>
+                  setMapping({
+                    ...mapping,
+                    dateFormat: (e.target.value || undefined) as ImportDateFormat | undefined,
+                  })
+                }
+                className={SELECT_CLASS}
+              >
+                <option value="">Auto</option>
+                {DATE_FORMATS.map((f) => (
+                  <option key={f} value={f}>
+                    {f}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-slate-200 rounded-xl cursor-pointer hover:border-primary-400 hover:bg-slate-50 transition-colors">
+            <FiUpload className="w-6 h-6 text-slate-400" />
+            <span className="text-sm font-medium text-slate-700">
+              {previewMutation.isPending ? "Reading file..." : "Choose a CSV, OFX or QIF file"}
+            </span>
+            <span className="text-xs text-slate-500">
+              Nothing is saved until you review the rows
+            </span>
+            <input
+              type="file"
+              accept=".csv,.ofx,.qfx,.qif,text/csv"
+              className="hidden"
+              onChange={handleFile}
+              disabled={previewMutation.isPending}
+            />
+          </label>
+
+          {batches.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-slate-900 mb-2">Recent imports</h3>
+              <ul className="divide-y divide-slate-100 border border-slate-100 rounded-xl">
+                {batches.map((batch) => (
+                  <li
+                    key={batch._id}
+                    className="flex items-center justify-between px-4 py-2 text-sm"
+                  >
+                    <div>
+                      <p className="font-medium text-slate-900">
+                        {batch.filename || batch.format.toUpperCase()}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {new Date(batch.createdAt).toLocaleDateString()} ·{" "}
+                        {batch.imported} rows
+                        {batch.account ? ` · ${batch.account.name}` : ""}
+                      </p>
+                    </div>
+                    {batch.status === "undone" ? (
+                      <span className="text-xs text-slate-400">Undone</span>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        icon={<FiRotateCcw className="w-3 h-3" />}
+                        onClick={() => handleUndo(batch._id)}
+                        disabled={undoMutation.isPending}
+                      >
+                        Undo
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {preview.columns.length > 0 && (
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+              {MAPPED_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">
+                    {label}
+                  </label>
+                  <select
+                    value={mapping[key] || ""}
+                    onChange={(e) => remap({ ...mapping, [key]: e.target.value || null })}
+                    className={SELECT_CLASS}
+                    disabled={previewMutation.isPending}
+                  >
+                    <option value="">—</option>
+                    {preview.columns.map((col) => (
+                      <option key={col} value={col}>
+                        {col}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">
+                  Date format
+                </label>
+                <select
+                  value={mapping.dateFormat || ""}
+                  onChange={(e) =>
+                    remap({ ...mapping, dateFormat: e.target.value as ImportDateFormat })
+                  }
+                  className={SELECT_CLASS}
+                  disabled={previewMutation.isPending}
+                >
+                  {DATE_FORMATS.map((f) => (
+                    <option key={f} value={f}>
+                      {f}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <p className="text-sm text-slate-600">
+            {preview.rows.length} rows read, {selected.size} selected
+            {preview.duplicates > 0 &&
+              ` · ${preview.duplicates} look like transactions you already have`}
+          </p>
+
+          {preview.errors.length > 0 && (
+            <div className="p-3 rounded-xl bg-amber-50 text-amber-800 text-xs space-y-1 max-h-24 overflow-y-auto">
+              {preview.errors.map((err) => (
+                <p key={err.line}>
+                  Line {err.line}: {err.message}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="max-h-80 overflow-y-auto border border-slate-100 rounded-xl">
+            <table className="min-w-full text-sm">
+              <tbody className="divide-y divide-slate-100">
+                {preview.rows.map((row) => (
+                  <tr key={row.line} className={row.duplicate ? "bg-amber-50/50" : ""}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(row.line)}
+                        onChange={() => toggleRow(row.line)}
+                        className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                      />
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-slate-600">
+                      {new Date(row.date).toLocaleDateString(undefined, { timeZone: "UTC" })}
+                    </td>
+                    <td className="px-3 py-2 text-slate-900">
+                      <span className="inline-flex items-center gap-1.5">
+                        {row.description || "No description"}
+                        {row.duplicate && (
+                          <span
+                            title="Same day, amount and description as an existing transaction"
+                            className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800"
+                          >
+                            <FiAlertTriangle className="w-3 h-3" /> Duplicate?
+                          </span>
+                        )}
+                      </span>
+                      {row.categoryName && (
+                        <span className="block text-xs text-slate-400">
+                          {row.categoryName}
+                          {!row.category && " (no matching category)"}
+                        </span>
+                      )}
+                    </td>
+                    <td
+                      className={`px-3 py-2 whitespace-nowrap text-right font-medium ${
+                        row.type === "income" ? "text-emerald-600" : "text-red-600"
+                      }`}
+                    >
+                      {row.type === "income" ? "+" : "-"}
+                      {formatCurrency(row.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button variant="secondary" onClick={reset}>
+              Back
+            </Button>
+            <Button
+              onClick={handleCommit}
+              isLoading={commitMutation.isPending}
+              disabled={selected.size === 0}
+            >
+              Import {selected.size} transactions
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
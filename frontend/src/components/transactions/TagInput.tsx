@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import { FiTag, FiX } from "react-icons/fi";
+import type { Tag } from "../../types";
+
+interface TagInputProps {
+  label?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  /** The user's tag registry, offered as suggestions while typing. */
+  suggestions: Tag[];
+}
+
+/** Same rule as the server, so the chip shows what will actually be saved. */
+const normalizeTag = (raw: string) =>
+  raw.trim().toLowerCase().replace(/\s+/g, "-").slice(0, 30);
+
+/**
+ * Free-form tag picker. Enter or comma adds what was typed; known tags are
+ * suggested as you type, most used first.
+ */
+export const TagInput: React.FC<TagInputProps> = ({
+  label,
+  value,
+  onChange,
+  suggestions,
+}) => {
+  const [draft, setDraft] = useState("");
+
+  const add = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setDraft("");
+  };
+
+  const remove = (tag: string) => onChange(value.filter((t) => t !== tag));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      if (draft.trim()) add(draft);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      remove(value[value.length - 1]);
+    }
+  };
+
+  const query = normalizeTag(draft);
+  const matches = query
+    ? suggestions
+        .filter((t) => t.name.includes(query) && !value.includes(t.name))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 6)
+    : [];
+
+  return (
+    <div className="w-full">
+      {label && (
+        <label className="block text-sm font-medium text-slate-700 mb-1.5">
+          {label}
+        </label>
+      )}
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-1.5 w-full rounded-xl border border-slate-200 bg-white shadow-sm px-3 py-2 focus-within:border-primary-500 focus-within:ring-1 focus-within:ring-primary-500">
+          <FiTag className="w-4 h-4 text-slate-400" />
+          {value.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-primary-50 text-primary-700"
+            >
+              {tag}
+              <button
+                type="button"
+                onClick={() => remove(tag)}
+                className="hover:text-primary-900"
+                aria-label={`Remove ${tag}`}
+              >
+                <FiX className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => draft.trim() && add(draft)}
+            placeholder={value.length === 0 ? "e.g. tax-deductible" : ""}
+            className="flex-1 min-w-[8rem] border-0 p-0 text-sm focus:ring-0 placeholder:text-slate-400"
+          />
+        </div>
+        {matches.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full bg-white rounded-xl shadow-lg border border-slate-100 py-1">
+            {matches.map((tag) => (
+              <li key={tag._id}>
+                <button
+                  type="button"
+                  // mousedown, not click: the input's blur would add the draft first.
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    add(tag.name);
+                  }}
+                  className="w-full flex items-center justify-between px-3 py-1.5 text-sm text-left hover:bg-slate-50"
+                >
+                  <span>{tag.name}</span>
+                  <span className="text-xs text-slate-400">{tag.count}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
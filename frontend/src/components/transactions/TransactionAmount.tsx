@@ -0,0 +1,35 @@
+import React from "react";
+import { useCurrency } from "../../hooks/useCurrency";
+import { amountColor, amountPrefix, baseAmountOf, isForeign } from "../../utils/transactionType";
+import type { Transaction } from "../../types";
+
+interface TransactionAmountProps {
+  transaction: Transaction;
+  /** Alignment of the two lines, e.g. "items-end" in a right-hand column. */
+  className?: string;
+}
+
+/**
+ * A transaction's amount in its own currency. When that is not the base
+ * currency, the converted figure the totals use sits underneath.
+ */
+export const TransactionAmount: React.FC<TransactionAmountProps> = ({ transaction, className = "" }) => {
+  const { currency, formatCurrency } = useCurrency();
+
+  return (
+    <span className={`inline-flex flex-col ${className}`}>
+      <span className={amountColor(transaction)}>
+        {amountPrefix(transaction)}
+        {formatCurrency(transaction.amount, transaction.currency)}
+      </span>
+      {isForeign(transaction, currency) && (
+        <span
+          className="text-xs font-normal text-slate-500"
+          title={`At ${transaction.fxRate} ${currency} per ${transaction.currency}`}
+        >
+          ≈ {formatCurrency(baseAmountOf(transaction))}
+        </span>
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,148 @@
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FiRotateCcw, FiTrash2 } from "react-icons/fi";
+import { Modal } from "../common/Modal";
+import { Button } from "../common/Button";
+import { getTrash, purgeTrash, restoreTransactions } from "../../services/trash";
+import { apiErrorMessage } from "../../lib/api";
+import { useToast } from "../../hooks/useToast";
+import { useCurrency } from "../../hooks/useCurrency";
+import type { Category } from "../../types";
+
+interface TrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Trashed rows carry category ids; these turn them into names. */
+  categories: Category[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysUntil = (iso: string) =>
+  Math.max(0, Math.ceil((new Date(iso).getTime() - Date.now()) / DAY_MS));
+
+/** Deleted transactions, restorable until they expire. */
+export const TrashModal: React.FC<TrashModalProps> = ({ isOpen, onClose, categories }) => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const { formatCurrency } = useCurrency();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["trash"],
+    queryFn: getTrash,
+    enabled: isOpen,
+  });
+  const items = data?.items || [];
+
+  const restoreMutation = useMutation({
+    mutationFn: restoreTransactions,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      showSuccess(`${result.restored} transaction(s) restored`);
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Restore failed")),
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: purgeTrash,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      showSuccess(`${result.purged} transaction(s) permanently deleted`);
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Delete failed")),
+  });
+
+  const categoryName = (id?: string) =>
+    categories.find((c) => c._id === id)?.name || "Uncategorized";
+
+  const handlePurge = (id: string) => {
+    if (confirm("Delete this transaction permanently? This cannot be undone.")) {
+      purgeMutation.mutate([id]);
+    }
+  };
+
+  const handleEmpty = () => {
+    if (confirm(`Permanently delete all ${items.length} transaction(s) in the trash?`)) {
+      purgeMutation.mutate(undefined);
+    }
+  };
+
+  const isWorking = restoreMutation.isPending || purgeMutation.isPending;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Trash" size="lg">
+      <div className="space-y-4">
+        <p className="text-sm text-slate-500">
+          Deleted transactions are kept for {data?.retentionDays ?? 30} days and
+          count toward no balance, budget or report while they are here.
+        </p>
+
+        {isLoading ? (
+          <p className="text-sm text-slate-400">Loading…</p>
+        ) : items.length === 0 ? (
+          <p className="py-8 text-center text-sm text-slate-400">The trash is empty.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+            {items.map((item) => {
+              const daysLeft = daysUntil(item.purgeAt);
+              return (
+                <li key={item._id} className="flex items-center gap-3 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate text-sm font-medium text-slate-900">
+                      {item.description || "No description"}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {new Date(item.date).toLocaleDateString()} ·{" "}
+                      {item.splits?.length
+                        ? "Split"
+                        : item.type === "transfer"
+                        ? "Transfer"
+                        : categoryName(item.category)}{" "}
+                      · deleted {new Date(item.deletedAt).toLocaleDateString()}, {daysLeft} day(s) left
+                    </p>
+                  </div>
+                  <span className="text-sm font-semibold text-slate-700">
+                    {formatCurrency(item.amount)}
+                  </span>
+                  <button
+                    type="button"
+                    title="Restore"
+                    onClick={() => restoreMutation.mutate([item._id])}
+                    disabled={isWorking}
+                    className="p-1 hover:bg-slate-100 rounded text-slate-400 hover:text-primary-600"
+                  >
+                    <FiRotateCcw className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    title="Delete permanently"
+                    onClick={() => handlePurge(item._id)}
+                    disabled={isWorking}
+                    className="p-1 hover:bg-red-50 rounded text-slate-400 hover:text-red-600"
+                  >
+                    <FiTrash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="flex justify-between pt-4 border-t border-slate-100">
+          <Button
+            variant="danger"
+            onClick={handleEmpty}
+            disabled={items.length === 0 || isWorking}
+          >
+            Empty trash
+          </Button>
+          <Button variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
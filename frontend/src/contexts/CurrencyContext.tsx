@@ -9,7 +9,8 @@ import { useAuth } from "./AuthContext";
 interface CurrencyContextType {
   currency: string;
   setCurrency: (currency: string) => void;
-  formatCurrency: (amount: number) => string;
+  /** In the user's base currency, or in `code` when given. */
+  formatCurrency: (amount: number, code?: string) => string;
   getCurrencySymbol: (currency: string) => string;
 }
 
@@ -70,14 +71,14 @@ const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
     localStorage.setItem("preferred_currency", newCurrency);
   };
 
-  const formatCurrency = (amount: number): string => {
+  const formatCurrency = (amount: number, code: string = currency): string => {
     try {
       return new Intl.NumberFormat("en-US", {
         style: "currency",
-        currency: currency,
+        currency: code,
       }).format(amount);
     } catch {
-      return `${getCurrencySymbol(currency)}${amount.toFixed(2)}`;
+      return `${getCurrencySymbol(code)}${amount.toFixed(2)}`;
     }
   };
 
@@ -1,16 +1,17 @@
 // Toast context for global toast notifications
 import React, { createContext, useState, useCallback } from "react";
-import Toast, { type ToastType } from "../components/common/Toast";
+import Toast, { type ToastAction, type ToastType } from "../components/common/Toast";
 
 interface ToastMessage {
   id: string;
   message: string;
   type: ToastType;
+  action?: ToastAction;
 }
 
 export interface ToastContextType {
-  showToast: (message: string, type: ToastType) => void;
-  showSuccess: (message: string) => void;
+  showToast: (message: string, type: ToastType, action?: ToastAction) => void;
+  showSuccess: (message: string, action?: ToastAction) => void;
   showError: (message: string) => void;
   showWarning: (message: string) => void;
   showInfo: (message: string) => void;
@@ -27,13 +28,17 @@ interface ToastProviderProps {
 export const ToastProvider: React.FC<ToastProviderProps> = ({ children }) => {
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
 
-  const showToast = useCallback((message: string, type: ToastType) => {
-    const id = Math.random().toString(36).substr(2, 9);
-    setToasts((prev) => [...prev, { id, message, type }]);
-  }, []);
+  const showToast = useCallback(
+    (message: string, type: ToastType, action?: ToastAction) => {
+      const id = Math.random().toString(36).substr(2, 9);
+      setToasts((prev) => [...prev, { id, message, type, action }]);
+    },
+    []
+  );
 
   const showSuccess = useCallback(
-    (message: string) => showToast(message, "success"),
+    (message: string, action?: ToastAction) =>
+      showToast(message, "success", action),
     [showToast]
   );
 
@@ -77,6 +82,7 @@ export const ToastProvider: React.FC<ToastProviderProps> = ({ children }) => {
             <Toast
               message={toast.message}
               type={toast.type}
+              action={toast.action}
               onClose={() => removeToast(toast.id)}
             />
           </div>
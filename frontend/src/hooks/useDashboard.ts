@@ -1,9 +1,13 @@
 // Dashboard data hooks and utilities
 import React from "react";
 import { useQuery } from "@tanstack/react-query";
-import { getTransactions, MAX_TRANSACTION_PAGE } from "../services/transactions";
+import { getAllTransactions } from "../services/transactions";
 import { getBudget } from "../services/budgets";
-import type { Transaction, Budget } from "../types";
+import { getCategories } from "../services/categories";
+import { categoryLines } from "../utils/splits";
+import { spendingByCategory } from "../utils/categoryTree";
+import { spendSign, sumExpenses, sumIncome } from "../utils/transactionType";
+import type { Transaction, Budget, Category } from "../types";
 
 export interface DashboardStats {
   totalIncome: number;
@@ -18,12 +22,6 @@ export interface MonthlyData {
   expenses: number;
 }
 
-export interface CategoryBreakdown {
-  name: string;
-  value: number;
-  color: string;
-}
-
 export interface PeriodDeltas {
   income: number;
   expenses: number;
@@ -47,11 +45,13 @@ export interface UseDashboardResult {
   deltas: PeriodDeltas;
   /** 6 months of totals oldest → newest, used by the BarChart. */
   monthlyData: MonthlyData[];
-  /** Top-8 expense categories for the current month. */
-  categoryBreakdown: CategoryBreakdown[];
+  /** Current month's spending by category id, for the drill-down pie. */
+  categorySpending: Record<string, number>;
+  /** The user's categories, with their parents. */
+  categories: Category[];
   /** Per-category MoM change. Used by the insights engine. Empty when <4 months of history exists. */
   categoryDeltas: CategoryDelta[];
-  /** True while ANY of the three underlying queries is loading. */
+  /** True while ANY of the underlying queries is loading. */
   isLoading: boolean;
   /** Current month's transactions; used by "Recent Activity" and the activity-drought insight. */
   transactions: Transaction[];
@@ -59,20 +59,6 @@ export interface UseDashboardResult {
   budget: { budget: Budget | null } | undefined;
 }
 
-// Generate colors for pie chart
-const COLORS = [
-  "#3B82F6",
-  "#EF4444",
-  "#10B981",
-  "#F59E0B",
-  "#8B5CF6",
-  "#06B6D4",
-  "#F97316",
-  "#84CC16",
-  "#EC4899",
-  "#6B7280",
-];
-
 export const useDashboardData = (): UseDashboardResult => {
   const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
 
@@ -86,8 +72,8 @@ export const useDashboardData = (): UseDashboardResult => {
         new Date(currentMonth + "-01").getMonth() + 1,
         0
       ).toISOString();
-      // Totals are derived from these rows, so ask for the maximum page.
-      return getTransactions({ start: startDate, end: endDate, limit: MAX_TRANSACTION_PAGE });
+      // Totals are derived from these rows, so fetch every page.
+      return getAllTransactions({ start: startDate, end: endDate });
     },
   });
 
@@ -120,7 +106,7 @@ export const useDashboardData = (): UseDashboardResult => {
           ).toISOString();
 
           promises.push(
-            getTransactions({ start: startDate, end: endDate, limit: MAX_TRANSACTION_PAGE }).then(
+            getAllTransactions({ start: startDate, end: endDate }).then(
               (data) => ({
                 month: monthStr,
                 transactions: data.items,
@@ -135,13 +121,9 @@ export const useDashboardData = (): UseDashboardResult => {
   // Calculate dashboard stats
   const stats: DashboardStats = React.useMemo(() => {
     const safeTransactions = transactions || [];
-    const totalIncome = safeTransactions
-      .filter((t: Transaction) => t.type === "income")
-      .reduce((sum: number, t: Transaction) => sum + t.amount, 0);
-
-    const totalExpenses = safeTransactions
-      .filter((t: Transaction) => t.type === "expense")
-      .reduce((sum: number, t: Transaction) => sum + t.amount, 0);
+    // Refunds come off spending rather than counting as income.
+    const totalIncome = sumIncome(safeTransactions);
+    const totalExpenses = sumExpenses(safeTransactions);
 
     const balance = totalIncome - totalExpenses;
 
@@ -161,13 +143,8 @@ export const useDashboardData = (): UseDashboardResult => {
   const monthlyData: MonthlyData[] = React.useMemo(() => {
     return (monthlyTransactions || []).map(({ month, transactions }) => {
       const safeTransactions = transactions || [];
-      const income = safeTransactions
-        .filter((t: Transaction) => t.type === "income")
-        .reduce((sum: number, t: Transaction) => sum + t.amount, 0);
-
-      const expenses = safeTransactions
-        .filter((t: Transaction) => t.type === "expense")
-        .reduce((sum: number, t: Transaction) => sum + t.amount, 0);
+      const income = sumIncome(safeTransactions);
+      const expenses = sumExpenses(safeTransactions);
 
       return {
         month: new Date(month + "-01").toLocaleDateString("en-US", {
@@ -180,26 +157,14 @@ export const useDashboardData = (): UseDashboardResult => {
     });
   }, [monthlyTransactions]);
 
-  // Calculate category breakdown
-  const categoryBreakdown: CategoryBreakdown[] = React.useMemo(() => {
-    const safeTransactions = transactions || [];
-    const expensesByCategory = safeTransactions
-      .filter((t: Transaction) => t.type === "expense")
-      .reduce((acc: Record<string, number>, t: Transaction) => {
-        const categoryName = t.category?.name || "Uncategorized";
-        acc[categoryName] = (acc[categoryName] || 0) + t.amount;
-        return acc;
-      }, {} as Record<string, number>);
+  const { data: categoriesData, isLoading: categoriesLoading } = useQuery({
+    queryKey: ["categories"],
+    queryFn: getCategories,
+  });
+  const categories = React.useMemo(() => categoriesData?.categories || [], [categoriesData]);
 
-    return Object.entries(expensesByCategory)
-      .map(([name, value], index) => ({
-        name,
-        value: value as number,
-        color: COLORS[index % COLORS.length],
-      }))
-      .sort((a, b) => b.value - a.value)
-      .slice(0, 8); // Top 8 categories
-  }, [transactions]);
+  // Net of refunds, which carry the category of the expense they refund.
+  const categorySpending = React.useMemo(() => spendingByCategory(transactions), [transactions]);
 
   // Last-month totals for "vs last month" trend sublines on KPI cards.
   // monthlyData is ordered oldest → newest (6 entries: [m-5, m-4, m-3, m-2, m-1, current]).
@@ -238,10 +203,11 @@ export const useDashboardData = (): UseDashboardResult => {
       const safe = transactions || [];
       const byCat: Record<string, number> = {};
       safe
-        .filter((t: Transaction) => t.type === "expense")
+        .filter((t: Transaction) => spendSign(t) !== 0)
         .forEach((t: Transaction) => {
-          const name = t.category?.name || "Uncategorized";
-          byCat[name] = (byCat[name] || 0) + t.amount;
+          categoryLines(t).forEach(({ name, amount }) => {
+            byCat[name] = (byCat[name] || 0) + spendSign(t) * amount;
+          });
         });
       return byCat;
     });
@@ -277,9 +243,10 @@ export const useDashboardData = (): UseDashboardResult => {
     lastMonthStats,
     deltas,
     monthlyData,
-    categoryBreakdown,
+    categorySpending,
+    categories,
     categoryDeltas,
-    isLoading: transactionsLoading || budgetLoading || monthlyLoading,
+    isLoading: transactionsLoading || budgetLoading || monthlyLoading || categoriesLoading,
     transactions,
     budget,
   };
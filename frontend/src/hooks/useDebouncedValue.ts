@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+/**
+ * The value, once it has stopped changing for `delay` ms. Keeps a search box
+ * from firing a request per keystroke.
+ */
+export const useDebouncedValue = <T>(value: T, delay = 300): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+};
@@ -17,6 +17,11 @@ export const api = axios.create({
   timeout: 10000, // 10 second timeout
 });
 
+/** The server's error message for a failed request, or the fallback. */
+export const apiErrorMessage = (err: unknown, fallback: string): string =>
+  (err as { response?: { data?: { message?: string } } })?.response?.data
+    ?.message || fallback;
+
 // Auth status management (no token storage needed with httpOnly cookies)
 export const authStorage = {
   // Check if user is authenticated by attempting a protected route
@@ -1,6 +1,7 @@
 import React, { useState } from "react";
+import { Link } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useForm } from "react-hook-form";
+import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import {
@@ -13,6 +14,14 @@ import {
   FiDollarSign,
   FiHome,
   FiTrendingUp,
+  FiCheckSquare,
+  FiSend,
+  FiTrendingDown,
+  FiList,
+  FiBarChart2,
+  FiFileText,
+  FiGitMerge,
+  FiXCircle,
 } from "react-icons/fi";
 import {
   getAccounts,
@@ -21,6 +30,7 @@ import {
   deleteAccount,
   setDefaultAccount,
 } from "../services/accounts";
+import { getFxCurrencies } from "../services/fxRates";
 import { useCurrency } from "../hooks/useCurrency";
 import { useToast } from "../hooks/useToast";
 import LoadingSpinner from "../components/common/LoadingSpinner";
@@ -28,14 +38,40 @@ import { Card } from "../components/common/Card";
 import { Button } from "../components/common/Button";
 import { Input } from "../components/common/Input";
 import { Modal } from "../components/common/Modal";
+import { ReconcileModal } from "../components/accounts/ReconcileModal";
+import { PayCardModal } from "../components/accounts/PayCardModal";
+import { LoanModal } from "../components/accounts/LoanModal";
+import { StatementModal } from "../components/accounts/StatementModal";
+import { MergeAccountModal } from "../components/accounts/MergeAccountModal";
+import { CloseAccountModal } from "../components/accounts/CloseAccountModal";
 import type { Account, AccountInput, AccountType } from "../types";
 
 const accountSchema = z.object({
   name: z.string().min(1, "Name is required").max(60, "Name is too long"),
-  type: z.enum(["cash", "bank", "card", "savings"]),
+  type: z.enum(["cash", "bank", "card", "savings", "loan", "investment"]),
   openingBalance: z.number(),
+  currency: z.string().length(3),
+  creditLimit: z.number().min(0, "Cannot be negative").nullable(),
+  statementDay: z.number().int().min(1, "1 to 31").max(31, "1 to 31").nullable(),
+  dueDay: z.number().int().min(1, "1 to 31").max(31, "1 to 31").nullable(),
+  principal: z.number().positive("Must be more than 0").nullable(),
+  interestRate: z.number().min(0, "0 to 100").max(100, "0 to 100").nullable(),
+  termMonths: z.number().int().min(1, "1 to 600").max(600, "1 to 600").nullable(),
+  paymentDay: z.number().int().min(1, "1 to 31").max(31, "1 to 31").nullable(),
+  startDate: z.string(),
+}).superRefine((data, ctx) => {
+  if (data.type !== "loan") return;
+  for (const field of ["principal", "interestRate", "termMonths", "paymentDay"] as const) {
+    if (data[field] === null) ctx.addIssue({ code: "custom", path: [field], message: "Required for a loan" });
+  }
 });
 
+// An empty optional number is null, which also clears it on the server.
+const optionalNumber = (value: string) => (value === "" ? null : Number(value));
+
+const NO_CARD_FIELDS = { creditLimit: null, statementDay: null, dueDay: null };
+const NO_LOAN_FIELDS = { principal: null, interestRate: null, termMonths: null, paymentDay: null, startDate: "" };
+
 type AccountFormData = z.infer<typeof accountSchema>;
 
 const TYPE_META: Record<
@@ -46,15 +82,23 @@ const TYPE_META: Record<
   cash: { label: "Cash", icon: FiDollarSign, tone: "bg-emerald-100 text-emerald-600" },
   card: { label: "Card", icon: FiCreditCard, tone: "bg-purple-100 text-purple-600" },
   savings: { label: "Savings", icon: FiTrendingUp, tone: "bg-amber-100 text-amber-600" },
+  loan: { label: "Loan", icon: FiTrendingDown, tone: "bg-rose-100 text-rose-600" },
+  investment: { label: "Investment", icon: FiBarChart2, tone: "bg-violet-100 text-violet-600" },
 };
 
 const AccountsPage: React.FC = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingAccount, setEditingAccount] = useState<Account | null>(null);
   const [showArchived, setShowArchived] = useState(false);
+  const [reconcilingAccount, setReconcilingAccount] = useState<Account | null>(null);
+  const [payingCard, setPayingCard] = useState<Account | null>(null);
+  const [openLoan, setOpenLoan] = useState<Account | null>(null);
+  const [statementAccount, setStatementAccount] = useState<Account | null>(null);
+  const [mergingAccount, setMergingAccount] = useState<Account | null>(null);
+  const [closingAccount, setClosingAccount] = useState<Account | null>(null);
 
   const queryClient = useQueryClient();
-  const { formatCurrency } = useCurrency();
+  const { currency: baseCurrency, formatCurrency } = useCurrency();
   const { showSuccess, showError } = useToast();
 
   const { data, isLoading } = useQuery({
@@ -63,16 +107,37 @@ const AccountsPage: React.FC = () => {
   });
   const accounts = data?.accounts || [];
 
+  // An account can be in any currency the rate table converts.
+  const { data: fxData } = useQuery({
+    queryKey: ["fx-currencies"],
+    queryFn: getFxCurrencies,
+  });
+  const currencyOptions = React.useMemo(
+    () =>
+      Array.from(
+        new Set([
+          baseCurrency,
+          fxData?.pivot || "USD",
+          ...(fxData?.currencies || []).map((c) => c.currency),
+        ])
+      ).sort(),
+    [baseCurrency, fxData]
+  );
+
   const {
     register,
     handleSubmit,
     reset,
     setValue,
+    control,
     formState: { errors },
   } = useForm<AccountFormData>({
     resolver: zodResolver(accountSchema),
-    defaultValues: { type: "bank", openingBalance: 0 },
+    defaultValues: { type: "bank", openingBalance: 0, currency: baseCurrency, ...NO_CARD_FIELDS, ...NO_LOAN_FIELDS },
   });
+  const formType = useWatch({ control, name: "type" });
+  const isCardForm = formType === "card";
+  const isLoanForm = formType === "loan";
 
   // Balances are derived from transactions, so a change here can move numbers
   // on the dashboard and in reports too.
@@ -128,16 +193,29 @@ const AccountsPage: React.FC = () => {
   });
 
   const onSubmit = (formData: AccountFormData) => {
+    // Loan terms go only with a loan; the server cannot clear them with null.
+    const { principal, interestRate, termMonths, paymentDay, startDate, ...rest } = formData;
+    const payload: AccountInput =
+      formData.type === "loan"
+        ? {
+            ...rest,
+            principal: principal ?? undefined,
+            interestRate: interestRate ?? undefined,
+            termMonths: termMonths ?? undefined,
+            paymentDay: paymentDay ?? undefined,
+            ...(startDate && { startDate }),
+          }
+        : rest;
     if (editingAccount) {
-      updateMutation.mutate({ id: editingAccount._id, data: formData });
+      updateMutation.mutate({ id: editingAccount._id, data: payload });
     } else {
-      createMutation.mutate(formData);
+      createMutation.mutate(payload);
     }
   };
 
   const openModal = () => {
     setEditingAccount(null);
-    reset({ name: "", type: "bank", openingBalance: 0 });
+    reset({ name: "", type: "bank", openingBalance: 0, currency: baseCurrency, ...NO_CARD_FIELDS, ...NO_LOAN_FIELDS });
     setIsModalOpen(true);
   };
 
@@ -146,6 +224,15 @@ const AccountsPage: React.FC = () => {
     setValue("name", account.name);
     setValue("type", account.type);
     setValue("openingBalance", account.openingBalance);
+    setValue("currency", account.currency);
+    setValue("creditLimit", account.creditLimit ?? null);
+    setValue("statementDay", account.statementDay ?? null);
+    setValue("dueDay", account.dueDay ?? null);
+    setValue("principal", account.principal ?? null);
+    setValue("interestRate", account.interestRate ?? null);
+    setValue("termMonths", account.termMonths ?? null);
+    setValue("paymentDay", account.paymentDay ?? null);
+    setValue("startDate", account.startDate ? account.startDate.slice(0, 10) : "");
     setIsModalOpen(true);
   };
 
@@ -164,9 +251,10 @@ const AccountsPage: React.FC = () => {
 
   if (isLoading) return <LoadingSpinner />;
 
+  // Summed in the base currency; each account's own figure is on its card.
   const netWorth = accounts
     .filter((account) => !account.isArchived)
-    .reduce((sum, account) => sum + account.balance, 0);
+    .reduce((sum, account) => sum + (account.baseBalance ?? account.balance), 0);
 
   return (
     <div className="space-y-6">
@@ -263,15 +351,102 @@ const AccountsPage: React.FC = () => {
                       negative ? "text-red-600" : "text-slate-900"
                     }`}
                   >
-                    {formatCurrency(account.balance)}
+                    {formatCurrency(account.balance, account.currency)}
                   </p>
+                  {account.currency !== baseCurrency && account.baseBalance !== null && (
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      ≈ {formatCurrency(account.baseBalance)}
+                    </p>
+                  )}
                   {account.openingBalance !== 0 && (
                     <p className="text-xs text-slate-400 mt-0.5">
-                      Started at {formatCurrency(account.openingBalance)}
+                      Started at {formatCurrency(account.openingBalance, account.currency)}
+                    </p>
+                  )}
+                  {account.clearedBalance !== account.balance && (
+                    <p className="text-xs text-slate-400 mt-0.5">
+                      Cleared {formatCurrency(account.clearedBalance, account.currency)}
+                    </p>
+                  )}
+                  {account.lastReconciledAt && (
+                    <p className="text-xs text-slate-400 mt-0.5">
+                      Reconciled to{" "}
+                      {new Date(account.lastReconciledAt).toLocaleDateString()}
                     </p>
                   )}
                 </div>
 
+                {account.loan && (
+                  <div className="mt-3 rounded-xl bg-slate-50 px-3 py-2 text-xs text-slate-600 space-y-0.5">
+                    <p>
+                      Remaining{" "}
+                      <span className="font-semibold text-slate-900">
+                        {formatCurrency(account.loan.remainingBalance, account.currency)}
+                      </span>{" "}
+                      · {formatCurrency(account.loan.monthlyPayment, account.currency)} a month
+                    </p>
+                    {account.loan.payoffDate && (
+                      <p>
+                        Paid off {new Date(account.loan.payoffDate).toLocaleDateString()} after{" "}
+                        {account.loan.paymentsLeft} more payment(s)
+                      </p>
+                    )}
+                    <p>
+                      Total interest {formatCurrency(account.loan.totalInterest, account.currency)}
+                      {account.loan.interestRemaining > 0 &&
+                        ` · ${formatCurrency(account.loan.interestRemaining, account.currency)} still to pay`}
+                    </p>
+                  </div>
+                )}
+
+                {account.marketValue !== undefined && (
+                  <div className="mt-3 rounded-xl bg-slate-50 px-3 py-2 text-xs text-slate-600 space-y-0.5">
+                    <p>
+                      Holdings{" "}
+                      <span className="font-semibold text-slate-900">
+                        {formatCurrency(account.marketValue, account.currency)}
+                      </span>{" "}
+                      · cash {formatCurrency(account.cashBalance ?? 0, account.currency)}
+                    </p>
+                    <p>
+                      <Link to="/investments" className="text-primary-600 hover:text-primary-700">
+                        View positions
+                      </Link>
+                    </p>
+                  </div>
+                )}
+
+                {(account.availableCredit !== null || account.statement) && (
+                  <div className="mt-3 rounded-xl bg-slate-50 px-3 py-2 text-xs text-slate-600 space-y-0.5">
+                    {account.availableCredit !== null && (
+                      <p>
+                        Available credit{" "}
+                        <span className="font-semibold text-slate-900">
+                          {formatCurrency(account.availableCredit, account.currency)}
+                        </span>
+                        {account.creditLimit ? ` of ${formatCurrency(account.creditLimit, account.currency)}` : ""}
+                      </p>
+                    )}
+                    {account.statement && (
+                      <p>
+                        Statement of{" "}
+                        {new Date(account.statement.closingDate).toLocaleDateString()}:{" "}
+                        {formatCurrency(account.statement.statementBalance, account.currency)}
+                        {account.statement.remaining > 0 ? (
+                          <span className="font-semibold text-slate-900">
+                            {" "}· {formatCurrency(account.statement.remaining, account.currency)} due
+                            {account.statement.dueDate
+                              ? ` ${new Date(account.statement.dueDate).toLocaleDateString()}`
+                              : ""}
+                          </span>
+                        ) : (
+                          <span className="text-emerald-600"> · paid</span>
+                        )}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <div className="mt-4 pt-4 border-t border-slate-100 flex items-center gap-1">
                   {!account.isDefault && !account.isArchived && (
                     <Button
@@ -291,7 +466,63 @@ const AccountsPage: React.FC = () => {
                   >
                     Edit
                   </Button>
+                  {account.loan && !account.isArchived && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setOpenLoan(account)}
+                      icon={<FiList className="w-4 h-4" />}
+                    >
+                      Schedule
+                    </Button>
+                  )}
+                  {account.type === "card" && !account.isArchived && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPayingCard(account)}
+                      icon={<FiSend className="w-4 h-4" />}
+                    >
+                      Pay
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setStatementAccount(account)}
+                    icon={<FiFileText className="w-4 h-4" />}
+                  >
+                    Statement
+                  </Button>
+                  {!account.isArchived && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setReconcilingAccount(account)}
+                      icon={<FiCheckSquare className="w-4 h-4" />}
+                    >
+                      Reconcile
+                    </Button>
+                  )}
                   <div className="ml-auto flex items-center gap-1">
+                    <button
+                      type="button"
+                      title="Merge into another account"
+                      onClick={() => setMergingAccount(account)}
+                      className="p-2 text-slate-400 hover:text-primary-600 rounded-lg hover:bg-primary-50 transition-colors"
+                    >
+                      <FiGitMerge className="w-4 h-4" />
+                    </button>
+                    {!account.isArchived && !account.isDefault && (
+                      <button
+                        type="button"
+                        title="Close"
+                        onClick={() => setClosingAccount(account)}
+                        className="p-2 text-slate-400 hover:text-amber-600 rounded-lg hover:bg-amber-50 transition-colors"
+                      >
+                        <FiXCircle className="w-4 h-4" />
+                      </button>
+                    )}
                     <button
                       type="button"
                       title={account.isArchived ? "Unarchive" : "Archive"}
@@ -349,6 +580,27 @@ const AccountsPage: React.FC = () => {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1.5">
+              Currency
+            </label>
+            <select
+              className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2.5"
+              {...register("currency")}
+            >
+              {currencyOptions.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              Transactions in this account are in this currency. Totals convert
+              them to {baseCurrency} at each day's rate. Fixed once the account
+              has transactions.
+            </p>
+          </div>
+
           <Input
             label="Opening balance"
             type="number"
@@ -360,9 +612,82 @@ const AccountsPage: React.FC = () => {
           <p className="-mt-3 text-xs text-slate-500">
             What was already in this account before you started tracking. Leave
             at 0 if your transaction history covers everything. Use a negative
-            number for money owed on a card.
+            number for money owed on a card. A new loan starts at minus its
+            principal unless you enter what is still owed.
           </p>
 
+          {isLoanForm && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  label="Amount borrowed"
+                  type="number"
+                  step="0.01"
+                  error={errors.principal?.message}
+                  {...register("principal", { setValueAs: optionalNumber })}
+                />
+                <Input
+                  label="Interest rate (% a year)"
+                  type="number"
+                  step="0.01"
+                  error={errors.interestRate?.message}
+                  {...register("interestRate", { setValueAs: optionalNumber })}
+                />
+                <Input
+                  label="Term (months)"
+                  type="number"
+                  placeholder="e.g., 60"
+                  error={errors.termMonths?.message}
+                  {...register("termMonths", { setValueAs: optionalNumber })}
+                />
+                <Input
+                  label="Payment day"
+                  type="number"
+                  placeholder="e.g., 5"
+                  error={errors.paymentDay?.message}
+                  {...register("paymentDay", { setValueAs: optionalNumber })}
+                />
+              </div>
+              <Input label="Loan start date" type="date" {...register("startDate")} />
+              <p className="-mt-3 text-xs text-slate-500">
+                The first payment falls on the payment day after the start date.
+              </p>
+            </>
+          )}
+
+          {isCardForm && (
+            <>
+              <Input
+                label="Credit limit"
+                type="number"
+                step="0.01"
+                placeholder="Optional"
+                error={errors.creditLimit?.message}
+                {...register("creditLimit", { setValueAs: optionalNumber })}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  label="Statement closes on day"
+                  type="number"
+                  placeholder="e.g., 14"
+                  error={errors.statementDay?.message}
+                  {...register("statementDay", { setValueAs: optionalNumber })}
+                />
+                <Input
+                  label="Payment due on day"
+                  type="number"
+                  placeholder="e.g., 5"
+                  error={errors.dueDay?.message}
+                  {...register("dueDay", { setValueAs: optionalNumber })}
+                />
+              </div>
+              <p className="-mt-3 text-xs text-slate-500">
+                You'll get a reminder before each payment is due. Pay the card
+                with a transfer into it from another account.
+              </p>
+            </>
+          )}
+
           <div className="flex justify-end space-x-3 pt-4 border-t border-slate-100">
             <Button
               variant="secondary"
@@ -384,6 +709,46 @@ const AccountsPage: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      <ReconcileModal
+        key={reconcilingAccount?._id}
+        account={reconcilingAccount}
+        onClose={() => setReconcilingAccount(null)}
+      />
+
+      <LoanModal
+        key={openLoan?._id}
+        loan={openLoan}
+        accounts={accounts.filter((account) => !account.isArchived)}
+        onClose={() => setOpenLoan(null)}
+      />
+
+      <PayCardModal
+        key={payingCard?._id}
+        card={payingCard}
+        accounts={accounts.filter((account) => !account.isArchived)}
+        onClose={() => setPayingCard(null)}
+      />
+
+      <StatementModal
+        key={statementAccount?._id}
+        account={statementAccount}
+        onClose={() => setStatementAccount(null)}
+      />
+
+      <MergeAccountModal
+        key={mergingAccount?._id}
+        account={mergingAccount}
+        accounts={accounts.filter((account) => !account.isArchived)}
+        onClose={() => setMergingAccount(null)}
+      />
+
+      <CloseAccountModal
+        key={closingAccount?._id}
+        account={closingAccount}
+        accounts={accounts.filter((account) => !account.isArchived)}
+        onClose={() => setClosingAccount(null)}
+      />
     </div>
   );
 };
@@ -29,6 +29,7 @@ import { Modal } from "../components/common/Modal";
 import { Button } from "../components/common/Button";
 import { Card } from "../components/common/Card";
 import { Input } from "../components/common/Input";
+import { ExchangeRates } from "../components/admin/ExchangeRates";
 import type { User } from "../types";
 
 const userUpdateSchema = z.object({
@@ -258,7 +259,7 @@ const AdminPage: React.FC = () => {
               Admin Dashboard
             </h1>
             <p className="mt-1 text-sm text-slate-500">
-              Manage users and export data
+              Manage users, exchange rates and exports
             </p>
           </div>
           <div className="flex gap-3">
@@ -548,6 +549,8 @@ const AdminPage: React.FC = () => {
         </div>
       </Card>
 
+      <ExchangeRates />
+
       {/* Edit User Modal */}
       <Modal
         isOpen={isEditModalOpen}
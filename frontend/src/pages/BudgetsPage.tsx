@@ -7,33 +7,33 @@ import { z } from "zod";
 import { FiEdit, FiPlus, FiTrash2, FiTarget } from "react-icons/fi";
 import { getBudget, upsertBudget } from "../services/budgets";
 import { getCategories } from "../services/categories";
-import { getTransactions, MAX_TRANSACTION_PAGE } from "../services/transactions";
+import { getAllTransactions } from "../services/transactions";
 import { useCurrency } from "../hooks/useCurrency";
+import { categoryLines } from "../utils/splits";
+import { baseAmountOf } from "../utils/transactionType";
 import LoadingSpinner from "../components/common/LoadingSpinner";
 import { Card } from "../components/common/Card";
 import { Button } from "../components/common/Button";
 import { Input } from "../components/common/Input";
-import type { BudgetInput } from "../types";
-
-const budgetSchema = z
-  .object({
-    month: z.string().regex(/^\d{4}-\d{2}$/, "Invalid month format"),
-    totalBudget: z.number().min(0, "Budget must be 0 or greater"),
-    categoryBudgets: z.array(
-      z.object({
-        category: z.string().min(1, "Category is required"),
-        amount: z.number().min(0, "Amount must be 0 or greater"),
-      })
-    ),
-  })
-  .refine(
-    (data) => {
-      const totalAllocated = data.categoryBudgets.reduce(
-        (sum, item) => sum + item.amount,
-        0
-      );
-      return totalAllocated <= data.totalBudget;
-    },
+import { allocatedAmount, flattenTree, indentedName, rolledUpSpending } from "../utils/categoryTree";
+import type { BudgetInput, Category } from "../types";
+
+const budgetSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, "Invalid month format"),
+  totalBudget: z.number().min(0, "Budget must be 0 or greater"),
+  categoryBudgets: z.array(
+    z.object({
+      category: z.string().min(1, "Category is required"),
+      amount: z.number().min(0, "Amount must be 0 or greater"),
+    })
+  ),
+});
+
+// A subcategory's budget is part of its parent's, so which allocations add up
+// depends on the category tree.
+const budgetSchemaFor = (categories: Category[]) =>
+  budgetSchema.refine(
+    (data) => allocatedAmount(data.categoryBudgets, categories) <= data.totalBudget,
     {
       message: "Total allocations cannot exceed the monthly budget",
       path: ["categoryBudgets"], // Attach to the array field
@@ -71,12 +71,11 @@ const BudgetsPage: React.FC = () => {
         new Date(selectedMonth + "-01").getMonth() + 1,
         0
       ).toISOString();
-      return getTransactions({
+      // Spent-vs-budget is summed from these rows, so fetch every page.
+      return getAllTransactions({
         start: startDate,
         end: endDate,
         type: "expense",
-        // Spent-vs-budget is summed from these rows.
-        limit: MAX_TRANSACTION_PAGE,
       });
     },
   });
@@ -86,10 +85,11 @@ const BudgetsPage: React.FC = () => {
   const transactions = transactionsData?.items || [];
 
   // Calculate spending
-  const totalSpent = transactions.reduce((sum, t) => sum + t.amount, 0);
+  const totalSpent = transactions.reduce((sum, t) => sum + baseAmountOf(t), 0);
   const spentByCategory = transactions.reduce((acc, transaction) => {
-    const categoryId = transaction.category?._id || "uncategorized";
-    acc[categoryId] = (acc[categoryId] || 0) + transaction.amount;
+    categoryLines(transaction).forEach(({ categoryId = "uncategorized", amount }) => {
+      acc[categoryId] = (acc[categoryId] || 0) + amount;
+    });
     return acc;
   }, {} as Record<string, number>);
 
@@ -111,7 +111,7 @@ const BudgetsPage: React.FC = () => {
     watch,
     formState: { errors },
   } = useForm<BudgetFormData>({
-    resolver: zodResolver(budgetSchema),
+    resolver: zodResolver(budgetSchemaFor(categories)),
     defaultValues: {
       month: selectedMonth,
       totalBudget: 0,
@@ -127,10 +127,7 @@ const BudgetsPage: React.FC = () => {
   // Watch values for live calculation
   const watchedTotalBudget = watch("totalBudget") || 0;
   const watchedCategoryBudgets = watch("categoryBudgets") || [];
-  const totalAllocated = watchedCategoryBudgets.reduce(
-    (sum, item) => sum + (item.amount || 0),
-    0
-  );
+  const totalAllocated = allocatedAmount(watchedCategoryBudgets, categories);
   const unallocated = watchedTotalBudget - totalAllocated;
   const isOverBudget = unallocated < 0;
 
@@ -282,9 +279,9 @@ const BudgetsPage: React.FC = () => {
                         className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
                         >
                         <option value="">Select category</option>
-                        {categories.map((category) => (
+                        {flattenTree(categories).map(({ category, depth }) => (
                             <option key={category._id} value={category._id}>
-                            {category.name}
+                            {indentedName(category.name, depth)}
                             </option>
                         ))}
                         </select>
@@ -428,8 +425,12 @@ const BudgetsPage: React.FC = () => {
               </h3>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {budget.categoryBudgets.map((categoryBudget) => {
-                  const spent =
-                    spentByCategory[categoryBudget.category._id] || 0;
+                  // Spending in its subcategories counts toward it too.
+                  const spent = rolledUpSpending(
+                    spentByCategory,
+                    categories,
+                    categoryBudget.category._id
+                  );
                   const progress = getBudgetProgress(
                     spent,
                     categoryBudget.amount
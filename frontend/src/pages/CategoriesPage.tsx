@@ -4,23 +4,30 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { FiEdit, FiTrash2, FiPlus, FiGrid } from "react-icons/fi";
+import { FiPlus, FiGrid, FiLayers } from "react-icons/fi";
 import {
   getCategories,
   createCategory,
   updateCategory,
-  deleteCategory,
 } from "../services/categories";
 import LoadingSpinner from "../components/common/LoadingSpinner";
 import { Card } from "../components/common/Card";
 import { Button } from "../components/common/Button";
 import { Input } from "../components/common/Input";
 import { Modal } from "../components/common/Modal";
+import { CategoryTree } from "../components/categories/CategoryTree";
+import { DeleteCategoryModal } from "../components/categories/DeleteCategoryModal";
+import { CategoryTemplateModal } from "../components/categories/CategoryTemplateModal";
+import { apiErrorMessage } from "../lib/api";
+import { useToast } from "../hooks/useToast";
+import { descendantIds, flattenTree, indentedName } from "../utils/categoryTree";
 import type { Category, CategoryInput } from "../types";
 
 const categorySchema = z.object({
   name: z.string().min(1, "Name is required").max(100, "Name is too long"),
   description: z.string().optional(),
+  // "" for a top-level category.
+  parent: z.string(),
 });
 
 type CategoryFormData = z.infer<typeof categorySchema>;
@@ -28,8 +35,11 @@ type CategoryFormData = z.infer<typeof categorySchema>;
 const CategoriesPage: React.FC = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [removing, setRemoving] = useState<{ category: Category; mode: "delete" | "merge" } | null>(null);
 
   const queryClient = useQueryClient();
+  const { showError } = useToast();
 
   // Queries
   const { data: categoriesData, isLoading } = useQuery({
@@ -60,11 +70,13 @@ const CategoriesPage: React.FC = () => {
     },
   });
 
-  const deleteMutation = useMutation({
-    mutationFn: deleteCategory,
+  const moveMutation = useMutation({
+    mutationFn: ({ id, parent }: { id: string; parent: string | null }) =>
+      updateCategory(id, { parent }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["categories"] });
     },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to move the category")),
   });
 
   // Form handling
@@ -76,12 +88,14 @@ const CategoriesPage: React.FC = () => {
     formState: { errors },
   } = useForm<CategoryFormData>({
     resolver: zodResolver(categorySchema),
+    defaultValues: { name: "", description: "", parent: "" },
   });
 
   const onSubmit = (data: CategoryFormData) => {
     const categoryData: CategoryInput = {
       name: data.name,
       description: data.description || undefined,
+      parent: data.parent || null,
     };
 
     if (editingCategory) {
@@ -98,25 +112,27 @@ const CategoriesPage: React.FC = () => {
     setEditingCategory(category);
     setValue("name", category.name);
     setValue("description", category.description || "");
+    setValue("parent", category.parent || "");
     setIsModalOpen(true);
   };
 
-  const handleDelete = (id: string) => {
-    if (
-      confirm(
-        "Are you sure you want to delete this category? This action cannot be undone."
-      )
-    ) {
-      deleteMutation.mutate(id);
-    }
+  const handleAddChild = (parent: Category) => {
+    setEditingCategory(null);
+    reset({ name: "", description: "", parent: parent._id });
+    setIsModalOpen(true);
   };
 
   const openModal = () => {
     setEditingCategory(null);
-    reset();
+    reset({ name: "", description: "", parent: "" });
     setIsModalOpen(true);
   };
 
+  // A category cannot move inside itself or anything below it.
+  const unavailableParents = editingCategory
+    ? new Set([editingCategory._id, ...descendantIds(categories, editingCategory._id)])
+    : new Set<string>();
+
   if (isLoading) {
     return <LoadingSpinner />;
   }
@@ -130,76 +146,53 @@ const CategoriesPage: React.FC = () => {
             Organize your transactions with custom categories
           </p>
         </div>
-        <Button onClick={openModal} icon={<FiPlus className="w-4 h-4" />}>
-           Add Category
-        </Button>
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={() => setIsTemplatesOpen(true)} icon={<FiLayers className="w-4 h-4" />}>
+            Starter Sets
+          </Button>
+          <Button onClick={openModal} icon={<FiPlus className="w-4 h-4" />}>
+             Add Category
+          </Button>
+        </div>
       </div>
 
-      {/* Categories Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {categories.length === 0 ? (
-          <div className="col-span-full">
-            <Card className="text-center py-16">
-               <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                    <FiGrid className="w-8 h-8 text-slate-400" />
-               </div>
-              <h3 className="text-lg font-medium text-slate-900 mb-2">No categories yet</h3>
-              <p className="text-slate-500 mb-6 max-w-sm mx-auto">
-                Create categories like "Food", "Rent", or "Entertainment" to better track your spending.
-              </p>
-              <Button onClick={openModal}>
-                Create Category
-              </Button>
-            </Card>
+      {/* Category tree */}
+      {categories.length === 0 ? (
+        <Card className="text-center py-16">
+          <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <FiGrid className="w-8 h-8 text-slate-400" />
           </div>
-        ) : (
-          categories.map((category) => (
-            <Card
-                key={category._id}
-                hoverable
-                className="flex flex-col h-full bg-white/50 backdrop-blur-sm p-6"
-            >
-              <div className="flex items-start justify-between mb-4">
-                <div className="p-2 bg-primary-100 text-primary-600 rounded-lg">
-                    <FiGrid className="w-5 h-5" />
-                </div>
-                <div className="flex space-x-1">
-                  <button
-                    onClick={() => handleEdit(category)}
-                    className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                    title="Edit category"
-                  >
-                    <FiEdit className="h-4 w-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(category._id)}
-                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                    disabled={deleteMutation.isPending}
-                    title="Delete category"
-                  >
-                    <FiTrash2 className="h-4 w-4" />
-                  </button>
-                </div>
-              </div>
-              
-              <div>
-                  <h3 className="text-lg font-bold text-slate-900 mb-1">
-                    {category.name}
-                  </h3>
-                  {category.description && (
-                    <p className="text-sm text-slate-500 line-clamp-2">
-                      {category.description}
-                    </p>
-                  )}
-              </div>
-              
-              <div className="mt-auto pt-4 flex items-center text-xs text-slate-400">
-                 Created {new Date(category.createdAt).toLocaleDateString()}
-              </div>
-            </Card>
-          ))
-        )}
-      </div>
+          <h3 className="text-lg font-medium text-slate-900 mb-2">No categories yet</h3>
+          <p className="text-slate-500 mb-6 max-w-sm mx-auto">
+            Start from a ready-made set for your situation, or create categories like "Food", "Rent", or
+            "Entertainment" yourself.
+          </p>
+          <div className="flex justify-center gap-3">
+            <Button onClick={() => setIsTemplatesOpen(true)}>
+              Choose a Starter Set
+            </Button>
+            <Button variant="secondary" onClick={openModal}>
+              Create Category
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <Card className="p-4 sm:p-6">
+          <p className="text-xs text-slate-500 mb-4">
+            Drag a category onto another to put it inside. Spending in a subcategory also counts toward the
+            category above it, in budgets and charts.
+          </p>
+          <CategoryTree
+            categories={categories}
+            onMove={(id, parent) => moveMutation.mutate({ id, parent })}
+            onEdit={handleEdit}
+            onDelete={(category) => setRemoving({ category, mode: "delete" })}
+            onMerge={(category) => setRemoving({ category, mode: "merge" })}
+            onAddChild={handleAddChild}
+            disabled={moveMutation.isPending}
+          />
+        </Card>
+      )}
 
       {/* Add/Edit Category Modal */}
       <Modal
@@ -219,6 +212,23 @@ const CategoriesPage: React.FC = () => {
             {...register("name")}
           />
 
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1.5">Inside</label>
+            <select
+              {...register("parent")}
+              className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2.5"
+            >
+              <option value="">Nothing (top level)</option>
+              {flattenTree(categories)
+                .filter(({ category }) => !editingCategory || !unavailableParents.has(category._id))
+                .map(({ category, depth }) => (
+                  <option key={category._id} value={category._id}>
+                    {indentedName(category.name, depth)}
+                  </option>
+                ))}
+            </select>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-1.5">Description</label>
             <textarea
@@ -255,6 +265,20 @@ const CategoriesPage: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      <DeleteCategoryModal
+        key={removing ? `${removing.mode}-${removing.category._id}` : "none"}
+        category={removing?.category || null}
+        categories={categories}
+        mode={removing?.mode || "delete"}
+        onClose={() => setRemoving(null)}
+      />
+
+      <CategoryTemplateModal
+        key={isTemplatesOpen ? "open" : "closed"}
+        isOpen={isTemplatesOpen}
+        onClose={() => setIsTemplatesOpen(false)}
+      />
     </div>
   );
 };
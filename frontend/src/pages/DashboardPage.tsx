@@ -9,24 +9,23 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  PieChart,
-  Pie,
-  Cell,
 } from "recharts";
 import { useDashboardData } from "../hooks/useDashboard";
 import { useCurrency } from "../hooks/useCurrency";
 import LoadingSpinner from "../components/common/LoadingSpinner";
 import { Card } from "../components/common/Card";
 import { InsightStrip } from "../components/dashboard/InsightStrip";
+import { NetWorthCard } from "../components/dashboard/NetWorthCard";
+import { CategoryPie } from "../components/categories/CategoryPie";
+import { TransactionAmount } from "../components/transactions/TransactionAmount";
 import { computeInsights } from "../utils/insights";
+import { categoryLabel } from "../utils/splits";
 import type { Transaction } from "../types";
 import { FiArrowUp, FiArrowDown, FiActivity, FiPieChart, FiRepeat } from "react-icons/fi";
 import {
   isIncome,
   isExpense,
   isTransfer,
-  amountColor,
-  amountPrefix,
   typeChipColor,
 } from "../utils/transactionType";
 
@@ -55,7 +54,8 @@ const DashboardPage: React.FC = () => {
     stats,
     deltas,
     monthlyData,
-    categoryBreakdown,
+    categorySpending,
+    categories,
     categoryDeltas,
     isLoading,
     transactions,
@@ -64,8 +64,8 @@ const DashboardPage: React.FC = () => {
   const { formatCurrency } = useCurrency();
 
   const insights = React.useMemo(
-    () => computeInsights({ stats, deltas, categoryDeltas, budget, transactions }),
-    [stats, deltas, categoryDeltas, budget, transactions]
+    () => computeInsights({ stats, deltas, categoryDeltas, budget, transactions, categories }),
+    [stats, deltas, categoryDeltas, budget, transactions, categories]
   );
 
   if (isLoading) {
@@ -169,6 +169,8 @@ const DashboardPage: React.FC = () => {
         </Card>
       </div>
 
+      <NetWorthCard />
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card className="p-6 flex flex-col">
@@ -209,44 +211,18 @@ const DashboardPage: React.FC = () => {
         <Card className="p-6 flex flex-col">
           <h3 className="text-lg font-bold text-slate-900 mb-6">Expense Distribution</h3>
           <div className="flex-1 w-full min-h-[300px]">
-             {categoryBreakdown.length > 0 ? (
-              <ResponsiveContainer width="100%" height="100%">
-                <PieChart>
-                  <Pie
-                    data={categoryBreakdown}
-                    cx="50%"
-                    cy="50%"
-                    innerRadius={60}
-                    outerRadius={80}
-                    paddingAngle={5}
-                    dataKey="value"
-                  >
-                    {categoryBreakdown.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={entry.color || COLORS.chart[index % COLORS.chart.length]} />
-                    ))}
-                  </Pie>
-                  <Tooltip 
-                    formatter={(value) => formatCurrency(value as number)}
-                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                  />
-                </PieChart>
-              </ResponsiveContainer>
-             ) : (
+            <CategoryPie
+              spending={categorySpending}
+              categories={categories}
+              colors={COLORS.chart}
+              empty={
                  <div className="h-full flex flex-col items-center justify-center text-slate-500 px-6 text-center">
                      <FiPieChart className="w-12 h-12 mb-3 opacity-40" />
                      <p className="font-medium text-slate-700">No expenses to group yet</p>
                      <p className="text-sm mt-1">Add a <Link to="/categories" className="text-primary-600 underline font-medium">category</Link> and a <Link to="/transactions" className="text-primary-600 underline font-medium">transaction</Link> to see this chart.</p>
                  </div>
-             )}
-          </div>
-          {/* Legend */}
-          <div className="mt-4 grid grid-cols-2 sm:grid-cols-3 gap-2">
-              {categoryBreakdown.slice(0, 6).map((item, idx) => (
-                  <div key={idx} className="flex items-center text-xs text-slate-600">
-                      <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: item.color }} />
-                      <span className="truncate">{item.name}</span>
-                  </div>
-              ))}
+              }
+            />
           </div>
         </Card>
       </div>
@@ -281,12 +257,10 @@ const DashboardPage: React.FC = () => {
                             </div>
                             <div>
                                 <p className="font-medium text-slate-900">{transaction.description}</p>
-                                <p className="text-sm text-slate-500">{transaction.category?.name || 'Uncategorized'} • {new Date(transaction.date).toLocaleDateString()}</p>
+                                <p className="text-sm text-slate-500">{categoryLabel(transaction)} • {new Date(transaction.date).toLocaleDateString()}</p>
                             </div>
                         </div>
-                        <span className={`font-semibold ${amountColor(transaction)}`}>
-                            {amountPrefix(transaction)}{formatCurrency(transaction.amount)}
-                        </span>
+                        <TransactionAmount transaction={transaction} className="items-end font-semibold" />
                     </div>
                 ))
             )}
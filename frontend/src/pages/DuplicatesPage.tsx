@@ -0,0 +1,221 @@
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FiCopy, FiRefreshCw, FiRepeat, FiUpload } from "react-icons/fi";
+import {
+  getDuplicates,
+  ignoreDuplicate,
+  keepDuplicate,
+  mergeDuplicate,
+  scanDuplicates,
+} from "../services/duplicates";
+import { restoreTransactions } from "../services/trash";
+import { apiErrorMessage } from "../lib/api";
+import { useCurrency } from "../hooks/useCurrency";
+import { useToast } from "../hooks/useToast";
+import LoadingSpinner from "../components/common/LoadingSpinner";
+import { Card } from "../components/common/Card";
+import { Button } from "../components/common/Button";
+import type { Transaction } from "../types";
+
+const SOURCE_LABELS: Record<NonNullable<Transaction["source"]>, string> = {
+  manual: "Entered by hand",
+  recurring: "Recurring rule",
+  goal: "Goal contribution",
+  import: "Imported",
+};
+
+const DuplicatesPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { formatCurrency } = useCurrency();
+  const { showSuccess, showError } = useToast();
+
+  const { data: candidates = [], isLoading } = useQuery({
+    queryKey: ["duplicates"],
+    queryFn: getDuplicates,
+  });
+
+  // A merge trashes a row, so every list of transactions goes stale with it.
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["duplicates"] });
+    queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["trash"] });
+  };
+
+  const scanMutation = useMutation({
+    mutationFn: scanDuplicates,
+    onSuccess: (result) => {
+      refresh();
+      showSuccess(
+        result.found > 0
+          ? `${result.found} new possible duplicate(s) found`
+          : "No new duplicates found"
+      );
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Scan failed")),
+  });
+
+  const undoMerge = async (removed: string) => {
+    try {
+      await restoreTransactions([removed]);
+      refresh();
+      showSuccess("Transaction restored");
+    } catch (err) {
+      showError(apiErrorMessage(err, "Restore failed"));
+    }
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ id, keep }: { id: string; keep: string }) => mergeDuplicate(id, keep),
+    onSuccess: (result) => {
+      refresh();
+      showSuccess("Merged; the duplicate was moved to trash", {
+        label: "Undo",
+        onClick: () => undoMerge(result.removed),
+      });
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Merge failed")),
+  });
+
+  const keepMutation = useMutation({
+    mutationFn: keepDuplicate,
+    onSuccess: () => {
+      refresh();
+      showSuccess("Kept both transactions");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to keep both")),
+  });
+
+  const ignoreMutation = useMutation({
+    mutationFn: ignoreDuplicate,
+    onSuccess: () => {
+      refresh();
+      showSuccess("Similar transactions will no longer be flagged");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to ignore")),
+  });
+
+  const isWorking =
+    mergeMutation.isPending || keepMutation.isPending || ignoreMutation.isPending;
+
+  const categoryOf = (trx: Transaction) =>
+    trx.splits?.length
+      ? "Split"
+      : trx.type === "transfer"
+      ? `Transfer to ${trx.transferTo?.name || "another account"}`
+      : trx.category?.name || "Uncategorized";
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Duplicates</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Transactions that look like the same payment entered twice — the
+            same account and amount a few days apart, with a similar
+            description. Keep the right one and the other goes to the trash.
+          </p>
+        </div>
+        <Button
+          variant="secondary"
+          onClick={() => scanMutation.mutate()}
+          isLoading={scanMutation.isPending}
+          icon={<FiRefreshCw className="w-4 h-4" />}
+        >
+          Scan now
+        </Button>
+      </div>
+
+      {candidates.length === 0 ? (
+        <Card className="text-center py-16">
+          <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <FiCopy className="w-8 h-8 text-slate-400" />
+          </div>
+          <h3 className="text-lg font-medium text-slate-900 mb-2">Nothing to review</h3>
+          <p className="text-slate-500 max-w-sm mx-auto">
+            Your transactions are checked for doubles a few times a day; you
+            will get a notification when something turns up.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {candidates.map((candidate) => (
+            <Card key={candidate._id}>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {candidate.transactions.map((trx) => (
+                  <div key={trx._id} className="p-4 rounded-xl border border-slate-100 flex flex-col">
+                    <div className="flex justify-between gap-3">
+                      <p className="font-semibold text-slate-900 truncate">
+                        {trx.description || "No description"}
+                      </p>
+                      <span className="whitespace-nowrap font-semibold text-slate-900">
+                        {formatCurrency(trx.amount)}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-xs text-slate-500">
+                      {new Date(trx.date).toLocaleDateString()} · {trx.account?.name} ·{" "}
+                      {categoryOf(trx)}
+                    </p>
+                    <p className="mt-1 text-xs text-slate-400 inline-flex items-center gap-1">
+                      {trx.source === "recurring" && <FiRepeat className="w-3 h-3" />}
+                      {trx.source === "import" && <FiUpload className="w-3 h-3" />}
+                      {SOURCE_LABELS[trx.source || "manual"]}, added{" "}
+                      {new Date(trx.createdAt).toLocaleDateString()}
+                      {(trx.status === "reconciled" || trx.transferStatus === "reconciled") && " · Reconciled"}
+                    </p>
+                    {trx.tags && trx.tags.length > 0 && (
+                      <span className="flex flex-wrap gap-1 mt-2">
+                        {trx.tags.map((tag) => (
+                          <span
+                            key={tag}
+                            className="px-1.5 py-0.5 rounded text-xs bg-primary-50 text-primary-700"
+                          >
+                            #{tag}
+                          </span>
+                        ))}
+                      </span>
+                    )}
+                    <div className="mt-auto pt-3">
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        disabled={isWorking}
+                        onClick={() => mergeMutation.mutate({ id: candidate._id, keep: trx._id })}
+                      >
+                        Keep this one
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-4 pt-4 border-t border-slate-100 flex flex-wrap items-center justify-end gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={isWorking}
+                  onClick={() => keepMutation.mutate(candidate._id)}
+                >
+                  Keep both
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={isWorking}
+                  onClick={() => ignoreMutation.mutate(candidate._id)}
+                >
+                  Ignore forever
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicatesPage;
@@ -0,0 +1,225 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Cell, Pie, PieChart, ResponsiveContainer, Tooltip } from "recharts";
+import { FiBarChart2, FiPlus, FiPieChart } from "react-icons/fi";
+import { getPortfolio } from "../services/investments";
+import { getAccounts } from "../services/accounts";
+import { useCurrency } from "../hooks/useCurrency";
+import LoadingSpinner from "../components/common/LoadingSpinner";
+import { Card } from "../components/common/Card";
+import { Button } from "../components/common/Button";
+import { TradeModal } from "../components/investments/TradeModal";
+import { SecurityPrices } from "../components/investments/SecurityPrices";
+
+const CHART = ["#8b5cf6", "#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#ec4899", "#6366f1"];
+
+const gainColor = (n: number) => (n > 0 ? "text-emerald-600" : n < 0 ? "text-red-600" : "text-slate-900");
+
+const InvestmentsPage: React.FC = () => {
+  const { formatCurrency } = useCurrency();
+  const [trade, setTrade] = useState<{ key: string; sell: { accountId: string; symbol: string } | null } | null>(null);
+
+  const { data: portfolio, isLoading } = useQuery({
+    queryKey: ["portfolio"],
+    queryFn: getPortfolio,
+  });
+  const { data: accountData } = useQuery({
+    queryKey: ["accounts", false],
+    queryFn: () => getAccounts(false),
+  });
+  const investmentAccounts = (accountData?.accounts || []).filter((a) => a.type === "investment");
+
+  if (isLoading || !portfolio) {
+    return <LoadingSpinner />;
+  }
+
+  const { totals, currency } = portfolio;
+  const symbols = portfolio.allocation.map((row) => row.symbol);
+  const summary = [
+    { label: "Market value", value: totals.marketValue, tone: "text-slate-900" },
+    { label: "Cost basis", value: totals.costBasis, tone: "text-slate-900" },
+    { label: "Unrealized gain", value: totals.unrealizedGain, tone: gainColor(totals.unrealizedGain) },
+    { label: "Realized gain", value: totals.realizedGain, tone: gainColor(totals.realizedGain) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Investments</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Holdings across your investment accounts, at average cost and the latest prices on record.
+          </p>
+        </div>
+        <Button
+          onClick={() => setTrade({ key: String(Date.now()), sell: null })}
+          disabled={investmentAccounts.length === 0}
+          icon={<FiPlus className="h-4 w-4" />}
+        >
+          Record trade
+        </Button>
+      </div>
+
+      {investmentAccounts.length === 0 && portfolio.accounts.length === 0 ? (
+        <Card className="p-10 text-center text-slate-500">
+          <FiBarChart2 className="w-12 h-12 mb-3 opacity-40 mx-auto" />
+          <p className="font-medium text-slate-700">No investment accounts yet</p>
+          <p className="text-sm mt-1">
+            Open one on the{" "}
+            <Link to="/accounts" className="text-primary-600 underline font-medium">
+              Accounts
+            </Link>{" "}
+            page with the type Investment, then record your trades here.
+          </p>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+            {summary.map((item) => (
+              <Card key={item.label} className="p-6">
+                <p className="text-sm font-medium text-slate-500">{item.label}</p>
+                <h3 className={`text-2xl font-bold mt-1 ${item.tone}`}>{formatCurrency(item.value, currency)}</h3>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="p-6 flex flex-col">
+              <h3 className="text-lg font-bold text-slate-900 mb-6">Allocation</h3>
+              <div className="flex-1 w-full min-h-[260px]">
+                {portfolio.allocation.length > 0 ? (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie
+                        data={portfolio.allocation}
+                        cx="50%"
+                        cy="50%"
+                        innerRadius={60}
+                        outerRadius={80}
+                        paddingAngle={5}
+                        dataKey="marketValue"
+                        nameKey="symbol"
+                      >
+                        {portfolio.allocation.map((row, index) => (
+                          <Cell key={row.symbol} fill={CHART[index % CHART.length]} />
+                        ))}
+                      </Pie>
+                      <Tooltip
+                        formatter={(value) => formatCurrency(value as number, currency)}
+                        contentStyle={{ borderRadius: "8px", border: "none", boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)" }}
+                      />
+                    </PieChart>
+                  </ResponsiveContainer>
+                ) : (
+                  <div className="h-full flex flex-col items-center justify-center text-slate-500 text-center">
+                    <FiPieChart className="w-12 h-12 mb-3 opacity-40" />
+                    <p className="text-sm">Nothing held yet.</p>
+                  </div>
+                )}
+              </div>
+              {portfolio.allocation.length > 0 && (
+                <ul className="mt-4 space-y-1 text-sm">
+                  {portfolio.allocation.map((row, index) => (
+                    <li key={row.symbol} className="flex items-center justify-between">
+                      <span className="flex items-center gap-2 text-slate-700">
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: CHART[index % CHART.length] }} />
+                        {row.symbol}
+                      </span>
+                      <span className="text-slate-500">{row.share}%</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+
+            <div className="lg:col-span-2 space-y-6">
+              {portfolio.accounts.map(({ account, positions, totals: own }) => (
+                <Card key={account._id} className="overflow-hidden">
+                  <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+                    <h3 className="text-lg font-bold text-slate-900">{account.name}</h3>
+                    <p className="text-sm text-slate-500">
+                      {formatCurrency(own.marketValue, account.currency)}
+                      {own.realizedGain !== 0 && (
+                        <span className={gainColor(own.realizedGain)}>
+                          {" "}· realized {formatCurrency(own.realizedGain, account.currency)}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  {positions.length === 0 ? (
+                    <p className="p-6 text-sm text-slate-500">No open positions.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-slate-100">
+                        <thead className="bg-slate-50">
+                          <tr>
+                            <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase">Symbol</th>
+                            <th className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase">Quantity</th>
+                            <th className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase">Avg cost</th>
+                            <th className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase">Price</th>
+                            <th className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase">Value</th>
+                            <th className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase">Gain</th>
+                            <th className="px-6 py-3" />
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {positions.map((position) => (
+                            <tr key={position.symbol}>
+                              <td className="px-6 py-3 text-sm font-medium text-slate-900">{position.symbol}</td>
+                              <td className="px-6 py-3 text-sm text-slate-600 text-right">{position.quantity}</td>
+                              <td className="px-6 py-3 text-sm text-slate-600 text-right">
+                                {formatCurrency(position.costBasis / position.quantity, account.currency)}
+                              </td>
+                              <td
+                                className="px-6 py-3 text-sm text-slate-600 text-right"
+                                title={position.priceDate ? `As of ${position.priceDate.slice(0, 10)}` : "No price on record; valued at cost"}
+                              >
+                                {position.price === null ? "—" : formatCurrency(position.price, account.currency)}
+                              </td>
+                              <td className="px-6 py-3 text-sm font-semibold text-slate-900 text-right">
+                                {formatCurrency(position.marketValue, account.currency)}
+                              </td>
+                              <td className={`px-6 py-3 text-sm text-right ${gainColor(position.unrealizedGain)}`}>
+                                {formatCurrency(position.unrealizedGain, account.currency)}
+                              </td>
+                              <td className="px-6 py-3 text-right">
+                                <button
+                                  onClick={() =>
+                                    setTrade({
+                                      key: `${account._id}-${position.symbol}`,
+                                      sell: { accountId: account._id, symbol: position.symbol },
+                                    })
+                                  }
+                                  className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                                >
+                                  Sell
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </Card>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      <SecurityPrices symbols={symbols} />
+
+      <TradeModal
+        key={trade?.key}
+        isOpen={Boolean(trade)}
+        accounts={investmentAccounts}
+        sell={trade?.sell}
+        onClose={() => setTrade(null)}
+      />
+    </div>
+  );
+};
+
+export default InvestmentsPage;
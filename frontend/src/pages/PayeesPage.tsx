@@ -0,0 +1,365 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { FiEdit, FiTrash2, FiPlus, FiShoppingBag, FiGitMerge, FiLink, FiSearch } from "react-icons/fi";
+import {
+  getPayees,
+  createPayee,
+  updatePayee,
+  mergePayee,
+  deletePayee,
+  linkPayees,
+} from "../services/payees";
+import { apiErrorMessage } from "../lib/api";
+import { useCurrency } from "../hooks/useCurrency";
+import { useToast } from "../hooks/useToast";
+import LoadingSpinner from "../components/common/LoadingSpinner";
+import { Card } from "../components/common/Card";
+import { Button } from "../components/common/Button";
+import { Input } from "../components/common/Input";
+import { Modal } from "../components/common/Modal";
+import type { Payee, PayeeInput } from "../types";
+
+const payeeSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60, "Name is too long"),
+  // One pattern per line.
+  aliases: z.string().optional(),
+});
+
+type PayeeFormData = z.infer<typeof payeeSchema>;
+
+const aliasLines = (text?: string) =>
+  (text || "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const PayeesPage: React.FC = () => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPayee, setEditingPayee] = useState<Payee | null>(null);
+  const [mergingPayee, setMergingPayee] = useState<Payee | null>(null);
+  const [mergeInto, setMergeInto] = useState("");
+  const [search, setSearch] = useState("");
+
+  const queryClient = useQueryClient();
+  const { formatCurrency } = useCurrency();
+  const { showSuccess, showError } = useToast();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["payees"],
+    queryFn: getPayees,
+  });
+  const payees = data?.payees || [];
+  const unlinked = data?.unlinked || 0;
+
+  const visible = payees.filter((payee) =>
+    [payee.name, ...payee.aliases].some((text) =>
+      text.toLowerCase().includes(search.trim().toLowerCase())
+    )
+  );
+
+  // Payee edits re-link transactions, which the lists and reports show.
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["payees"] });
+    queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["reports"] });
+  };
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<PayeeFormData>({
+    resolver: zodResolver(payeeSchema),
+  });
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingPayee(null);
+    reset({ name: "", aliases: "" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: PayeeInput) =>
+      editingPayee ? updatePayee(editingPayee._id, input) : createPayee(input),
+    onSuccess: (result) => {
+      refresh();
+      closeModal();
+      showSuccess(
+        result.linked > 0
+          ? `Payee saved; ${result.linked} transaction(s) re-linked`
+          : "Payee saved"
+      );
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to save payee")),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ id, into }: { id: string; into: string }) => mergePayee(id, into),
+    onSuccess: (result) => {
+      refresh();
+      setMergingPayee(null);
+      showSuccess(`Merged; ${result.moved} transaction(s) moved`);
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Merge failed")),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deletePayee,
+    onSuccess: () => {
+      refresh();
+      showSuccess("Payee deleted");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to delete payee")),
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: linkPayees,
+    onSuccess: (result) => {
+      refresh();
+      showSuccess(`${result.linked} transaction(s) linked`);
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Linking failed")),
+  });
+
+  const onSubmit = (form: PayeeFormData) => {
+    saveMutation.mutate({ name: form.name, aliases: aliasLines(form.aliases) });
+  };
+
+  const openModal = (payee: Payee | null) => {
+    setEditingPayee(payee);
+    reset({ name: payee?.name || "", aliases: payee?.aliases.join("\n") || "" });
+    setIsModalOpen(true);
+  };
+
+  const openMerge = (payee: Payee) => {
+    setMergingPayee(payee);
+    setMergeInto("");
+  };
+
+  const handleDelete = (payee: Payee) => {
+    if (
+      confirm(
+        `Delete "${payee.name}"? Its ${payee.count} transaction(s) stay, linked to another matching payee if there is one.`
+      )
+    ) {
+      deleteMutation.mutate(payee._id);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Payees</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            The merchants behind your transactions. Merge the ones your bank
+            spells differently, or add aliases so new descriptions land on the
+            right one.
+          </p>
+        </div>
+        <Button onClick={() => openModal(null)} icon={<FiPlus className="w-4 h-4" />}>
+          Add Payee
+        </Button>
+      </div>
+
+      {unlinked > 0 && (
+        <Card className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+          <p className="flex-1 text-sm text-slate-600">
+            {unlinked} transaction(s) with a description have no payee yet,
+            most likely from before payees were added.
+          </p>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => linkMutation.mutate()}
+            isLoading={linkMutation.isPending}
+            icon={<FiLink className="w-4 h-4" />}
+          >
+            Link them
+          </Button>
+        </Card>
+      )}
+
+      {payees.length === 0 ? (
+        <Card className="text-center py-16">
+          <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <FiShoppingBag className="w-8 h-8 text-slate-400" />
+          </div>
+          <h3 className="text-lg font-medium text-slate-900 mb-2">No payees yet</h3>
+          <p className="text-slate-500 max-w-sm mx-auto">
+            Payees are created from your transaction descriptions as you add
+            them.
+          </p>
+        </Card>
+      ) : (
+        <Card className="overflow-hidden">
+          <div className="p-4 border-b border-slate-100">
+            <div className="relative">
+              <FiSearch className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search payees and aliases"
+                className="w-full pl-9 pr-3 py-2 rounded-xl border border-slate-200 focus:border-primary-500 focus:ring-primary-500 text-sm"
+              />
+            </div>
+          </div>
+          <ul className="divide-y divide-slate-100">
+            {visible.map((payee) => (
+              <li key={payee._id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="min-w-0 flex-1">
+                  <h3 className="font-semibold text-slate-900 truncate">{payee.name}</h3>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {payee.count} transaction(s)
+                    {payee.lastDate && `, last ${new Date(payee.lastDate).toLocaleDateString()}`}
+                  </p>
+                  {payee.aliases.length > 0 && (
+                    <span className="flex flex-wrap gap-1 mt-1">
+                      {payee.aliases.map((alias) => (
+                        <span
+                          key={alias}
+                          className="px-1.5 py-0.5 rounded text-xs font-mono bg-slate-100 text-slate-600"
+                        >
+                          {alias}
+                        </span>
+                      ))}
+                    </span>
+                  )}
+                </div>
+                <span className="font-semibold text-slate-900 whitespace-nowrap">
+                  {formatCurrency(payee.spent)}
+                </span>
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => openModal(payee)}
+                    className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                    title="Edit payee"
+                  >
+                    <FiEdit className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => openMerge(payee)}
+                    disabled={payees.length < 2}
+                    className="p-1.5 text-slate-400 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-colors disabled:opacity-30"
+                    title="Merge into another payee"
+                  >
+                    <FiGitMerge className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(payee)}
+                    disabled={deleteMutation.isPending}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Delete payee"
+                  >
+                    <FiTrash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+            {visible.length === 0 && (
+              <li className="p-8 text-center text-sm text-slate-400">No payee matches "{search}".</li>
+            )}
+          </ul>
+        </Card>
+      )}
+
+      {/* Add/Edit Payee Modal */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingPayee ? "Edit Payee" : "New Payee"}
+      >
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          <Input
+            label="Name"
+            placeholder="e.g., Amazon"
+            error={errors.name?.message}
+            {...register("name")}
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1.5">Aliases</label>
+            <textarea
+              {...register("aliases")}
+              className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-3 font-mono"
+              rows={4}
+              placeholder={"AMZN*\nAmazon.com"}
+            />
+            <p className="text-xs text-slate-500 mt-1">
+              One per line. Each matches whole words anywhere in a description,
+              ignoring case; * matches anything. The name counts as an alias too.
+            </p>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button variant="secondary" type="button" onClick={closeModal}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={saveMutation.isPending}>
+              {editingPayee ? "Save Changes" : "Create Payee"}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Merge Modal */}
+      <Modal
+        isOpen={Boolean(mergingPayee)}
+        onClose={() => setMergingPayee(null)}
+        title={`Merge ${mergingPayee?.name || ""}`}
+      >
+        <div className="space-y-5">
+          <p className="text-sm text-slate-600">
+            Its transactions move to the payee you pick, and "{mergingPayee?.name}"
+            and its aliases become aliases there, so future descriptions follow.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1.5">Merge into</label>
+            <select
+              value={mergeInto}
+              onChange={(e) => setMergeInto(e.target.value)}
+              className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            >
+              <option value="">Choose a payee…</option>
+              {payees
+                .filter((payee) => payee._id !== mergingPayee?._id)
+                .map((payee) => (
+                  <option key={payee._id} value={payee._id}>
+                    {payee.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button variant="secondary" type="button" onClick={() => setMergingPayee(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!mergeInto}
+              isLoading={mergeMutation.isPending}
+              onClick={() =>
+                mergingPayee && mergeMutation.mutate({ id: mergingPayee._id, into: mergeInto })
+              }
+            >
+              Merge
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default PayeesPage;
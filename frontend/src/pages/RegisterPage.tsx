@@ -1,13 +1,16 @@
 // Register page
 import React, { useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
-import { useForm } from "react-hook-form";
+import { useForm, useWatch } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useAuth } from "../contexts/AuthContext";
 import { FiEye, FiEyeOff, FiPieChart } from "react-icons/fi";
 import { Button } from "../components/common/Button";
 import { Input } from "../components/common/Input";
+import { getCategoryTemplates } from "../services/categories";
+import { COUNTRIES } from "../utils/countries";
 
 const registerSchema = z
   .object({
@@ -15,6 +18,8 @@ const registerSchema = z
     email: z.string().email("Invalid email address"),
     password: z.string().min(6, "Password must be at least 6 characters"),
     confirmPassword: z.string(),
+    country: z.string(),
+    categoryTemplate: z.string(),
   })
   .refine((data) => data.password === data.confirmPassword, {
     message: "Passwords do not match",
@@ -23,6 +28,15 @@ const registerSchema = z
 
 type RegisterFormData = z.infer<typeof registerSchema>;
 
+// The browser's region when we know it, e.g. "en-GB" -> GB; the user can change it.
+const browserCountry = (): string => {
+  const region = navigator.language.split("-")[1]?.toUpperCase();
+  return COUNTRIES.some((country) => country.code === region) ? (region as string) : "US";
+};
+
+const selectClassName =
+  "block w-full rounded-xl bg-slate-800/50 border-slate-700 text-white focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2.5";
+
 const RegisterPage: React.FC = () => {
   const navigate = useNavigate();
   const { signup: registerUser } = useAuth();
@@ -35,9 +49,17 @@ const RegisterPage: React.FC = () => {
   const {
     register,
     handleSubmit,
+    control,
     formState: { errors },
   } = useForm<RegisterFormData>({
     resolver: zodResolver(registerSchema),
+    defaultValues: { country: browserCountry(), categoryTemplate: "personal" },
+  });
+
+  const country = useWatch({ control, name: "country" });
+  const { data: templates = [] } = useQuery({
+    queryKey: ["category-templates", country],
+    queryFn: () => getCategoryTemplates(country),
   });
 
   const onSubmit = async (data: RegisterFormData) => {
@@ -45,7 +67,13 @@ const RegisterPage: React.FC = () => {
     setError("");
 
     try {
-      await registerUser({ name: data.name, email: data.email, password: data.password });
+      await registerUser({
+        name: data.name,
+        email: data.email,
+        password: data.password,
+        country: data.country,
+        categoryTemplate: data.categoryTemplate || undefined,
+      });
       setSuccess(true);
       setTimeout(() => {
         navigate("/login");
@@ -201,6 +229,36 @@ const RegisterPage: React.FC = () => {
                 )}
               </button>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-200 mb-1.5 ml-1">
+                Country
+              </label>
+              <select {...register("country")} className={selectClassName}>
+                {COUNTRIES.map((each) => (
+                  <option key={each.code} value={each.code}>
+                    {each.flag} {each.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-200 mb-1.5 ml-1">
+                Starter categories
+              </label>
+              <select {...register("categoryTemplate")} className={selectClassName}>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+                <option value="">None, I will make my own</option>
+              </select>
+              <p className="mt-1 ml-1 text-xs text-slate-400">
+                You can add another set or change them any time from Categories.
+              </p>
+            </div>
           </div>
 
           <Button
@@ -0,0 +1,235 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FiBriefcase, FiCornerUpLeft } from "react-icons/fi";
+import { getReimbursables } from "../services/refunds";
+import { createTransaction, updateTransaction } from "../services/transactions";
+import { getAccounts } from "../services/accounts";
+import { apiErrorMessage } from "../lib/api";
+import { useCurrency } from "../hooks/useCurrency";
+import { useToast } from "../hooks/useToast";
+import { categoryLabel } from "../utils/splits";
+import LoadingSpinner from "../components/common/LoadingSpinner";
+import { Card } from "../components/common/Card";
+import { Button } from "../components/common/Button";
+import { Input } from "../components/common/Input";
+import { Modal } from "../components/common/Modal";
+import type { RefundableExpense, TransactionInput } from "../types";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const ReimbursablesPage: React.FC = () => {
+  const [repaying, setRepaying] = useState<RefundableExpense | null>(null);
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(today);
+  const [account, setAccount] = useState("");
+
+  const queryClient = useQueryClient();
+  const { formatCurrency } = useCurrency();
+  const { showSuccess, showError } = useToast();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["reimbursables"],
+    queryFn: getReimbursables,
+  });
+  const items = data?.items || [];
+
+  const { data: accountsData } = useQuery({
+    queryKey: ["accounts", false],
+    queryFn: () => getAccounts(),
+  });
+  const accounts = accountsData?.accounts || [];
+
+  // A repayment is a new transaction, so the lists and totals move with it.
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["reimbursables"] });
+    queryClient.invalidateQueries({ queryKey: ["refund-candidates"] });
+    queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["accounts"] });
+  };
+
+  const repayMutation = useMutation({
+    mutationFn: (input: TransactionInput) => createTransaction(input),
+    onSuccess: () => {
+      refresh();
+      setRepaying(null);
+      showSuccess("Repayment recorded");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to record the repayment")),
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (id: string) => updateTransaction(id, { reimbursable: false }),
+    onSuccess: () => {
+      refresh();
+      showSuccess("No longer tracked as reimbursable");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to update the expense")),
+  });
+
+  // A repayment into an account in another currency is converted, so the
+  // amount owed is no cap on what is typed.
+  const paidInto = accounts.find((acc) => (account ? acc._id === account : acc.isDefault));
+  const sameCurrency = !paidInto || !repaying?.currency || paidInto.currency === repaying.currency;
+
+  const openRepay = (expense: RefundableExpense) => {
+    setRepaying(expense);
+    setAmount(String(expense.outstanding));
+    setDate(today());
+    setAccount(expense.account?._id || "");
+  };
+
+  const submitRepay = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!repaying) return;
+    repayMutation.mutate({
+      type: "income",
+      amount: Number(amount),
+      refundOf: repaying._id,
+      account: account || undefined,
+      date: new Date(date).toISOString(),
+      description: `Repayment: ${repaying.description || "expense"}`,
+    });
+  };
+
+  const handleDismiss = (expense: RefundableExpense) => {
+    if (
+      confirm(
+        `Stop tracking "${expense.description || "this expense"}"? Its ${formatCurrency(
+          expense.outstanding,
+          expense.currency
+        )} will count as your own spending.`
+      )
+    ) {
+      dismissMutation.mutate(expense._id);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Reimbursables</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Expenses someone owes you back. Record the repayment when it
+            arrives and it comes off the expense's category instead of counting
+            as income.
+          </p>
+        </div>
+        {items.length > 0 && (
+          <Card className="px-5 py-3 text-right">
+            <p className="text-xs font-medium text-slate-500">Owed to you</p>
+            <p className="text-xl font-bold text-slate-900">{formatCurrency(data?.outstanding || 0)}</p>
+          </Card>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <Card className="text-center py-16">
+          <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <FiBriefcase className="w-8 h-8 text-slate-400" />
+          </div>
+          <h3 className="text-lg font-medium text-slate-900 mb-2">Nothing outstanding</h3>
+          <p className="text-slate-500 max-w-sm mx-auto">
+            Tick "Reimbursable" on an expense — a work trip, a bill you split —
+            to keep track of it here until you are paid back.
+          </p>
+        </Card>
+      ) : (
+        <Card className="overflow-hidden">
+          <ul className="divide-y divide-slate-100">
+            {items.map((expense) => (
+              <li key={expense._id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="min-w-0 flex-1">
+                  <h3 className="font-semibold text-slate-900 truncate">
+                    {expense.description || "No description"}
+                  </h3>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {new Date(expense.date).toLocaleDateString()} · {expense.account?.name} ·{" "}
+                    {categoryLabel(expense)}
+                  </p>
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <p className="font-semibold text-slate-900">{formatCurrency(expense.outstanding, expense.currency)}</p>
+                  {expense.refunded > 0 && (
+                    <p className="text-xs text-slate-500">
+                      {formatCurrency(expense.refunded, expense.currency)} of{" "}
+                      {formatCurrency(expense.amount, expense.currency)} repaid
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => openRepay(expense)}
+                    icon={<FiCornerUpLeft className="w-4 h-4" />}
+                  >
+                    Record repayment
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={dismissMutation.isPending}
+                    onClick={() => handleDismiss(expense)}
+                  >
+                    Not owed
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      <Modal isOpen={Boolean(repaying)} onClose={() => setRepaying(null)} title="Record Repayment">
+        <form onSubmit={submitRepay} className="space-y-5">
+          <p className="text-sm text-slate-600">
+            For "{repaying?.description || "this expense"}":{" "}
+            {formatCurrency(repaying?.outstanding || 0, repaying?.currency)} still owed.
+            {!sameCurrency &&
+              ` Enter what arrived in ${paidInto?.currency}; it counts at that day's exchange rate.`}
+          </p>
+          <Input
+            label="Amount"
+            type="number"
+            step="0.01"
+            min="0.01"
+            max={sameCurrency ? repaying?.outstanding : undefined}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+          <Input label="Date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1.5">Paid into</label>
+            <select
+              value={account}
+              onChange={(e) => setAccount(e.target.value)}
+              className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-3"
+            >
+              <option value="">Default account</option>
+              {accounts.map((acc) => (
+                <option key={acc._id} value={acc._id}>
+                  {acc.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button variant="secondary" type="button" onClick={() => setRepaying(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={repayMutation.isPending} disabled={!(Number(amount) > 0)}>
+              Record
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
+
+export default ReimbursablesPage;
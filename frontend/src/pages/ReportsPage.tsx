@@ -21,13 +21,17 @@ import { FiDownload, FiCalendar } from "react-icons/fi";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 
-import { getTransactions, MAX_TRANSACTION_PAGE } from "../services/transactions";
+import { getAllTransactions } from "../services/transactions";
+import { getCategories } from "../services/categories";
 import { useCurrency } from "../hooks/useCurrency";
 import LoadingSpinner from "../components/common/LoadingSpinner";
 import { Card } from "../components/common/Card";
 import { Button } from "../components/common/Button";
+import { CategoryPie } from "../components/categories/CategoryPie";
 import { useToast } from "../hooks/useToast";
-import { isIncome, isExpense, sumIncome, sumExpenses } from "../utils/transactionType";
+import { baseAmountOf, isIncome, isExpense, spendSign, sumIncome, sumExpenses } from "../utils/transactionType";
+import { categoryLabel, categoryLines } from "../utils/splits";
+import { spendingByCategory } from "../utils/categoryTree";
 import type { Transaction } from "../types";
 
 const CHART_COLORS = ["#10b981", "#3b82f6", "#f59e0b", "#ef4444", "#8b5cf6", "#ec4899", "#6366f1"];
@@ -58,15 +62,17 @@ const ReportsPage: React.FC = () => {
   const { data, isLoading } = useQuery({
     queryKey: ["reports", "transactions", start, end],
     queryFn: () =>
-      getTransactions({
+      // Every figure on this page is summed from these rows, so fetch
+      // every page.
+      getAllTransactions({
         start: new Date(start).toISOString(),
         end: new Date(new Date(end).setHours(23, 59, 59, 999)).toISOString(),
-        // Every figure on this page is summed from these rows.
-        limit: MAX_TRANSACTION_PAGE,
       }),
   });
 
-  const transactions: Transaction[] = data?.items || [];
+  // Memoised so the aggregations below only recompute when the data changes;
+  // a bare `|| []` is a new array on every render.
+  const transactions: Transaction[] = React.useMemo(() => data?.items || [], [data]);
 
   // --- Aggregations ---
 
@@ -85,25 +91,71 @@ const ReportsPage: React.FC = () => {
       if (!buckets[key]) buckets[key] = { income: 0, expenses: 0 };
       // Explicit on both branches. An `else` here would sweep transfers into
       // expenses — moving money between your own accounts is not spending.
-      if (isIncome(t)) buckets[key].income += t.amount;
-      else if (isExpense(t)) buckets[key].expenses += t.amount;
+      // A refund comes off spending rather than counting as income.
+      if (spendSign(t) !== 0) buckets[key].expenses += spendSign(t) * baseAmountOf(t);
+      else if (isIncome(t)) buckets[key].income += baseAmountOf(t);
     });
     return Object.entries(buckets)
       .sort(([a], [b]) => a.localeCompare(b))
       .map(([key, v]) => ({ monthKey: key, label: fmtMonth(key), ...v }));
   }, [transactions, start, end]);
 
-  // categoryTotals: for the whole range, expense by category, sorted descending.
+  const { data: categoriesData } = useQuery({ queryKey: ["categories"], queryFn: getCategories });
+  const categories = React.useMemo(() => categoriesData?.categories || [], [categoriesData]);
+
+  // categorySpending: by category id, for the drill-down pie.
+  const categorySpending = React.useMemo(() => spendingByCategory(transactions), [transactions]);
+
+  // categoryTotals: for the whole range, expense by category net of refunds,
+  // sorted descending.
   const categoryTotals = React.useMemo(() => {
     const byCat: Record<string, number> = {};
     transactions
-      .filter((t) => t.type === "expense")
+      .filter((t) => spendSign(t) !== 0)
       .forEach((t) => {
-        const name = t.category?.name || "Uncategorized";
-        byCat[name] = (byCat[name] || 0) + t.amount;
+        categoryLines(t).forEach(({ name, amount }) => {
+          byCat[name] = (byCat[name] || 0) + spendSign(t) * amount;
+        });
       });
     return Object.entries(byCat)
       .map(([name, value]) => ({ name, value }))
+      .filter((c) => c.value > 0)
+      .sort((a, b) => b.value - a.value);
+  }, [transactions]);
+
+  // tagTotals: expense by tag. A transaction with two tags counts toward
+  // both, so these overlap and are not meant to add up to total spending.
+  const tagTotals = React.useMemo(() => {
+    const byTag: Record<string, { value: number; count: number }> = {};
+    transactions
+      .filter((t) => spendSign(t) !== 0)
+      .forEach((t) => {
+        (t.tags || []).forEach((tag) => {
+          if (!byTag[tag]) byTag[tag] = { value: 0, count: 0 };
+          byTag[tag].value += spendSign(t) * baseAmountOf(t);
+          if (isExpense(t)) byTag[tag].count += 1;
+        });
+      });
+    return Object.entries(byTag)
+      .map(([name, v]) => ({ name, ...v }))
+      .filter((v) => v.value > 0)
+      .sort((a, b) => b.value - a.value);
+  }, [transactions]);
+
+  // payeeTotals: expense by payee, for the merchants the money goes to.
+  const payeeTotals = React.useMemo(() => {
+    const byPayee: Record<string, { value: number; count: number }> = {};
+    transactions
+      .filter((t) => spendSign(t) !== 0 && t.payee)
+      .forEach((t) => {
+        const name = t.payee!.name;
+        if (!byPayee[name]) byPayee[name] = { value: 0, count: 0 };
+        byPayee[name].value += spendSign(t) * baseAmountOf(t);
+        if (isExpense(t)) byPayee[name].count += 1;
+      });
+    return Object.entries(byPayee)
+      .map(([name, v]) => ({ name, ...v }))
+      .filter((v) => v.value > 0)
       .sort((a, b) => b.value - a.value);
   }, [transactions]);
 
@@ -116,23 +168,43 @@ const ReportsPage: React.FC = () => {
       topCategoryNames.forEach((c) => (result[k][c] = 0));
     });
     transactions
-      .filter((t) => t.type === "expense")
+      .filter((t) => spendSign(t) !== 0)
       .forEach((t) => {
         const k = monthKey(new Date(t.date));
-        const cat = t.category?.name || "Uncategorized";
-        if (result[k] && topCategoryNames.includes(cat)) {
-          result[k][cat] = (result[k][cat] || 0) + t.amount;
-        }
+        if (!result[k]) return;
+        categoryLines(t).forEach(({ name, amount }) => {
+          if (topCategoryNames.includes(name)) {
+            result[k][name] = (result[k][name] || 0) + spendSign(t) * amount;
+          }
+        });
       });
     return Object.values(result);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [transactions, monthlyData, topCategoryNames.join(",")]);
 
+  // merchantTrend: monthly time series for the top 5 payees.
+  const topPayeeNames = React.useMemo(() => payeeTotals.slice(0, 5).map((p) => p.name), [payeeTotals]);
+  const merchantTrendData = React.useMemo(() => {
+    const result: Record<string, Record<string, string | number>> = {};
+    monthlyData.forEach(({ monthKey: k, label }) => {
+      result[k] = { label };
+      topPayeeNames.forEach((p) => (result[k][p] = 0));
+    });
+    transactions
+      .filter((t) => spendSign(t) !== 0 && t.payee && topPayeeNames.includes(t.payee.name))
+      .forEach((t) => {
+        const k = monthKey(new Date(t.date));
+        if (!result[k]) return;
+        result[k][t.payee!.name] = (result[k][t.payee!.name] as number) + spendSign(t) * baseAmountOf(t);
+      });
+    return Object.values(result);
+  }, [transactions, monthlyData, topPayeeNames]);
+
   // top 10 individual expenses by absolute amount
   const topExpenses = React.useMemo(() => {
     return [...transactions]
       .filter((t) => t.type === "expense")
-      .sort((a, b) => b.amount - a.amount)
+      .sort((a, b) => baseAmountOf(b) - baseAmountOf(a))
       .slice(0, 10);
   }, [transactions]);
 
@@ -212,6 +284,32 @@ const ReportsPage: React.FC = () => {
         y = (doc as any).lastAutoTable.finalY + 8;
       }
 
+      // Spend by tag
+      if (tagTotals.length > 0) {
+        autoTable(doc, {
+          startY: y,
+          head: [["Spend by tag", "Transactions", "Amount"]],
+          body: tagTotals.slice(0, 10).map((t) => [`#${t.name}`, String(t.count), formatCurrency(t.value)]),
+          styles: { fontSize: 10 },
+          headStyles: { fillColor: [139, 92, 246] },
+          margin: { left: margin, right: margin },
+        });
+        y = (doc as any).lastAutoTable.finalY + 8;
+      }
+
+      // Top merchants
+      if (payeeTotals.length > 0) {
+        autoTable(doc, {
+          startY: y,
+          head: [["Top merchants", "Transactions", "Amount"]],
+          body: payeeTotals.slice(0, 10).map((p) => [p.name, String(p.count), formatCurrency(p.value)]),
+          styles: { fontSize: 10 },
+          headStyles: { fillColor: [14, 165, 233] },
+          margin: { left: margin, right: margin },
+        });
+        y = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
+      }
+
       // Top individual expenses
       if (topExpenses.length > 0) {
         autoTable(doc, {
@@ -220,8 +318,8 @@ const ReportsPage: React.FC = () => {
           body: topExpenses.map((t) => [
             new Date(t.date).toLocaleDateString(),
             t.description || "—",
-            t.category?.name || "Uncategorized",
-            formatCurrency(t.amount),
+            categoryLabel(t),
+            formatCurrency(baseAmountOf(t)),
           ]),
           styles: { fontSize: 9 },
           headStyles: { fillColor: [239, 68, 68] },
@@ -386,6 +484,20 @@ const ReportsPage: React.FC = () => {
             </div>
           </Card>
 
+          {/* Spending by category, drilling from parents into children */}
+          <Card className="p-6">
+            <h3 className="text-lg font-bold text-slate-900 mb-1">Spending by category</h3>
+            <p className="text-xs text-slate-500 mb-4">Click a category to see the subcategories inside it.</p>
+            <div className="w-full h-[380px]">
+              <CategoryPie
+                spending={categorySpending}
+                categories={categories}
+                colors={CHART_COLORS}
+                empty={<p className="text-sm text-slate-500">No spending in this range.</p>}
+              />
+            </div>
+          </Card>
+
           {/* Category trend (top 3 expense categories) */}
           {topCategoryNames.length > 0 && (
             <Card className="p-6">
@@ -418,6 +530,98 @@ const ReportsPage: React.FC = () => {
             </Card>
           )}
 
+          {/* Spend by tag */}
+          {tagTotals.length > 0 && (
+            <Card className="p-6">
+              <h3 className="text-lg font-bold text-slate-900 mb-1">Spend by tag</h3>
+              <p className="text-xs text-slate-500 mb-4">
+                A transaction with several tags counts toward each of them.
+              </p>
+              <div className="space-y-3">
+                {tagTotals.slice(0, 10).map((t, i) => (
+                  <div key={t.name}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="font-medium text-slate-700">
+                        #{t.name}
+                        <span className="ml-2 text-xs font-normal text-slate-400">
+                          {t.count} {t.count === 1 ? "transaction" : "transactions"}
+                        </span>
+                      </span>
+                      <span className="font-semibold text-slate-900">{formatCurrency(t.value)}</span>
+                    </div>
+                    <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full rounded-full"
+                        style={{
+                          width: `${(t.value / tagTotals[0].value) * 100}%`,
+                          backgroundColor: CHART_COLORS[i % CHART_COLORS.length],
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          )}
+
+          {/* Top merchants */}
+          {payeeTotals.length > 0 && (
+            <Card className="p-6">
+              <h3 className="text-lg font-bold text-slate-900 mb-1">Top merchants</h3>
+              <p className="text-xs text-slate-500 mb-4">
+                Where your money goes, by payee, and how your five biggest have moved month to month.
+              </p>
+              <div className="space-y-3">
+                {payeeTotals.slice(0, 10).map((p, i) => (
+                  <div key={p.name}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="font-medium text-slate-700">
+                        {p.name}
+                        <span className="ml-2 text-xs font-normal text-slate-400">
+                          {p.count} {p.count === 1 ? "transaction" : "transactions"}
+                        </span>
+                      </span>
+                      <span className="font-semibold text-slate-900">{formatCurrency(p.value)}</span>
+                    </div>
+                    <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full rounded-full"
+                        style={{
+                          width: `${(p.value / payeeTotals[0].value) * 100}%`,
+                          backgroundColor: CHART_COLORS[i % CHART_COLORS.length],
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="w-full h-[280px] mt-6">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={merchantTrendData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                    <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fill: "#64748b", fontSize: 12 }} />
+                    <YAxis axisLine={false} tickLine={false} tick={{ fill: "#64748b", fontSize: 12 }} />
+                    <Tooltip
+                      contentStyle={{ borderRadius: "12px", border: "none", boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)" }}
+                      formatter={(value) => formatCurrency(value as number)}
+                    />
+                    <Legend />
+                    {topPayeeNames.map((name, i) => (
+                      <Line
+                        key={name}
+                        type="monotone"
+                        dataKey={name}
+                        stroke={CHART_COLORS[i % CHART_COLORS.length]}
+                        strokeWidth={2}
+                        dot={{ r: 3 }}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </Card>
+          )}
+
           {/* Top expenses table */}
           {topExpenses.length > 0 && (
             <Card className="overflow-hidden">
@@ -441,8 +645,8 @@ const ReportsPage: React.FC = () => {
                       <tr key={t._id} className="hover:bg-slate-50">
                         <td className="px-6 py-3 text-sm text-slate-700">{new Date(t.date).toLocaleDateString()}</td>
                         <td className="px-6 py-3 text-sm text-slate-900 font-medium">{t.description || "—"}</td>
-                        <td className="px-6 py-3 text-sm text-slate-500">{t.category?.name || "Uncategorized"}</td>
-                        <td className="px-6 py-3 text-sm text-slate-900 font-semibold text-right">{formatCurrency(t.amount)}</td>
+                        <td className="px-6 py-3 text-sm text-slate-500">{categoryLabel(t)}</td>
+                        <td className="px-6 py-3 text-sm text-slate-900 font-semibold text-right">{formatCurrency(baseAmountOf(t))}</td>
                       </tr>
                     ))}
                   </tbody>
@@ -459,10 +663,10 @@ const ReportsPage: React.FC = () => {
                     <div className="min-w-0 flex-1">
                       <p className="font-medium text-slate-900 truncate">{t.description || "—"}</p>
                       <p className="text-xs text-slate-500">
-                        {t.category?.name || "Uncategorized"} • {new Date(t.date).toLocaleDateString()}
+                        {categoryLabel(t)} • {new Date(t.date).toLocaleDateString()}
                       </p>
                     </div>
-                    <span className="flex-shrink-0 font-semibold text-slate-900">{formatCurrency(t.amount)}</span>
+                    <span className="flex-shrink-0 font-semibold text-slate-900">{formatCurrency(baseAmountOf(t))}</span>
                   </div>
                 ))}
               </div>
@@ -0,0 +1,717 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm, Controller } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  FiZap,
+  FiPlus,
+  FiEdit,
+  FiTrash2,
+  FiPause,
+  FiPlay,
+  FiArrowUp,
+  FiArrowDown,
+  FiEye,
+  FiArrowRight,
+} from "react-icons/fi";
+import {
+  getRules,
+  createRule,
+  updateRule,
+  deleteRule,
+  reorderRules,
+  previewRule,
+  applyRule,
+} from "../services/rules";
+import { getCategories } from "../services/categories";
+import { getAccounts } from "../services/accounts";
+import { getTags } from "../services/tags";
+import { apiErrorMessage } from "../lib/api";
+import { useCurrency } from "../hooks/useCurrency";
+import { useToast } from "../hooks/useToast";
+import LoadingSpinner from "../components/common/LoadingSpinner";
+import { Card } from "../components/common/Card";
+import { Button } from "../components/common/Button";
+import { Input } from "../components/common/Input";
+import { Modal } from "../components/common/Modal";
+import { TagInput } from "../components/transactions/TagInput";
+import type {
+  CategorizationRule,
+  RuleInput,
+  RuleOperator,
+  RulePreview,
+} from "../types";
+
+const optionalAmount = z.preprocess(
+  (v) => (v === "" || v === null || Number.isNaN(v) ? undefined : v),
+  z.number().min(0, "Must be zero or more").optional()
+);
+
+const ruleSchema = z
+  .object({
+    name: z.string().min(1, "Name is required").max(100, "Name is too long"),
+    operator: z.enum(["contains", "startsWith", "endsWith", "equals"]),
+    value: z.string().trim().min(1, "Say what the description should match"),
+    type: z.enum(["", "income", "expense"]),
+    minAmount: optionalAmount,
+    maxAmount: optionalAmount,
+    category: z.string().optional(),
+    account: z.string().optional(),
+    tags: z.array(z.string()),
+  })
+  .refine((d) => Boolean(d.category || d.account || d.tags.length), {
+    message: "Choose a category, an account or tags to set",
+    path: ["category"],
+  })
+  .refine(
+    (d) =>
+      d.minAmount === undefined ||
+      d.maxAmount === undefined ||
+      d.minAmount <= d.maxAmount,
+    { message: "Minimum must not exceed maximum", path: ["maxAmount"] }
+  );
+
+type RuleFormData = z.infer<typeof ruleSchema>;
+
+const OPERATOR_LABELS: Record<RuleOperator, string> = {
+  contains: "contains",
+  startsWith: "starts with",
+  endsWith: "ends with",
+  equals: "is exactly",
+};
+
+const emptyForm: RuleFormData = {
+  name: "",
+  operator: "contains",
+  value: "",
+  type: "",
+  minAmount: undefined,
+  maxAmount: undefined,
+  category: "",
+  account: "",
+  tags: [],
+};
+
+const toInput = (data: RuleFormData): RuleInput => ({
+  name: data.name,
+  conditions: {
+    operator: data.operator,
+    value: data.value,
+    type: data.type || undefined,
+    minAmount: data.minAmount,
+    maxAmount: data.maxAmount,
+  },
+  actions: {
+    category: data.category || undefined,
+    account: data.account || undefined,
+    tags: data.tags.length ? data.tags : undefined,
+  },
+});
+
+const selectClass =
+  "block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2.5";
+
+/** Lists the rows a rule would change, each field as "from → to". */
+const PreviewList: React.FC<{
+  preview: RulePreview;
+  nameOf: (kind: "category" | "account", id?: string) => string;
+}> = ({ preview, nameOf }) => {
+  const { formatCurrency } = useCurrency();
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-slate-600">
+        Matches <strong>{preview.matched}</strong> existing transaction
+        {preview.matched === 1 ? "" : "s"}; would change{" "}
+        <strong>{preview.changed}</strong>.
+      </p>
+      {preview.sample.length > 0 && (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-slate-100 rounded-xl border border-slate-100">
+          {preview.sample.map((row) => (
+            <li key={row._id} className="px-3 py-2 text-sm">
+              <div className="flex justify-between gap-3">
+                <span className="truncate text-slate-900">
+                  {row.description || "No description"}
+                </span>
+                <span className="whitespace-nowrap text-slate-500">
+                  {new Date(row.date).toLocaleDateString()} ·{" "}
+                  {formatCurrency(row.amount)}
+                </span>
+              </div>
+              <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+                {row.changes.category && (
+                  <span className="inline-flex items-center gap-1">
+                    {nameOf("category", row.category)}
+                    <FiArrowRight className="w-3 h-3" />
+                    <span className="text-primary-700">
+                      {nameOf("category", row.changes.category)}
+                    </span>
+                  </span>
+                )}
+                {row.changes.account && (
+                  <span className="inline-flex items-center gap-1">
+                    {nameOf("account", row.account)}
+                    <FiArrowRight className="w-3 h-3" />
+                    <span className="text-primary-700">
+                      {nameOf("account", row.changes.account)}
+                    </span>
+                  </span>
+                )}
+                {row.changes.tags && (
+                  <span className="text-primary-700">
+                    + {row.changes.tags.join(", ")}
+                  </span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {preview.changed > preview.sample.length && (
+        <p className="text-xs text-slate-400">
+          Showing the latest {preview.sample.length}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+const RulesPage: React.FC = () => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(
+    null
+  );
+  const [formPreview, setFormPreview] = useState<RulePreview | null>(null);
+  // The saved rule being applied to history, and whether it may replace
+  // categories and accounts that are already set.
+  const [applying, setApplying] = useState<CategorizationRule | null>(null);
+  const [overwrite, setOverwrite] = useState(false);
+
+  const queryClient = useQueryClient();
+  const { formatCurrency } = useCurrency();
+  const { showSuccess, showError } = useToast();
+
+  const { data: rulesData, isLoading } = useQuery({
+    queryKey: ["rules"],
+    queryFn: getRules,
+  });
+  const rules = rulesData?.rules || [];
+
+  const { data: categoriesData } = useQuery({
+    queryKey: ["categories"],
+    queryFn: getCategories,
+  });
+  const categories = categoriesData?.categories || [];
+
+  const { data: accountsData } = useQuery({
+    queryKey: ["accounts", false],
+    queryFn: () => getAccounts(),
+  });
+  const accounts = accountsData?.accounts || [];
+
+  const { data: tagsData } = useQuery({
+    queryKey: ["tags"],
+    queryFn: getTags,
+  });
+
+  const nameOf = (kind: "category" | "account", id?: string) => {
+    if (!id) return kind === "category" ? "Uncategorized" : "No account";
+    const list = kind === "category" ? categories : accounts;
+    return list.find((item) => item._id === id)?.name || "Unknown";
+  };
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    getValues,
+    trigger,
+    formState: { errors },
+  } = useForm<RuleFormData>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues: emptyForm,
+  });
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingRule(null);
+    setFormPreview(null);
+    reset(emptyForm);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: createRule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["rules"] });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      closeModal();
+      showSuccess("Rule created");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to create rule")),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<RuleInput> }) =>
+      updateRule(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["rules"] });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      closeModal();
+      showSuccess("Rule updated");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to update rule")),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteRule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["rules"] });
+      showSuccess("Rule deleted");
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to delete rule")),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: reorderRules,
+    onSuccess: ({ rules: reordered }) => {
+      queryClient.setQueryData(["rules"], { rules: reordered });
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to reorder")),
+  });
+
+  const formPreviewMutation = useMutation({
+    mutationFn: (data: RuleInput) => previewRule(data),
+    onSuccess: setFormPreview,
+    onError: (err) => showError(apiErrorMessage(err, "Failed to preview")),
+  });
+
+  const applyPreview = useQuery({
+    queryKey: ["rules", "preview", applying?._id, overwrite],
+    queryFn: () =>
+      previewRule(
+        {
+          conditions: (applying as CategorizationRule).conditions,
+          actions: (applying as CategorizationRule).actions,
+        },
+        overwrite
+      ),
+    enabled: Boolean(applying),
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: ({ id, overwrite }: { id: string; overwrite: boolean }) =>
+      applyRule(id, overwrite),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      setApplying(null);
+      showSuccess(`Updated ${result.updated} transaction(s)`);
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to apply rule")),
+  });
+
+  const onSubmit = (data: RuleFormData) => {
+    const payload = toInput(data);
+    if (editingRule) {
+      updateMutation.mutate({ id: editingRule._id, data: payload });
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (await trigger()) formPreviewMutation.mutate(toInput(getValues()));
+  };
+
+  const openModal = () => {
+    setEditingRule(null);
+    setFormPreview(null);
+    reset(emptyForm);
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (rule: CategorizationRule) => {
+    setEditingRule(rule);
+    setFormPreview(null);
+    reset({
+      name: rule.name,
+      operator: rule.conditions.operator,
+      value: rule.conditions.value,
+      type: rule.conditions.type || "",
+      minAmount: rule.conditions.minAmount,
+      maxAmount: rule.conditions.maxAmount,
+      category: rule.actions.category || "",
+      account: rule.actions.account || "",
+      tags: rule.actions.tags || [],
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = (rule: CategorizationRule) => {
+    if (
+      confirm(
+        `Delete "${rule.name}"? Transactions it already categorised keep their category.`
+      )
+    ) {
+      deleteMutation.mutate(rule._id);
+    }
+  };
+
+  const move = (index: number, offset: -1 | 1) => {
+    const ids = rules.map((r) => r._id);
+    const target = index + offset;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const openApply = (rule: CategorizationRule) => {
+    setOverwrite(false);
+    setApplying(rule);
+  };
+
+  const describe = (rule: CategorizationRule) => {
+    const { conditions } = rule;
+    const parts = [
+      `Description ${OPERATOR_LABELS[conditions.operator]} "${conditions.value}"`,
+    ];
+    if (conditions.type) parts.push(`${conditions.type} only`);
+    if (conditions.minAmount !== undefined)
+      parts.push(`≥ ${formatCurrency(conditions.minAmount)}`);
+    if (conditions.maxAmount !== undefined)
+      parts.push(`≤ ${formatCurrency(conditions.maxAmount)}`);
+    return parts.join(" · ");
+  };
+
+  const outcome = (rule: CategorizationRule) => {
+    const { actions } = rule;
+    const parts: string[] = [];
+    if (actions.category) parts.push(nameOf("category", actions.category));
+    if (actions.account) parts.push(nameOf("account", actions.account));
+    if (actions.tags?.length) parts.push(actions.tags.map((t) => `#${t}`).join(" "));
+    return parts.join(", ");
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Rules</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Categorise new transactions automatically — manual, imported and
+            recurring alike. Rules run top to bottom.
+          </p>
+        </div>
+        <Button onClick={openModal} icon={<FiPlus className="w-4 h-4" />}>
+          Add Rule
+        </Button>
+      </div>
+
+      {rules.length === 0 ? (
+        <Card className="text-center py-16">
+          <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <FiZap className="w-8 h-8 text-slate-400" />
+          </div>
+          <h3 className="text-lg font-medium text-slate-900 mb-2">No rules yet</h3>
+          <p className="text-slate-500 mb-6 max-w-sm mx-auto">
+            Teach the app once — "description contains UBER → Transport" — and
+            every matching transaction is filed for you.
+          </p>
+          <Button onClick={openModal}>Add Your First Rule</Button>
+        </Card>
+      ) : (
+        <Card className="divide-y divide-slate-100">
+          {rules.map((rule, index) => (
+            <div
+              key={rule._id}
+              className={`p-4 flex flex-col sm:flex-row sm:items-center gap-3 ${
+                rule.isActive ? "" : "opacity-60"
+              }`}
+            >
+              <div className="flex sm:flex-col gap-1">
+                <button
+                  type="button"
+                  title="Run earlier"
+                  disabled={index === 0 || reorderMutation.isPending}
+                  onClick={() => move(index, -1)}
+                  className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                >
+                  <FiArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  title="Run later"
+                  disabled={index === rules.length - 1 || reorderMutation.isPending}
+                  onClick={() => move(index, 1)}
+                  className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                >
+                  <FiArrowDown className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="min-w-0 flex-1">
+                <h3 className="font-semibold text-slate-900 truncate">
+                  {rule.name}
+                  {!rule.isActive && (
+                    <span className="ml-2 text-xs font-normal text-slate-500">
+                      Paused
+                    </span>
+                  )}
+                </h3>
+                <p className="text-xs text-slate-500 mt-0.5">{describe(rule)}</p>
+                <p className="text-sm text-slate-700 mt-1 inline-flex items-center gap-1">
+                  <FiArrowRight className="w-3 h-3 text-slate-400" />
+                  {outcome(rule)}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openApply(rule)}
+                  icon={<FiZap className="w-4 h-4" />}
+                >
+                  Apply to past
+                </Button>
+                <button
+                  type="button"
+                  title={rule.isActive ? "Pause" : "Resume"}
+                  onClick={() =>
+                    updateMutation.mutate({
+                      id: rule._id,
+                      data: { isActive: !rule.isActive },
+                    })
+                  }
+                  className="p-2 text-slate-400 hover:text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+                >
+                  {rule.isActive ? (
+                    <FiPause className="w-4 h-4" />
+                  ) : (
+                    <FiPlay className="w-4 h-4" />
+                  )}
+                </button>
+                <button
+                  type="button"
+                  title="Edit rule"
+                  onClick={() => handleEdit(rule)}
+                  className="p-2 text-slate-400 hover:text-primary-600 rounded-lg hover:bg-primary-50 transition-colors"
+                >
+                  <FiEdit className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  title="Delete rule"
+                  onClick={() => handleDelete(rule)}
+                  className="p-2 text-slate-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                >
+                  <FiTrash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </Card>
+      )}
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingRule ? "Edit Rule" : "New Rule"}
+        size="xl"
+      >
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          <Input
+            label="Name"
+            placeholder="e.g., Uber rides"
+            error={errors.name?.message}
+            {...register("name")}
+          />
+
+          <fieldset className="space-y-3">
+            <legend className="text-sm font-semibold text-slate-900 mb-2">
+              When
+            </legend>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                  Description
+                </label>
+                <select className={selectClass} {...register("operator")}>
+                  {Object.entries(OPERATOR_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <Input
+                  label="Text"
+                  placeholder="UBER"
+                  error={errors.value?.message}
+                  {...register("value")}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                  Type
+                </label>
+                <select className={selectClass} {...register("type")}>
+                  <option value="">Any</option>
+                  <option value="expense">Expense</option>
+                  <option value="income">Income</option>
+                </select>
+              </div>
+              <Input
+                label="Min amount"
+                type="number"
+                step="0.01"
+                error={errors.minAmount?.message}
+                {...register("minAmount", { valueAsNumber: true })}
+              />
+              <Input
+                label="Max amount"
+                type="number"
+                step="0.01"
+                error={errors.maxAmount?.message}
+                {...register("maxAmount", { valueAsNumber: true })}
+              />
+            </div>
+          </fieldset>
+
+          <fieldset className="space-y-3">
+            <legend className="text-sm font-semibold text-slate-900 mb-2">
+              Then set
+            </legend>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                  Category
+                </label>
+                <select className={selectClass} {...register("category")}>
+                  <option value="">Leave as is</option>
+                  {categories.map((category) => (
+                    <option key={category._id} value={category._id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+                {errors.category && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.category.message}
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                  Account
+                </label>
+                <select className={selectClass} {...register("account")}>
+                  <option value="">Leave as is</option>
+                  {accounts.map((account) => (
+                    <option key={account._id} value={account._id}>
+                      {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <Controller
+              name="tags"
+              control={control}
+              render={({ field }) => (
+                <TagInput
+                  label="Add tags"
+                  value={field.value}
+                  onChange={field.onChange}
+                  suggestions={tagsData?.tags || []}
+                />
+              )}
+            />
+          </fieldset>
+
+          <p className="text-xs text-slate-500">
+            A rule only fills in what a new transaction is missing: a category
+            chosen by hand, or mapped during an import, is never replaced.
+          </p>
+
+          {formPreview && (
+            <div className="pt-4 border-t border-slate-100">
+              <PreviewList preview={formPreview} nameOf={nameOf} />
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-slate-100">
+            <Button
+              variant="ghost"
+              type="button"
+              onClick={handlePreview}
+              isLoading={formPreviewMutation.isPending}
+              icon={<FiEye className="w-4 h-4" />}
+            >
+              Preview
+            </Button>
+            <Button variant="secondary" type="button" onClick={closeModal}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              isLoading={createMutation.isPending || updateMutation.isPending}
+            >
+              {editingRule ? "Save Changes" : "Create"}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal
+        isOpen={Boolean(applying)}
+        onClose={() => setApplying(null)}
+        title={`Apply "${applying?.name ?? ""}" to past transactions`}
+        size="xl"
+      >
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={overwrite}
+              onChange={(e) => setOverwrite(e.target.checked)}
+              className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+            />
+            Also replace categories and accounts that are already set
+          </label>
+
+          {applyPreview.isLoading ? (
+            <LoadingSpinner />
+          ) : (
+            applyPreview.data && (
+              <PreviewList preview={applyPreview.data} nameOf={nameOf} />
+            )
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-slate-100">
+            <Button variant="secondary" onClick={() => setApplying(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!applyPreview.data?.changed}
+              isLoading={applyMutation.isPending}
+              onClick={() =>
+                applying && applyMutation.mutate({ id: applying._id, overwrite })
+              }
+            >
+              Update {applyPreview.data?.changed ?? 0} transaction(s)
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default RulesPage;
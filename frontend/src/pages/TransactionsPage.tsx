@@ -1,25 +1,30 @@
 // Transactions page with full CRUD functionality
-import React, { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useForm } from "react-hook-form";
+import React, { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { FiEdit, FiTrash2, FiPlus, FiFilter, FiSearch, FiArrowUp, FiArrowDown, FiDownload, FiRepeat } from "react-icons/fi";
+import { useNavigate } from "react-router-dom";
+import { FiEdit, FiTrash2, FiPlus, FiFilter, FiSearch, FiArrowUp, FiArrowDown, FiDownload, FiRepeat, FiUpload, FiX, FiScissors, FiTag, FiCheck, FiLock, FiCopy, FiCornerUpLeft, FiBriefcase, FiBarChart2 } from "react-icons/fi";
 import {
   isIncome,
   isExpense,
   isTransfer,
-  amountColor,
-  amountPrefix,
+  isTrade,
+  isRefund,
   typeChipColor,
 } from "../utils/transactionType";
+import { categoryLabel, isSplit } from "../utils/splits";
 import {
   getTransactions,
+  bulkUpdateTransactions,
+  bulkDeleteTransactions,
   createTransaction,
   updateTransaction,
   deleteTransaction,
   exportTransactions,
 } from "../services/transactions";
+import type { BulkChanges } from "../services/transactions";
 import { useToast } from "../hooks/useToast";
 import { getCategories } from "../services/categories";
 import { getAccounts } from "../services/accounts";
@@ -29,6 +34,19 @@ import { Card } from "../components/common/Card";
 import { Button } from "../components/common/Button";
 import { Input } from "../components/common/Input";
 import { Modal } from "../components/common/Modal";
+import { ImportWizard } from "../components/transactions/ImportWizard";
+import { BulkActionBar } from "../components/transactions/BulkActionBar";
+import { apiErrorMessage } from "../lib/api";
+import { TagInput } from "../components/transactions/TagInput";
+import { getTags } from "../services/tags";
+import { Highlight } from "../components/transactions/Highlight";
+import { AttachmentPanel, AttachmentThumb } from "../components/transactions/Attachments";
+import { HistoryDrawer } from "../components/transactions/HistoryDrawer";
+import { TrashModal } from "../components/transactions/TrashModal";
+import { TransactionAmount } from "../components/transactions/TransactionAmount";
+import { restoreTransactions } from "../services/trash";
+import { getRefundCandidates } from "../services/refunds";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
 import type { Transaction, TransactionInput } from "../types";
 
 const transactionSchema = z
@@ -38,10 +56,24 @@ const transactionSchema = z
       required_error: "Type is required",
     }),
     category: z.string().optional(),
+    splits: z
+      .array(
+        z.object({
+          category: z.string().optional(),
+          // Checked in the refine below, which skips transfers: a split
+          // left behind by switching the type must not block the save.
+          amount: z.number(),
+          note: z.string().optional(),
+        })
+      )
+      .optional(),
+    tags: z.array(z.string()).optional(),
     account: z.string().optional(),
     transferTo: z.string().optional(),
     date: z.string().optional(),
     description: z.string().optional(),
+    refundOf: z.string().optional(),
+    reimbursable: z.boolean().optional(),
   })
   // Mirrors the server's rules so the user is told before the round trip.
   .refine((data) => data.type !== "transfer" || Boolean(data.transferTo), {
@@ -57,6 +89,29 @@ const transactionSchema = z
       message: "Pick a different account to transfer into",
       path: ["transferTo"],
     }
+  )
+  .refine(
+    (data) =>
+      data.type === "transfer" ||
+      !data.splits ||
+      data.splits.every((s) => s.amount > 0),
+    {
+      message: "Every part needs an amount greater than 0",
+      path: ["splits"],
+    }
+  )
+  // Compared in cents, as the server does, so 33.33 + 66.67 passes.
+  .refine(
+    (data) =>
+      data.type === "transfer" ||
+      !data.splits ||
+      data.splits.length === 0 ||
+      data.splits.reduce((sum, s) => sum + Math.round(s.amount * 100), 0) ===
+        Math.round(data.amount * 100),
+    {
+      message: "The parts must add up to the amount",
+      path: ["splits"],
+    }
   );
 
 type TransactionFormData = z.infer<typeof transactionSchema>;
@@ -66,26 +121,53 @@ const TransactionsPage: React.FC = () => {
   const { showSuccess, showError } = useToast();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const navigate = useNavigate();
   const [editingTransaction, setEditingTransaction] =
     useState<Transaction | null>(null);
   const [filters, setFilters] = useState({
-    type: "" as "" | "income" | "expense" | "transfer",
+    type: "" as "" | "income" | "expense" | "transfer" | "trade",
     startDate: "",
     endDate: "",
+    tag: "",
+    category: "",
+    minAmount: "",
+    maxAmount: "",
   });
+  const [searchInput, setSearchInput] = useState("");
+  const search = useDebouncedValue(searchInput.trim());
 
   const queryClient = useQueryClient();
 
   // Queries
-  const { data: transactionsData, isLoading: transactionsLoading } = useQuery({
-    queryKey: ["transactions", filters],
-    queryFn: () => {
+  const {
+    data: transactionsData,
+    isLoading: transactionsLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["transactions", filters, search],
+    queryFn: ({ pageParam }: { pageParam?: string }) => {
       const params: Record<string, string> = {};
       if (filters.type) params.type = filters.type;
       if (filters.startDate) params.start = filters.startDate;
       if (filters.endDate) params.end = filters.endDate;
-      return getTransactions(params);
+      return getTransactions({
+        ...params,
+        tags: filters.tag ? [filters.tag] : undefined,
+        category: filters.category || undefined,
+        q: search || undefined,
+        minAmount: filters.minAmount ? Number(filters.minAmount) : undefined,
+        maxAmount: filters.maxAmount ? Number(filters.maxAmount) : undefined,
+        cursor: pageParam,
+      });
     },
+    getNextPageParam: (last) => (last.hasMore ? last.nextCursor ?? undefined : undefined),
+    // Keeps the table (and the focused search box) on screen while the next
+    // result set loads, instead of swapping the page for a spinner.
+    keepPreviousData: true,
   });
 
   const { data: categoriesData } = useQuery({
@@ -99,7 +181,47 @@ const TransactionsPage: React.FC = () => {
   });
   const accounts = accountsData?.accounts || [];
 
-  const transactions = transactionsData?.items || [];
+  const { data: tagsData } = useQuery({
+    queryKey: ["tags"],
+    queryFn: getTags,
+  });
+  const tags = tagsData?.tags || [];
+
+  const transactions = React.useMemo(
+    () => transactionsData?.pages.flatMap((page) => page.items) ?? [],
+    [transactionsData]
+  );
+  const totalMatches = transactionsData?.pages[0]?.total ?? transactions.length;
+
+  // Selection survives loading more pages; ids no longer in the list (after a
+  // filter change) simply stop counting.
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const selectedIds = transactions.filter((t) => selected.has(t._id)).map((t) => t._id);
+  const allSelected = transactions.length > 0 && selectedIds.length === transactions.length;
+  const toggleSelected = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  const toggleAll = () =>
+    setSelected(allSelected ? new Set() : new Set(transactions.map((t) => t._id)));
+
+  // Loads the next page when the end of the list scrolls into view.
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
   const categories = categoriesData?.categories || [];
 
   // Mutations
@@ -113,31 +235,52 @@ const TransactionsPage: React.FC = () => {
       queryClient.invalidateQueries({
         queryKey: ["transactions", "monthly-overview"],
       });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      queryClient.invalidateQueries({ queryKey: ["reimbursables"] });
+      queryClient.invalidateQueries({ queryKey: ["refund-candidates"] });
       setIsModalOpen(false);
       reset();
     },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to save transaction")),
   });
 
   const updateMutation = useMutation({
     mutationFn: ({ id, data }: { id: string; data: TransactionInput }) =>
       updateTransaction(id, data),
-    onSuccess: () => {
+    onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["transaction-history", id] });
       queryClient.invalidateQueries({
         queryKey: ["transactions", "current-month"],
       });
       queryClient.invalidateQueries({
         queryKey: ["transactions", "monthly-overview"],
       });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      queryClient.invalidateQueries({ queryKey: ["reimbursables"] });
+      queryClient.invalidateQueries({ queryKey: ["refund-candidates"] });
       setIsModalOpen(false);
       setEditingTransaction(null);
       reset();
     },
+    onError: (err) => showError(apiErrorMessage(err, "Failed to save transaction")),
   });
 
+  // Deleted rows go to the trash, so every delete offers an Undo.
+  const undoDelete = async (ids: string[]) => {
+    try {
+      await restoreTransactions(ids);
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      showSuccess("Transaction(s) restored");
+    } catch (err) {
+      showError(apiErrorMessage(err, "Restore failed"));
+    }
+  };
+
   const deleteMutation = useMutation({
     mutationFn: deleteTransaction,
-    onSuccess: () => {
+    onSuccess: (_, id) => {
       queryClient.invalidateQueries({ queryKey: ["transactions"] });
       queryClient.invalidateQueries({
         queryKey: ["transactions", "current-month"],
@@ -145,9 +288,46 @@ const TransactionsPage: React.FC = () => {
       queryClient.invalidateQueries({
         queryKey: ["transactions", "monthly-overview"],
       });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      showSuccess("Transaction moved to trash", {
+        label: "Undo",
+        onClick: () => undoDelete([id]),
+      });
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Delete failed")),
+  });
+
+  const bulkUpdateMutation = useMutation({
+    mutationFn: (changes: BulkChanges) => bulkUpdateTransactions(selectedIds, changes),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      setSelected(new Set());
+      showSuccess(`${result.updated} transaction(s) updated`);
+    },
+    onError: (err) => showError(apiErrorMessage(err, "Bulk update failed")),
+  });
+
+  const bulkDeleteMutation = useMutation({
+    mutationFn: (ids: string[]) => bulkDeleteTransactions(ids),
+    onSuccess: (result, ids) => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      setSelected(new Set());
+      showSuccess(`${result.deleted} transaction(s) moved to trash`, {
+        label: "Undo",
+        onClick: () => undoDelete(ids),
+      });
     },
+    onError: (err) => showError(apiErrorMessage(err, "Bulk delete failed")),
   });
 
+  const handleBulkDelete = () => {
+    if (confirm(`Move ${selectedIds.length} transaction(s) to the trash?`)) {
+      bulkDeleteMutation.mutate(selectedIds);
+    }
+  };
+
   // Form handling
   const {
     register,
@@ -155,33 +335,89 @@ const TransactionsPage: React.FC = () => {
     reset,
     setValue,
     watch,
+    control,
     formState: { errors },
   } = useForm<TransactionFormData>({
     resolver: zodResolver(transactionSchema),
     defaultValues: {
       type: "expense",
       date: new Date().toISOString().split("T")[0],
+      splits: [],
+      tags: [],
     },
   });
 
+  const {
+    fields: splitFields,
+    append: appendSplit,
+    remove: removeSplit,
+    replace: replaceSplits,
+  } = useFieldArray({ control, name: "splits" });
+
   // Drives which fields the form shows: a transfer needs a destination and has
   // no spending category.
   const selectedType = watch("type");
+  // A linked refund is filed under its expense's category, so the form hides
+  // the category picker for one.
+  const isRefundForm = selectedType === "income" && Boolean(watch("refundOf"));
+  const amountValue = watch("amount");
+  const splitValues = watch("splits");
+  const tagValues = watch("tags") || [];
+  const splitRemaining =
+    (Number(amountValue) || 0) -
+    (splitValues || []).reduce((sum, s) => sum + (Number(s.amount) || 0), 0);
+
+  // Starting a split seeds two parts: the current category holding the whole
+  // amount, and an empty one for the user to carve out of it.
+  const startSplit = () => {
+    replaceSplits([
+      { category: watch("category") || "", amount: Number(amountValue) || 0, note: "" },
+      { category: "", amount: 0, note: "" },
+    ]);
+  };
+
+  // Expenses an income row can refund, fetched only while the form offers them.
+  const { data: refundCandidates = [] } = useQuery({
+    queryKey: ["refund-candidates"],
+    queryFn: () => getRefundCandidates(),
+    enabled: isModalOpen && selectedType === "income",
+  });
 
   const onSubmit = (data: TransactionFormData) => {
     const isTransferForm = data.type === "transfer";
+    const refundOf = data.type === "income" ? data.refundOf || "" : "";
+    const splits = isTransferForm || refundOf
+      ? []
+      : (data.splits || []).map((split) => ({
+          category: split.category || undefined,
+          amount: split.amount,
+          note: split.note || undefined,
+        }));
 
     const transactionData: TransactionInput = {
       amount: data.amount,
       type: data.type,
       // The server rejects a category on a transfer, and a destination on
       // anything else, so neither is sent where it does not belong.
-      category: isTransferForm ? undefined : data.category || undefined,
+      category:
+        isTransferForm || refundOf || splits.length > 0 ? undefined : data.category || undefined,
+      // On create an unsplit row sends nothing; on edit an empty list is what
+      // tells the server to drop an existing split. A refund's split comes
+      // from its expense.
+      splits: splits.length > 0 || (editingTransaction && !refundOf) ? splits : undefined,
       transferTo: isTransferForm ? data.transferTo || undefined : undefined,
       // Omitted means "use my default account" — the server resolves it.
       account: data.account || undefined,
       date: data.date ? new Date(data.date).toISOString() : undefined,
       description: data.description || undefined,
+      // Always sent when editing, so removing the last tag sticks.
+      tags: data.tags?.length || editingTransaction ? data.tags || [] : undefined,
+      // null unlinks a refund that is no longer one.
+      refundOf: refundOf || (editingTransaction?.refundOf ? null : undefined),
+      reimbursable:
+        data.type === "expense" && (data.reimbursable || editingTransaction)
+          ? Boolean(data.reimbursable)
+          : undefined,
     };
 
     if (editingTransaction) {
@@ -195,28 +431,41 @@ const TransactionsPage: React.FC = () => {
   };
 
   const handleEdit = (transaction: Transaction) => {
+    // Trades are recorded on the Investments page; this form has no fields for one.
+    if (isTrade(transaction)) return;
     setEditingTransaction(transaction);
     setValue("amount", transaction.amount);
-    setValue("type", transaction.type);
+    setValue("type", transaction.type as TransactionFormData["type"]);
     setValue("category", transaction.category?._id || "");
+    replaceSplits(
+      (transaction.splits || []).map((split) => ({
+        category: split.category?._id || "",
+        amount: split.amount,
+        note: split.note || "",
+      }))
+    );
     setValue("account", transaction.account?._id || "");
     setValue("transferTo", transaction.transferTo?._id || "");
     setValue("date", transaction.date.split("T")[0]);
     setValue("description", transaction.description || "");
+    setValue("tags", transaction.tags || []);
+    setValue("refundOf", transaction.refundOf || "");
+    setValue("reimbursable", Boolean(transaction.reimbursable));
     setIsModalOpen(true);
   };
 
-  const handleDelete = (id: string) => {
-    if (confirm("Are you sure you want to delete this transaction?")) {
-      deleteMutation.mutate(id);
-    }
-  };
+  // No confirmation: the row goes to the trash and the toast offers Undo.
+  const handleDelete = (id: string) => deleteMutation.mutate(id);
 
   const openModal = () => {
     setEditingTransaction(null);
     reset({
       type: "expense",
       date: new Date().toISOString().split("T")[0],
+      splits: [],
+      tags: [],
+      refundOf: "",
+      reimbursable: false,
     });
     setIsModalOpen(true);
   };
@@ -232,6 +481,11 @@ const TransactionsPage: React.FC = () => {
         start: filters.startDate || undefined,
         end: filters.endDate || undefined,
         type: filters.type || undefined,
+        tags: filters.tag ? [filters.tag] : undefined,
+        category: filters.category || undefined,
+        q: search || undefined,
+        minAmount: filters.minAmount ? Number(filters.minAmount) : undefined,
+        maxAmount: filters.maxAmount ? Number(filters.maxAmount) : undefined,
       });
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
@@ -251,7 +505,16 @@ const TransactionsPage: React.FC = () => {
 
   // Disable export when there are no rows to export (after filters applied).
   // Saves the user a confusing "empty CSV" file.
-  const hasFiltersApplied = !!(filters.type || filters.startDate || filters.endDate);
+  const hasFiltersApplied = !!(
+    filters.type ||
+    filters.startDate ||
+    filters.endDate ||
+    filters.tag ||
+    filters.category ||
+    filters.minAmount ||
+    filters.maxAmount ||
+    search
+  );
   const exportDisabled = transactions.length === 0 || isExporting;
 
   return (
@@ -281,6 +544,30 @@ const TransactionsPage: React.FC = () => {
           >
             Export CSV
           </Button>
+          <Button
+            variant="secondary"
+            onClick={() => setIsTrashOpen(true)}
+            icon={<FiTrash2 className="w-4 h-4" />}
+            className="w-full sm:w-auto justify-center"
+          >
+            Trash
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => navigate("/duplicates")}
+            icon={<FiCopy className="w-4 h-4" />}
+            className="w-full sm:w-auto justify-center"
+          >
+            Duplicates
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => setIsImportOpen(true)}
+            icon={<FiUpload className="w-4 h-4" />}
+            className="w-full sm:w-auto justify-center"
+          >
+            Import
+          </Button>
           <Button
             onClick={openModal}
             icon={<FiPlus className="w-4 h-4" />}
@@ -292,7 +579,14 @@ const TransactionsPage: React.FC = () => {
       </div>
 
       {/* Filters */}
-      <Card className="p-4">
+      <Card className="p-4 space-y-4">
+        <Input
+          type="search"
+          placeholder="Search description, category, account or tag"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          icon={<FiSearch className="h-4 w-4" />}
+        />
         <div className="flex flex-col sm:flex-row items-center gap-4">
             <div className="flex-1 w-full sm:w-auto relative">
                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-slate-400">
@@ -303,7 +597,7 @@ const TransactionsPage: React.FC = () => {
                     onChange={(e) =>
                     setFilters({
                         ...filters,
-                        type: e.target.value as "" | "income" | "expense" | "transfer",
+                        type: e.target.value as "" | "income" | "expense" | "transfer" | "trade",
                     })
                     }
                     className="block w-full pl-10 pr-4 py-2 text-sm border-slate-200 rounded-xl focus:ring-primary-500 focus:border-primary-500"
@@ -312,9 +606,30 @@ const TransactionsPage: React.FC = () => {
                     <option value="income">Income</option>
                     <option value="expense">Expense</option>
                     <option value="transfer">Transfer</option>
+                    <option value="trade">Trade</option>
                 </select>
             </div>
           
+            {tags.length > 0 && (
+              <div className="flex-1 w-full sm:w-auto relative">
+                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-slate-400">
+                      <FiTag className="h-4 w-4" />
+                   </div>
+                   <select
+                      value={filters.tag}
+                      onChange={(e) => setFilters({ ...filters, tag: e.target.value })}
+                      className="block w-full pl-10 pr-4 py-2 text-sm border-slate-200 rounded-xl focus:ring-primary-500 focus:border-primary-500"
+                  >
+                      <option value="">All Tags</option>
+                      {tags.map((tag) => (
+                        <option key={tag._id} value={tag.name}>
+                          {tag.name}
+                        </option>
+                      ))}
+                  </select>
+              </div>
+            )}
+
            <div className="flex flex-1 gap-2 w-full sm:w-auto">
                 <input
                     type="date"
@@ -336,22 +651,96 @@ const TransactionsPage: React.FC = () => {
                 />
            </div>
           
+        </div>
+        <div className="flex flex-col sm:flex-row items-center gap-4">
+            <select
+                value={filters.category}
+                onChange={(e) => setFilters({ ...filters, category: e.target.value })}
+                className="block w-full sm:flex-1 px-4 py-2 text-sm border-slate-200 rounded-xl focus:ring-primary-500 focus:border-primary-500"
+            >
+                <option value="">All Categories</option>
+                {categories.map((category) => (
+                  <option key={category._id} value={category._id}>
+                    {category.name}
+                  </option>
+                ))}
+            </select>
+           <div className="flex flex-1 gap-2 w-full sm:w-auto">
+                <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={filters.minAmount}
+                    onChange={(e) => setFilters({ ...filters, minAmount: e.target.value })}
+                    className="block w-full px-4 py-2 text-sm border-slate-200 rounded-xl focus:ring-primary-500 focus:border-primary-500"
+                    placeholder="Min amount"
+                />
+                <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={filters.maxAmount}
+                    onChange={(e) => setFilters({ ...filters, maxAmount: e.target.value })}
+                    className="block w-full px-4 py-2 text-sm border-slate-200 rounded-xl focus:ring-primary-500 focus:border-primary-500"
+                    placeholder="Max amount"
+                />
+           </div>
           <Button
             variant="secondary"
-            onClick={() => setFilters({ type: "", startDate: "", endDate: "" })}
+            onClick={() => {
+              setFilters({
+                type: "",
+                startDate: "",
+                endDate: "",
+                tag: "",
+                category: "",
+                minAmount: "",
+                maxAmount: "",
+              });
+              setSearchInput("");
+            }}
             className="w-full sm:w-auto"
           >
             Clear Filters
           </Button>
         </div>
+        {hasFiltersApplied && (
+          <p className="text-xs text-slate-500">
+            {totalMatches === 1 ? "1 match" : `${totalMatches} matches`}
+            {totalMatches > transactions.length &&
+              ` — showing ${transactions.length} so far`}
+          </p>
+        )}
       </Card>
 
+      {selectedIds.length > 0 && (
+        <BulkActionBar
+          count={selectedIds.length}
+          categories={categories}
+          accounts={accounts}
+          tags={tags}
+          isWorking={bulkUpdateMutation.isPending || bulkDeleteMutation.isPending}
+          onApply={(changes) => bulkUpdateMutation.mutate(changes)}
+          onDelete={handleBulkDelete}
+          onClear={() => setSelected(new Set())}
+        />
+      )}
+
       {/* Transactions Table/List */}
         <Card className="overflow-hidden">
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-slate-100 hidden md:table">
             <thead className="bg-slate-50/50">
               <tr>
+                <th className="pl-6 py-4 w-8">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all loaded transactions"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                  />
+                </th>
                 <th className="px-6 py-4 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">
                   Date
                 </th>
@@ -376,7 +765,7 @@ const TransactionsPage: React.FC = () => {
               {transactions.length === 0 ? (
                 <tr>
                   <td
-                    colSpan={6}
+                    colSpan={7}
                     className="px-6 py-12 text-center text-slate-500"
                   >
                     <div className="flex flex-col items-center justify-center">
@@ -393,13 +782,27 @@ const TransactionsPage: React.FC = () => {
                 </tr>
               ) : (
                 transactions.map((transaction) => (
-                  <tr key={transaction._id} className="hover:bg-slate-50 transition-colors">
+                  <tr
+                    key={transaction._id}
+                    className={`transition-colors ${
+                      selected.has(transaction._id) ? "bg-primary-50/60" : "hover:bg-slate-50"
+                    }`}
+                  >
+                    <td className="pl-6 py-4">
+                      <input
+                        type="checkbox"
+                        aria-label="Select transaction"
+                        checked={selected.has(transaction._id)}
+                        onChange={() => toggleSelected(transaction._id)}
+                        className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
                       {new Date(transaction.date).toLocaleDateString()}
                     </td>
                     <td className="px-6 py-4 text-sm font-medium text-slate-900">
                       <span className="inline-flex items-center gap-1.5">
-                        {transaction.description || "No description"}
+                        <Highlight text={transaction.description || "No description"} query={search} />
                         {transaction.source === "recurring" && (
                           <span
                             title="Created automatically by a recurring rule"
@@ -408,24 +811,103 @@ const TransactionsPage: React.FC = () => {
                             <FiRepeat className="w-3 h-3" />
                           </span>
                         )}
+                        {transaction.source === "import" && (
+                          <span
+                            title="Imported from a bank statement"
+                            className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-600"
+                          >
+                            <FiUpload className="w-3 h-3" />
+                          </span>
+                        )}
+                        {transaction.status === "cleared" && (
+                          <span
+                            title="Cleared by the bank"
+                            className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-emerald-50 text-emerald-700"
+                          >
+                            <FiCheck className="w-3 h-3" />
+                          </span>
+                        )}
+                        {(transaction.status === "reconciled" || transaction.transferStatus === "reconciled") && (
+                          <span
+                            title="Reconciled: amount, date, type and accounts are locked"
+                            className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-emerald-50 text-emerald-700"
+                          >
+                            <FiLock className="w-3 h-3" />
+                          </span>
+                        )}
+                        {isRefund(transaction) && (
+                          <span
+                            title="Refund: comes off the spending of the expense it refunds"
+                            className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-amber-50 text-amber-700"
+                          >
+                            <FiCornerUpLeft className="w-3 h-3" />
+                          </span>
+                        )}
+                        {transaction.reimbursable && (
+                          <span
+                            title="Reimbursable: someone owes this back"
+                            className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-amber-50 text-amber-700"
+                          >
+                            <FiBriefcase className="w-3 h-3" />
+                          </span>
+                        )}
                       </span>
+                      {transaction.tags && transaction.tags.length > 0 && (
+                        <span className="flex flex-wrap gap-1 mt-1">
+                          {transaction.tags.map((tag) => (
+                            <span
+                              key={tag}
+                              className="px-1.5 py-0.5 rounded text-xs font-normal bg-primary-50 text-primary-700"
+                            >
+                              #{tag}
+                            </span>
+                          ))}
+                        </span>
+                      )}
+                      {transaction.attachments && transaction.attachments.length > 0 && (
+                        <span className="flex gap-1 mt-1">
+                          {transaction.attachments.slice(0, 3).map((attachment) => (
+                            <AttachmentThumb key={attachment._id} attachment={attachment} />
+                          ))}
+                          {transaction.attachments.length > 3 && (
+                            <span className="self-center text-xs text-slate-400">
+                              +{transaction.attachments.length - 3}
+                            </span>
+                          )}
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
-                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-800">
-                             {transaction.category?.name || "Uncategorized"}
+                        <span
+                          className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-800"
+                          title={
+                            isSplit(transaction)
+                              ? transaction.splits
+                                  ?.map((s) => `${s.category?.name || "Uncategorized"}: ${formatCurrency(s.amount, transaction.currency)}`)
+                                  .join("\n")
+                              : undefined
+                          }
+                        >
+                             {isSplit(transaction) && <FiScissors className="w-3 h-3" />}
+                             <Highlight text={categoryLabel(transaction)} query={search} />
                         </span>
                         {transaction.account && (
                           <span className="block mt-1 text-xs text-slate-400">
-                            {transaction.account.name}
+                            <Highlight text={transaction.account.name} query={search} />
                           </span>
                         )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                       {isIncome(transaction) && (
+                       {isIncome(transaction) && !isRefund(transaction) && (
                            <span className="inline-flex items-center gap-1 text-emerald-600 text-sm font-medium">
                                <FiArrowUp className="w-3 h-3" /> Income
                            </span>
                        )}
+                       {isRefund(transaction) && (
+                           <span className="inline-flex items-center gap-1 text-emerald-600 text-sm font-medium">
+                               <FiCornerUpLeft className="w-3 h-3" /> Refund
+                           </span>
+                       )}
                        {isExpense(transaction) && (
                            <span className="inline-flex items-center gap-1 text-red-600 text-sm font-medium">
                                <FiArrowDown className="w-3 h-3" /> Expense
@@ -436,21 +918,25 @@ const TransactionsPage: React.FC = () => {
                                <FiRepeat className="w-3 h-3" /> Transfer
                            </span>
                        )}
+                       {isTrade(transaction) && (
+                           <span className="inline-flex items-center gap-1 text-violet-600 text-sm font-medium">
+                               <FiBarChart2 className="w-3 h-3" /> Trade
+                           </span>
+                       )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold">
-                      <span className={amountColor(transaction)}>
-                        {amountPrefix(transaction)}
-                        {formatCurrency(transaction.amount)}
-                      </span>
+                      <TransactionAmount transaction={transaction} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <div className="flex justify-end space-x-2">
-                        <button
-                          onClick={() => handleEdit(transaction)}
-                          className="p-1 hover:bg-slate-100 rounded text-slate-400 hover:text-blue-600 transition-colors"
-                        >
-                          <FiEdit className="h-4 w-4" />
-                        </button>
+                        {!isTrade(transaction) && (
+                          <button
+                            onClick={() => handleEdit(transaction)}
+                            className="p-1 hover:bg-slate-100 rounded text-slate-400 hover:text-blue-600 transition-colors"
+                          >
+                            <FiEdit className="h-4 w-4" />
+                          </button>
+                        )}
                         <button
                           onClick={() => handleDelete(transaction._id)}
                           className="p-1 hover:bg-red-50 rounded text-slate-400 hover:text-red-600 transition-colors"
@@ -487,33 +973,42 @@ const TransactionsPage: React.FC = () => {
                 >
                   <div className="flex items-start justify-between mb-2">
                     <div className="flex items-center gap-3">
+                         <input
+                           type="checkbox"
+                           aria-label="Select transaction"
+                           checked={selected.has(transaction._id)}
+                           onChange={() => toggleSelected(transaction._id)}
+                           className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                         />
                          <div className={`p-2 rounded-lg ${typeChipColor(transaction)}`}>
                              {isIncome(transaction) && <FiArrowUp className="w-4 h-4" />}
                              {isExpense(transaction) && <FiArrowDown className="w-4 h-4" />}
                              {isTransfer(transaction) && <FiRepeat className="w-4 h-4" />}
+                             {isTrade(transaction) && <FiBarChart2 className="w-4 h-4" />}
                          </div>
                          <div>
-                            <p className="font-semibold text-slate-900">{transaction.description || "No description"}</p>
+                            <p className="font-semibold text-slate-900">
+                              <Highlight text={transaction.description || "No description"} query={search} />
+                            </p>
                             <p className="text-xs text-slate-500">{new Date(transaction.date).toLocaleDateString()}</p>
                          </div>
                     </div>
-                    <span className={`font-semibold ${amountColor(transaction)}`}>
-                      {amountPrefix(transaction)}
-                      {formatCurrency(transaction.amount)}
-                    </span>
+                    <TransactionAmount transaction={transaction} className="items-end font-semibold" />
                   </div>
                   
                   <div className="flex items-center justify-between mt-3 text-sm">
                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-600">
-                        {transaction.category?.name || "Uncategorized"}
+                        <Highlight text={categoryLabel(transaction)} query={search} />
                      </span>
                      <div className="flex space-x-3">
-                        <button
-                            onClick={() => handleEdit(transaction)}
-                            className="text-blue-600 hover:text-blue-700 font-medium text-xs"
-                        >
-                            Edit
-                        </button>
+                        {!isTrade(transaction) && (
+                          <button
+                              onClick={() => handleEdit(transaction)}
+                              className="text-blue-600 hover:text-blue-700 font-medium text-xs"
+                          >
+                              Edit
+                          </button>
+                        )}
                         <button
                             onClick={() => handleDelete(transaction._id)}
                             className="text-red-600 hover:text-red-700 font-medium text-xs"
@@ -527,8 +1022,34 @@ const TransactionsPage: React.FC = () => {
             )}
           </div>
         </div>
+        {hasNextPage && (
+          <div
+            ref={loadMoreRef}
+            className="flex justify-center py-4 border-t border-slate-100"
+          >
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => fetchNextPage()}
+              isLoading={isFetchingNextPage}
+            >
+              Load more
+            </Button>
+          </div>
+        )}
       </Card>
 
+      <ImportWizard
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+      />
+
+      <TrashModal
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+        categories={categories}
+      />
+
       {/* Add/Edit Transaction Modal */}
       <Modal
         isOpen={isModalOpen}
@@ -607,9 +1128,61 @@ const TransactionsPage: React.FC = () => {
              )}
           </div>
 
-          {selectedType !== "transfer" && (
+          {selectedType === "income" && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1.5">Refund of</label>
+              <select
+                  {...register("refundOf")}
+                  className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-3"
+              >
+                <option value="">Not a refund</option>
+                {editingTransaction?.refundOf &&
+                  !refundCandidates.some((c) => c._id === editingTransaction.refundOf) && (
+                    <option value={editingTransaction.refundOf}>The expense it is linked to now</option>
+                  )}
+                {refundCandidates.map((candidate) => (
+                  <option key={candidate._id} value={candidate._id}>
+                    {new Date(candidate.date).toLocaleDateString()} · {candidate.description || "No description"} ·{" "}
+                    {formatCurrency(candidate.outstanding, candidate.currency)} {candidate.reimbursable ? "owed" : "left"}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-2 text-xs text-slate-500">
+                Money back for a return or a reimbursed expense. It comes off
+                that expense's category instead of counting as income.
+              </p>
+            </div>
+          )}
+
+          {selectedType === "expense" && (
+            <label className="flex items-start gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                {...register("reimbursable")}
+                className="mt-0.5 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>
+                Reimbursable
+                <span className="block text-xs text-slate-500">
+                  Someone owes you this back. It stays on the Reimbursables list
+                  until a repayment is linked to it.
+                </span>
+              </span>
+            </label>
+          )}
+
+          {selectedType !== "transfer" && !isRefundForm && splitFields.length === 0 && (
             <div>
-              <label className="block text-sm font-medium text-slate-700 mb-1.5">Category</label>
+              <div className="flex items-center justify-between mb-1.5">
+                <label className="block text-sm font-medium text-slate-700">Category</label>
+                <button
+                  type="button"
+                  onClick={startSplit}
+                  className="inline-flex items-center gap-1 text-xs font-medium text-primary-600 hover:text-primary-700"
+                >
+                  <FiScissors className="w-3 h-3" /> Split
+                </button>
+              </div>
               <select
                   {...register("category")}
                   className="block w-full rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-3"
@@ -624,6 +1197,78 @@ const TransactionsPage: React.FC = () => {
             </div>
           )}
 
+          {selectedType !== "transfer" && !isRefundForm && splitFields.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-1.5">
+                <label className="block text-sm font-medium text-slate-700">Split across categories</label>
+                <button
+                  type="button"
+                  onClick={() => replaceSplits([])}
+                  className="text-xs font-medium text-slate-500 hover:text-slate-700"
+                >
+                  Don't split
+                </button>
+              </div>
+              <div className="space-y-2">
+                {splitFields.map((field, index) => (
+                  <div key={field.id} className="flex items-center gap-2">
+                    <select
+                        {...register(`splits.${index}.category` as const)}
+                        className="block flex-1 min-w-0 rounded-xl border-slate-200 bg-white shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2"
+                    >
+                      <option value="">Uncategorized</option>
+                      {categories.map((category) => (
+                        <option key={category._id} value={category._id}>
+                          {category.name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step="0.01"
+                      placeholder="0.00"
+                      {...register(`splits.${index}.amount` as const, { valueAsNumber: true })}
+                      className="block w-24 rounded-xl border-slate-200 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2"
+                    />
+                    <input
+                      placeholder="Note"
+                      {...register(`splits.${index}.note` as const)}
+                      className="block w-28 rounded-xl border-slate-200 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm p-2"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeSplit(index)}
+                      disabled={splitFields.length <= 2}
+                      className="p-1 rounded text-slate-400 hover:text-red-600 disabled:opacity-30"
+                      title="Remove part"
+                    >
+                      <FiX className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between mt-2 text-xs">
+                <button
+                  type="button"
+                  onClick={() => appendSplit({ category: "", amount: 0, note: "" })}
+                  className="font-medium text-primary-600 hover:text-primary-700"
+                >
+                  + Add part
+                </button>
+                <span className={Math.abs(splitRemaining) < 0.005 ? "text-slate-500" : "text-red-600"}>
+                  {Math.abs(splitRemaining) < 0.005
+                    ? "Parts add up"
+                    : `${formatCurrency(splitRemaining)} left to assign`}
+                </span>
+              </div>
+              {errors.splits && (
+                <p className="text-red-500 text-sm mt-1">
+                  {errors.splits.message || errors.splits.root?.message || "Check the amounts of each part"}
+                </p>
+              )}
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-1.5">
               {selectedType === "transfer" ? "From account" : "Account"}
@@ -673,6 +1318,24 @@ const TransactionsPage: React.FC = () => {
             {...register("description")}
           />
 
+          <TagInput
+            label="Tags"
+            value={tagValues}
+            onChange={(next) => setValue("tags", next)}
+            suggestions={tags}
+          />
+
+          {/* Files hang off a saved transaction, so new ones get them after saving. */}
+          {editingTransaction && <AttachmentPanel transactionId={editingTransaction._id} />}
+
+          {editingTransaction && (
+            <HistoryDrawer
+              transactionId={editingTransaction._id}
+              categories={categories}
+              accounts={accounts}
+            />
+          )}
+
           <div className="flex justify-end space-x-3 pt-4 border-t border-slate-100">
             <Button
               variant="secondary"
@@ -1,6 +1,13 @@
 // Account API service functions
 import { api } from "../lib/api";
-import type { Account, AccountInput } from "../types";
+import type {
+  Account,
+  AccountInput,
+  AccountStatement,
+  LoanSummary,
+  ReconciliationView,
+  Transaction,
+} from "../types";
 
 export const getAccounts = async (
   includeArchived = false
@@ -41,3 +48,102 @@ export const setDefaultAccount = async (
   const response = await api.post(`/accounts/${id}/default`);
   return { account: response.data.data };
 };
+
+/**
+ * Move everything on an account to another in the same currency, and delete
+ * it. Transfers between the two are dropped.
+ */
+export const mergeAccount = async (
+  id: string,
+  into: string
+): Promise<{ account: Account; moved: number; recurring: number; removedTransfers: number }> => {
+  const response = await api.post(`/accounts/${id}/merge`, { into });
+  return response.data.data;
+};
+
+/** Transfer what is left to `to`, then archive the account. */
+export const closeAccount = async (
+  id: string,
+  data: { to?: string; date?: string }
+): Promise<{ account: Account; transaction: Transaction | null }> => {
+  const response = await api.post(`/accounts/${id}/close`, data);
+  return response.data.data;
+};
+
+export const getReconciliation = async (
+  accountId: string
+): Promise<ReconciliationView> => {
+  const response = await api.get(`/accounts/${accountId}/reconciliation`);
+  return response.data.data;
+};
+
+/** Opens a session, or changes the statement of the open one. */
+export const startReconciliation = async (
+  accountId: string,
+  data: { statementDate: string; statementBalance: number }
+): Promise<ReconciliationView> => {
+  const response = await api.post(`/accounts/${accountId}/reconciliation`, data);
+  return response.data.data;
+};
+
+export const markCleared = async (
+  accountId: string,
+  ids: string[],
+  cleared: boolean
+): Promise<ReconciliationView> => {
+  const response = await api.put(`/accounts/${accountId}/reconciliation/cleared`, {
+    ids,
+    cleared,
+  });
+  return response.data.data;
+};
+
+export const finishReconciliation = async (
+  accountId: string
+): Promise<{ reconciled: number; account: Account }> => {
+  const response = await api.post(`/accounts/${accountId}/reconciliation/finish`);
+  return response.data.data;
+};
+
+export const cancelReconciliation = async (accountId: string): Promise<void> => {
+  await api.delete(`/accounts/${accountId}/reconciliation`);
+};
+
+/** A loan's summary with every payment left. */
+export const getAmortization = async (accountId: string): Promise<LoanSummary> => {
+  const response = await api.get(`/accounts/${accountId}/amortization`);
+  return response.data.data;
+};
+
+/**
+ * Pay a loan from another account: the interest becomes an expense there and
+ * the rest a transfer into the loan. Amount defaults to the monthly payment.
+ */
+export const recordLoanPayment = async (
+  accountId: string,
+  data: { from: string; date?: string; amount?: number }
+): Promise<{ interest: number; principal: number }> => {
+  const response = await api.post(`/accounts/${accountId}/loan-payments`, data);
+  return response.data.data;
+};
+
+/** Opening balance, every row with the balance after it, and the closing balance. */
+export const getStatement = async (
+  accountId: string,
+  period: { start: string; end: string }
+): Promise<AccountStatement> => {
+  const response = await api.get(`/accounts/${accountId}/statement`, { params: period });
+  return response.data.data;
+};
+
+/** The same statement as a CSV file. */
+export const downloadStatementCsv = async (
+  accountId: string,
+  period: { start: string; end: string }
+): Promise<Blob> => {
+  const response = await api.get(`/accounts/${accountId}/statement`, {
+    params: { ...period, format: "csv" },
+    responseType: "blob",
+  });
+  return response.data;
+};
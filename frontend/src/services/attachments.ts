@@ -0,0 +1,76 @@
+// Transaction attachment API service functions
+import { api } from "../lib/api";
+import type { Attachment } from "../types";
+
+/** Mirrors the server's limit, so an oversize file fails before uploading. */
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const ATTACHMENT_ACCEPT = "image/jpeg,image/png,image/webp,application/pdf";
+
+// 5 MB of base64 on a slow connection outlasts the default 10s timeout.
+const UPLOAD_TIMEOUT_MS = 60000;
+const THUMBNAIL_SIZE = 200;
+
+const readAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * A small JPEG preview of an image file, or undefined when the browser cannot
+ * decode it. The server keeps it inline for the transaction list.
+ */
+const makeThumbnail = async (file: File): Promise<string | undefined> => {
+  if (!file.type.startsWith("image/")) return undefined;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL("image/jpeg", 0.7);
+  } catch {
+    return undefined;
+  }
+};
+
+export const getAttachments = async (
+  transactionId: string
+): Promise<{ attachments: Attachment[] }> => {
+  const response = await api.get(`/attachments?transaction=${transactionId}`);
+  return { attachments: response.data.data || [] };
+};
+
+export const uploadAttachment = async (
+  transactionId: string,
+  file: File
+): Promise<{ attachment: Attachment }> => {
+  const [data, thumbnail] = await Promise.all([readAsDataUrl(file), makeThumbnail(file)]);
+  const response = await api.post(
+    "/attachments",
+    { transaction: transactionId, filename: file.name, data, thumbnail },
+    { timeout: UPLOAD_TIMEOUT_MS }
+  );
+  return { attachment: response.data.data };
+};
+
+export const downloadAttachment = async (id: string): Promise<Blob> => {
+  const response = await api.get(`/attachments/${id}/download`, {
+    responseType: "blob",
+    timeout: UPLOAD_TIMEOUT_MS,
+  });
+  return response.data;
+};
+
+export const getAttachmentThumbnail = async (id: string): Promise<Blob> => {
+  const response = await api.get(`/attachments/${id}/thumbnail`, { responseType: "blob" });
+  return response.data;
+};
+
+export const deleteAttachment = async (id: string): Promise<void> => {
+  await api.delete(`/attachments/${id}`);
+};
@@ -1,6 +1,6 @@
 // Category API service functions
 import { api } from "../lib/api";
-import type { Category, CategoryInput } from "../types";
+import type { Category, CategoryInput, CategoryTemplate, CategoryUsage } from "../types";
 
 export const getCategories = async (): Promise<{ categories: Category[] }> => {
   const response = await api.get("/categories");
@@ -16,12 +16,48 @@ export const createCategory = async (
 
 export const updateCategory = async (
   id: string,
-  data: CategoryInput
+  data: Partial<CategoryInput>
 ): Promise<{ cat: Category }> => {
   const response = await api.put(`/categories/${id}`, data);
   return { cat: response.data.data };
 };
 
-export const deleteCategory = async (id: string): Promise<void> => {
-  await api.delete(`/categories/${id}`);
+export const getCategoryUsage = async (id: string): Promise<CategoryUsage> => {
+  const response = await api.get(`/categories/${id}/usage`);
+  return response.data.data;
+};
+
+/**
+ * Delete a category. If anything still uses it, say where that goes: another
+ * category, or uncategorized.
+ */
+export const deleteCategory = async (
+  id: string,
+  options: { reassignTo?: string; uncategorize?: boolean } = {}
+): Promise<CategoryUsage> => {
+  const response = await api.delete(`/categories/${id}`, { params: options });
+  return response.data.data;
+};
+
+/** Move everything in a category to `into`, then delete it. */
+export const mergeCategory = async (
+  id: string,
+  into: string
+): Promise<CategoryUsage & { into: Category }> => {
+  const response = await api.post(`/categories/${id}/merge`, { into });
+  return response.data.data;
+};
+
+/** The starter sets, named for `country`. Also used before signing in. */
+export const getCategoryTemplates = async (country?: string): Promise<CategoryTemplate[]> => {
+  const response = await api.get("/categories/templates", { params: { country } });
+  return response.data.data || [];
+};
+
+/** Add a starter set's categories, skipping names that already exist. */
+export const applyCategoryTemplate = async (
+  template: string
+): Promise<{ created: number; existing: number }> => {
+  const response = await api.post("/categories/templates/apply", { template });
+  return response.data.data;
 };
@@ -0,0 +1,32 @@
+// Duplicate review API service functions
+import { api } from "../lib/api";
+import type { DuplicateCandidate } from "../types";
+
+export const getDuplicates = async (): Promise<DuplicateCandidate[]> => {
+  const response = await api.get("/duplicates");
+  return response.data.data || [];
+};
+
+/** Look for new duplicates now instead of waiting for the background scan. */
+export const scanDuplicates = async (): Promise<{ found: number; pending: number }> => {
+  const response = await api.post("/duplicates/scan");
+  return response.data.data;
+};
+
+/** Keep one transaction of the pair; the other goes to the trash. */
+export const mergeDuplicate = async (
+  id: string,
+  keep: string
+): Promise<{ kept: string; removed: string }> => {
+  const response = await api.post(`/duplicates/${id}/merge`, { keep });
+  return response.data.data;
+};
+
+export const keepDuplicate = async (id: string): Promise<void> => {
+  await api.post(`/duplicates/${id}/keep`);
+};
+
+/** Never flag this pair, or any pair like it, again. */
+export const ignoreDuplicate = async (id: string): Promise<void> => {
+  await api.post(`/duplicates/${id}/ignore`);
+};
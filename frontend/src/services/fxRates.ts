@@ -0,0 +1,36 @@
+// Exchange rate API service functions
+import { api } from "../lib/api";
+import type { FxCurrency, FxRate, FxRateImportResult } from "../types";
+
+/** Currencies the rate table can convert, besides the pivot (always USD). */
+export const getFxCurrencies = async (): Promise<{ currencies: FxCurrency[]; pivot: string }> => {
+  const response = await api.get("/fx-rates/currencies");
+  return {
+    currencies: response.data.data || [],
+    pivot: response.data.meta?.pivot || "USD",
+  };
+};
+
+/** Rate history, newest first. */
+export const getFxRates = async (currency?: string): Promise<FxRate[]> => {
+  const response = await api.get("/fx-rates", { params: currency ? { currency } : undefined });
+  return response.data.data || [];
+};
+
+/** Admin only. Replaces the rate already on record for that day. */
+export const saveFxRate = async (input: { currency: string; date: string; rate: number }) => {
+  const response = await api.post("/fx-rates", input);
+  return response.data.data;
+};
+
+/** Admin only. */
+export const deleteFxRate = async (id: string) => {
+  const response = await api.delete(`/fx-rates/${id}`);
+  return response.data.data;
+};
+
+/** Admin only. A CSV with date, currency and rate columns. */
+export const importFxRates = async (content: string): Promise<FxRateImportResult> => {
+  const response = await api.post("/fx-rates/import", { content });
+  return response.data.data;
+};
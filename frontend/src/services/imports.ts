@@ -0,0 +1,46 @@
+// Bank statement import API service functions
+import { api } from "../lib/api";
+import type {
+  ImportBatch,
+  ImportCommitInput,
+  ImportFormat,
+  ImportMapping,
+  ImportPreview,
+} from "../types";
+
+// A long statement posts one transaction (and one budget check) per row,
+// which can run well past the default 10s request timeout.
+const IMPORT_TIMEOUT_MS = 120000;
+
+export const previewImport = async (data: {
+  format: ImportFormat;
+  content: string;
+  mapping?: ImportMapping;
+}): Promise<{ preview: ImportPreview }> => {
+  const response = await api.post("/imports/preview", data);
+  return { preview: response.data.data };
+};
+
+export const commitImport = async (
+  data: ImportCommitInput
+): Promise<{
+  batch: ImportBatch;
+  imported: number;
+  failed: { line: number; message: string }[];
+}> => {
+  const response = await api.post("/imports", data, {
+    timeout: IMPORT_TIMEOUT_MS,
+  });
+  return response.data.data;
+};
+
+export const getImports = async (): Promise<{ batches: ImportBatch[] }> => {
+  const response = await api.get("/imports");
+  return { batches: response.data.data || [] };
+};
+
+/** Remove every transaction an import created. */
+export const undoImport = async (id: string): Promise<{ deleted: number }> => {
+  const response = await api.delete(`/imports/${id}`);
+  return response.data.data;
+};
@@ -0,0 +1,37 @@
+// Investment API service functions
+import { api } from "../lib/api";
+import type { Portfolio, PriceImportResult, SecurityPrice, TradeInput, Transaction } from "../types";
+
+/** Every investment account's holdings, and totals in the base currency. */
+export const getPortfolio = async (): Promise<Portfolio> => {
+  const response = await api.get("/investments/portfolio");
+  return response.data.data;
+};
+
+export const recordTrade = async (accountId: string, input: TradeInput): Promise<Transaction> => {
+  const response = await api.post(`/investments/accounts/${accountId}/trades`, input);
+  return response.data.data;
+};
+
+/** Price history, newest first. */
+export const getPrices = async (symbol?: string): Promise<SecurityPrice[]> => {
+  const response = await api.get("/investments/prices", { params: symbol ? { symbol } : undefined });
+  return response.data.data || [];
+};
+
+/** Replaces the price already on record for that day. */
+export const savePrice = async (input: { symbol: string; date: string; price: number }) => {
+  const response = await api.post("/investments/prices", input);
+  return response.data.data;
+};
+
+export const deletePrice = async (id: string) => {
+  const response = await api.delete(`/investments/prices/${id}`);
+  return response.data.data;
+};
+
+/** A CSV with date, symbol and price columns. */
+export const importPrices = async (content: string): Promise<PriceImportResult> => {
+  const response = await api.post("/investments/prices/import", { content });
+  return response.data.data;
+};
@@ -0,0 +1,13 @@
+// Net worth API service functions
+import { api } from "../lib/api";
+import type { NetWorthHistory } from "../types";
+
+/** Daily snapshots from `start` (default a year before `end`) to `end` (default today). */
+export const getNetWorth = async (params?: {
+  start?: string;
+  end?: string;
+  interval?: "day" | "month";
+}): Promise<NetWorthHistory> => {
+  const response = await api.get("/net-worth", { params });
+  return response.data.data;
+};
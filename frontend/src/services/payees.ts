@@ -0,0 +1,41 @@
+// Payee API service functions
+import { api } from "../lib/api";
+import type { Payee, PayeeInput } from "../types";
+
+export const getPayees = async (): Promise<{ payees: Payee[]; unlinked: number }> => {
+  const response = await api.get("/payees");
+  return {
+    payees: response.data.data || [],
+    unlinked: response.data.meta?.unlinked ?? 0,
+  };
+};
+
+/** Creating or editing a payee re-links whatever its patterns now match. */
+export const createPayee = async (data: PayeeInput): Promise<{ linked: number }> => {
+  const response = await api.post("/payees", data);
+  return response.data.data;
+};
+
+export const updatePayee = async (
+  id: string,
+  data: Partial<PayeeInput>
+): Promise<{ linked: number }> => {
+  const response = await api.put(`/payees/${id}`, data);
+  return response.data.data;
+};
+
+/** Fold a payee into another; its name becomes one of the target's aliases. */
+export const mergePayee = async (id: string, into: string): Promise<{ moved: number }> => {
+  const response = await api.post(`/payees/${id}/merge`, { into });
+  return response.data.data;
+};
+
+export const deletePayee = async (id: string): Promise<void> => {
+  await api.delete(`/payees/${id}`);
+};
+
+/** Link transactions that have no payee yet, such as ones from before payees. */
+export const linkPayees = async (): Promise<{ linked: number }> => {
+  const response = await api.post("/payees/link");
+  return response.data.data;
+};
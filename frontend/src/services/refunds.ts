@@ -0,0 +1,21 @@
+// Refund and reimbursement API service functions
+import { api } from "../lib/api";
+import type { RefundableExpense } from "../types";
+
+/** Reimbursable expenses not yet repaid in full, oldest first. */
+export const getReimbursables = async (): Promise<{
+  items: RefundableExpense[];
+  outstanding: number;
+}> => {
+  const response = await api.get("/refunds/reimbursables");
+  return {
+    items: response.data.data || [],
+    outstanding: response.data.meta?.outstanding ?? 0,
+  };
+};
+
+/** Expenses an income transaction could refund, reimbursable ones first. */
+export const getRefundCandidates = async (q?: string): Promise<RefundableExpense[]> => {
+  const response = await api.get("/refunds/candidates", { params: q ? { q } : undefined });
+  return response.data.data || [];
+};
@@ -0,0 +1,53 @@
+// Categorization rule API service functions
+import { api } from "../lib/api";
+import type { CategorizationRule, RuleInput, RulePreview } from "../types";
+
+export const getRules = async (): Promise<{ rules: CategorizationRule[] }> => {
+  const response = await api.get("/rules");
+  return { rules: response.data.data || [] };
+};
+
+export const createRule = async (
+  data: RuleInput
+): Promise<{ rule: CategorizationRule }> => {
+  const response = await api.post("/rules", data);
+  return { rule: response.data.data };
+};
+
+export const updateRule = async (
+  id: string,
+  data: Partial<RuleInput>
+): Promise<{ rule: CategorizationRule }> => {
+  const response = await api.put(`/rules/${id}`, data);
+  return { rule: response.data.data };
+};
+
+export const deleteRule = async (id: string): Promise<void> => {
+  await api.delete(`/rules/${id}`);
+};
+
+/** Save the evaluation order; `ids` lists every rule, first to run first. */
+export const reorderRules = async (
+  ids: string[]
+): Promise<{ rules: CategorizationRule[] }> => {
+  const response = await api.put("/rules/reorder", { ids });
+  return { rules: response.data.data || [] };
+};
+
+/** What a rule (saved or not) would change in existing transactions. */
+export const previewRule = async (
+  data: Partial<RuleInput> & Pick<RuleInput, "conditions" | "actions">,
+  overwrite = false
+): Promise<RulePreview> => {
+  const response = await api.post("/rules/preview", { ...data, overwrite });
+  return response.data.data;
+};
+
+/** Apply a saved rule to existing transactions. */
+export const applyRule = async (
+  id: string,
+  overwrite = false
+): Promise<{ matched: number; updated: number }> => {
+  const response = await api.post(`/rules/${id}/apply`, { overwrite });
+  return response.data.data;
+};
@@ -0,0 +1,8 @@
+// Tag API service functions
+import { api } from "../lib/api";
+import type { Tag } from "../types";
+
+export const getTags = async (): Promise<{ tags: Tag[] }> => {
+  const response = await api.get("/tags");
+  return { tags: response.data.data || [] };
+};
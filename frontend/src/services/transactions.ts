@@ -1,35 +1,77 @@
 // Transaction API service functions
 import { api } from "../lib/api";
-import type { Transaction, TransactionInput } from "../types";
+import type { Transaction, TransactionHistoryEntry, TransactionInput } from "../types";
 
 export interface TransactionFilters {
   start?: string;
   end?: string;
-  type?: "income" | "expense" | "transfer";
+  type?: "income" | "expense" | "transfer" | "trade";
   account?: string;
+  /** Matches a split row when any of its parts is in this category. */
+  category?: string;
+  /** Free text: description words or substrings, category, account or tag names. */
+  q?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  /** Every listed tag must be present. */
+  tags?: string[];
   limit?: number;
+  /** The previous page's nextCursor; omit for the first page. */
+  cursor?: string;
 }
 
-/**
- * The API defaults to 50 results and caps at 100. Anything that computes a
- * total from the returned rows must ask for the maximum, or it silently
- * reports a figure derived from a partial month — the bug that made dashboard
- * totals wrong for anyone with more than 50 transactions in a month.
- */
-export const MAX_TRANSACTION_PAGE = 100;
+export interface TransactionPage {
+  items: Transaction[];
+  total: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
 
 export const getTransactions = async (
   filters?: TransactionFilters
-): Promise<{ items: Transaction[] }> => {
+): Promise<TransactionPage> => {
   const params = new URLSearchParams();
   if (filters?.start) params.append("start", filters.start);
   if (filters?.end) params.append("end", filters.end);
   if (filters?.type) params.append("type", filters.type);
   if (filters?.account) params.append("account", filters.account);
+  if (filters?.category) params.append("category", filters.category);
+  if (filters?.q) params.append("q", filters.q);
+  if (filters?.minAmount !== undefined) params.append("minAmount", String(filters.minAmount));
+  if (filters?.maxAmount !== undefined) params.append("maxAmount", String(filters.maxAmount));
+  if (filters?.tags?.length) params.append("tags", filters.tags.join(","));
   if (filters?.limit) params.append("limit", String(filters.limit));
+  if (filters?.cursor) params.append("cursor", filters.cursor);
 
   const response = await api.get(`/transactions?${params.toString()}`);
-  return { items: response.data.data || [] };
+  const items: Transaction[] = response.data.data || [];
+  const meta = response.data.meta ?? {};
+  // Every filter above narrows the total too; it counts all matches, not
+  // just the ones on this page.
+  return {
+    items,
+    total: meta.total ?? items.length,
+    hasMore: Boolean(meta.hasMore),
+    nextCursor: meta.nextCursor ?? null,
+  };
+};
+
+/**
+ * Every matching transaction, following cursors until the last page. Anything
+ * that computes a total from the rows needs this rather than one page, or it
+ * silently reports a figure derived from a partial month.
+ */
+export const getAllTransactions = async (
+  filters?: Omit<TransactionFilters, "cursor" | "limit">
+): Promise<{ items: Transaction[] }> => {
+  const items: Transaction[] = [];
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await getTransactions({ ...filters, limit: 100, cursor });
+    items.push(...page.items);
+    if (!page.hasMore || !page.nextCursor) return { items };
+    cursor = page.nextCursor;
+  }
 };
 
 export const getTransaction = async (
@@ -48,7 +90,7 @@ export const createTransaction = async (
 
 export const updateTransaction = async (
   id: string,
-  data: TransactionInput
+  data: Partial<TransactionInput>
 ): Promise<{ trx: Transaction }> => {
   const response = await api.put(`/transactions/${id}`, data);
   return { trx: response.data.data };
@@ -58,6 +100,42 @@ export const deleteTransaction = async (id: string): Promise<void> => {
   await api.delete(`/transactions/${id}`);
 };
 
+/** Every recorded change to a transaction, newest first. */
+export const getTransactionHistory = async (
+  id: string
+): Promise<{ entries: TransactionHistoryEntry[] }> => {
+  const response = await api.get(`/transactions/${id}/history`);
+  return { entries: response.data.data || [] };
+};
+
+export interface BulkChanges {
+  category?: string;
+  account?: string;
+  date?: string;
+  addTags?: string[];
+  removeTags?: string[];
+}
+
+/** Apply the same changes to every listed transaction, all or nothing. */
+export const bulkUpdateTransactions = async (
+  ids: string[],
+  changes: BulkChanges
+): Promise<{ updated: number }> => {
+  const response = await api.post("/transactions/bulk", {
+    ids,
+    action: "update",
+    changes,
+  });
+  return response.data.data;
+};
+
+export const bulkDeleteTransactions = async (
+  ids: string[]
+): Promise<{ deleted: number }> => {
+  const response = await api.post("/transactions/bulk", { ids, action: "delete" });
+  return response.data.data;
+};
+
 export const exportTransactions = async (
   format: "csv" | "json",
   filters?: TransactionFilters
@@ -67,6 +145,7 @@ export const exportTransactions = async (
   if (filters?.start) params.append("start", filters.start);
   if (filters?.end) params.append("end", filters.end);
   if (filters?.type) params.append("type", filters.type);
+  if (filters?.tags?.length) params.append("tags", filters.tags.join(","));
   const response = await api.get(`/export/transactions?${params.toString()}`, {
     responseType: "blob",
   });
@@ -0,0 +1,27 @@
+// Trash API service functions
+import { api } from "../lib/api";
+import type { TrashedTransaction } from "../types";
+
+export const getTrash = async (): Promise<{
+  items: TrashedTransaction[];
+  retentionDays: number;
+}> => {
+  const response = await api.get("/trash");
+  return {
+    items: response.data.data || [],
+    retentionDays: response.data.meta?.retentionDays ?? 30,
+  };
+};
+
+export const restoreTransactions = async (
+  ids: string[]
+): Promise<{ restored: number }> => {
+  const response = await api.post("/trash/restore", { ids });
+  return response.data.data;
+};
+
+/** Permanently delete the listed ids, or everything in the trash when omitted. */
+export const purgeTrash = async (ids?: string[]): Promise<{ purged: number }> => {
+  const response = await api.post("/trash/purge", ids ? { ids } : {});
+  return response.data.data;
+};
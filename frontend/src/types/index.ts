@@ -29,32 +29,139 @@ export interface Category {
   _id: string;
   name: string;
   description?: string;
+  /** Spending here also counts toward the parent; null at the top level. */
+  parent?: string | null;
   user: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/** One category's share of a split transaction. */
+export interface TransactionSplit {
+  category?: Category | null;
+  amount: number;
+  note?: string;
+}
+
+export type TransactionStatus = "pending" | "cleared" | "reconciled";
+
 export interface Transaction {
   _id: string;
   user: string;
+  /** In `currency`, which is always the account's. */
   amount: number;
+  /** Absent on rows from before multi-currency support. */
+  currency?: string;
+  /**
+   * The same money in the user's base currency at `fxRate`, the rate on the
+   * transaction's date. What every total adds up; falls back to amount.
+   */
+  baseAmount?: number;
+  fxRate?: number;
+  /** On a transfer between currencies: what arrived, in the destination's currency. */
+  transferAmount?: number;
+  /** Unset on a split transaction — the splits carry the categories. */
   category?: Category;
-  type: "income" | "expense" | "transfer";
+  /** Category breakdown of amount. Absent or empty when not split. */
+  splits?: TransactionSplit[];
+  /** Normalised tag names: lowercase, hyphenated. */
+  tags?: string[];
+  type: "income" | "expense" | "transfer" | "trade";
+  /** Only set when type is "trade"; amount is the cash that moved. */
+  trade?: Trade;
   /** Which account the money moved out of (or into, for income). */
   account?: Account;
   /** Destination account. Only set when type is "transfer". */
   transferTo?: Account;
   date: string;
   description?: string;
+  /** The merchant, matched from the description. Never set on transfers. */
+  payee?: { _id: string; name: string } | null;
+  /**
+   * On income: the id of the expense it refunds. Counted as negative spending
+   * in that expense's category, never as income.
+   */
+  refundOf?: string | null;
+  /** On an expense: someone owes this money back. */
+  reimbursable?: boolean;
   /** Where this entry came from. Automated entries are tagged in the UI. */
-  source?: "manual" | "recurring" | "goal";
+  source?: "manual" | "recurring" | "goal" | "import";
   /** Set when source is "recurring" — enables bulk-undo of a rule. */
   recurringId?: string;
+  /** Set when source is "import" — enables bulk-undo of a statement. */
+  importId?: string;
+  /** Receipts and documents. Filled in by the list endpoint only. */
+  attachments?: Attachment[];
+  /** Agreement with the bank. Reconciled rows have their amount, date, type and accounts locked. */
+  status?: TransactionStatus;
+  /** A transfer's arriving leg, reconciled against the other account's statement. */
+  transferStatus?: TransactionStatus;
   createdAt: string;
   updatedAt: string;
 }
 
-export type AccountType = "cash" | "bank" | "card" | "savings";
+export type TransactionHistoryField =
+  | "amount"
+  | "type"
+  | "category"
+  | "splits"
+  | "account"
+  | "transferTo"
+  | "date"
+  | "description"
+  | "tags"
+  | "status"
+  | "transferStatus";
+
+export interface TransactionHistoryEntry {
+  _id: string;
+  transaction: string;
+  action: "create" | "update" | "delete" | "restore";
+  /** ref is the recurring rule, goal or import batch for automated changes. */
+  actor: { kind: "user" | "recurring" | "goal" | "import"; ref?: string };
+  /** Ids as strings, dates as ISO strings; null where the field was unset. */
+  changes: { field: TransactionHistoryField; from: unknown; to: unknown }[];
+  createdAt: string;
+}
+
+/**
+ * A deleted transaction as the trash lists it. Category and account are ids
+ * here, not populated objects.
+ */
+export interface TrashedTransaction
+  extends Omit<Transaction, "category" | "account" | "transferTo" | "splits"> {
+  category?: string;
+  account?: string;
+  transferTo?: string;
+  splits?: { category?: string; amount: number; note?: string }[];
+  deletedAt: string;
+  /** When it is removed for good. */
+  purgeAt: string;
+}
+
+/** Two transactions that look like the same payment entered twice. */
+export interface DuplicateCandidate {
+  _id: string;
+  /** The pair, oldest id first, with account, transferTo and category populated. */
+  transactions: [Transaction, Transaction];
+  /** How alike the descriptions are, 0 to 1. */
+  similarity: number;
+  status: "pending" | "merged" | "kept" | "ignored";
+  createdAt: string;
+}
+
+export interface Attachment {
+  _id: string;
+  transaction: string;
+  filename: string;
+  /** Detected by the server from the file itself. */
+  contentType: "image/jpeg" | "image/png" | "image/webp" | "application/pdf";
+  size: number;
+  hasThumbnail: boolean;
+  createdAt?: string;
+}
+
+export type AccountType = "cash" | "bank" | "card" | "savings" | "loan" | "investment";
 
 export interface Account {
   _id: string;
@@ -67,16 +174,250 @@ export interface Account {
   isDefault: boolean;
   /** Derived server-side: openingBalance + income - expenses +/- transfers. */
   balance: number;
+  /** Like balance, counting only cleared and reconciled transactions. */
+  clearedBalance: number;
+  /** Like balance, counting only reconciled transactions. */
+  reconciledBalance: number;
+  /**
+   * balance in the user's base currency, each transaction at the rate on its
+   * day. Null when the account's currency has no exchange rate.
+   */
+  baseBalance: number | null;
+  /** The statement date of the last completed reconciliation. */
+  lastReconciledAt?: string;
+  lastReconciledBalance?: number;
+  /** Cards only: the credit line and the days the statement closes and falls due. */
+  creditLimit?: number | null;
+  statementDay?: number | null;
+  dueDay?: number | null;
+  /** creditLimit plus balance; null unless a card with a limit. */
+  availableCredit: number | null;
+  /** The last closed statement; null unless a card with a statement day. */
+  statement: CardStatement | null;
+  /** Loans only: what was borrowed, at what annual rate (%), and how it is repaid. */
+  principal?: number;
+  interestRate?: number;
+  termMonths?: number;
+  paymentDay?: number;
+  startDate?: string;
+  /** Where a loan stands from its current balance; null on other accounts. */
+  loan: LoanSummary | null;
+  /** Investment accounts only: balance split into cash and the holdings' value. */
+  cashBalance?: number;
+  marketValue?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+/** One day's closing net worth, in the base currency. */
+export interface NetWorthPoint {
+  date: string;
+  /** Accounts in credit, summed. */
+  assets: number;
+  /** Debt on accounts in the red, as a positive sum. */
+  liabilities: number;
+  netWorth: number;
+}
+
+export interface NetWorthHistory {
+  currency: string;
+  interval: "day" | "month";
+  /** Oldest first; the last is today's, computed live. */
+  points: NetWorthPoint[];
+  /** Against the last snapshot a month before the latest point. */
+  change: { since: string; amount: number; percent: number | null } | null;
+}
+
+/** A buy or sell of a security in an investment account. */
+export interface Trade {
+  side: "buy" | "sell";
+  symbol: string;
+  quantity: number;
+  price: number;
+  fees: number;
+}
+
+export interface TradeInput {
+  side: "buy" | "sell";
+  symbol: string;
+  quantity: number;
+  price: number;
+  fees?: number;
+  date?: string;
+  description?: string;
+}
+
+/** An open holding, valued at its latest price, in the account's currency. */
+export interface Position {
+  symbol: string;
+  quantity: number;
+  /** What the units still held cost, at average cost, fees included. */
+  costBasis: number;
+  /** Null when no price is on record; the position is then valued at cost. */
+  price: number | null;
+  priceDate: string | null;
+  marketValue: number;
+  unrealizedGain: number;
+  realizedGain: number;
+}
+
+export interface HoldingTotals {
+  costBasis: number;
+  marketValue: number;
+  unrealizedGain: number;
+  realizedGain: number;
+}
+
+export interface Portfolio {
+  /** The user's base currency, which totals and allocation are in. */
+  currency: string;
+  totals: HoldingTotals;
+  /** Each symbol's market value and percentage share, largest first. */
+  allocation: { symbol: string; marketValue: number; share: number }[];
+  accounts: {
+    account: Pick<Account, "_id" | "name" | "currency">;
+    positions: Position[];
+    totals: HoldingTotals;
+  }[];
+}
+
+/** The price of one unit of a security on a day. */
+export interface SecurityPrice {
+  _id: string;
+  symbol: string;
+  date: string;
+  price: number;
+}
+
+export interface PriceImportResult {
+  imported: number;
+  errors: { line: number; message: string }[];
+}
+
+/** One row of an account statement, signed from the account's side. */
+export interface StatementLine {
+  _id: string;
+  date: string;
+  description: string;
+  type: Transaction["type"];
+  category: string;
+  /** The other account of a transfer, or the payee. */
+  counterparty: string;
+  status: TransactionStatus;
+  amount: number;
+  /** The account's balance after this row. */
+  balance: number;
+}
+
+export interface AccountStatement {
+  account: Pick<Account, "_id" | "name" | "type" | "currency">;
+  start: string;
+  end: string;
+  openingBalance: number;
+  closingBalance: number;
+  moneyIn: number;
+  moneyOut: number;
+  /** Oldest first. */
+  transactions: StatementLine[];
+}
+
+/** One payment of a loan, split into interest and principal. */
+export interface AmortizationRow {
+  number: number;
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  /** What is still owed after this payment. */
+  balance: number;
+}
+
+export interface LoanSummary {
+  monthlyPayment: number;
+  remainingBalance: number;
+  /** Interest over the original term. */
+  totalInterest: number;
+  /** Interest still to pay from the current balance. */
+  interestRemaining: number;
+  paymentsLeft: number;
+  nextPayment: AmortizationRow | null;
+  payoffDate: string | null;
+  /** Only from the amortization endpoint. */
+  schedule?: AmortizationRow[];
+}
+
+/** What a card's last closed statement owes, in the card's currency. */
+export interface CardStatement {
+  closingDate: string;
+  dueDate: string | null;
+  statementBalance: number;
+  /** Transfers into the card since the statement closed. */
+  paid: number;
+  remaining: number;
+}
+
+/** One day's rate: what one unit of `currency` is worth in the pivot (USD). */
+export interface FxRate {
+  _id: string;
+  currency: string;
+  date: string;
+  rate: number;
+}
+
+/** A currency the rate table can convert, with its latest rate. */
+export interface FxCurrency {
+  currency: string;
+  rate: number;
+  date: string;
+  /** Days of rates on record. */
+  count: number;
+}
+
+export interface FxRateImportResult {
+  imported: number;
+  errors: { line: number; message: string }[];
+  reconverted: { updated: number; skipped: number };
+}
+
+export interface ReconciliationRow {
+  _id: string;
+  date: string;
+  description?: string;
+  type: Transaction["type"];
+  category?: { _id: string; name: string } | null;
+  status: TransactionStatus;
+  /** Signed for this account: positive in, negative out. */
+  amount: number;
+}
+
+/** An account's open reconciliation; session is null when none is open. */
+export interface ReconciliationView {
+  account: Account;
+  session: {
+    _id: string;
+    statementDate: string;
+    statementBalance: number;
+  } | null;
+  transactions: ReconciliationRow[];
+  clearedBalance: number | null;
+  /** Statement balance minus cleared balance; 0 means it can be finished. */
+  difference: number | null;
+}
+
 export interface AccountInput {
   name: string;
   type?: AccountType;
   openingBalance?: number;
   currency?: string;
   isArchived?: boolean;
+  creditLimit?: number | null;
+  statementDay?: number | null;
+  dueDay?: number | null;
+  principal?: number;
+  interestRate?: number;
+  termMonths?: number;
+  paymentDay?: number;
+  startDate?: string;
 }
 
 export type NotificationType = "budget" | "goal" | "report" | "system";
@@ -91,6 +432,9 @@ export interface Notification {
   readAt?: string;
   meta?: {
     href?: string;
+    /** Set on an "over budget" alert once the month is back under. */
+    resolved?: boolean;
+    resolvedAt?: string;
     [key: string]: unknown;
   };
   dedupeKey: string;
@@ -138,6 +482,163 @@ export interface RecurringInput {
   description?: string;
 }
 
+/** An expense with what has been refunded against it so far. */
+export interface RefundableExpense extends Transaction {
+  refunded: number;
+  outstanding: number;
+}
+
+export interface Payee {
+  _id: string;
+  name: string;
+  /** Matched anywhere in a description, whole words only; * is a wildcard. */
+  aliases: string[];
+  /** Linked transactions, and the expenses among them. */
+  count: number;
+  spent: number;
+  lastDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PayeeInput {
+  name: string;
+  aliases: string[];
+}
+
+export interface Tag {
+  _id: string;
+  user: string;
+  name: string;
+  color?: string;
+  /** Transactions carrying this tag. */
+  count: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RuleOperator = "contains" | "startsWith" | "endsWith" | "equals";
+
+/** When a rule applies. The description match is case-insensitive. */
+export interface RuleConditions {
+  operator: RuleOperator;
+  value: string;
+  type?: "income" | "expense";
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+/** What a matching rule sets. Category and account are ids. */
+export interface RuleActions {
+  category?: string;
+  account?: string;
+  tags?: string[];
+}
+
+export interface CategorizationRule {
+  _id: string;
+  user: string;
+  name: string;
+  /** Lower runs first. */
+  priority: number;
+  isActive: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RuleInput {
+  name: string;
+  isActive?: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+export interface RulePreviewRow {
+  _id: string;
+  date: string;
+  description?: string;
+  amount: number;
+  type: "income" | "expense";
+  category?: string;
+  account?: string;
+  changes: RuleActions;
+}
+
+export interface RulePreview {
+  /** Rows whose conditions match. */
+  matched: number;
+  /** Of those, rows the rule would actually change. */
+  changed: number;
+  /** The first few changed rows, newest first. */
+  sample: RulePreviewRow[];
+}
+
+export type ImportFormat = "csv" | "ofx" | "qif";
+
+export type ImportDateFormat = "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY";
+
+/** CSV header names for each field. Fields left empty are guessed server-side. */
+export interface ImportMapping {
+  date?: string | null;
+  amount?: string | null;
+  description?: string | null;
+  category?: string | null;
+  dateFormat?: ImportDateFormat;
+}
+
+export interface ImportPreviewRow {
+  /** Line in the source file, for matching errors back to the statement. */
+  line: number;
+  date: string;
+  /** Always positive; the sign in the file decided `type`. */
+  amount: number;
+  type: "income" | "expense";
+  description: string;
+  /** Category as written in the file. */
+  categoryName: string;
+  /** The user's category with that name, when one exists. */
+  category: string | null;
+  /** An existing transaction has the same day, amount and description. */
+  duplicate: boolean;
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  /** CSV header row. Empty for OFX and QIF. */
+  columns: string[];
+  mapping: ImportMapping;
+  rows: ImportPreviewRow[];
+  errors: { line: number; message: string }[];
+  duplicates: number;
+}
+
+export interface ImportCommitInput {
+  format: ImportFormat;
+  filename?: string;
+  /** Omit to post every row to the default account. */
+  account?: string;
+  rows: Pick<
+    ImportPreviewRow,
+    "line" | "date" | "amount" | "type" | "description" | "category"
+  >[];
+}
+
+export interface ImportBatch {
+  _id: string;
+  user: string;
+  filename?: string;
+  format: ImportFormat;
+  account?: Pick<Account, "_id" | "name">;
+  imported: number;
+  failed: number;
+  status: "completed" | "undone";
+  undoneAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Budget {
   _id: string;
   user: string;
@@ -171,11 +672,19 @@ export interface SignupCredentials {
   name: string;
   email: string;
   password: string;
+  /** Two-letter code; starter categories are named for it. */
+  country?: string;
+  /** A CategoryTemplate id to start with. */
+  categoryTemplate?: string;
 }
 
 export interface TransactionInput {
   amount: number;
   category?: string;
+  /** Must add up to amount. An empty array un-splits on update. */
+  splits?: { category?: string; amount: number; note?: string }[];
+  /** Replaces the whole list. New names are added to the tag registry. */
+  tags?: string[];
   type: "income" | "expense" | "transfer";
   /** Omit to use the user's default account. */
   account?: string;
@@ -183,11 +692,36 @@ export interface TransactionInput {
   transferTo?: string;
   date?: string;
   description?: string;
+  /** On income, the expense it refunds; null unlinks on update. */
+  refundOf?: string | null;
+  reimbursable?: boolean;
+}
+
+/** What names a category: shown before it is deleted or merged. */
+export interface CategoryUsage {
+  transactions: number;
+  recurring: number;
+  /** Budget months with an allocation for it. */
+  budgets: number;
+  /** Categorization rules that file into it. */
+  rules: number;
+  subcategories: number;
+}
+
+/** A starter set of categories, named for one country. */
+export interface CategoryTemplate {
+  id: string;
+  name: string;
+  description: string;
+  /** Parents first; `parent` is the parent's key, null at the top level. */
+  categories: { key: string; name: string; parent: string | null }[];
 }
 
 export interface CategoryInput {
   name: string;
   description?: string;
+  /** null moves the category to the top level. */
+  parent?: string | null;
 }
 
 export interface BudgetInput {
@@ -0,0 +1,159 @@
+/* Category hierarchy on the client.
+ *
+ * A category may have a parent, and spending on a child counts toward every
+ * category above it, as it does for budgets on the server. Charts start at
+ * the top level and drill down one parent at a time.
+ *
+ * A category whose parent is missing from the list is treated as top-level,
+ * so a stale parent id never hides it.
+ */
+import { categoryLines } from "./splits";
+import { spendSign } from "./transactionType";
+import type { Category, Transaction } from "../types";
+
+/** Key for spending with no category. */
+export const UNCATEGORIZED = "";
+
+export interface CategorySlice {
+  /** Category id; UNCATEGORIZED, or the parent's id for its own spending. */
+  id: string;
+  name: string;
+  value: number;
+  /** True when the slice can be drilled into. */
+  hasChildren: boolean;
+}
+
+const parentOf = (category: Category, ids: Set<string>): string | null =>
+  category.parent && ids.has(category.parent) ? category.parent : null;
+
+/** Children of each category, by name; top-level ones under null. */
+export const childrenByParent = (categories: Category[]): Map<string | null, Category[]> => {
+  const ids = new Set(categories.map((category) => category._id));
+  const map = new Map<string | null, Category[]>();
+  for (const category of categories) {
+    const parent = parentOf(category, ids);
+    map.set(parent, [...(map.get(parent) || []), category]);
+  }
+  for (const list of map.values()) list.sort((a, b) => a.name.localeCompare(b.name));
+  return map;
+};
+
+/** Every category below `id`, at any depth. */
+export const descendantIds = (categories: Category[], id: string): Set<string> => {
+  const children = childrenByParent(categories);
+  const found = new Set<string>();
+  const queue = [id];
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift() as string) || []) {
+      if (child._id === id || found.has(child._id)) continue;
+      found.add(child._id);
+      queue.push(child._id);
+    }
+  }
+  return found;
+};
+
+/** The categories from the top level down to `id`, inclusive. */
+export const categoryPath = (categories: Category[], id: string | null): Category[] => {
+  const byId = new Map(categories.map((category) => [category._id, category]));
+  const path: Category[] = [];
+  let current = id ? byId.get(id) : undefined;
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent ? byId.get(current.parent) : undefined;
+  }
+  return path;
+};
+
+/** Spending by category id, net of refunds, in the base currency. */
+export const spendingByCategory = (transactions: Transaction[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  transactions
+    .filter((t) => spendSign(t) !== 0)
+    .forEach((t) => {
+      categoryLines(t).forEach(({ categoryId = UNCATEGORIZED, amount }) => {
+        totals[categoryId] = (totals[categoryId] || 0) + spendSign(t) * amount;
+      });
+    });
+  return totals;
+};
+
+/** Spending on a category and everything below it. */
+export const rolledUpSpending = (
+  spending: Record<string, number>,
+  categories: Category[],
+  id: string
+): number =>
+  [id, ...descendantIds(categories, id)].reduce((sum, each) => sum + (spending[each] || 0), 0);
+
+/**
+ * One slice per child of `parentId` (the top level when null), each with the
+ * spending below it. Inside a parent, what was filed on the parent itself is
+ * a slice of its own. Largest first; empty slices are left out.
+ */
+export const drillDown = (
+  spending: Record<string, number>,
+  categories: Category[],
+  parentId: string | null
+): CategorySlice[] => {
+  const children = childrenByParent(categories);
+  const slices: CategorySlice[] = (children.get(parentId) || []).map((category) => ({
+    id: category._id,
+    name: category.name,
+    value: rolledUpSpending(spending, categories, category._id),
+    hasChildren: (children.get(category._id) || []).length > 0,
+  }));
+
+  if (parentId) {
+    const parent = categories.find((category) => category._id === parentId);
+    slices.push({ id: parentId, name: `${parent?.name || "Other"} (direct)`, value: spending[parentId] || 0, hasChildren: false });
+  } else {
+    // Spending filed under a category that has since been deleted counts as
+    // uncategorized, along with spending that never had one.
+    const known = new Set(categories.map((category) => category._id));
+    const orphaned = Object.entries(spending)
+      .filter(([id]) => id === UNCATEGORIZED || !known.has(id))
+      .reduce((sum, [, value]) => sum + value, 0);
+    slices.push({ id: UNCATEGORIZED, name: "Uncategorized", value: orphaned, hasChildren: false });
+  }
+
+  return slices
+    .map((slice) => ({ ...slice, value: Math.round(slice.value * 100) / 100 }))
+    .filter((slice) => slice.value > 0)
+    .sort((a, b) => b.value - a.value);
+};
+
+/** Every category in tree order, parents before their children, with its depth. */
+export const flattenTree = (categories: Category[]): { category: Category; depth: number }[] => {
+  const children = childrenByParent(categories);
+  const rows: { category: Category; depth: number }[] = [];
+  const seen = new Set<string>();
+  const visit = (parent: string | null, depth: number) => {
+    for (const category of children.get(parent) || []) {
+      if (seen.has(category._id)) continue;
+      seen.add(category._id);
+      rows.push({ category, depth });
+      visit(category._id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return rows;
+};
+
+/** A category's name indented to its depth, for a <select>. */
+export const indentedName = (name: string, depth: number): string =>
+  `${"\u00a0\u00a0\u00a0".repeat(depth)}${name}`;
+
+/**
+ * What a set of category budgets takes out of the total. A budget inside
+ * another budgeted category is part of that one, so it is not counted twice.
+ */
+export const allocatedAmount = (
+  rows: { category: string; amount: number }[],
+  categories: Category[]
+): number => {
+  const budgeted = new Set(rows.map((row) => row.category).filter(Boolean));
+  return rows
+    .filter((row) => !categoryPath(categories, row.category).slice(0, -1).some((above) => budgeted.has(above._id)))
+    .reduce((sum, row) => sum + (row.amount || 0), 0);
+};
@@ -13,7 +13,7 @@ import type {
   CategoryDelta,
   PeriodDeltas,
 } from "../hooks/useDashboard";
-import type { Budget, Transaction } from "../types";
+import type { Budget, Category, Transaction } from "../types";
 
 export type InsightTone = "positive" | "warning" | "critical" | "neutral";
 
@@ -40,14 +40,28 @@ interface InsightInputs {
   categoryDeltas: CategoryDelta[];
   budget: { budget: Budget | null } | undefined;
   transactions: Transaction[];
+  categories: Category[];
 }
 
 export function computeInsights(inputs: InsightInputs): Insight[] {
-  const { stats, deltas, categoryDeltas, budget, transactions } = inputs;
+  const { stats, deltas, categoryDeltas, budget, transactions, categories } = inputs;
   const out: Insight[] = [];
 
   // --- Brand-new user with no data ---
   if ((!transactions || transactions.length === 0) && stats.totalIncome === 0 && stats.totalExpenses === 0) {
+    // Categories first: transactions logged without them land in "Uncategorized".
+    if (categories.length === 0) {
+      out.push({
+        id: "onboard-starter-categories",
+        tone: "neutral",
+        icon: "🗂️",
+        message:
+          "Welcome — pick a starter set of categories for your situation, then log your first transaction.",
+        priority: 0,
+        href: "/categories",
+      });
+      return out;
+    }
     out.push({
       id: "onboard-first-transaction",
       tone: "neutral",
@@ -0,0 +1,44 @@
+/* Category attribution for split transactions.
+ *
+ * A split transaction has no category of its own; its splits do. Anything that
+ * totals spending by category must go through categoryLines, or a 100 receipt
+ * split 70/30 would show up as 100 of "Uncategorized".
+ */
+import type { Transaction } from "../types";
+
+export interface CategoryLine {
+  categoryId?: string;
+  name: string;
+  amount: number;
+}
+
+export const isSplit = (t: Pick<Transaction, "splits">) =>
+  (t.splits?.length ?? 0) > 0;
+
+/**
+ * One entry per split, or the transaction itself when it is not split.
+ * Amounts are in the base currency, ready to be totalled.
+ */
+export const categoryLines = (t: Transaction): CategoryLine[] => {
+  if (t.splits && t.splits.length > 0) {
+    return t.splits.map((split) => ({
+      categoryId: split.category?._id,
+      name: split.category?.name || "Uncategorized",
+      amount: Math.round(split.amount * (t.fxRate ?? 1) * 100) / 100,
+    }));
+  }
+  return [
+    {
+      categoryId: t.category?._id,
+      name: t.category?.name || "Uncategorized",
+      amount: t.baseAmount ?? t.amount,
+    },
+  ];
+};
+
+/** Category text for a single row, e.g. "Groceries, Household" for a split. */
+export const categoryLabel = (t: Transaction): string =>
+  categoryLines(t)
+    .map((line) => line.name)
+    .filter((name, i, names) => names.indexOf(name) === i)
+    .join(", ");
@@ -11,7 +11,7 @@
  */
 import type { Transaction } from "../types";
 
-export type TransactionKind = "income" | "expense" | "transfer";
+export type TransactionKind = "income" | "expense" | "transfer" | "trade";
 
 const kindOf = (t: Pick<Transaction, "type">): TransactionKind =>
   t.type as TransactionKind;
@@ -19,19 +19,62 @@ const kindOf = (t: Pick<Transaction, "type">): TransactionKind =>
 export const isIncome = (t: Pick<Transaction, "type">) => kindOf(t) === "income";
 export const isExpense = (t: Pick<Transaction, "type">) => kindOf(t) === "expense";
 export const isTransfer = (t: Pick<Transaction, "type">) => kindOf(t) === "transfer";
+/**
+ * A buy or sell in an investment account. Cash changed into holdings and
+ * back, so like a transfer it is neither income nor spending.
+ */
+export const isTrade = (t: Pick<Transaction, "type">) => kindOf(t) === "trade";
+
+/**
+ * Income linked to the expense it refunds. Money back rather than money
+ * earned: it comes off spending in that expense's category instead.
+ */
+export const isRefund = (t: Pick<Transaction, "type" | "refundOf">) =>
+  isIncome(t) && Boolean(t.refundOf);
+
+/**
+ * How a row counts toward spending: 1 for an expense, -1 for a refund, 0 for
+ * everything else. Multiply amounts (or category lines) by it when summing
+ * spending, so a returned purchase gives its category the money back.
+ */
+export const spendSign = (t: Pick<Transaction, "type" | "refundOf">): number => {
+  if (isExpense(t)) return 1;
+  if (isRefund(t)) return -1;
+  return 0;
+};
 
-/** Money the user actually earned. Excludes transfers. */
+/**
+ * A row's amount in the user's base currency. Every total adds these up, so
+ * rows from accounts in different currencies can be summed at all.
+ */
+export const baseAmountOf = (t: Pick<Transaction, "amount" | "baseAmount">): number =>
+  t.baseAmount ?? t.amount;
+
+/** True when a row's own currency is not the base one, so both figures are worth showing. */
+export const isForeign = (t: Pick<Transaction, "currency">, baseCurrency: string) =>
+  Boolean(t.currency) && t.currency !== baseCurrency;
+
+/** Money the user actually earned. Excludes transfers and refunds. */
 export const sumIncome = (transactions: Transaction[]) =>
-  transactions.filter(isIncome).reduce((sum, t) => sum + t.amount, 0);
+  transactions
+    .filter((t) => isIncome(t) && !isRefund(t))
+    .reduce((sum, t) => sum + baseAmountOf(t), 0);
 
-/** Money the user actually spent. Excludes transfers between their own accounts. */
+/**
+ * Money the user actually spent, net of refunds. Excludes transfers between
+ * their own accounts.
+ */
 export const sumExpenses = (transactions: Transaction[]) =>
-  transactions.filter(isExpense).reduce((sum, t) => sum + t.amount, 0);
+  transactions.reduce((sum, t) => sum + spendSign(t) * baseAmountOf(t), 0);
 
-/** The sign shown next to an amount. A transfer is neither a gain nor a loss. */
-export const amountPrefix = (t: Pick<Transaction, "type">): string => {
+/**
+ * The sign shown next to an amount. A transfer is neither a gain nor a loss;
+ * a trade shows the way its cash went.
+ */
+export const amountPrefix = (t: Pick<Transaction, "type" | "trade">): string => {
   if (isIncome(t)) return "+";
   if (isExpense(t)) return "-";
+  if (isTrade(t)) return t.trade?.side === "sell" ? "+" : "-";
   return "";
 };
 
@@ -39,6 +82,7 @@ export const amountPrefix = (t: Pick<Transaction, "type">): string => {
 export const amountColor = (t: Pick<Transaction, "type">): string => {
   if (isIncome(t)) return "text-emerald-600";
   if (isTransfer(t)) return "text-blue-600";
+  if (isTrade(t)) return "text-violet-600";
   return "text-slate-900";
 };
 
@@ -46,11 +90,13 @@ export const amountColor = (t: Pick<Transaction, "type">): string => {
 export const typeChipColor = (t: Pick<Transaction, "type">): string => {
   if (isIncome(t)) return "bg-emerald-100 text-emerald-600";
   if (isTransfer(t)) return "bg-blue-100 text-blue-600";
+  if (isTrade(t)) return "bg-violet-100 text-violet-600";
   return "bg-red-100 text-red-600";
 };
 
 export const typeLabel = (t: Pick<Transaction, "type">): string => {
   if (isIncome(t)) return "Income";
   if (isTransfer(t)) return "Transfer";
+  if (isTrade(t)) return "Trade";
   return "Expense";
 };